@@ -8,6 +8,7 @@
 // ============================================================================
 
 import { BaseroSDK, AmountFormatter, Validators } from '../src/index';
+import { ChainlinkPriceSource } from '../src/GasFeeEstimator';
 import { ethers } from 'ethers';
 
 export async function exampleSimpleDeposit() {
@@ -53,22 +54,14 @@ export async function exampleSimpleDeposit() {
   // Get vault
   const vault = sdk.getVault();
 
-  // Approve vault
-  console.log('Approving vault...');
-  const approval = await token.approve(
-    config.addresses.vault,
-    ethers.MaxUint256
-  );
-  console.log(`✓ Approved at tx: ${approval.hash}`);
-
-  // Deposit
-  console.log(`Depositing ${depositAmount} BASE...`);
-  const deposit = await vault.deposit(depositAmount, userAddress);
+  // Deposit (ETH is sent as msg.value)
+  console.log(`Depositing ${depositAmount} ETH...`);
+  const deposit = await vault.deposit(depositAmount);
   console.log(`✓ Deposit successful: ${deposit.hash}`);
 
-  // Check new vault balance
-  const vaultBalance = await vault.getBalance(userAddress);
-  console.log(`New vault shares: ${vaultBalance.formatted}`);
+  // Check new vault position
+  const info = await vault.getUserInfo(userAddress);
+  console.log(`New balance: ${info.balance.formatted} at ${info.rate.percent}%`);
 }
 
 // ============================================================================
@@ -239,17 +232,20 @@ export async function exampleCrossChainTransfer() {
     return;
   }
 
-  // Send tokens to Base
+  // Send tokens to Base (CCIP chain selector)
   const recipientAddress = '0x...';
-  const baseChainId = 8453;
+  const baseChainSelector = 15971525489660198786n;
+
+  const quote = await bridge.quoteFee(baseChainSelector, recipientAddress, '50');
+  console.log(`CCIP fee: ${quote.fee.formatted} LINK`);
 
   console.log(`Sending 50 BASE to Base network...`);
-  const transfer = await bridge.sendTokens(
-    baseChainId,
+  const transfer = await bridge.bridgeTokens(
+    baseChainSelector,
     recipientAddress,
     '50'
   );
-  console.log(`✓ Transfer initiated at tx: ${transfer.hash}`);
+  console.log(`✓ Transfer initiated at tx: ${transfer.hash}, message ${transfer.data?.messageId}`);
 
   // In a real scenario, you would wait for CCIP confirmation
   console.log('Waiting for CCIP confirmation...');
@@ -302,37 +298,34 @@ export async function exampleBatchTransaction() {
 // EXAMPLE 6: Fee Estimation
 // ============================================================================
 
-export async function exampleFeeEstimation() {
+export async function exampleFeeEstimation(sdk: BaseroSDK) {
   console.log('=== Fee Estimation Example ===\n');
 
-  import { FeeEstimator } from '../src/Utils';
-
-  const provider = new ethers.JsonRpcProvider(
-    'https://sepolia.drpc.org'
-  );
-
-  // Get current gas price
-  const feeData = await provider.getFeeData();
-  const gasPrice = feeData.gasPrice || BigInt(0);
+  // Fiat prices from Chainlink feeds (any PriceSource works)
+  const estimator = sdk.getFeeEstimator({
+    priceSource: new ChainlinkPriceSource(sdk.getProvider(), {
+      ETH: '0x694AA1769357215DE4FAC081bf1f309aDC325306',
+      LINK: '0xc59E3633BAAC79493d908e63626716e204A45EdF',
+    }),
+  });
 
-  console.log(`Current gas price: ${ethers.formatUnits(gasPrice, 'gwei')} gwei\n`);
+  const tiers = await estimator.getFeeTiers();
+  console.log(`Base fee: ${ethers.formatUnits(tiers.baseFeePerGas, 'gwei')} gwei\n`);
 
-  // Estimate various operations
-  const operations = [
-    { name: 'Transfer', gas: FeeEstimator.estimateTransferGas() },
-    { name: 'Deposit', gas: FeeEstimator.estimateDepositGas() },
-    { name: 'Withdraw', gas: FeeEstimator.estimateWithdrawGas() },
-    { name: 'Vote', gas: FeeEstimator.estimateVoteCastGas() },
-    { name: 'Proposal', gas: FeeEstimator.estimateProposalGas() },
-    { name: 'Cross-chain', gas: FeeEstimator.estimateCrossChainGas() },
+  const user = await sdk.getSigner()!.getAddress();
+  const estimates = [
+    { name: 'Transfer', cost: await sdk.getToken().estimateCost('transfer', [user, ethers.parseEther('1')], estimator) },
+    { name: 'Deposit', cost: await sdk.getVault().estimateCost('deposit', [], estimator, { value: ethers.parseEther('0.1') }) },
+    { name: 'Cross-chain', cost: await sdk.getBridge().estimateBridgeCost(16015286601757825753n, user, '10', estimator) },
   ];
 
-  for (const op of operations) {
-    const fee = FeeEstimator.calculateFee(op.gas, gasPrice);
-    const feeEth = parseFloat(ethers.formatUnits(fee));
-    console.log(
-      `${op.name.padEnd(15)} → ${op.gas} gas → $${(feeEth * 2000).toFixed(2)}`
-    );
+  for (const { name, cost } of estimates) {
+    const normal = cost.tiers.normal;
+    const fiat = normal.fiat ? ` → $${normal.fiat.gas.toFixed(2)}` : '';
+    console.log(`${name.padEnd(15)} → ${cost.gasEstimate} gas${fiat}`);
+    if (cost.ccipFee) {
+      console.log(`${''.padEnd(15)}   + ${ethers.formatEther(cost.ccipFee.amount)} LINK CCIP fee (paid by bridge)`);
+    }
   }
 }
 
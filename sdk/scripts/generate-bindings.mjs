@@ -0,0 +1,531 @@
+#!/usr/bin/env node
+/**
+ * @fileoverview Typed contract binding generator
+ *
+ * Reads the Foundry build artifacts (`out/<Name>.sol/<Name>.json`) for the
+ * protocol contracts and emits one TypeScript module per contract into
+ * `sdk/src/generated/`. Each module exports the JSON ABI, typed event and
+ * custom-error shapes, and a `<Name>Contract` class whose methods mirror the
+ * Solidity signatures, so an ABI change surfaces as a type error in the
+ * helpers that consume it.
+ *
+ * Usage:
+ *   forge build
+ *   node sdk/scripts/generate-bindings.mjs [artifactsDir] [outputDir]
+ *
+ * Defaults to `<repo>/out` and `<repo>/sdk/src/generated`. Contracts without
+ * an artifact are skipped with a warning.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..', '..');
+
+const CONTRACTS = [
+  'RebaseToken',
+  'RebaseTokenVault',
+  'EnhancedCCIPBridge',
+  'BASEGovernor',
+  'BASETimelock',
+  'BaseEmergencyMultiSig',
+  'PauseRecovery',
+  'AdvancedInterestStrategy',
+  'HealthChecker',
+];
+
+const HEADER = `/* Autogenerated by sdk/scripts/generate-bindings.mjs from the Foundry build. Do not edit. */`;
+
+// ============= Solidity -> TypeScript type mapping =============
+
+function splitArray(type) {
+  const match = type.match(/^(.*)\[(\d*)\]$/);
+  return match ? match[1] : null;
+}
+
+function structName(contract, param) {
+  const internal = param.internalType || '';
+  const match = internal.match(/^struct\s+(?:[\w]+\.)?(\w+)/);
+  return match ? `${contract}${match[1]}` : null;
+}
+
+function outputType(ctx, param) {
+  const inner = splitArray(param.type);
+  if (inner !== null) {
+    const element = { ...param, type: inner, internalType: (param.internalType || '').replace(/\[\d*\]$/, '') };
+    return `${wrap(outputType(ctx, element))}[]`;
+  }
+  if (param.type === 'tuple') return tupleType(ctx, param, 'output');
+  if (/^u?int\d*$/.test(param.type)) return 'bigint';
+  if (param.type === 'bool') return 'boolean';
+  return 'string';
+}
+
+function inputType(ctx, param) {
+  const inner = splitArray(param.type);
+  if (inner !== null) {
+    const element = { ...param, type: inner, internalType: (param.internalType || '').replace(/\[\d*\]$/, '') };
+    return `${wrap(inputType(ctx, element))}[]`;
+  }
+  if (param.type === 'tuple') return tupleType(ctx, param, 'input');
+  if (/^u?int\d*$/.test(param.type)) return 'BigNumberish';
+  if (param.type === 'address') return 'AddressLike';
+  if (param.type === 'bool') return 'boolean';
+  if (param.type === 'string') return 'string';
+  return 'BytesLike';
+}
+
+function wrap(type) {
+  return /[\s&|]/.test(type) ? `(${type})` : type;
+}
+
+/**
+ * Structs become named exports; outputs are ethers Results, so they are typed
+ * as a labelled tuple intersected with the named fields.
+ */
+function tupleType(ctx, param, kind) {
+  const base = structName(ctx.contract, param);
+  const components = param.components || [];
+  const name = base ? `${base}${kind === 'output' ? 'StructOutput' : 'Struct'}` : null;
+
+  if (name && ctx.structs.has(name)) return name;
+
+  const body = kind === 'output'
+    ? resultType(ctx, components)
+    : `{ ${components.map((c, i) => `${c.name || `arg${i}`}: ${inputType(ctx, c)};`).join(' ')} }`;
+
+  if (!name) return body;
+  ctx.structs.set(name, `export type ${name} = ${body};`);
+  return name;
+}
+
+function resultType(ctx, params) {
+  const labels = params.map((p, i) => `${p.name || `arg${i}`}: ${outputType(ctx, p)}`);
+  const named = params
+    .filter((p) => p.name)
+    .map((p) => `${p.name}: ${outputType(ctx, p)};`);
+  const tuple = `[${labels.join(', ')}]`;
+  return named.length ? `${tuple} & { ${named.join(' ')} }` : tuple;
+}
+
+function returnType(ctx, fn) {
+  const outputs = fn.outputs || [];
+  if (outputs.length === 0) return 'void';
+  if (outputs.length === 1) return outputType(ctx, outputs[0]);
+  return resultType(ctx, outputs);
+}
+
+function canonicalType(param) {
+  if (!param.type.startsWith('tuple')) return param.type;
+  return `(${(param.components || []).map(canonicalType).join(',')})${param.type.slice(5)}`;
+}
+
+function signature(item) {
+  return `${item.name}(${item.inputs.map(canonicalType).join(',')})`;
+}
+
+function argName(param, index) {
+  return param.name || `arg${index}`;
+}
+
+// Members of TypedContract a Solidity function name must not shadow
+const RESERVED = new Set([
+  'address', 'connect', 'contract', 'decodeError', 'estimateGas', 'findEvent', 'findEvents', 'getAddress',
+  'interface', 'parseLog', 'populateTransaction', 'queryEvents', 'read', 'runner', 'send', 'staticCall', 'target',
+]);
+
+function methodNameFor(name) {
+  return RESERVED.has(name) ? `${name}_` : name;
+}
+
+function isView(fn) {
+  return fn.stateMutability === 'view' || fn.stateMutability === 'pure';
+}
+
+// ============= Module emitters =============
+
+function emitFunctions(ctx, functions) {
+  const byName = new Map();
+  for (const fn of functions) {
+    if (!byName.has(fn.name)) byName.set(fn.name, []);
+    byName.get(fn.name).push(fn);
+  }
+
+  const methods = [];
+  const writes = [];
+
+  for (const [name, overloads] of byName) {
+    const arities = new Set(overloads.map((fn) => fn.inputs.length));
+    const dispatchByArity = overloads.length > 1 && arities.size === overloads.length && overloads.every(isView);
+
+    if (dispatchByArity) {
+      // Overloaded view: TypeScript overload signatures dispatching on argument count
+      const decls = overloads.map((fn) => {
+        const params = fn.inputs.map((p, i) => `${argName(p, i)}: ${inputType(ctx, p)}`).join(', ');
+        return `  ${methodNameFor(name)}(${params}): Promise<${returnType(ctx, fn)}>;`;
+      });
+      const cases = overloads
+        .map((fn) => `      case ${fn.inputs.length}: return this.read('${signature(fn)}', args);`)
+        .join('\n');
+      methods.push(
+        `${decls.join('\n')}\n  ${methodNameFor(name)}(...args: unknown[]): Promise<any> {\n    switch (args.length) {\n${cases}\n      default: throw new Error('${name}: unexpected argument count');\n    }\n  }`
+      );
+      continue;
+    }
+
+    for (const fn of overloads) {
+      const methodName = overloads.length > 1
+        ? `${name}_${fn.inputs.map((p) => canonicalType(p).replace(/[^\w]/g, '')).join('_')}`
+        : methodNameFor(name);
+      const params = fn.inputs.map((p, i) => `${argName(p, i)}: ${inputType(ctx, p)}`);
+      const args = fn.inputs.map((p, i) => argName(p, i)).join(', ');
+      const returns = returnType(ctx, fn);
+
+      if (isView(fn)) {
+        methods.push(
+          `  ${methodName}(${params.join(', ')}): Promise<${returns}> {\n    return this.read('${signature(fn)}', [${args}]);\n  }`
+        );
+      } else {
+        params.push('overrides: Overrides = {}');
+        methods.push(
+          `  ${methodName}(${params.join(', ')}): Promise<ContractTransactionResponse> {\n    return this.send('${signature(fn)}', [${args}], overrides);\n  }`
+        );
+        const argTypes = fn.inputs.map((p, i) => `${argName(p, i)}: ${inputType(ctx, p)}`).join(', ');
+        writes.push({ methodName, signature: signature(fn), type: `  ${methodName}: { args: [${argTypes}]; result: ${returns} };` });
+      }
+    }
+  }
+
+  return { methods, writes };
+}
+
+function emitEvents(ctx, events) {
+  const interfaces = [];
+  const entries = [];
+
+  for (const event of events) {
+    const typeName = `${ctx.contract}${event.name}Event`;
+    const fields = event.inputs.map((p, i) => {
+      // Indexed dynamic values are only recoverable as their topic hash
+      const hashed = p.indexed && (p.type === 'string' || p.type === 'bytes' || p.type.endsWith(']') || p.type === 'tuple');
+      return `  ${argName(p, i)}: ${hashed ? 'string' : outputType(ctx, p)};`;
+    });
+    interfaces.push(`export interface ${typeName} {\n${fields.join('\n')}\n}`);
+    entries.push(`  ${event.name}: ${typeName};`);
+  }
+
+  return { interfaces, entries };
+}
+
+function emitErrors(ctx, errors) {
+  return errors.map((error) => {
+    const fields = error.inputs.map((p, i) => `${argName(p, i)}: ${outputType(ctx, p)};`);
+    return `  | { name: '${error.name}'; args: { ${fields.join(' ')} }${fields.length ? ' ' : ''}}`.replace('{  }', '{}');
+  });
+}
+
+function emitModule(contract, abi) {
+  const ctx = { contract, structs: new Map() };
+
+  const functions = abi.filter((item) => item.type === 'function').sort((a, b) => a.name.localeCompare(b.name));
+  const events = abi.filter((item) => item.type === 'event').sort((a, b) => a.name.localeCompare(b.name));
+  const errors = abi.filter((item) => item.type === 'error').sort((a, b) => a.name.localeCompare(b.name));
+
+  const { methods, writes } = emitFunctions(ctx, functions);
+  const { interfaces, entries } = emitEvents(ctx, events);
+  const errorVariants = emitErrors(ctx, errors);
+
+  const out = [];
+  out.push(HEADER);
+  out.push(`/**\n * @fileoverview Typed bindings for ${contract}\n */`);
+  out.push(
+    `import type {\n  AddressLike,\n  BigNumberish,\n  BytesLike,\n  ContractRunner,\n  ContractTransactionResponse,\n  Overrides,\n} from 'ethers';\nimport { BuiltinError, TypedContract } from './common';`
+  );
+  out.push(`export const ${contract}Abi = [\n${abi.map((item) => `  ${JSON.stringify(item)},`).join('\n')}\n] as const;`);
+
+  if (ctx.structs.size) out.push([...ctx.structs.values()].join('\n\n'));
+
+  out.push(interfaces.join('\n\n') || `// ${contract} declares no events`);
+  out.push(`export interface ${contract}Events {\n${entries.join('\n')}\n}`);
+  out.push(
+    `export type ${contract}Error =\n${errorVariants.length ? `${errorVariants.join('\n')}\n  | BuiltinError;` : '  BuiltinError;'}`
+  );
+  out.push(`export interface ${contract}WriteFunctions {\n${writes.map((w) => w.type).join('\n')}\n}`);
+  out.push(
+    `const ${contract}WriteSignatures: Record<keyof ${contract}WriteFunctions, string> = {\n${writes.map((w) => `  ${w.methodName}: '${w.signature}',`).join('\n')}\n};`
+  );
+  out.push(
+    `export class ${contract}Contract extends TypedContract<${contract}Events, ${contract}Error, ${contract}WriteFunctions> {\n` +
+    `  static readonly abi = ${contract}Abi;\n\n` +
+    `  constructor(address: string, runner?: ContractRunner | null) {\n    super(address, ${contract}Abi, ${contract}WriteSignatures, runner);\n  }\n\n` +
+    `  connect(runner: ContractRunner | null): ${contract}Contract {\n    return new ${contract}Contract(this.address, runner);\n  }\n\n` +
+    `${methods.join('\n\n')}\n}`
+  );
+  out.push(`export default ${contract}Contract;\n`);
+
+  return out.join('\n\n');
+}
+
+const COMMON = `${HEADER}
+/**
+ * @fileoverview Runtime shared by the generated contract bindings
+ */
+
+import {
+  AbiCoder,
+  Contract,
+  ContractRunner,
+  ContractTransaction,
+  ContractTransactionResponse,
+  EventLog,
+  Indexed,
+  Interface,
+  InterfaceAbi,
+  Log,
+  Overrides,
+  ParamType,
+  Result,
+  dataSlice,
+} from 'ethers';
+
+/**
+ * Solidity's built-in revert payloads, decodable from any contract
+ */
+export type BuiltinError =
+  | { name: 'Error'; args: { message: string } }
+  | { name: 'Panic'; args: { code: bigint } };
+
+export interface TypedEvent<TName extends string, TArgs> {
+  name: TName;
+  args: TArgs;
+  log: Log;
+}
+
+export type ParsedEvent<TEvents> = {
+  [K in keyof TEvents & string]: TypedEvent<K, TEvents[K]>;
+}[keyof TEvents & string];
+
+export interface WriteFunction {
+  args: unknown[];
+  result: unknown;
+}
+
+const ERROR_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+/**
+ * Convert decoded values to a plain object keyed by parameter name
+ */
+export function toNamedArgs(inputs: ReadonlyArray<ParamType>, values: Result): any {
+  const args: Record<string, unknown> = {};
+  inputs.forEach((input, i) => {
+    const value = values[i];
+    args[input.name || \`arg\${i}\`] = value instanceof Indexed ? value.hash : value;
+  });
+  return args;
+}
+
+/**
+ * Base class for generated bindings
+ *
+ * Subclasses add one typed method per ABI function; this class supplies the
+ * event, error and transaction plumbing common to all of them.
+ */
+export abstract class TypedContract<
+  TEvents extends object,
+  TError extends { name: string; args: object },
+  TWrites extends { [K in keyof TWrites]: WriteFunction }
+> {
+  readonly address: string;
+  readonly contract: Contract;
+  readonly interface: Interface;
+  private readonly writeSignatures: Record<string, string>;
+
+  protected constructor(
+    address: string,
+    abi: InterfaceAbi,
+    writeSignatures: Record<keyof TWrites, string>,
+    runner?: ContractRunner | null
+  ) {
+    this.address = address;
+    this.writeSignatures = writeSignatures as Record<string, string>;
+    this.contract = new Contract(address, abi, runner ?? null);
+    this.interface = this.contract.interface;
+  }
+
+  get runner(): ContractRunner | null {
+    return this.contract.runner;
+  }
+
+  get target(): string {
+    return this.address;
+  }
+
+  getAddress(): Promise<string> {
+    return this.contract.getAddress();
+  }
+
+  /**
+   * Decode a log emitted by this contract, or null if it is not one of its events
+   */
+  parseLog(log: Log): ParsedEvent<TEvents> | null {
+    if (log.address.toLowerCase() !== this.address.toLowerCase()) return null;
+
+    try {
+      const parsed = this.interface.parseLog(log);
+      if (!parsed) return null;
+      return {
+        name: parsed.name,
+        args: toNamedArgs(parsed.fragment.inputs, parsed.args),
+        log,
+      } as ParsedEvent<TEvents>;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * First event with the given name in a receipt
+   */
+  findEvent<K extends keyof TEvents & string>(
+    receipt: { logs: ReadonlyArray<Log> } | null | undefined,
+    name: K
+  ): TypedEvent<K, TEvents[K]> | null {
+    return this.findEvents(receipt, name)[0] ?? null;
+  }
+
+  /**
+   * All events with the given name in a receipt, in log order
+   */
+  findEvents<K extends keyof TEvents & string>(
+    receipt: { logs: ReadonlyArray<Log> } | null | undefined,
+    name: K
+  ): TypedEvent<K, TEvents[K]>[] {
+    const events: TypedEvent<K, TEvents[K]>[] = [];
+    for (const log of receipt?.logs || []) {
+      const parsed = this.parseLog(log);
+      if (parsed && parsed.name === name) events.push(parsed as TypedEvent<K, TEvents[K]>);
+    }
+    return events;
+  }
+
+  /**
+   * Query historical events by name
+   */
+  async queryEvents<K extends keyof TEvents & string>(
+    name: K,
+    fromBlock?: number | string,
+    toBlock?: number | string
+  ): Promise<TypedEvent<K, TEvents[K]>[]> {
+    const logs = await this.contract.queryFilter(name, fromBlock, toBlock);
+    return logs
+      .filter((log): log is EventLog => log instanceof EventLog)
+      .map((log) => ({
+        name,
+        args: toNamedArgs(log.fragment.inputs, log.args),
+        log,
+      }));
+  }
+
+  /**
+   * Decode revert data into one of this contract's custom errors
+   */
+  decodeError(data: string | null | undefined): TError | null {
+    if (!data || data.length < 10) return null;
+
+    const selector = dataSlice(data, 0, 4);
+    const payload = dataSlice(data, 4);
+
+    try {
+      if (selector === ERROR_SELECTOR) {
+        const [message] = AbiCoder.defaultAbiCoder().decode(['string'], payload);
+        return { name: 'Error', args: { message } } as unknown as TError;
+      }
+      if (selector === PANIC_SELECTOR) {
+        const [code] = AbiCoder.defaultAbiCoder().decode(['uint256'], payload);
+        return { name: 'Panic', args: { code } } as unknown as TError;
+      }
+
+      const fragment = this.interface.getError(selector);
+      if (!fragment) return null;
+      const values = this.interface.decodeErrorResult(fragment, data);
+      return { name: fragment.name, args: toNamedArgs(fragment.inputs, values) } as TError;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Build an unsigned transaction for a state-changing function
+   */
+  populateTransaction<K extends keyof TWrites & string>(
+    name: K,
+    args: TWrites[K]['args'],
+    overrides: Overrides = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.getFunction(this.writeSignatures[name]).populateTransaction(...args, overrides);
+  }
+
+  /**
+   * Estimate gas for a state-changing function
+   */
+  estimateGas<K extends keyof TWrites & string>(
+    name: K,
+    args: TWrites[K]['args'],
+    overrides: Overrides = {}
+  ): Promise<bigint> {
+    return this.contract.getFunction(this.writeSignatures[name]).estimateGas(...args, overrides);
+  }
+
+  /**
+   * Execute a state-changing function as an eth_call and return its result
+   */
+  staticCall<K extends keyof TWrites & string>(
+    name: K,
+    args: TWrites[K]['args'],
+    overrides: Overrides = {}
+  ): Promise<TWrites[K]['result']> {
+    return this.contract.getFunction(this.writeSignatures[name]).staticCall(...args, overrides);
+  }
+
+  protected read(signature: string, args: unknown[]): Promise<any> {
+    return this.contract.getFunction(signature).staticCall(...args);
+  }
+
+  protected send(signature: string, args: unknown[], overrides: Overrides): Promise<ContractTransactionResponse> {
+    return this.contract.getFunction(signature).send(...args, overrides);
+  }
+}
+`;
+
+// ============= Entry point =============
+
+function main() {
+  const artifactsDir = resolve(process.argv[2] || join(ROOT, 'out'));
+  const outputDir = resolve(process.argv[3] || join(ROOT, 'sdk', 'src', 'generated'));
+
+  mkdirSync(outputDir, { recursive: true });
+
+  const generated = [];
+  for (const contract of CONTRACTS) {
+    const artifact = join(artifactsDir, `${contract}.sol`, `${contract}.json`);
+    if (!existsSync(artifact)) {
+      console.warn(`skip ${contract}: no artifact at ${artifact}`);
+      continue;
+    }
+
+    const { abi } = JSON.parse(readFileSync(artifact, 'utf8'));
+    writeFileSync(join(outputDir, `${contract}.ts`), emitModule(contract, abi));
+    generated.push(contract);
+    console.log(`wrote ${contract} (${abi.length} ABI entries)`);
+  }
+
+  writeFileSync(join(outputDir, 'common.ts'), COMMON);
+  writeFileSync(
+    join(outputDir, 'index.ts'),
+    `${HEADER}\n\nexport * from './common';\n${generated.map((c) => `export * from './${c}';`).join('\n')}\n`
+  );
+}
+
+main();
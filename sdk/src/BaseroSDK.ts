@@ -10,7 +10,35 @@
  * - Ethers.js v6 integration
  */
 
-import { ethers, Contract, Provider, Signer, ContractTransactionResponse } from 'ethers';
+import { ethers, Contract, Provider, Signer } from 'ethers';
+import { GovernanceSignatureHelper } from './GovernanceSignatures';
+import { EventIndexer } from './EventDecoders';
+import { BaseroEventStream, EventStreamOptions } from './EventStream';
+import { LogFetcher, LogFetcherConfig } from './LogFetcher';
+import { BaseroError, decodeBaseroError } from './ErrorDecoder';
+import { PreflightCheck, PreflightGuard, PreflightReport, runPreflight, txOverrides } from './Preflight';
+import { CcipFee, CostEstimate, GasFeeEstimator, GasFeeEstimatorOptions } from './GasFeeEstimator';
+import { SubgraphClient, SubgraphClientConfig } from './SubgraphClient';
+import { ShareAccounting, ShareAccountingOptions } from './ShareAccounting';
+import { PortfolioAnalytics, PortfolioAnalyticsOptions } from './PortfolioAnalytics';
+import { InterestStrategyHelper } from './InterestStrategy';
+import { EmergencyMultiSigHelper } from './EmergencyMultiSig';
+import { RecoveryHelper } from './Recovery';
+import { HealthHelper, HealthMonitor, HealthMonitorOptions } from './Health';
+import { MulticallBatcher } from './Multicall';
+import { BatchOperationsClient } from './BatchOperations';
+import { NetworkRegistry, defaultNetworkRegistry } from './NetworkRegistry';
+import {
+  BASEGovernorContract,
+  BASETimelockContract,
+  EnhancedCCIPBridgeContract,
+  BASEGovernorWriteFunctions,
+  EnhancedCCIPBridgeWriteFunctions,
+  RebaseTokenContract,
+  RebaseTokenVaultContract,
+  RebaseTokenVaultWriteFunctions,
+  RebaseTokenWriteFunctions,
+} from './generated';
 
 /**
  * SDK Version and Configuration
@@ -24,38 +52,10 @@ export const SUPPORTED_CHAINS = {
 };
 
 /**
- * Contract ABI Interfaces (minimal for demonstration)
+ * Typed contract bindings generated from the Foundry build
+ * (regenerate with `make sdk-bindings`)
  */
-export interface RebaseTokenABI {
-  totalSupply(): Promise<bigint>;
-  balanceOf(account: string): Promise<bigint>;
-  transfer(to: string, amount: bigint): Promise<ContractTransactionResponse | null>;
-  approve(spender: string, amount: bigint): Promise<ContractTransactionResponse | null>;
-  allowance(owner: string, spender: string): Promise<bigint>;
-  rebase(percent: bigint): Promise<ContractTransactionResponse | null>;
-}
-
-export interface VaultABI {
-  deposit(amount: bigint, receiver: string): Promise<ContractTransactionResponse | null>;
-  withdraw(shares: bigint, receiver: string, owner: string): Promise<ContractTransactionResponse | null>;
-  balanceOf(account: string): Promise<bigint>;
-  totalAssets(): Promise<bigint>;
-  convertToShares(assets: bigint): Promise<bigint>;
-  convertToAssets(shares: bigint): Promise<bigint>;
-}
-
-export interface BridgeABI {
-  sendTokens(destChain: number, receiver: string, amount: bigint, recipient: string): Promise<ContractTransactionResponse | null>;
-  pause(): Promise<ContractTransactionResponse | null>;
-  unpause(): Promise<ContractTransactionResponse | null>;
-}
-
-export interface GovernorABI {
-  propose(targets: string[], values: bigint[], calldatas: string[], description: string): Promise<ContractTransactionResponse | null>;
-  castVote(proposalId: bigint, support: number): Promise<ContractTransactionResponse | null>;
-  queue(targets: string[], values: bigint[], calldatas: string[], descriptionHash: string): Promise<ContractTransactionResponse | null>;
-  execute(targets: string[], values: bigint[], calldatas: string[], descriptionHash: string): Promise<ContractTransactionResponse | null>;
-}
+export * from './generated';
 
 /**
  * Type definitions
@@ -70,6 +70,35 @@ export interface NetworkConfig {
   governorAddress: string;
   timelockAddress: string;
   votingEscrowAddress: string;
+  linkTokenAddress?: string;
+  governanceTokenAddress?: string;
+  emergencyMultisigAddress?: string;
+  pauseRecoveryAddress?: string;
+  interestStrategyAddress?: string;
+  healthCheckerAddress?: string;
+  batchVaultOperationsAddress?: string;
+  batchTokenOperationsAddress?: string;
+  batchGovernanceOperationsAddress?: string;
+  batchBridgeOperationsAddress?: string;
+  /** BatchOperations MultiCall; reads in the same tick are batched through it */
+  multicallAddress?: string;
+  /** Multicall3 deployment; preferred over `multicallAddress` when both are set */
+  multicall3Address?: string;
+  subgraphUrl?: string;
+}
+
+/**
+ * Options for `BaseroSDK.forChain`
+ */
+export interface ForChainOptions {
+  /** Registry to read the deployment from (default `defaultNetworkRegistry`) */
+  registry?: NetworkRegistry;
+  /** Provider for the chain (default a JsonRpcProvider on the manifest's `rpcUrl`) */
+  provider?: Provider;
+  /** A Wallet without a provider is connected to the chain's; other signers are used as given */
+  signer?: Signer;
+  /** Config fields that win over the manifest */
+  config?: Partial<NetworkConfig>;
 }
 
 export interface TransactionOptions {
@@ -79,6 +108,8 @@ export interface TransactionOptions {
   maxPriorityFeePerGas?: bigint;
   value?: bigint;
   nonce?: number;
+  /** Simulate with eth_call/estimateGas first and skip sending if the preflight fails */
+  simulate?: boolean;
 }
 
 export interface Amount {
@@ -97,8 +128,155 @@ export interface OperationResult<T = any> {
   success: boolean;
   data?: T;
   hash?: string;
-  error?: Error;
+  error?: BaseroError;
   receipt?: any;
+  preflight?: PreflightReport;
+}
+
+export interface InterestRate {
+  bps: bigint;
+  percent: string;
+}
+
+export interface VaultMetrics {
+  totalEthDeposited: Amount;
+  currentInterestRate: InterestRate;
+  accrualPeriod: bigint;
+  timeUntilNextAccrual: bigint;
+  paused: boolean;
+}
+
+export interface VaultDepositPreview {
+  tokens: Amount;
+  rate: InterestRate;
+}
+
+export interface VaultRedeemPreview {
+  ethOut: Amount;
+  minEthOut: Amount;
+  slippageBps: number;
+}
+
+export interface VaultUserInfo {
+  shares: bigint;
+  balance: Amount;
+  ethDeposited: Amount;
+  rate: InterestRate;
+  lastAccrual: bigint;
+}
+
+export interface AccrualCountdown {
+  secondsRemaining: bigint;
+  nextAccrualAt: bigint;
+  overdue: boolean;
+}
+
+export interface BridgeChainConfig {
+  chainSelector: bigint;
+  enabled: boolean;
+  receiver: string;
+  minAmount: Amount;
+  maxAmount: Amount;
+  batchWindow: bigint;
+}
+
+export interface BridgeRateLimitStatus {
+  sourceChain: bigint;
+  tokensPerSecond: bigint;
+  maxBurstSize: bigint;
+  tokensAvailable: bigint;
+  lastUpdate: bigint;
+}
+
+export interface BridgeBatchDetails {
+  id: bigint;
+  destinationChain: bigint;
+  totalAmount: Amount;
+  recipientCount: number;
+  timestamp: bigint;
+  executed: boolean;
+  recipients: string[];
+  amounts: bigint[];
+}
+
+export interface BridgeFeeQuote {
+  fee: Amount;
+  routerFee?: Amount;
+  bridgeLinkBalance?: Amount;
+  /** Whether `bridgeTokens` can pay the CCIP fee */
+  sufficient?: boolean;
+  /** Why the fee cannot be paid, when `sufficient` is false */
+  insufficientReason?: string;
+}
+
+export interface BridgeTransferResult {
+  messageId: string;
+  destinationChain: bigint;
+  recipient: string;
+  amount: bigint;
+  fees: bigint;
+}
+
+/**
+ * Governor proposal states (OpenZeppelin IGovernor.ProposalState)
+ */
+export enum ProposalState {
+  Pending = 0,
+  Active = 1,
+  Canceled = 2,
+  Defeated = 3,
+  Succeeded = 4,
+  Queued = 5,
+  Expired = 6,
+  Executed = 7,
+}
+
+/**
+ * BASEGovernor.ProposalType
+ */
+export enum ProposalType {
+  FeeUpdate = 0,
+  CapUpdate = 1,
+  AccrualUpdate = 2,
+  TreasuryManagement = 3,
+  ContractUpgrade = 4,
+  Other = 5,
+}
+
+export interface ProposalActions {
+  targets: string[];
+  values: bigint[];
+  calldatas: string[];
+  description: string;
+}
+
+export interface ProposalVotes {
+  against: bigint;
+  for: bigint;
+  abstain: bigint;
+}
+
+export interface ProposalMetadata {
+  title: string;
+  description: string;
+  createdAt: bigint;
+  proposer: string;
+  proposalType: ProposalType;
+}
+
+export interface ProposalInfo {
+  proposalId: bigint;
+  state: ProposalState;
+  snapshot: bigint;
+  deadline: bigint;
+  eta: bigint;
+  votes: ProposalVotes;
+  quorum: bigint;
+}
+
+export interface WaitOptions {
+  pollIntervalMs?: number;
+  timeoutMs?: number;
 }
 
 /**
@@ -108,6 +286,9 @@ export class BaseroSDK {
   private provider: Provider;
   private signer?: Signer;
   private config: NetworkConfig;
+  private eventStream?: BaseroEventStream;
+  private eventStreamOptions?: EventStreamOptions;
+  private multicall?: MulticallBatcher;
   private constants = {
     DECIMALS: 18,
     ZERO_ADDRESS: '0x' + '0'.repeat(40),
@@ -130,6 +311,42 @@ export class BaseroSDK {
     this.signer = signer;
 
     this.validateConfig();
+
+    if (config.multicall3Address) {
+      this.multicall = new MulticallBatcher(this.provider, { address: config.multicall3Address, kind: 'multicall3' });
+    } else if (config.multicallAddress) {
+      this.multicall = new MulticallBatcher(this.provider, { address: config.multicallAddress, kind: 'basero' });
+    }
+    if (this.multicall) this.provider = this.multicall.wrap();
+  }
+
+  /**
+   * Create an SDK for a chain in the network registry
+   */
+  static forChain(chainId: number, options: ForChainOptions = {}): BaseroSDK {
+    const registry = options.registry ?? defaultNetworkRegistry;
+    const config = registry.getConfig(chainId, options.config);
+    const provider = options.provider ?? new ethers.JsonRpcProvider(config.rpcUrl, chainId, { staticNetwork: true });
+
+    // JSON-RPC and browser signers cannot be reconnected
+    const signer = options.signer && !options.signer.provider && options.signer instanceof ethers.BaseWallet
+      ? options.signer.connect(provider)
+      : options.signer;
+
+    return new BaseroSDK(provider, config, signer);
+  }
+
+  /**
+   * Create an SDK for every chain in the registry (or the given ones), keyed by chainId
+   */
+  static forChains(
+    chainIds?: number[],
+    options: Omit<ForChainOptions, 'provider'> & { providers?: Record<number, Provider> } = {}
+  ): Map<number, BaseroSDK> {
+    const { providers, ...shared } = options;
+    const ids = chainIds ?? (options.registry ?? defaultNetworkRegistry).getChainIds();
+
+    return new Map(ids.map((chainId) => [chainId, BaseroSDK.forChain(chainId, { ...shared, provider: providers?.[chainId] })]));
   }
 
   /**
@@ -204,7 +421,8 @@ export class BaseroSDK {
       this.provider,
       this.config.bridgeAddress,
       this.config.tokenAddress,
-      this.signer
+      this.signer,
+      this.config.linkTokenAddress
     );
   }
 
@@ -221,6 +439,180 @@ export class BaseroSDK {
     );
   }
 
+  /**
+   * Get EIP-712 delegation and ballot signature helper
+   */
+  getGovernanceSignatures(): GovernanceSignatureHelper {
+    if (!this.config.governanceTokenAddress) {
+      throw new Error('Missing required config: governanceTokenAddress');
+    }
+
+    return new GovernanceSignatureHelper(
+      this.provider,
+      this.config.governanceTokenAddress,
+      this.config.governorAddress,
+      this.signer
+    );
+  }
+
+  /**
+   * Get emergency multisig proposal helper
+   */
+  getEmergencyMultiSig(): EmergencyMultiSigHelper {
+    if (!this.config.emergencyMultisigAddress) {
+      throw new Error('Missing required config: emergencyMultisigAddress');
+    }
+
+    return new EmergencyMultiSigHelper(this.provider, this.config.emergencyMultisigAddress, this.signer);
+  }
+
+  /**
+   * Get AdvancedInterestStrategy reads and offline rate calculator
+   */
+  getInterestStrategy(): InterestStrategyHelper {
+    if (!this.config.interestStrategyAddress) {
+      throw new Error('Missing required config: interestStrategyAddress');
+    }
+
+    return new InterestStrategyHelper(this.provider, this.config.interestStrategyAddress, this.signer);
+  }
+
+  /**
+   * Get PauseRecovery incident-handling helper
+   */
+  getRecovery(): RecoveryHelper {
+    if (!this.config.pauseRecoveryAddress) {
+      throw new Error('Missing required config: pauseRecoveryAddress');
+    }
+
+    return new RecoveryHelper(this.provider, this.config.pauseRecoveryAddress, this.signer);
+  }
+
+  /**
+   * Get HealthChecker reads
+   */
+  getHealth(): HealthHelper {
+    if (!this.config.healthCheckerAddress) {
+      throw new Error('Missing required config: healthCheckerAddress');
+    }
+
+    return new HealthHelper(this.provider, this.config.healthCheckerAddress);
+  }
+
+  /**
+   * Get a monitor that polls HealthChecker and emits transitions
+   */
+  getHealthMonitor(options?: HealthMonitorOptions): HealthMonitor {
+    return new HealthMonitor(this.getHealth(), options);
+  }
+
+  /**
+   * Get batched user actions; each builder requires its `batch*OperationsAddress`
+   */
+  getBatchOperations(): BatchOperationsClient {
+    return new BatchOperationsClient(
+      this.provider,
+      {
+        vault: this.config.batchVaultOperationsAddress,
+        token: this.config.batchTokenOperationsAddress,
+        governance: this.config.batchGovernanceOperationsAddress,
+        bridge: this.config.batchBridgeOperationsAddress,
+      },
+      this.signer
+    );
+  }
+
+  /**
+   * Shared live event stream, e.g. `sdk.events.on('vault:Deposit', handler)`
+   */
+  get events(): BaseroEventStream {
+    if (!this.eventStream) {
+      this.eventStream = new BaseroEventStream(this.provider, this.config, this.eventStreamOptions);
+    }
+    return this.eventStream;
+  }
+
+  /**
+   * Set polling, confirmation and reconnect options for `events`
+   */
+  configureEvents(options: EventStreamOptions): void {
+    if (this.eventStream && this.eventStream.listenerCount() > 0) {
+      throw new Error('Configure events before subscribing');
+    }
+    this.eventStreamOptions = options;
+    this.eventStream = undefined;
+  }
+
+  /**
+   * Get an event indexer routing logs by the configured contract addresses
+   */
+  getEventIndexer(): EventIndexer {
+    return new EventIndexer(this.config);
+  }
+
+  /**
+   * Get a log fetcher for every configured Basero contract
+   */
+  getLogFetcher(options: Omit<LogFetcherConfig, 'provider' | 'addresses'> = {}): LogFetcher {
+    const addresses = [
+      this.config.tokenAddress,
+      this.config.vaultAddress,
+      this.config.bridgeAddress,
+      this.config.governorAddress,
+      this.config.timelockAddress,
+      this.config.emergencyMultisigAddress,
+      this.config.pauseRecoveryAddress,
+      this.config.interestStrategyAddress,
+      this.config.healthCheckerAddress,
+    ].filter((address): address is string => !!address && ethers.isAddress(address));
+
+    return new LogFetcher({ ...options, provider: this.provider, addresses });
+  }
+
+  /**
+   * Get share-aware token accounting (conversions, projections, balance breakdowns)
+   */
+  getShareAccounting(options?: ShareAccountingOptions): ShareAccounting {
+    return new ShareAccounting(this.provider, this.config.tokenAddress, this.config.vaultAddress, options);
+  }
+
+  /**
+   * Get per-user statements, cost basis and APY for vault depositors
+   */
+  getPortfolioAnalytics(options?: PortfolioAnalyticsOptions): PortfolioAnalytics {
+    return new PortfolioAnalytics(this.provider, this.config.tokenAddress, this.config.vaultAddress, options);
+  }
+
+  /**
+   * Get a subgraph client, falling back to log scanning when no `subgraphUrl` is configured
+   */
+  getSubgraph(options: Omit<SubgraphClientConfig, 'url' | 'provider' | 'network'> = {}): SubgraphClient {
+    return new SubgraphClient({
+      ...options,
+      url: this.config.subgraphUrl,
+      provider: this.provider,
+      network: this.config,
+    });
+  }
+
+  /**
+   * Get a gas and fee estimator bound to this provider
+   */
+  getFeeEstimator(options?: GasFeeEstimatorOptions): GasFeeEstimator {
+    return new GasFeeEstimator(this.provider, options);
+  }
+
+  /**
+   * Get the read batcher (requires `multicallAddress` or `multicall3Address`)
+   */
+  getMulticall(): MulticallBatcher {
+    if (!this.multicall) {
+      throw new Error('Missing required config: multicallAddress');
+    }
+
+    return this.multicall;
+  }
+
   /**
    * Get user balance across all contracts
    */
@@ -275,7 +667,8 @@ export class BaseroSDK {
  * Token Helper - Wraps RebaseToken contract
  */
 export class TokenHelper {
-  private contract: Contract;
+  private contract: RebaseTokenContract;
+  private writer: RebaseTokenContract;
   private provider: Provider;
   private signer?: Signer;
   private decimals: number = 18;
@@ -283,28 +676,9 @@ export class TokenHelper {
   constructor(provider: Provider, address: string, signer?: Signer) {
     this.provider = provider;
     this.signer = signer;
-
-    const abi = [
-      'function name() public view returns (string)',
-      'function symbol() public view returns (string)',
-      'function decimals() public view returns (uint8)',
-      'function totalSupply() public view returns (uint256)',
-      'function balanceOf(address account) public view returns (uint256)',
-      'function transfer(address to, uint256 amount) public returns (bool)',
-      'function approve(address spender, uint256 amount) public returns (bool)',
-      'function allowance(address owner, address spender) public view returns (uint256)',
-      'function transferFrom(address from, address to, uint256 amount) public returns (bool)',
-      'function rebase(int256 percent) public returns (bool)',
-      'event Transfer(address indexed from, address indexed to, uint256 value)',
-      'event Approval(address indexed owner, address indexed spender, uint256 value)',
-      'event Rebase(int256 indexed percent, uint256 newTotalSupply)',
-    ];
-
-    this.contract = new Contract(
-      address,
-      abi,
-      signer || provider
-    );
+    // Reads stay on the provider, where the SDK's multicall batcher sees them
+    this.contract = new RebaseTokenContract(address, provider);
+    this.writer = signer ? this.contract.connect(signer) : this.contract;
   }
 
   /**
@@ -326,8 +700,8 @@ export class TokenHelper {
     return {
       name,
       symbol,
-      decimals,
-      totalSupply: this.formatAmount(totalSupply, decimals),
+      decimals: Number(decimals),
+      totalSupply: this.formatAmount(totalSupply, Number(decimals)),
     };
   }
 
@@ -379,18 +753,24 @@ export class TokenHelper {
 
     try {
       const amountBn = this.parseAmount(amount);
-      const tx = await this.contract.transfer(to, amountBn, options || {});
+      const preflight = options?.simulate
+        ? await this.preflight('transfer', [to, amountBn], options)
+        : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.writer.transfer(to, amountBn, txOverrides(options));
       const receipt = await tx.wait();
 
       return {
         success: true,
         hash: tx.hash,
         receipt,
+        preflight,
       };
     } catch (error) {
       return {
         success: false,
-        error: error as Error,
+        error: decodeBaseroError(error, 'RebaseToken'),
       };
     }
   }
@@ -407,43 +787,71 @@ export class TokenHelper {
 
     try {
       const amountBn = this.parseAmount(amount);
-      const tx = await this.contract.approve(spender, amountBn, options || {});
+      const preflight = options?.simulate
+        ? await this.preflight('approve', [spender, amountBn], options)
+        : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.writer.approve(spender, amountBn, txOverrides(options));
       const receipt = await tx.wait();
 
       return {
         success: true,
         hash: tx.hash,
         receipt,
+        preflight,
       };
     } catch (error) {
       return {
         success: false,
-        error: error as Error,
+        error: decodeBaseroError(error, 'RebaseToken'),
       };
     }
   }
 
   /**
-   * Apply rebase
+   * Get the share balance backing an account's rebasing balance
    */
-  async rebase(percent: bigint, options?: TransactionOptions): Promise<OperationResult> {
-    if (!this.signer) throw new Error('Signer not available');
+  async getShares(address: string): Promise<bigint> {
+    return this.contract.sharesOf(address);
+  }
 
-    try {
-      const tx = await this.contract.rebase(percent, options || {});
-      const receipt = await tx.wait();
+  /**
+   * Get the interest rate locked for an account
+   */
+  async getInterestRate(address: string): Promise<bigint> {
+    return this.contract.getInterestRate(address);
+  }
 
-      return {
-        success: true,
-        hash: tx.hash,
-        receipt,
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error as Error,
-      };
-    }
+  /**
+   * Simulate a token write without sending it
+   */
+  async preflight<K extends keyof RebaseTokenWriteFunctions>(
+    method: K,
+    args: RebaseTokenWriteFunctions[K]['args'],
+    options?: TransactionOptions
+  ): Promise<PreflightReport> {
+    const overrides = txOverrides(options);
+    return runPreflight({
+      contract: 'RebaseToken',
+      method,
+      call: () => this.writer.staticCall(method, args, overrides),
+      estimateGas: () => this.writer.estimateGas(method, args, overrides),
+    });
+  }
+
+  /**
+   * Estimate gas and fees for a token write
+   */
+  async estimateCost<K extends keyof RebaseTokenWriteFunctions>(
+    method: K,
+    args: RebaseTokenWriteFunctions[K]['args'],
+    estimator: GasFeeEstimator,
+    options?: TransactionOptions
+  ): Promise<CostEstimate> {
+    const tx = await this.writer.populateTransaction(method, args, txOverrides(options));
+    if (!tx.from && this.signer) tx.from = await this.signer.getAddress();
+    return estimator.estimate(tx);
   }
 
   /**
@@ -464,203 +872,417 @@ export class TokenHelper {
 
 /**
  * Vault Helper - Wraps RebaseTokenVault contract
+ *
+ * The vault takes native ETH and mints RebaseTokens 1:1 at the current
+ * interest rate; redemptions burn tokens for a proportional share of the
+ * vault's ETH.
  */
 export class VaultHelper {
-  private contract: Contract;
+  private contract: RebaseTokenVaultContract;
+  private writer: RebaseTokenVaultContract;
   private tokenHelper: TokenHelper;
+  private provider: Provider;
   private signer?: Signer;
   private decimals: number = 18;
 
+  /** Default slippage tolerance applied to redemptions (0.5%) */
+  static readonly DEFAULT_SLIPPAGE_BPS = 50;
+
+  /** deposit() guards, in the order the vault checks them */
+  private static readonly DEPOSIT_GUARDS: PreflightGuard[] = [
+    { check: 'amount', errors: ['InsufficientDeposit'] },
+    { check: 'paused', errors: ['DepositsArePaused'] },
+    { check: 'allowlist', errors: ['NotAllowlisted'] },
+    { check: 'minDeposit', errors: ['MinDepositNotMet'] },
+    { check: 'depositCap', errors: ['DepositCapExceeded'] },
+    { check: 'tvlCap', errors: ['TvlCapExceeded'] },
+  ];
+
+  /** redeemWithMinOut() guards, in the order the vault checks them */
+  private static readonly REDEEM_GUARDS: PreflightGuard[] = [
+    { check: 'amount', errors: ['NoTokensToRedeem'] },
+    { check: 'paused', errors: ['RedeemsArePaused'] },
+    { check: 'balance', errors: ['InsufficientBalance'] },
+    { check: 'slippage', errors: ['SlippageTooHigh'] },
+  ];
+
   constructor(
     provider: Provider,
     vaultAddress: string,
     tokenAddress: string,
     signer?: Signer
   ) {
+    this.provider = provider;
     this.signer = signer;
     this.tokenHelper = new TokenHelper(provider, tokenAddress, signer);
 
-    const abi = [
-      'function deposit(uint256 assets, address receiver) public returns (uint256)',
-      'function withdraw(uint256 shares, address receiver, address owner) public returns (uint256)',
-      'function redeem(uint256 shares, address receiver, address owner) public returns (uint256)',
-      'function balanceOf(address account) public view returns (uint256)',
-      'function totalAssets() public view returns (uint256)',
-      'function totalSupply() public view returns (uint256)',
-      'function convertToShares(uint256 assets) public view returns (uint256)',
-      'function convertToAssets(uint256 shares) public view returns (uint256)',
-      'event Deposit(address indexed caller, address indexed owner, uint256 assets, uint256 shares)',
-      'event Withdraw(address indexed caller, address indexed receiver, address indexed owner, uint256 assets, uint256 shares)',
-    ];
-
-    this.contract = new Contract(
-      vaultAddress,
-      abi,
-      signer || provider
-    );
+    this.contract = new RebaseTokenVaultContract(vaultAddress, provider);
+    this.writer = signer ? this.contract.connect(signer) : this.contract;
   }
 
   /**
    * Get vault metrics
    */
-  async getMetrics(): Promise<{
-    totalAssets: string;
-    totalSupply: string;
-    sharePrice: string;
-  }> {
-    const [totalAssets, totalSupply] = await Promise.all([
-      this.contract.totalAssets(),
-      this.contract.totalSupply(),
+  async getMetrics(): Promise<VaultMetrics> {
+    const [totalEthDeposited, currentRate, accrualPeriod, timeUntilNextAccrual, paused] = await Promise.all([
+      this.contract.getTotalEthDeposited(),
+      this.contract.getCurrentInterestRate(),
+      this.contract.getAccrualPeriod(),
+      this.contract.getTimeUntilNextAccrual(),
+      this.contract.paused(),
     ]);
 
-    const sharePrice = totalSupply > 0n
-      ? ethers.formatUnits((totalAssets * ethers.parseUnits('1', this.decimals)) / totalSupply, this.decimals)
-      : '1';
-
     return {
-      totalAssets: ethers.formatUnits(totalAssets, this.decimals),
-      totalSupply: ethers.formatUnits(totalSupply, this.decimals),
-      sharePrice,
+      totalEthDeposited: this.toAmount(totalEthDeposited),
+      currentInterestRate: this.toRate(currentRate),
+      accrualPeriod,
+      timeUntilNextAccrual,
+      paused,
     };
   }
 
   /**
-   * Get user vault balance (shares)
+   * Get ETH deposited by user (principal, excluding interest)
    */
   async getBalance(address: string): Promise<Amount> {
-    const balance = await this.contract.balanceOf(address);
+    const deposited = await this.contract.getUserEthDeposited(address);
+    return this.toAmount(deposited);
+  }
+
+  /**
+   * Get the interest rate locked for a user
+   */
+  async getUserInterestRate(address: string): Promise<InterestRate> {
+    const rate = await this.contract.getUserInterestRate(address);
+    return this.toRate(rate);
+  }
+
+  /**
+   * Get the rate that new deposits would lock in
+   */
+  async getCurrentInterestRate(): Promise<InterestRate> {
+    const rate = await this.contract.getCurrentInterestRate();
+    return this.toRate(rate);
+  }
+
+  /**
+   * Get countdown until the next interest accrual, read at the latest block
+   */
+  async getTimeUntilNextAccrual(): Promise<AccrualCountdown> {
+    const block = await this.provider.getBlock('latest');
+    if (!block) throw new Error('Block not found: latest');
+    const secondsRemaining: bigint = await this.contract.contract.getTimeUntilNextAccrual({ blockTag: block.number });
+
     return {
-      raw: balance,
-      formatted: ethers.formatUnits(balance, this.decimals),
-      decimals: this.decimals,
+      secondsRemaining,
+      nextAccrualAt: BigInt(block.timestamp) + secondsRemaining,
+      overdue: secondsRemaining === 0n,
     };
   }
 
   /**
-   * Preview deposit
+   * Get user position (shares, balance, locked rate, principal)
    */
-  async previewDeposit(amount: string | bigint): Promise<{
-    shares: string;
-    raw: bigint;
-  }> {
-    const amountBn = typeof amount === 'bigint'
-      ? amount
-      : ethers.parseUnits(amount, this.decimals);
+  async getUserInfo(address: string): Promise<VaultUserInfo> {
+    const [[shares, balance, rate, lastAccrual], ethDeposited] = await Promise.all([
+      this.contract.getUserInfo(address),
+      this.contract.getUserEthDeposited(address),
+    ]);
+
+    return {
+      shares,
+      balance: this.toAmount(balance),
+      ethDeposited: this.toAmount(ethDeposited),
+      rate: this.toRate(rate),
+      lastAccrual,
+    };
+  }
+
+  /**
+   * Estimate simple interest earned by a user over a number of days
+   */
+  async estimateInterest(address: string, horizonDays: number): Promise<Amount> {
+    const interest = await this.contract.estimateInterest(address, horizonDays);
+    return this.toAmount(interest);
+  }
+
+  /**
+   * Preview deposit (tokens minted and rate locked)
+   */
+  async previewDeposit(amount: string | bigint): Promise<VaultDepositPreview> {
+    const [tokens, rate] = await this.contract.previewDeposit(this.parseAmount(amount));
+
+    return {
+      tokens: this.toAmount(tokens),
+      rate: this.toRate(rate),
+    };
+  }
 
-    const shares = await this.contract.convertToShares(amountBn);
+  /**
+   * Preview redemption and the minimum ETH out for a slippage tolerance
+   */
+  async previewRedeem(
+    tokenAmount: string | bigint,
+    slippageBps: number = VaultHelper.DEFAULT_SLIPPAGE_BPS
+  ): Promise<VaultRedeemPreview> {
+    if (slippageBps < 0 || slippageBps > 10000) {
+      throw new Error(`Invalid slippage: ${slippageBps} bps`);
+    }
+
+    const ethOut: bigint = await this.contract.previewRedeem(this.parseAmount(tokenAmount));
+    const minEthOut = (ethOut * BigInt(10000 - slippageBps)) / 10000n;
 
     return {
-      shares: ethers.formatUnits(shares, this.decimals),
-      raw: shares,
+      ethOut: this.toAmount(ethOut),
+      minEthOut: this.toAmount(minEthOut),
+      slippageBps,
     };
   }
 
   /**
-   * Deposit to vault
+   * Deposit ETH into vault
    */
   async deposit(
     amount: string | bigint,
-    receiver?: string,
     options?: TransactionOptions
   ): Promise<OperationResult> {
     if (!this.signer) throw new Error('Signer not available');
 
     try {
-      const signerAddress = await this.signer.getAddress();
-      const amountBn = typeof amount === 'bigint'
-        ? amount
-        : ethers.parseUnits(amount as string, this.decimals);
-
-      const tx = await this.contract.deposit(
-        amountBn,
-        receiver || signerAddress,
-        options || {}
-      );
+      const amountBn = this.parseAmount(amount);
+      const preflight = options?.simulate
+        ? await this.preflightDeposit(amountBn, options)
+        : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.writer.deposit({
+        ...txOverrides(options),
+        value: amountBn,
+      });
       const receipt = await tx.wait();
 
       return {
         success: true,
         hash: tx.hash,
         receipt,
+        preflight,
       };
     } catch (error) {
       return {
         success: false,
-        error: error as Error,
+        error: decodeBaseroError(error, 'RebaseTokenVault'),
       };
     }
   }
 
   /**
-   * Withdraw from vault
+   * Redeem tokens for ETH with slippage protection
+   *
+   * minEthOut is derived from previewRedeem and the given tolerance;
+   * pass slippageBps = 10000 to redeem without protection.
    */
-  async withdraw(
-    shares: string | bigint,
-    receiver?: string,
-    owner?: string,
+  async redeem(
+    tokenAmount: string | bigint,
+    slippageBps: number = VaultHelper.DEFAULT_SLIPPAGE_BPS,
     options?: TransactionOptions
-  ): Promise<OperationResult> {
+  ): Promise<OperationResult<VaultRedeemPreview>> {
     if (!this.signer) throw new Error('Signer not available');
 
     try {
-      const signerAddress = await this.signer.getAddress();
-      const sharesBn = typeof shares === 'bigint'
-        ? shares
-        : ethers.parseUnits(shares as string, this.decimals);
-
-      const tx = await this.contract.withdraw(
-        sharesBn,
-        receiver || signerAddress,
-        owner || signerAddress,
-        options || {}
-      );
-      const receipt = await tx.wait();
+      const amountBn = this.parseAmount(tokenAmount);
+      const preview = await this.previewRedeem(amountBn, slippageBps);
 
       return {
-        success: true,
-        hash: tx.hash,
-        receipt,
+        ...(await this.redeemWithMinOut(amountBn, preview.minEthOut.raw, options)),
+        data: preview,
       };
     } catch (error) {
       return {
         success: false,
-        error: error as Error,
+        error: decodeBaseroError(error, 'RebaseTokenVault'),
       };
     }
   }
-}
-
-/**
- * Bridge Helper - Wraps EnhancedCCIPBridge contract
- */
-export class BridgeHelper {
-  private contract: Contract;
-  private signer?: Signer;
-  private decimals: number = 18;
+
+  /**
+   * Redeem tokens for ETH, reverting if less than minEthOut is returned
+   */
+  async redeemWithMinOut(
+    tokenAmount: string | bigint,
+    minEthOut: string | bigint,
+    options?: TransactionOptions
+  ): Promise<OperationResult> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    try {
+      const preflight = options?.simulate
+        ? await this.preflightRedeem(tokenAmount, minEthOut, options)
+        : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.writer.redeemWithMinOut(
+        this.parseAmount(tokenAmount),
+        this.parseAmount(minEthOut),
+        txOverrides(options)
+      );
+      const receipt = await tx.wait();
+
+      return {
+        success: true,
+        hash: tx.hash,
+        receipt,
+        preflight,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: decodeBaseroError(error, 'RebaseTokenVault'),
+      };
+    }
+  }
+
+  /**
+   * Simulate a deposit: pause flags, allowlist, minimum deposit and caps
+   */
+  async preflightDeposit(amount: string | bigint, options?: TransactionOptions): Promise<PreflightReport> {
+    return this.preflight('deposit', [], { ...options, value: this.parseAmount(amount) }, VaultHelper.DEPOSIT_GUARDS);
+  }
+
+  /**
+   * Simulate a redemption: pause flags, token balance and slippage bound
+   */
+  async preflightRedeem(
+    tokenAmount: string | bigint,
+    minEthOut: string | bigint,
+    options?: TransactionOptions
+  ): Promise<PreflightReport> {
+    return this.preflight(
+      'redeemWithMinOut',
+      [this.parseAmount(tokenAmount), this.parseAmount(minEthOut)],
+      options,
+      VaultHelper.REDEEM_GUARDS
+    );
+  }
+
+  /**
+   * Get the underlying RebaseToken helper
+   */
+  getToken(): TokenHelper {
+    return this.tokenHelper;
+  }
+
+  /**
+   * Simulate a vault write without sending it
+   */
+  async preflight<K extends keyof RebaseTokenVaultWriteFunctions>(
+    method: K,
+    args: RebaseTokenVaultWriteFunctions[K]['args'],
+    options?: TransactionOptions,
+    guards?: PreflightGuard[]
+  ): Promise<PreflightReport> {
+    const overrides = txOverrides(options);
+    return runPreflight({
+      contract: 'RebaseTokenVault',
+      method,
+      guards,
+      call: () => this.writer.staticCall(method, args, overrides),
+      estimateGas: () => this.writer.estimateGas(method, args, overrides),
+    });
+  }
+
+  /**
+   * Estimate gas and fees for a vault write
+   */
+  async estimateCost<K extends keyof RebaseTokenVaultWriteFunctions>(
+    method: K,
+    args: RebaseTokenVaultWriteFunctions[K]['args'],
+    estimator: GasFeeEstimator,
+    options?: TransactionOptions
+  ): Promise<CostEstimate> {
+    const tx = await this.writer.populateTransaction(method, args, txOverrides(options));
+    if (!tx.from && this.signer) tx.from = await this.signer.getAddress();
+    return estimator.estimate(tx);
+  }
+
+  /**
+   * Wrap raw wei amount
+   */
+  private toAmount(raw: bigint): Amount {
+    return {
+      raw,
+      formatted: ethers.formatUnits(raw, this.decimals),
+      decimals: this.decimals,
+    };
+  }
+
+  /**
+   * Wrap basis-point rate
+   */
+  private toRate(bps: bigint): InterestRate {
+    return {
+      bps,
+      percent: (Number(bps) / 100).toFixed(2),
+    };
+  }
+
+  /**
+   * Parse amount string to bigint
+   */
+  private parseAmount(amount: string | bigint): bigint {
+    if (typeof amount === 'bigint') return amount;
+    return ethers.parseUnits(amount, this.decimals);
+  }
+}
+
+/**
+ * Bridge Helper - Wraps EnhancedCCIPBridge contract
+ *
+ * Chain arguments are CCIP chain selectors, not EVM chain IDs.
+ */
+export class BridgeHelper {
+  private contract: EnhancedCCIPBridgeContract;
+  private writer: EnhancedCCIPBridgeContract;
+  private provider: Provider;
+  private signer?: Signer;
+  private linkTokenAddress?: string;
+  private decimals: number = 18;
+
+  /** Flat LINK fee the bridge reserves per message (mirrors _estimateCCIPFees) */
+  static readonly BRIDGE_FLAT_FEE = ethers.parseUnits('1', 18);
+
+  /** Gas limits the bridge encodes into extraArgs per message type */
+  static readonly GAS_LIMITS = {
+    TRANSFER: 300_000n,
+    BATCH: 500_000n,
+    COMPOSABLE: 600_000n,
+  };
+
+  private static readonly EVM_EXTRA_ARGS_V1_TAG = '0x97a657c9';
+
+  /** Rate-limit tokens the receiving bridge consumes per inbound message */
+  private static readonly INBOUND_MESSAGE_COST = ethers.parseUnits('1', 18);
+
+  /** bridgeTokens() guards, in the order the bridge checks them */
+  private static readonly TRANSFER_GUARDS: PreflightGuard[] = [
+    { check: 'paused', errors: ['EnforcedPause'] },
+    { check: 'chainConfig', errors: ['ChainNotConfigured'] },
+    { check: 'amountBounds', errors: ['BridgeAmountOutOfBounds'] },
+    { check: 'linkBalance', errors: ['InsufficientLinkBalance'] },
+  ];
 
   constructor(
     provider: Provider,
     bridgeAddress: string,
     tokenAddress: string,
-    signer?: Signer
+    signer?: Signer,
+    linkTokenAddress?: string
   ) {
+    this.provider = provider;
     this.signer = signer;
+    this.linkTokenAddress = linkTokenAddress;
 
-    const abi = [
-      'function sendTokens(uint64 destChain, address receiver, uint256 amount, address recipient) public returns (bytes32)',
-      'function setRateLimits(uint256 maxPerMessage, uint256 maxPerDay) public',
-      'function pause() public',
-      'function unpause() public',
-      'function isPaused() public view returns (bool)',
-      'event MessageSent(bytes32 indexed messageId, uint64 destChain, uint256 amount)',
-      'event MessageReceived(bytes32 indexed messageId, uint256 amount)',
-    ];
-
-    this.contract = new Contract(
-      bridgeAddress,
-      abi,
-      signer || provider
-    );
+    this.contract = new EnhancedCCIPBridgeContract(bridgeAddress, provider);
+    this.writer = signer ? this.contract.connect(signer) : this.contract;
   }
 
   /**
@@ -669,57 +1291,561 @@ export class BridgeHelper {
   async getStatus(): Promise<{
     isPaused: boolean;
   }> {
-    const isPaused = await this.contract.isPaused();
+    const isPaused = await this.contract.paused();
     return { isPaused };
   }
 
   /**
-   * Send tokens across chains
+   * Get destination chain configuration
+   */
+  async getChainConfig(chainSelector: bigint): Promise<BridgeChainConfig> {
+    const [enabled, receiver, minAmount, maxAmount, batchWindow] =
+      await this.contract.getChainConfig(chainSelector);
+
+    return {
+      chainSelector,
+      enabled,
+      receiver,
+      minAmount: this.toAmount(minAmount),
+      maxAmount: this.toAmount(maxAmount),
+      batchWindow,
+    };
+  }
+
+  /**
+   * Get inbound rate limit bucket for a source chain
    */
-  async sendTokens(
-    destChain: number,
-    receiver: string,
+  async getRateLimitStatus(sourceChain: bigint): Promise<BridgeRateLimitStatus> {
+    const [tokensPerSecond, maxBurstSize, tokensAvailable, lastUpdate] =
+      await this.contract.getRateLimitStatus(sourceChain);
+
+    return {
+      sourceChain,
+      tokensPerSecond,
+      maxBurstSize,
+      tokensAvailable,
+      lastUpdate,
+    };
+  }
+
+  /**
+   * Get batch details including recipients and amounts
+   */
+  async getBatchDetails(batchId: bigint): Promise<BridgeBatchDetails> {
+    const [[id, destinationChain, totalAmount, recipientCount, timestamp, executed], [recipients, amounts]] =
+      await Promise.all([
+        this.contract.getBatchDetails(batchId),
+        this.contract.getBatchTransfers(batchId),
+      ]);
+
+    return {
+      id,
+      destinationChain,
+      totalAmount: this.toAmount(totalAmount),
+      recipientCount: Number(recipientCount),
+      timestamp,
+      executed,
+      recipients: [...recipients],
+      amounts: [...amounts],
+    };
+  }
+
+  /**
+   * Get batch IDs created for a destination chain
+   */
+  async getChainBatches(chainSelector: bigint): Promise<bigint[]> {
+    const batchIds = await this.contract.getChainBatches(chainSelector);
+    return [...batchIds];
+  }
+
+  /**
+   * Get total amount a user has bridged to a chain
+   */
+  async getUserBridgedAmount(user: string, chainSelector: bigint): Promise<Amount> {
+    const amount = await this.contract.userBridgedAmount(user, chainSelector);
+    return this.toAmount(amount);
+  }
+
+  /**
+   * Validate a transfer against chain enablement and amount bounds
+   *
+   * Throws with a descriptive message if the bridge would revert.
+   */
+  async validateTransfer(destChain: bigint, amount: string | bigint): Promise<BridgeChainConfig> {
+    const amountBn = this.parseAmount(amount);
+    const [config, status] = await Promise.all([
+      this.getChainConfig(destChain),
+      this.getStatus(),
+    ]);
+
+    if (status.isPaused) {
+      throw new Error('Bridge is paused');
+    }
+    if (!config.enabled) {
+      throw new Error(`Chain not configured: ${destChain}`);
+    }
+    if (amountBn < config.minAmount.raw || amountBn > config.maxAmount.raw) {
+      throw new Error(
+        `Bridge amount ${ethers.formatUnits(amountBn, this.decimals)} out of bounds ` +
+        `[${config.minAmount.formatted}, ${config.maxAmount.formatted}]`
+      );
+    }
+
+    return config;
+  }
+
+  /**
+   * Quote LINK fees for a transfer
+   *
+   * The bridge reserves a flat fee internally; when a LINK address is
+   * configured the router quote and the bridge's LINK balance are included.
+   * The bridge approves the router for the flat fee only, so a router fee
+   * above it makes the transfer revert whatever the balance.
+   */
+  async quoteFee(
+    destChain: bigint,
+    recipient: string,
+    amount: string | bigint,
+    gasLimit: bigint = BridgeHelper.GAS_LIMITS.TRANSFER
+  ): Promise<BridgeFeeQuote> {
+    const quote: BridgeFeeQuote = {
+      fee: this.toAmount(BridgeHelper.BRIDGE_FLAT_FEE),
+    };
+
+    if (!this.linkTokenAddress) {
+      return quote;
+    }
+
+    const config = await this.getChainConfig(destChain);
+    const coder = ethers.AbiCoder.defaultAbiCoder();
+    const message = {
+      receiver: coder.encode(['address'], [config.receiver]),
+      data: coder.encode(['address', 'uint256'], [recipient, this.parseAmount(amount)]),
+      tokenAmounts: [],
+      feeToken: this.linkTokenAddress,
+      extraArgs: ethers.concat([
+        BridgeHelper.EVM_EXTRA_ARGS_V1_TAG,
+        coder.encode(['uint256'], [gasLimit]),
+      ]),
+    };
+
+    const link = new Contract(
+      this.linkTokenAddress,
+      ['function balanceOf(address account) public view returns (uint256)'],
+      this.provider
+    );
+
+    try {
+      const routerAddress: string = await this.contract.getRouter();
+      const router = new Contract(
+        routerAddress,
+        ['function getFee(uint64 destinationChainSelector, (bytes receiver, bytes data, (address token, uint256 amount)[] tokenAmounts, address feeToken, bytes extraArgs) message) external view returns (uint256)'],
+        this.provider
+      );
+      quote.routerFee = this.toAmount(await router.getFee(destChain, message));
+    } catch {
+      // Router quote unavailable (e.g. local fork without CCIP); keep flat fee
+    }
+
+    const balance: bigint = await link.balanceOf(await this.contract.getAddress());
+    const flat = quote.fee.raw;
+
+    quote.bridgeLinkBalance = this.toAmount(balance);
+    quote.sufficient = balance >= flat && (!quote.routerFee || quote.routerFee.raw <= flat);
+    if (balance < flat) {
+      quote.insufficientReason = `Bridge holds ${quote.bridgeLinkBalance.formatted} LINK, below the ${quote.fee.formatted} LINK fee`;
+    } else if (!quote.sufficient) {
+      quote.insufficientReason =
+        `Router fee of ${quote.routerFee!.formatted} LINK exceeds the ${quote.fee.formatted} LINK the bridge approves`;
+    }
+
+    return quote;
+  }
+
+  /**
+   * Bridge tokens to a recipient on another chain
+   */
+  async bridgeTokens(
+    destChain: bigint,
+    recipient: string,
     amount: string | bigint,
     options?: TransactionOptions
-  ): Promise<OperationResult> {
+  ): Promise<OperationResult<BridgeTransferResult>> {
     if (!this.signer) throw new Error('Signer not available');
 
     try {
-      const signerAddress = await this.signer.getAddress();
-      const amountBn = typeof amount === 'bigint'
-        ? amount
-        : ethers.parseUnits(amount as string, this.decimals);
+      const amountBn = this.parseAmount(amount);
+      const preflight = options?.simulate
+        ? await this.preflightBridgeTokens(destChain, recipient, amountBn, options)
+        : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      await this.validateTransfer(destChain, amountBn);
 
-      const tx = await this.contract.sendTokens(
+      const tx = await this.writer.bridgeTokens(
         destChain,
-        receiver,
+        recipient,
         amountBn,
-        signerAddress,
-        options || {}
+        txOverrides(options)
+      );
+      const receipt = await tx.wait();
+      const transfer = this.contract.findEvent(receipt, 'CrossChainTransfer');
+
+      return {
+        success: true,
+        hash: tx.hash,
+        receipt,
+        preflight,
+        data: transfer
+          ? {
+            messageId: transfer.args.messageId,
+            destinationChain: transfer.args.destinationChain,
+            recipient: transfer.args.recipient,
+            amount: transfer.args.amount,
+            fees: transfer.args.fees,
+          }
+          : undefined,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: decodeBaseroError(error, 'EnhancedCCIPBridge'),
+      };
+    }
+  }
+
+  /**
+   * Create a batch transfer, returning the new batch ID
+   */
+  async createBatchTransfer(
+    destChain: bigint,
+    recipients: string[],
+    amounts: Array<string | bigint>,
+    options?: TransactionOptions
+  ): Promise<OperationResult<{ batchId: bigint; totalAmount: bigint }>> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    try {
+      if (recipients.length === 0) {
+        throw new Error('Empty batch transfer');
+      }
+      if (recipients.length !== amounts.length) {
+        throw new Error('Mismatched arrays length');
+      }
+
+      const amountsBn = amounts.map(amount => this.parseAmount(amount));
+      const config = await this.getChainConfig(destChain);
+      if (!config.enabled) {
+        throw new Error(`Chain not configured: ${destChain}`);
+      }
+      for (const amount of amountsBn) {
+        if (amount < config.minAmount.raw || amount > config.maxAmount.raw) {
+          throw new Error(
+            `Bridge amount ${ethers.formatUnits(amount, this.decimals)} out of bounds ` +
+            `[${config.minAmount.formatted}, ${config.maxAmount.formatted}]`
+          );
+        }
+      }
+
+      const preflight = options?.simulate
+        ? await this.preflight('createBatchTransfer', [destChain, recipients, amountsBn], options)
+        : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.writer.createBatchTransfer(
+        destChain,
+        recipients,
+        amountsBn,
+        txOverrides(options)
       );
       const receipt = await tx.wait();
+      const created = this.contract.findEvent(receipt, 'BatchCreated');
 
       return {
         success: true,
         hash: tx.hash,
         receipt,
-        data: receipt?.logs?.[0] || null,
+        preflight,
+        data: created
+          ? { batchId: created.args.batchId, totalAmount: created.args.totalAmount }
+          : undefined,
       };
     } catch (error) {
       return {
         success: false,
-        error: error as Error,
+        error: decodeBaseroError(error, 'EnhancedCCIPBridge'),
       };
     }
   }
+
+  /**
+   * Execute a pending batch (owner only), returning the CCIP message ID
+   */
+  async executeBatch(
+    batchId: bigint,
+    options?: TransactionOptions
+  ): Promise<OperationResult<{ batchId: bigint; messageId: string }>> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    try {
+      const batch = await this.getBatchDetails(batchId);
+      if (batch.executed) {
+        throw new Error(`Batch already executed: ${batchId}`);
+      }
+
+      const preflight = options?.simulate
+        ? await this.preflight('executeBatch', [batchId], options)
+        : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.writer.executeBatch(batchId, txOverrides(options));
+      const receipt = await tx.wait();
+      const executed = this.contract.findEvent(receipt, 'BatchExecuted');
+
+      return {
+        success: true,
+        hash: tx.hash,
+        receipt,
+        preflight,
+        data: executed
+          ? { batchId: executed.args.batchId, messageId: executed.args.messageId }
+          : undefined,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: decodeBaseroError(error, 'EnhancedCCIPBridge'),
+      };
+    }
+  }
+
+  /**
+   * Configure a composable route (owner only)
+   */
+  async setComposableRoute(
+    routeId: string,
+    targetChain: bigint,
+    targetContract: string,
+    callData: string,
+    autoExecute: boolean,
+    options?: TransactionOptions
+  ): Promise<OperationResult> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    try {
+      const preflight = options?.simulate
+        ? await this.preflight('setComposableRoute', [routeId, targetChain, targetContract, callData, autoExecute], options)
+        : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.writer.setComposableRoute(
+        routeId,
+        targetChain,
+        targetContract,
+        callData,
+        autoExecute,
+        txOverrides(options)
+      );
+      const receipt = await tx.wait();
+
+      return {
+        success: true,
+        hash: tx.hash,
+        receipt,
+        preflight,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: decodeBaseroError(error, 'EnhancedCCIPBridge'),
+      };
+    }
+  }
+
+  /**
+   * Execute a composable cross-chain call along a configured route
+   */
+  async executeComposableCall(
+    routeId: string,
+    amount: string | bigint,
+    options?: TransactionOptions
+  ): Promise<OperationResult<BridgeTransferResult>> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    try {
+      const [, targetContract] = await this.contract.composableRoutes(routeId);
+      if (targetContract === ethers.ZeroAddress) {
+        throw new Error(`Composable route not set: ${routeId}`);
+      }
+
+      const preflight = options?.simulate
+        ? await this.preflight('executeComposableCall', [routeId, this.parseAmount(amount)], options)
+        : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.writer.executeComposableCall(
+        routeId,
+        this.parseAmount(amount),
+        txOverrides(options)
+      );
+      const receipt = await tx.wait();
+      const transfer = this.contract.findEvent(receipt, 'CrossChainTransfer');
+
+      return {
+        success: true,
+        hash: tx.hash,
+        receipt,
+        preflight,
+        data: transfer
+          ? {
+            messageId: transfer.args.messageId,
+            destinationChain: transfer.args.destinationChain,
+            recipient: transfer.args.recipient,
+            amount: transfer.args.amount,
+            fees: transfer.args.fees,
+          }
+          : undefined,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: decodeBaseroError(error, 'EnhancedCCIPBridge'),
+      };
+    }
+  }
+
+  /**
+   * Simulate a transfer: pause flag, chain config, amount bounds and LINK balance
+   *
+   * Rate limits are enforced by the receiving bridge; pass it (and this
+   * chain's selector as seen from there) to include that check.
+   */
+  async preflightBridgeTokens(
+    destChain: bigint,
+    recipient: string,
+    amount: string | bigint,
+    options?: TransactionOptions,
+    destination?: { bridge: BridgeHelper; sourceChainSelector: bigint }
+  ): Promise<PreflightReport> {
+    const checks: PreflightCheck[] = [];
+
+    if (destination) {
+      const limit = await destination.bridge.getRateLimitStatus(destination.sourceChainSelector);
+      const ok = limit.tokensPerSecond === 0n || limit.tokensAvailable >= BridgeHelper.INBOUND_MESSAGE_COST;
+      checks.push({
+        name: 'rateLimit',
+        status: ok ? 'pass' : 'fail',
+        message: ok ? undefined : `Destination rate limit exhausted: ${this.toAmount(limit.tokensAvailable).formatted} available`,
+      });
+    } else {
+      checks.push({ name: 'rateLimit', status: 'skipped' });
+    }
+
+    return this.preflight(
+      'bridgeTokens',
+      [destChain, recipient, this.parseAmount(amount)],
+      options,
+      BridgeHelper.TRANSFER_GUARDS,
+      checks
+    );
+  }
+
+  /**
+   * Simulate a bridge write without sending it
+   */
+  async preflight<K extends keyof EnhancedCCIPBridgeWriteFunctions>(
+    method: K,
+    args: EnhancedCCIPBridgeWriteFunctions[K]['args'],
+    options?: TransactionOptions,
+    guards?: PreflightGuard[],
+    checks?: PreflightCheck[]
+  ): Promise<PreflightReport> {
+    const overrides = txOverrides(options);
+    return runPreflight({
+      contract: 'EnhancedCCIPBridge',
+      method,
+      guards,
+      checks,
+      call: () => this.writer.staticCall(method, args, overrides),
+      estimateGas: () => this.writer.estimateGas(method, args, overrides),
+    });
+  }
+
+  /**
+   * Estimate gas for a transfer plus the CCIP fee the bridge pays in LINK
+   */
+  async estimateBridgeCost(
+    destChain: bigint,
+    recipient: string,
+    amount: string | bigint,
+    estimator: GasFeeEstimator,
+    options?: TransactionOptions
+  ): Promise<CostEstimate> {
+    const amountBn = this.parseAmount(amount);
+    const quote = await this.quoteFee(destChain, recipient, amountBn);
+    const ccipFee: CcipFee = {
+      token: 'LINK',
+      amount: quote.routerFee?.raw ?? quote.fee.raw,
+      paidBy: 'contract',
+    };
+
+    return this.estimateCost('bridgeTokens', [destChain, recipient, amountBn], estimator, options, ccipFee);
+  }
+
+  /**
+   * Estimate gas and fees for a bridge write
+   */
+  async estimateCost<K extends keyof EnhancedCCIPBridgeWriteFunctions>(
+    method: K,
+    args: EnhancedCCIPBridgeWriteFunctions[K]['args'],
+    estimator: GasFeeEstimator,
+    options?: TransactionOptions,
+    ccipFee?: CcipFee
+  ): Promise<CostEstimate> {
+    const tx = await this.writer.populateTransaction(method, args, txOverrides(options));
+    if (!tx.from && this.signer) tx.from = await this.signer.getAddress();
+    return estimator.estimate(tx, ccipFee);
+  }
+
+  /**
+   * Derive a route ID from a human-readable name
+   */
+  static routeId(name: string): string {
+    return ethers.id(name);
+  }
+
+  /**
+   * Wrap raw wei amount
+   */
+  private toAmount(raw: bigint): Amount {
+    return {
+      raw,
+      formatted: ethers.formatUnits(raw, this.decimals),
+      decimals: this.decimals,
+    };
+  }
+
+  /**
+   * Parse amount string to bigint
+   */
+  private parseAmount(amount: string | bigint): bigint {
+    if (typeof amount === 'bigint') return amount;
+    return ethers.parseUnits(amount, this.decimals);
+  }
 }
 
 /**
  * Governance Helper - Wraps governance contracts
+ *
+ * Lifecycle: propose -> (voting delay) -> vote -> (voting period) ->
+ * queue -> (timelock delay) -> execute.
  */
 export class GovernanceHelper {
-  private governorContract: Contract;
+  private governorContract: BASEGovernorContract;
+  private governorWriter: BASEGovernorContract;
+  private timelockContract: BASETimelockContract;
   private votingEscrowContract: Contract;
+  private votingEscrowWriter: Contract;
   private signer?: Signer;
 
   constructor(
@@ -731,36 +1857,18 @@ export class GovernanceHelper {
   ) {
     this.signer = signer;
 
-    const governorAbi = [
-      'function propose(address[] targets, uint256[] values, bytes[] calldatas, string description) public returns (uint256)',
-      'function castVote(uint256 proposalId, uint8 support) public returns (uint128)',
-      'function queue(address[] targets, uint256[] values, bytes[] calldatas, bytes32 descriptionHash) public',
-      'function execute(address[] targets, uint256[] values, bytes[] calldatas, bytes32 descriptionHash) public payable',
-      'function getVotes(address account, uint256 blockNumber) public view returns (uint256)',
-      'function proposalDeadline(uint256 proposalId) public view returns (uint256)',
-      'function proposalSnapshot(uint256 proposalId) public view returns (uint256)',
-      'function proposalVotes(uint256 proposalId) public view returns (uint256, uint256, uint256)',
-      'event ProposalCreated(uint256 indexed proposalId, address indexed proposer, address[] targets, uint256[] values, string[] signatures, bytes[] calldatas, uint256 startBlock, uint256 endBlock, string description)',
-      'event VoteCast(address indexed voter, uint256 proposalId, uint8 support, uint256 weight, string reason)',
-    ];
-
     const votingEscrowAbi = [
       'function lock(uint256 amount, uint256 duration) public returns (uint256)',
       'function getVotes(address account) public view returns (uint256)',
       'function balanceOf(address account) public view returns (uint256)',
     ];
 
-    this.governorContract = new Contract(
-      governorAddress,
-      governorAbi,
-      signer || provider
-    );
+    this.governorContract = new BASEGovernorContract(governorAddress, provider);
+    this.governorWriter = signer ? this.governorContract.connect(signer) : this.governorContract;
+    this.timelockContract = new BASETimelockContract(timelockAddress, provider);
 
-    this.votingEscrowContract = new Contract(
-      votingEscrowAddress,
-      votingEscrowAbi,
-      signer || provider
-    );
+    this.votingEscrowContract = new Contract(votingEscrowAddress, votingEscrowAbi, provider);
+    this.votingEscrowWriter = signer ? (this.votingEscrowContract.connect(signer) as Contract) : this.votingEscrowContract;
   }
 
   /**
@@ -786,18 +1894,30 @@ export class GovernanceHelper {
         ? amount
         : ethers.parseUnits(amount as string, 18);
 
-      const tx = await this.votingEscrowContract.lock(amountBn, duration, options || {});
+      const overrides = txOverrides(options);
+      const preflight = options?.simulate
+        ? await runPreflight({
+          contract: 'VotingEscrow',
+          method: 'lock',
+          call: () => this.votingEscrowWriter.lock.staticCall(amountBn, duration, overrides),
+          estimateGas: () => this.votingEscrowWriter.lock.estimateGas(amountBn, duration, overrides),
+        })
+        : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.votingEscrowWriter.lock(amountBn, duration, overrides);
       const receipt = await tx.wait();
 
       return {
         success: true,
         hash: tx.hash,
         receipt,
+        preflight,
       };
     } catch (error) {
       return {
         success: false,
-        error: error as Error,
+        error: decodeBaseroError(error, 'BASEGovernor'),
       };
     }
   }
@@ -811,53 +1931,412 @@ export class GovernanceHelper {
     calldatas: string[],
     description: string,
     options?: TransactionOptions
-  ): Promise<OperationResult> {
+  ): Promise<OperationResult<{ proposalId: bigint }>> {
     if (!this.signer) throw new Error('Signer not available');
 
     try {
-      const tx = await this.governorContract.propose(
+      const preflight = options?.simulate
+        ? await this.preflight('propose', [targets, values, calldatas, description], options)
+        : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.governorWriter.propose(
         targets,
         values,
         calldatas,
         description,
-        options || {}
+        txOverrides(options)
       );
       const receipt = await tx.wait();
+      const created = this.governorContract.findEvent(receipt, 'ProposalCreated');
 
       return {
         success: true,
         hash: tx.hash,
         receipt,
+        preflight,
+        data: {
+          proposalId: created
+            ? created.args.proposalId
+            : this.hashProposal({ targets, values, calldatas, description }),
+        },
       };
     } catch (error) {
       return {
         success: false,
-        error: error as Error,
+        error: decodeBaseroError(error, 'BASEGovernor'),
       };
     }
   }
 
   /**
-   * Cast vote
+   * Create proposal with on-chain title and type metadata
+   */
+  async proposeWithMetadata(
+    actions: ProposalActions,
+    title: string,
+    proposalType: ProposalType = ProposalType.Other,
+    options?: TransactionOptions
+  ): Promise<OperationResult<{ proposalId: bigint }>> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    try {
+      const preflight = options?.simulate
+        ? await this.preflight('createProposalWithMetadata', [
+            actions.targets,
+            actions.values,
+            actions.calldatas,
+            title,
+            proposalType,
+            actions.description,
+          ], options)
+        : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.governorWriter.createProposalWithMetadata(
+        actions.targets,
+        actions.values,
+        actions.calldatas,
+        title,
+        proposalType,
+        actions.description,
+        txOverrides(options)
+      );
+      const receipt = await tx.wait();
+      const created = this.governorContract.findEvent(receipt, 'ProposalCreatedWithMetadata');
+
+      return {
+        success: true,
+        hash: tx.hash,
+        receipt,
+        preflight,
+        data: {
+          proposalId: created ? created.args.proposalId : this.hashProposal(actions),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: decodeBaseroError(error, 'BASEGovernor'),
+      };
+    }
+  }
+
+  /**
+   * Cast vote (0 = Against, 1 = For, 2 = Abstain)
    */
   async castVote(proposalId: bigint, support: number, options?: TransactionOptions): Promise<OperationResult> {
     if (!this.signer) throw new Error('Signer not available');
 
     try {
-      const tx = await this.governorContract.castVote(proposalId, support, options || {});
+      const preflight = options?.simulate
+        ? await this.preflight('castVote', [proposalId, support], options)
+        : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.governorWriter.castVote(proposalId, support, txOverrides(options));
+      const receipt = await tx.wait();
+
+      return {
+        success: true,
+        hash: tx.hash,
+        receipt,
+        preflight,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: decodeBaseroError(error, 'BASEGovernor'),
+      };
+    }
+  }
+
+  /**
+   * Queue a succeeded proposal in the timelock
+   */
+  async queue(actions: ProposalActions, options?: TransactionOptions): Promise<OperationResult<{ eta: bigint }>> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    try {
+      const preflight = options?.simulate
+        ? await this.preflight('queue', [
+            actions.targets,
+            actions.values,
+            actions.calldatas,
+            GovernanceHelper.getDescriptionHash(actions.description),
+          ], options)
+        : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.governorWriter.queue(
+        actions.targets,
+        actions.values,
+        actions.calldatas,
+        GovernanceHelper.getDescriptionHash(actions.description),
+        txOverrides(options)
+      );
       const receipt = await tx.wait();
+      const queued = this.governorContract.findEvent(receipt, 'ProposalQueued');
 
       return {
         success: true,
         hash: tx.hash,
         receipt,
+        preflight,
+        data: queued ? { eta: queued.args.etaSeconds } : undefined,
       };
     } catch (error) {
       return {
         success: false,
-        error: error as Error,
+        error: decodeBaseroError(error, 'BASEGovernor'),
+      };
+    }
+  }
+
+  /**
+   * Execute a queued proposal once the timelock delay has passed
+   */
+  async execute(actions: ProposalActions, options?: TransactionOptions): Promise<OperationResult> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    try {
+      const value = actions.values.reduce((sum, v) => sum + v, 0n);
+      const preflight = options?.simulate
+        ? await this.preflight('execute', [
+            actions.targets,
+            actions.values,
+            actions.calldatas,
+            GovernanceHelper.getDescriptionHash(actions.description),
+          ], { ...options, value })
+        : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.governorWriter.execute(
+        actions.targets,
+        actions.values,
+        actions.calldatas,
+        GovernanceHelper.getDescriptionHash(actions.description),
+        { ...txOverrides(options), value }
+      );
+      const receipt = await tx.wait();
+
+      return {
+        success: true,
+        hash: tx.hash,
+        receipt,
+        preflight,
       };
+    } catch (error) {
+      return {
+        success: false,
+        error: decodeBaseroError(error, 'BASEGovernor'),
+      };
+    }
+  }
+
+  /**
+   * Get proposal state
+   */
+  async getState(proposalId: bigint): Promise<ProposalState> {
+    const state = await this.governorContract.state(proposalId);
+    return Number(state) as ProposalState;
+  }
+
+  /**
+   * Get vote tallies
+   */
+  async getProposalVotes(proposalId: bigint): Promise<ProposalVotes> {
+    const [against, forVotes, abstain] = await this.governorContract.proposalVotes(proposalId);
+    return { against, for: forVotes, abstain };
+  }
+
+  /**
+   * Get voting deadline (in governor clock units, i.e. blocks)
+   */
+  async getProposalDeadline(proposalId: bigint): Promise<bigint> {
+    return this.governorContract.proposalDeadline(proposalId);
+  }
+
+  /**
+   * Get quorum required at a timepoint
+   */
+  async getQuorum(timepoint: bigint): Promise<bigint> {
+    return this.governorContract.quorum(timepoint);
+  }
+
+  /**
+   * Get BASEGovernor metadata for a proposal
+   */
+  async getProposalMetadata(proposalId: bigint): Promise<ProposalMetadata> {
+    const metadata = await this.governorContract.getProposalMetadata(proposalId);
+    return {
+      title: metadata.title,
+      description: metadata.description,
+      createdAt: metadata.createdAt,
+      proposer: metadata.proposer,
+      proposalType: Number(metadata.proposalType) as ProposalType,
+    };
+  }
+
+  /**
+   * Get state, timing, tallies and quorum in one call
+   */
+  async getProposal(proposalId: bigint): Promise<ProposalInfo> {
+    const [state, snapshot, deadline, eta, votes] = await Promise.all([
+      this.getState(proposalId),
+      this.governorContract.proposalSnapshot(proposalId),
+      this.getProposalDeadline(proposalId),
+      this.governorContract.proposalEta(proposalId),
+      this.getProposalVotes(proposalId),
+    ]);
+
+    return {
+      proposalId,
+      state,
+      snapshot,
+      deadline,
+      eta,
+      votes,
+      quorum: await this.getQuorum(snapshot),
+    };
+  }
+
+  /**
+   * Poll until the proposal reaches one of the given states
+   */
+  async waitForState(
+    proposalId: bigint,
+    states: ProposalState[],
+    opts: WaitOptions = {}
+  ): Promise<ProposalState> {
+    const pollIntervalMs = opts.pollIntervalMs ?? 12_000;
+    const deadline = Date.now() + (opts.timeoutMs ?? 14 * 24 * 60 * 60 * 1000);
+
+    while (Date.now() < deadline) {
+      const state = await this.getState(proposalId);
+      if (states.includes(state)) return state;
+
+      await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
     }
+
+    throw new Error(`Timeout waiting for proposal ${proposalId} to reach ${states.map(s => ProposalState[s]).join('/')}`);
+  }
+
+  /**
+   * Poll until voting has ended, returning the outcome state
+   */
+  async waitForVotingEnd(proposalId: bigint, opts: WaitOptions = {}): Promise<ProposalState> {
+    return this.waitForState(
+      proposalId,
+      [
+        ProposalState.Canceled,
+        ProposalState.Defeated,
+        ProposalState.Succeeded,
+        ProposalState.Queued,
+        ProposalState.Expired,
+        ProposalState.Executed,
+      ],
+      opts
+    );
+  }
+
+  /**
+   * Compute the proposal ID locally (matches Governor.hashProposal)
+   */
+  hashProposal(actions: ProposalActions): bigint {
+    const encoded = ethers.AbiCoder.defaultAbiCoder().encode(
+      ['address[]', 'uint256[]', 'bytes[]', 'bytes32'],
+      [
+        actions.targets,
+        actions.values,
+        actions.calldatas,
+        GovernanceHelper.getDescriptionHash(actions.description),
+      ]
+    );
+    return BigInt(ethers.keccak256(encoded));
+  }
+
+  /**
+   * Compute the timelock operation ID for a proposal
+   *
+   * GovernorTimelockControl salts operations with the governor address
+   * XOR the description hash.
+   */
+  getTimelockOperationId(actions: ProposalActions): string {
+    const governor = BigInt(this.governorContract.address);
+    const salt = ethers.toBeHex(
+      (governor << 96n) ^ BigInt(GovernanceHelper.getDescriptionHash(actions.description)),
+      32
+    );
+
+    return ethers.keccak256(
+      ethers.AbiCoder.defaultAbiCoder().encode(
+        ['address[]', 'uint256[]', 'bytes[]', 'bytes32', 'bytes32'],
+        [actions.targets, actions.values, actions.calldatas, ethers.ZeroHash, salt]
+      )
+    );
+  }
+
+  /**
+   * Check whether the timelock delay has elapsed for a queued proposal
+   */
+  async isReadyForExecution(actions: ProposalActions): Promise<boolean> {
+    return this.timelockContract.isOperationReady(this.getTimelockOperationId(actions));
+  }
+
+  /**
+   * Poll the timelock until the queued proposal is executable
+   */
+  async waitForTimelock(actions: ProposalActions, opts: WaitOptions = {}): Promise<void> {
+    const pollIntervalMs = opts.pollIntervalMs ?? 60_000;
+    const deadline = Date.now() + (opts.timeoutMs ?? 14 * 24 * 60 * 60 * 1000);
+    const operationId = this.getTimelockOperationId(actions);
+
+    while (Date.now() < deadline) {
+      if (await this.timelockContract.isOperationReady(operationId)) return;
+
+      await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+    }
+
+    throw new Error(`Timeout waiting for timelock operation ${operationId}`);
+  }
+
+  /**
+   * Simulate a governor write without sending it
+   */
+  async preflight<K extends keyof BASEGovernorWriteFunctions>(
+    method: K,
+    args: BASEGovernorWriteFunctions[K]['args'],
+    options?: TransactionOptions
+  ): Promise<PreflightReport> {
+    const overrides = txOverrides(options);
+    return runPreflight({
+      contract: 'BASEGovernor',
+      method,
+      call: () => this.governorWriter.staticCall(method, args, overrides),
+      estimateGas: () => this.governorWriter.estimateGas(method, args, overrides),
+    });
+  }
+
+  /**
+   * Estimate gas and fees for a governor write
+   */
+  async estimateCost<K extends keyof BASEGovernorWriteFunctions>(
+    method: K,
+    args: BASEGovernorWriteFunctions[K]['args'],
+    estimator: GasFeeEstimator,
+    options?: TransactionOptions
+  ): Promise<CostEstimate> {
+    const tx = await this.governorWriter.populateTransaction(method, args, txOverrides(options));
+    if (!tx.from && this.signer) tx.from = await this.signer.getAddress();
+    return estimator.estimate(tx);
+  }
+
+  /**
+   * Description hash used by queue/execute
+   */
+  static getDescriptionHash(description: string): string {
+    return ethers.id(description);
   }
 }
 
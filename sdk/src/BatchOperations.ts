@@ -0,0 +1,514 @@
+/**
+ * @fileoverview Basero Batch Operations
+ * Builds, checks, sends and decodes calls to the BatchOperations contracts
+ *
+ * The batch contracts forward each item with a plain `call`, so inside the
+ * batch `msg.sender` is the batch contract. Only batchDepositFor and
+ * batchTransfer act for the caller; withdrawals, approvals, votes, locks and
+ * bridge transfers act for the batch contract itself. Several entry points
+ * also call signatures the Basero contracts do not implement. Every built
+ * call lists such problems in `warnings`; simulate before sending.
+ *
+ * `BatchOperations.batchDeposit` is a library function and cannot be called
+ * directly; deposits go through BatchVaultOperations.batchDepositFor.
+ */
+
+import { ethers, Provider, Signer, TransactionReceipt, TransactionRequest } from 'ethers';
+import { OperationResult, TransactionOptions } from './BaseroSDK';
+import { decodeBaseroError } from './ErrorDecoder';
+import { PreflightReport, runPreflight, txOverrides } from './Preflight';
+
+/**
+ * Deployed batch contracts
+ */
+export interface BatchOperationsAddresses {
+  vault?: string;
+  token?: string;
+  governance?: string;
+  bridge?: string;
+}
+
+export type BatchMethod =
+  | 'batchDepositFor'
+  | 'batchWithdraw'
+  | 'batchTransfer'
+  | 'batchApprove'
+  | 'batchVote'
+  | 'batchCreateLocks'
+  | 'batchBridge';
+
+/**
+ * One item of a batch, as the contract will process it
+ */
+export interface BatchItem {
+  index: number;
+  /** Recipient, spender, or unset for withdrawals and locks */
+  account?: string;
+  amount: bigint;
+  proposalId?: bigint;
+  support?: boolean;
+  unlockTime?: bigint;
+}
+
+/**
+ * A call to a batch entry point and the individual transactions it replaces
+ */
+export interface BatchCall {
+  method: BatchMethod;
+  /** Batch contract */
+  to: string;
+  data: string;
+  value: bigint;
+  /** Vault, token, governor, escrow or bridge the batch forwards to */
+  target: string;
+  items: BatchItem[];
+  /** Sum of item amounts */
+  total: bigint;
+  /** The same items sent one transaction each */
+  individual: Array<{ to: string; data: string; value: bigint }>;
+  /** Reasons the batch would revert or act for the wrong account */
+  warnings: string[];
+}
+
+export interface BatchSavings {
+  batchGas: bigint;
+  individualGas: bigint;
+  savedGas: bigint;
+  /** Saved share of individual gas (bps, negative when batching costs more) */
+  savedBps: bigint;
+}
+
+/**
+ * A mined batch decoded into its items
+ */
+export interface BatchResult {
+  method: BatchMethod;
+  sender: string;
+  /** Count and total from the batch event (from the call for methods without one) */
+  count: bigint;
+  totalAmount: bigint;
+  items: Array<BatchItem & { logIndex?: number }>;
+}
+
+const BATCH_ABI = [
+  'function batchDepositFor(address vault, address[] recipients, uint256[] amounts) payable',
+  'function batchWithdraw(address vault, uint256[] amounts)',
+  'function batchTransfer(address token, address[] recipients, uint256[] amounts)',
+  'function batchApprove(address token, address[] spenders, uint256[] amounts)',
+  'function batchVote(address governor, uint256[] proposalIds, bool[] support)',
+  'function batchCreateLocks(address votingEscrow, uint256[] amounts, uint256[] unlockTimes)',
+  'function batchBridge(address bridge, uint64 destinationChain, address[] recipients, uint256[] amounts)',
+  'event BatchDeposit(address indexed user, uint256 count, uint256 totalAmount)',
+  'event BatchWithdrawal(address indexed user, uint256 count, uint256 totalAmount)',
+  'event BatchTransfer(address indexed from, uint256 recipientCount, uint256 totalAmount)',
+  'event BatchVote(address indexed voter, uint256 proposalCount)',
+  'event BatchBridge(address indexed sender, uint256 transferCount, uint256 totalAmount)',
+];
+
+// Calls the batch contracts forward, and the direct calls they replace
+const TARGET_ABI = [
+  'function deposit() payable',
+  'function depositFor(address recipient) payable',
+  'function withdraw(uint256 amount)',
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function castVote(uint256 proposalId, bool support)',
+  'function createLock(uint256 amount, uint256 unlockTime)',
+  'function transferToChain(uint64 destinationChain, address recipient, uint256 amount)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function balanceOf(address account) view returns (uint256)',
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+];
+
+const AS_BATCH_CONTRACT = (action: string) =>
+  `${action} for the batch contract, not the caller (it is msg.sender for every item)`;
+
+/**
+ * Batch Operations Client - Calls against the BatchOperations contracts
+ */
+export class BatchOperationsClient {
+  private provider: Provider;
+  private signer?: Signer;
+  private addresses: BatchOperationsAddresses;
+  private iface = new ethers.Interface(BATCH_ABI);
+  private targetIface = new ethers.Interface(TARGET_ABI);
+  private decimals: number = 18;
+
+  constructor(provider: Provider, addresses: BatchOperationsAddresses, signer?: Signer) {
+    this.provider = provider;
+    this.signer = signer;
+    this.addresses = addresses;
+  }
+
+  /**
+   * Deposit ETH for several recipients; sends the total as value
+   */
+  buildDeposit(vault: string, recipients: string[], amounts: Array<string | bigint>): BatchCall {
+    const parsed = this.checkItems(recipients, amounts, 'recipient');
+    const total = BatchOperationsClient.sum(parsed);
+
+    return this.toCall('batchDepositFor', 'vault', vault, [vault, recipients, parsed], total, {
+      items: recipients.map((account, index) => ({ index, account, amount: parsed[index] })),
+      individual: parsed.map((amount) => ({ to: vault, data: this.targetIface.encodeFunctionData('deposit'), value: amount })),
+      warnings: ['Calls depositFor(address) on the vault; RebaseTokenVault only implements deposit()'],
+    });
+  }
+
+  /**
+   * Withdraw several amounts from the vault
+   */
+  buildWithdraw(vault: string, amounts: Array<string | bigint>): BatchCall {
+    if (amounts.length === 0) throw new Error('Empty batch');
+    const parsed = amounts.map((amount) => this.parsePositive(amount));
+
+    return this.toCall('batchWithdraw', 'vault', vault, [vault, parsed], 0n, {
+      items: parsed.map((amount, index) => ({ index, amount })),
+      individual: parsed.map((amount) => ({
+        to: vault,
+        data: this.targetIface.encodeFunctionData('withdraw', [amount]),
+        value: 0n,
+      })),
+      warnings: [AS_BATCH_CONTRACT('Withdraws')],
+    });
+  }
+
+  /**
+   * Transfer tokens to several recipients; the batch contract needs an allowance for the total
+   */
+  buildTransfer(token: string, recipients: string[], amounts: Array<string | bigint>): BatchCall {
+    const parsed = this.checkItems(recipients, amounts, 'recipient');
+
+    return this.toCall('batchTransfer', 'token', token, [token, recipients, parsed], 0n, {
+      items: recipients.map((account, index) => ({ index, account, amount: parsed[index] })),
+      individual: recipients.map((account, index) => ({
+        to: token,
+        data: this.targetIface.encodeFunctionData('transfer', [account, parsed[index]]),
+        value: 0n,
+      })),
+      warnings: [],
+    });
+  }
+
+  /**
+   * Approve several spenders
+   */
+  buildApprove(token: string, spenders: string[], amounts: Array<string | bigint>): BatchCall {
+    const parsed = this.checkItems(spenders, amounts, 'spender', true);
+
+    return this.toCall('batchApprove', 'token', token, [token, spenders, parsed], 0n, {
+      items: spenders.map((account, index) => ({ index, account, amount: parsed[index] })),
+      individual: spenders.map((account, index) => ({
+        to: token,
+        data: this.targetIface.encodeFunctionData('approve', [account, parsed[index]]),
+        value: 0n,
+      })),
+      warnings: [AS_BATCH_CONTRACT('Grants approvals')],
+    });
+  }
+
+  /**
+   * Vote on several proposals
+   */
+  buildVote(governor: string, proposalIds: bigint[], support: boolean[]): BatchCall {
+    if (proposalIds.length === 0) throw new Error('Empty batch');
+    if (proposalIds.length !== support.length) throw new Error('Mismatched arrays length');
+    if (new Set(proposalIds.map(String)).size !== proposalIds.length) throw new Error('Duplicate proposal id in batch');
+
+    return this.toCall('batchVote', 'governance', governor, [governor, proposalIds, support], 0n, {
+      items: proposalIds.map((proposalId, index) => ({ index, amount: 0n, proposalId, support: support[index] })),
+      individual: proposalIds.map((proposalId, index) => ({
+        to: governor,
+        data: this.targetIface.encodeFunctionData('castVote', [proposalId, support[index]]),
+        value: 0n,
+      })),
+      warnings: [
+        AS_BATCH_CONTRACT('Casts votes'),
+        'Calls castVote(uint256,bool); BASEGovernor implements castVote(uint256,uint8)',
+      ],
+    });
+  }
+
+  /**
+   * Create several vote-escrow locks; unlock times are unix seconds
+   */
+  buildCreateLocks(votingEscrow: string, amounts: Array<string | bigint>, unlockTimes: Array<number | bigint>): BatchCall {
+    if (amounts.length === 0) throw new Error('Empty batch');
+    if (amounts.length !== unlockTimes.length) throw new Error('Mismatched arrays length');
+
+    const parsed = amounts.map((amount) => this.parsePositive(amount));
+    const times = unlockTimes.map((time) => BigInt(time));
+
+    return this.toCall('batchCreateLocks', 'governance', votingEscrow, [votingEscrow, parsed, times], 0n, {
+      items: parsed.map((amount, index) => ({ index, amount, unlockTime: times[index] })),
+      individual: parsed.map((amount, index) => ({
+        to: votingEscrow,
+        data: this.targetIface.encodeFunctionData('createLock', [amount, times[index]]),
+        value: 0n,
+      })),
+      warnings: [AS_BATCH_CONTRACT('Creates locks'), 'Calls createLock(uint256,uint256); no Basero contract implements it'],
+    });
+  }
+
+  /**
+   * Bridge to several recipients on one destination chain
+   */
+  buildBridge(
+    bridge: string,
+    destinationChainSelector: bigint,
+    recipients: string[],
+    amounts: Array<string | bigint>
+  ): BatchCall {
+    const parsed = this.checkItems(recipients, amounts, 'recipient');
+
+    return this.toCall('batchBridge', 'bridge', bridge, [bridge, destinationChainSelector, recipients, parsed], 0n, {
+      items: recipients.map((account, index) => ({ index, account, amount: parsed[index] })),
+      individual: recipients.map((account, index) => ({
+        to: bridge,
+        data: this.targetIface.encodeFunctionData('transferToChain', [destinationChainSelector, account, parsed[index]]),
+        value: 0n,
+      })),
+      warnings: [
+        AS_BATCH_CONTRACT('Bridges tokens'),
+        'Calls transferToChain(uint64,address,uint256); EnhancedCCIPBridge does not implement it',
+        'Sends no CCIP fee with each transfer',
+      ],
+    });
+  }
+
+  /**
+   * Reasons the caller's balances cannot cover the batch, or its unlock times have passed
+   */
+  async checkTotals(call: BatchCall, from: string): Promise<string[]> {
+    const problems: string[] = [];
+
+    if (call.method === 'batchDepositFor') {
+      const balance = await this.provider.getBalance(from);
+      if (balance < call.total) problems.push(`ETH balance ${balance} is below the batch total ${call.total}`);
+    }
+
+    if (call.method === 'batchTransfer') {
+      const token = new ethers.Contract(call.target, TARGET_ABI, this.provider);
+      const [balance, allowance] = (await Promise.all([
+        token.balanceOf(from),
+        token.allowance(from, call.to),
+      ])) as [bigint, bigint];
+      if (balance < call.total) problems.push(`Token balance ${balance} is below the batch total ${call.total}`);
+      if (allowance < call.total) {
+        problems.push(`Allowance ${allowance} to the batch contract is below the batch total ${call.total}`);
+      }
+    }
+
+    if (call.method === 'batchCreateLocks') {
+      const block = await this.provider.getBlock('latest');
+      const now = BigInt(block?.timestamp ?? Math.floor(Date.now() / 1000));
+      for (const item of call.items) {
+        if (item.unlockTime! <= now) problems.push(`Unlock time ${item.unlockTime} at index ${item.index} is not in the future`);
+      }
+    }
+
+    return problems;
+  }
+
+  /**
+   * Compare the batch's gas estimate with the sum of its individual transactions
+   */
+  async estimateSavings(call: BatchCall, from?: string): Promise<BatchSavings> {
+    const sender = from ?? (this.signer ? await this.signer.getAddress() : undefined);
+    const estimate = (tx: TransactionRequest) => this.provider.estimateGas({ ...tx, from: sender });
+
+    const [batchGas, ...individual] = await Promise.all([
+      estimate({ to: call.to, data: call.data, value: call.value }),
+      ...call.individual.map((tx) => estimate(tx)),
+    ]);
+
+    const individualGas = individual.reduce((sum, gas) => sum + gas, 0n);
+    const savedGas = individualGas - batchGas;
+
+    return {
+      batchGas,
+      individualGas,
+      savedGas,
+      savedBps: individualGas > 0n ? (savedGas * 10_000n) / individualGas : 0n,
+    };
+  }
+
+  /**
+   * Send a built batch and decode its items
+   */
+  async execute(call: BatchCall, options?: TransactionOptions): Promise<OperationResult<BatchResult>> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    try {
+      const preflight = options?.simulate ? await this.preflight(call, options) : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.signer.sendTransaction({
+        ...txOverrides(options),
+        to: call.to,
+        data: call.data,
+        value: call.value,
+      });
+      const receipt = await tx.wait();
+
+      return {
+        success: true,
+        hash: tx.hash,
+        receipt,
+        preflight,
+        data: receipt ? this.decodeReceipt(call, receipt) : undefined,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: decodeBaseroError(error, 'BatchOperations'),
+      };
+    }
+  }
+
+  /**
+   * Simulate a built batch without sending it; balance shortfalls fail as checks
+   */
+  async preflight(call: BatchCall, options?: TransactionOptions): Promise<PreflightReport> {
+    const from = this.signer ? await this.signer.getAddress() : undefined;
+    const tx: TransactionRequest = { ...txOverrides(options), to: call.to, data: call.data, value: call.value, from };
+    const problems = from ? await this.checkTotals(call, from) : [];
+
+    return runPreflight({
+      contract: 'BatchOperations',
+      method: call.method,
+      checks: problems.map((message) => ({ name: 'totals', status: 'fail' as const, message })),
+      call: () => this.provider.call(tx),
+      estimateGas: () => this.provider.estimateGas(tx),
+    });
+  }
+
+  /**
+   * Decode a mined batch from its transaction hash
+   */
+  async getResult(hash: string): Promise<BatchResult> {
+    const [tx, receipt] = await Promise.all([
+      this.provider.getTransaction(hash),
+      this.provider.getTransactionReceipt(hash),
+    ]);
+    if (!tx || !receipt) throw new Error(`Transaction not found: ${hash}`);
+
+    const parsed = this.iface.parseTransaction({ data: tx.data, value: tx.value });
+    if (!parsed) throw new Error(`Not a batch operation: ${hash}`);
+
+    const call = this.fromParsed(parsed.name as BatchMethod, tx.to ?? '', parsed.args, tx.value);
+    return this.decodeReceipt(call, receipt);
+  }
+
+  /**
+   * Pair a receipt's batch event and per-item logs with the call's items
+   *
+   * Transfers are matched to the token's Transfer logs by recipient and amount.
+   */
+  decodeReceipt(call: BatchCall, receipt: TransactionReceipt): BatchResult {
+    const events = receipt.logs
+      .filter((log) => log.address.toLowerCase() === call.to.toLowerCase())
+      .map((log) => this.iface.parseLog(log))
+      .filter((event): event is ethers.LogDescription => event !== null);
+    const event = events[0];
+
+    const items: BatchResult['items'] = call.items.map((item) => ({ ...item }));
+    if (call.method === 'batchTransfer') {
+      const transfers = receipt.logs
+        .filter((log) => log.address.toLowerCase() === call.target.toLowerCase())
+        .map((log) => ({ log, parsed: this.targetIface.parseLog(log) }))
+        .filter(({ parsed }) => parsed?.name === 'Transfer');
+
+      for (const item of items) {
+        const match = transfers.findIndex(
+          ({ parsed }) =>
+            parsed!.args.to.toLowerCase() === item.account!.toLowerCase() && parsed!.args.value === item.amount
+        );
+        if (match >= 0) item.logIndex = transfers.splice(match, 1)[0].log.index;
+      }
+    }
+
+    return {
+      method: call.method,
+      sender: event ? event.args[0] : receipt.from,
+      count: event ? event.args[1] : BigInt(call.items.length),
+      totalAmount: event && event.args.length > 2 ? event.args[2] : call.total,
+      items,
+    };
+  }
+
+  /**
+   * Rebuild a call from decoded batch calldata
+   */
+  private fromParsed(method: BatchMethod, to: string, result: ethers.Result, value: bigint): BatchCall {
+    const [target, ...rest] = result.toArray().map((arg) => (Array.isArray(arg) ? [...arg] : arg));
+    const build: Record<BatchMethod, () => BatchCall> = {
+      batchDepositFor: () => this.buildDeposit(target, rest[0], rest[1]),
+      batchWithdraw: () => this.buildWithdraw(target, rest[0]),
+      batchTransfer: () => this.buildTransfer(target, rest[0], rest[1]),
+      batchApprove: () => this.buildApprove(target, rest[0], rest[1]),
+      batchVote: () => this.buildVote(target, rest[0], rest[1]),
+      batchCreateLocks: () => this.buildCreateLocks(target, rest[0], rest[1]),
+      batchBridge: () => this.buildBridge(target, rest[0], rest[1], rest[2]),
+    };
+
+    return { ...build[method](), to, value };
+  }
+
+  private toCall(
+    method: BatchMethod,
+    contract: keyof BatchOperationsAddresses,
+    target: string,
+    args: unknown[],
+    value: bigint,
+    parts: Pick<BatchCall, 'items' | 'individual' | 'warnings'>
+  ): BatchCall {
+    if (!ethers.isAddress(target)) throw new Error(`Invalid target address: ${target}`);
+    const to = this.addresses[contract];
+    if (!to) throw new Error(`Missing required config: batch${contract[0].toUpperCase()}${contract.slice(1)}OperationsAddress`);
+
+    return {
+      method,
+      to,
+      data: this.iface.encodeFunctionData(method, args),
+      value,
+      target,
+      total: BatchOperationsClient.sum(parts.items.map((item) => item.amount)),
+      ...parts,
+    };
+  }
+
+  /**
+   * Validate address/amount pairs and parse the amounts
+   */
+  private checkItems(accounts: string[], amounts: Array<string | bigint>, label: string, allowZero = false): bigint[] {
+    if (accounts.length === 0) throw new Error('Empty batch');
+    if (accounts.length !== amounts.length) throw new Error('Mismatched arrays length');
+
+    accounts.forEach((account, index) => {
+      if (!ethers.isAddress(account) || account === ethers.ZeroAddress) {
+        throw new Error(`Invalid ${label} address at index ${index}: ${account}`);
+      }
+    });
+    return amounts.map((amount) => (allowZero ? this.parseAmount(amount) : this.parsePositive(amount)));
+  }
+
+  private parsePositive(amount: string | bigint): bigint {
+    const parsed = this.parseAmount(amount);
+    if (parsed <= 0n) throw new Error('Amount must be greater than 0');
+    return parsed;
+  }
+
+  /**
+   * Parse amount string to bigint
+   */
+  private parseAmount(amount: string | bigint): bigint {
+    if (typeof amount === 'bigint') return amount;
+    return ethers.parseUnits(amount, this.decimals);
+  }
+
+  private static sum(amounts: bigint[]): bigint {
+    return amounts.reduce((total, amount) => total + amount, 0n);
+  }
+}
+
+export default BatchOperationsClient;
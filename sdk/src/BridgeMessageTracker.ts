@@ -0,0 +1,537 @@
+/**
+ * @fileoverview Basero Cross-Chain Message Tracker
+ * Correlates CCIP messages across source and destination chains
+ */
+
+import { ethers, Log, Provider } from 'ethers';
+
+/**
+ * Message lifecycle status
+ */
+export type TrackedMessageStatus = 'sent' | 'received' | 'failed' | 'stuck';
+
+/**
+ * Tracked message record
+ *
+ * A record may be created from either side; destination events seen
+ * before their source event are merged once the source is indexed.
+ */
+export interface TrackedMessage {
+  messageId: string;
+  status: TrackedMessageStatus;
+  sourceChainSelector?: bigint;
+  destinationChainSelector?: bigint;
+  sender?: string;
+  recipient?: string;
+  amount?: bigint;
+  fees?: bigint;
+  sentTxHash?: string;
+  sentBlock?: number;
+  sentAt?: number;
+  receivedTxHash?: string;
+  receivedBlock?: number;
+  receivedAt?: number;
+  failureReason?: string;
+  latencySeconds?: number;
+}
+
+/**
+ * Last fully processed block on each chain
+ */
+export interface TrackerCursor {
+  sourceBlock: number;
+  destinationBlock: number;
+}
+
+/**
+ * Persisted tracker state
+ */
+export interface TrackerState {
+  cursor: TrackerCursor;
+  messages: TrackedMessage[];
+}
+
+/**
+ * Pluggable persistence for tracker state
+ */
+export interface TrackerStore {
+  load(): Promise<TrackerState | null>;
+  save(state: TrackerState): Promise<void>;
+}
+
+/**
+ * Changes observed by a single poll
+ */
+export interface TrackerUpdate {
+  sent: TrackedMessage[];
+  received: TrackedMessage[];
+  failed: TrackedMessage[];
+  stuck: TrackedMessage[];
+  cursor: TrackerCursor;
+}
+
+/**
+ * Tracker configuration
+ */
+export interface BridgeMessageTrackerConfig {
+  sourceProvider: Provider;
+  destinationProvider: Provider;
+  /** Bridge/sender contracts emitting MessageSent or CrossChainTransfer */
+  sourceAddresses: string[];
+  /** Bridge/receiver contracts emitting MessageReceived or MessageFailed */
+  destinationAddresses: string[];
+  store?: TrackerStore;
+  /** Blocks to start from when the store is empty (defaults to latest) */
+  startBlocks?: Partial<TrackerCursor>;
+  /** Seconds after which an undelivered message is flagged stuck (default 1h) */
+  stuckAfterSeconds?: number;
+  /** Blocks to stay behind head on each chain (default 0) */
+  confirmations?: number;
+  /** Maximum block span per getLogs call (default 2000) */
+  maxBlockRange?: number;
+}
+
+const TRACKER_EVENTS = [
+  // EnhancedCCIPBridge
+  'event CrossChainTransfer(bytes32 indexed messageId, uint64 indexed destinationChain, address indexed recipient, uint256 amount, uint256 fees)',
+  'event MessageReceived(bytes32 indexed messageId, uint64 indexed sourceChainSelector, address indexed sender, uint256 amount)',
+  // CCIPRebaseTokenSender / CCIPRebaseTokenReceiver
+  'event MessageSent(bytes32 indexed messageId, uint64 indexed destinationChainSelector, address receiver, uint256 amount, uint256 fees)',
+  'event MessageReceived(bytes32 indexed messageId, uint64 indexed sourceChainSelector, address sender, address recipient, uint256 amount)',
+  // Defensive receivers
+  'event MessageFailed(bytes32 indexed messageId, string reason)',
+  'event MessageFailed(bytes32 indexed messageId, bytes reason)',
+];
+
+/**
+ * In-memory store (state is lost on restart)
+ */
+export class InMemoryTrackerStore implements TrackerStore {
+  private state: TrackerState | null = null;
+
+  async load(): Promise<TrackerState | null> {
+    return this.state ? structuredClone(this.state) : null;
+  }
+
+  async save(state: TrackerState): Promise<void> {
+    this.state = structuredClone(state);
+  }
+}
+
+/**
+ * JSON file store for Node.js scripts
+ *
+ * Writes go to a temporary file and are renamed into place so a crash
+ * mid-write never leaves a truncated state file.
+ */
+export class JsonFileTrackerStore implements TrackerStore {
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async load(): Promise<TrackerState | null> {
+    const fs = await import('fs/promises');
+
+    try {
+      const raw = await fs.readFile(this.path, 'utf8');
+      return JSON.parse(raw, (_key, value) =>
+        value && typeof value === 'object' && typeof value.$bigint === 'string'
+          ? BigInt(value.$bigint)
+          : value
+      );
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async save(state: TrackerState): Promise<void> {
+    const fs = await import('fs/promises');
+    const json = JSON.stringify(
+      state,
+      (_key, value) => (typeof value === 'bigint' ? { $bigint: value.toString() } : value),
+      2
+    );
+
+    const tmpPath = `${this.path}.tmp`;
+    await fs.writeFile(tmpPath, json, 'utf8');
+    await fs.rename(tmpPath, this.path);
+  }
+}
+
+/**
+ * Bridge Message Tracker - Polls both chains and correlates messages
+ */
+export class BridgeMessageTracker {
+  private config: BridgeMessageTrackerConfig;
+  private store: TrackerStore;
+  private iface: ethers.Interface;
+  private messages: Map<string, TrackedMessage> = new Map();
+  private cursor: TrackerCursor | null = null;
+  private timer?: ReturnType<typeof setTimeout>;
+  private polling = false;
+
+  constructor(config: BridgeMessageTrackerConfig) {
+    this.config = config;
+    this.store = config.store || new InMemoryTrackerStore();
+    this.iface = new ethers.Interface(TRACKER_EVENTS);
+  }
+
+  /**
+   * Restore state from the store, or start from configured/latest blocks
+   */
+  async init(): Promise<TrackerCursor> {
+    const saved = await this.store.load();
+
+    if (saved) {
+      this.cursor = { ...saved.cursor };
+      this.messages = new Map(saved.messages.map(msg => [msg.messageId, msg]));
+      return { ...this.cursor };
+    }
+
+    const [sourceHead, destinationHead] = await Promise.all([
+      this.config.sourceProvider.getBlockNumber(),
+      this.config.destinationProvider.getBlockNumber(),
+    ]);
+
+    this.cursor = {
+      sourceBlock: this.config.startBlocks?.sourceBlock ?? sourceHead,
+      destinationBlock: this.config.startBlocks?.destinationBlock ?? destinationHead,
+    };
+    await this.persist();
+
+    return { ...this.cursor };
+  }
+
+  /**
+   * Fetch new logs on both chains, update records and persist the cursor
+   */
+  async poll(): Promise<TrackerUpdate> {
+    if (!this.cursor) await this.init();
+    const cursor = this.cursor!;
+    const confirmations = this.config.confirmations ?? 0;
+
+    const [sourceHead, destinationHead] = await Promise.all([
+      this.config.sourceProvider.getBlockNumber(),
+      this.config.destinationProvider.getBlockNumber(),
+    ]);
+    const sourceTo = sourceHead - confirmations;
+    const destinationTo = destinationHead - confirmations;
+
+    const [sourceLogs, destinationLogs] = await Promise.all([
+      this.fetchLogs(this.config.sourceProvider, this.config.sourceAddresses, cursor.sourceBlock + 1, sourceTo),
+      this.fetchLogs(this.config.destinationProvider, this.config.destinationAddresses, cursor.destinationBlock + 1, destinationTo),
+    ]);
+
+    const update: TrackerUpdate = {
+      sent: [],
+      received: [],
+      failed: [],
+      stuck: [],
+      cursor,
+    };
+
+    const sourceTimes = new Map<number, number>();
+    for (const log of sourceLogs) {
+      const msg = await this.applySourceLog(log, sourceTimes);
+      if (msg) update.sent.push(msg);
+    }
+
+    const destinationTimes = new Map<number, number>();
+    for (const log of destinationLogs) {
+      const msg = await this.applyDestinationLog(log, destinationTimes);
+      if (!msg) continue;
+      if (msg.status === 'failed') {
+        update.failed.push(msg);
+      } else {
+        update.received.push(msg);
+      }
+    }
+
+    update.stuck = this.detectStuck();
+
+    this.cursor = {
+      sourceBlock: Math.max(cursor.sourceBlock, sourceTo),
+      destinationBlock: Math.max(cursor.destinationBlock, destinationTo),
+    };
+    update.cursor = { ...this.cursor };
+    await this.persist();
+
+    return update;
+  }
+
+  /**
+   * Poll on an interval until stop() is called
+   */
+  start(intervalMs: number, onUpdate?: (update: TrackerUpdate) => void, onError?: (error: Error) => void): void {
+    this.stop();
+
+    const tick = async () => {
+      if (this.polling) return;
+      this.polling = true;
+
+      try {
+        const update = await this.poll();
+        onUpdate?.(update);
+      } catch (error) {
+        onError?.(error as Error);
+      } finally {
+        this.polling = false;
+      }
+
+      if (this.timer !== undefined) {
+        this.timer = setTimeout(tick, intervalMs);
+      }
+    };
+
+    this.timer = setTimeout(tick, 0);
+  }
+
+  /**
+   * Stop interval polling
+   */
+  stop(): void {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Get a tracked message
+   */
+  getMessage(messageId: string): TrackedMessage | undefined {
+    return this.messages.get(messageId.toLowerCase());
+  }
+
+  /**
+   * Get tracked messages, optionally filtered by status
+   */
+  getMessages(status?: TrackedMessageStatus): TrackedMessage[] {
+    const all = Array.from(this.messages.values());
+    return status ? all.filter(msg => msg.status === status) : all;
+  }
+
+  /**
+   * Get current cursor
+   */
+  getCursor(): TrackerCursor | null {
+    return this.cursor ? { ...this.cursor } : null;
+  }
+
+  /**
+   * Latency statistics over delivered messages
+   */
+  getLatencyStats(): {
+    count: number;
+    averageSeconds: number;
+    medianSeconds: number;
+    maxSeconds: number;
+  } {
+    const latencies = this.getMessages('received')
+      .map(msg => msg.latencySeconds)
+      .filter((latency): latency is number => latency !== undefined)
+      .sort((a, b) => a - b);
+
+    if (latencies.length === 0) {
+      return { count: 0, averageSeconds: 0, medianSeconds: 0, maxSeconds: 0 };
+    }
+
+    const sum = latencies.reduce((acc, latency) => acc + latency, 0);
+
+    return {
+      count: latencies.length,
+      averageSeconds: sum / latencies.length,
+      medianSeconds: latencies[Math.floor(latencies.length / 2)],
+      maxSeconds: latencies[latencies.length - 1],
+    };
+  }
+
+  /**
+   * Apply a source-chain log
+   */
+  private async applySourceLog(log: Log, blockTimes: Map<number, number>): Promise<TrackedMessage | null> {
+    const parsed = this.parse(log);
+    if (!parsed) return null;
+
+    let fields: Partial<TrackedMessage>;
+    if (parsed.name === 'CrossChainTransfer') {
+      fields = {
+        destinationChainSelector: parsed.args.destinationChain,
+        recipient: parsed.args.recipient,
+        amount: parsed.args.amount,
+        fees: parsed.args.fees,
+      };
+    } else if (parsed.name === 'MessageSent') {
+      fields = {
+        destinationChainSelector: parsed.args.destinationChainSelector,
+        recipient: parsed.args.receiver,
+        amount: parsed.args.amount,
+        fees: parsed.args.fees,
+      };
+    } else {
+      return null;
+    }
+
+    const messageId = (parsed.args.messageId as string).toLowerCase();
+    const existing = this.messages.get(messageId);
+    const sentAt = await this.blockTime(this.config.sourceProvider, log.blockNumber, blockTimes);
+
+    const msg: TrackedMessage = {
+      ...fields,
+      ...existing,
+      messageId,
+      status: existing?.status === 'received' || existing?.status === 'failed' ? existing.status : 'sent',
+      sentTxHash: log.transactionHash,
+      sentBlock: log.blockNumber,
+      sentAt,
+    };
+    if (msg.receivedAt !== undefined) {
+      msg.latencySeconds = msg.receivedAt - sentAt;
+    }
+
+    this.messages.set(messageId, msg);
+    return msg;
+  }
+
+  /**
+   * Apply a destination-chain log
+   */
+  private async applyDestinationLog(log: Log, blockTimes: Map<number, number>): Promise<TrackedMessage | null> {
+    const parsed = this.parse(log);
+    if (!parsed) return null;
+
+    let fields: Partial<TrackedMessage>;
+    if (parsed.name === 'MessageReceived') {
+      fields = {
+        status: 'received',
+        sourceChainSelector: parsed.args.sourceChainSelector,
+        sender: parsed.args.sender,
+        amount: parsed.args.amount,
+      };
+      if (parsed.args.length === 5) {
+        fields.recipient = parsed.args.recipient;
+      }
+    } else if (parsed.name === 'MessageFailed') {
+      const reason = parsed.args.reason as string;
+      fields = {
+        status: 'failed',
+        failureReason: parsed.fragment.inputs[1].type === 'bytes' ? this.decodeReason(reason) : reason,
+      };
+    } else {
+      return null;
+    }
+
+    const messageId = (parsed.args.messageId as string).toLowerCase();
+    const existing = this.messages.get(messageId);
+    const receivedAt = await this.blockTime(this.config.destinationProvider, log.blockNumber, blockTimes);
+
+    const msg: TrackedMessage = {
+      ...existing,
+      ...fields,
+      messageId,
+      status: fields.status!,
+      receivedTxHash: log.transactionHash,
+      receivedBlock: log.blockNumber,
+      receivedAt,
+    };
+    if (msg.sentAt !== undefined) {
+      msg.latencySeconds = receivedAt - msg.sentAt;
+    }
+
+    this.messages.set(messageId, msg);
+    return msg;
+  }
+
+  /**
+   * Flag sent messages older than the stuck timeout
+   */
+  private detectStuck(): TrackedMessage[] {
+    const stuckAfter = this.config.stuckAfterSeconds ?? 3600;
+    const now = Math.floor(Date.now() / 1000);
+    const stuck: TrackedMessage[] = [];
+
+    for (const msg of this.messages.values()) {
+      if (msg.status === 'sent' && msg.sentAt !== undefined && now - msg.sentAt > stuckAfter) {
+        msg.status = 'stuck';
+        stuck.push(msg);
+      }
+    }
+
+    return stuck;
+  }
+
+  /**
+   * Fetch logs in block-range chunks
+   */
+  private async fetchLogs(provider: Provider, addresses: string[], fromBlock: number, toBlock: number): Promise<Log[]> {
+    if (addresses.length === 0 || fromBlock > toBlock) return [];
+
+    const maxRange = this.config.maxBlockRange ?? 2000;
+    const topics = [this.iface.fragments
+      .filter((fragment): fragment is ethers.EventFragment => fragment.type === 'event')
+      .map(fragment => fragment.topicHash)];
+    const logs: Log[] = [];
+
+    for (let start = fromBlock; start <= toBlock; start += maxRange) {
+      const end = Math.min(start + maxRange - 1, toBlock);
+      logs.push(...await provider.getLogs({ address: addresses, topics, fromBlock: start, toBlock: end }));
+    }
+
+    return logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+  }
+
+  /**
+   * Parse a log with the tracker interface
+   */
+  private parse(log: Log): ethers.LogDescription | null {
+    try {
+      return this.iface.parseLog(log);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Decode bytes revert reason to a string where possible
+   */
+  private decodeReason(data: string): string {
+    try {
+      if (data.startsWith('0x08c379a0')) {
+        return ethers.AbiCoder.defaultAbiCoder().decode(['string'], ethers.dataSlice(data, 4))[0];
+      }
+    } catch {
+      // Fall through to raw data
+    }
+    return data;
+  }
+
+  /**
+   * Block timestamp with per-poll cache
+   */
+  private async blockTime(provider: Provider, blockNumber: number, cache: Map<number, number>): Promise<number> {
+    const cached = cache.get(blockNumber);
+    if (cached !== undefined) return cached;
+
+    const block = await provider.getBlock(blockNumber);
+    const timestamp = block ? block.timestamp : Math.floor(Date.now() / 1000);
+    cache.set(blockNumber, timestamp);
+    return timestamp;
+  }
+
+  /**
+   * Persist cursor and messages
+   */
+  private async persist(): Promise<void> {
+    if (!this.cursor) return;
+
+    await this.store.save({
+      cursor: { ...this.cursor },
+      messages: Array.from(this.messages.values()),
+    });
+  }
+}
+
+export default BridgeMessageTracker;
@@ -0,0 +1,596 @@
+/**
+ * @fileoverview Basero CCIP Sender/Receiver Pair Client
+ * Wraps the legacy CCIPRebaseTokenSender -> CCIPRebaseTokenReceiver path
+ */
+
+import { ethers, Contract, Provider, Signer, TransactionReceipt } from 'ethers';
+import { Amount, OperationResult, TransactionOptions } from './BaseroSDK';
+import { BaseroError, decodeBaseroError, defaultErrorRegistry } from './ErrorDecoder';
+import { runPreflight, txOverrides } from './Preflight';
+
+/**
+ * Pair configuration
+ */
+export interface CCIPPairConfig {
+  sourceProvider: Provider;
+  destinationProvider: Provider;
+  senderAddress: string;
+  receiverAddress: string;
+  sourceChainSelector: bigint;
+  destinationChainSelector: bigint;
+}
+
+/**
+ * Sender-side lane state for the destination chain
+ */
+export interface SenderLaneStatus {
+  paused: boolean;
+  destinationAllowlisted: boolean;
+  allowlistedReceiver: string;
+  feeBps: bigint;
+  sendCap: bigint;
+  dailyLimit: bigint;
+  dailyUsed: bigint;
+  dailyRemaining: bigint | null;
+}
+
+/**
+ * Receiver-side lane state for the source chain
+ */
+export interface ReceiverLaneStatus {
+  paused: boolean;
+  sourceAllowlisted: boolean;
+  allowlistedSender: string;
+  bridgedCap: bigint;
+  dailyLimit: bigint;
+  dailyUsed: bigint;
+  dailyRemaining: bigint | null;
+}
+
+/**
+ * Fee breakdown for a send
+ */
+export interface PairFeeQuote {
+  amount: Amount;
+  protocolFee: Amount;
+  bridgedAmount: Amount;
+  feeBps: bigint;
+  ccipFee?: Amount;
+  senderLinkBalance?: Amount;
+}
+
+/**
+ * Pre-flight result for a send
+ */
+export interface PairPreflight {
+  ok: boolean;
+  issues: string[];
+  /** Contract error the send would revert with, when known */
+  error?: BaseroError;
+  sender: SenderLaneStatus;
+  receiver: ReceiverLaneStatus;
+  quote: PairFeeQuote;
+}
+
+/**
+ * Delivery of a message on the destination chain
+ */
+export interface PairDelivery {
+  messageId: string;
+  sourceChainSelector: bigint;
+  sender: string;
+  recipient: string;
+  amount: bigint;
+  transactionHash: string;
+  blockNumber: number;
+}
+
+/**
+ * Message sent on the source chain
+ */
+export interface PairMessageSent {
+  messageId: string;
+  destinationChainSelector: bigint;
+  receiver: string;
+  amount: bigint;
+  fees: bigint;
+}
+
+const SECONDS_PER_DAY = 86400n;
+const EVM_EXTRA_ARGS_V1_TAG = '0x97a657c9';
+const SENDER_GAS_LIMIT = 250_000n;
+
+const SENDER_ABI = [
+  'function sendTokensCrossChain(uint64 _destinationChainSelector, address _receiver, uint256 _amount) external returns (bytes32 messageId)',
+  'function paused() public view returns (bool)',
+  'function rebaseToken() public view returns (address)',
+  'function getRouter() external view returns (address)',
+  'function allowlistedDestinationChains(uint64) public view returns (bool)',
+  'function allowlistedReceivers(uint64) public view returns (address)',
+  'function chainFeeBps(uint64) public view returns (uint256)',
+  'function chainSendCap(uint64) public view returns (uint256)',
+  'function chainDailyLimit(uint64) public view returns (uint256)',
+  'function chainDailyAmount(uint64) public view returns (uint256)',
+  'function chainLastReset(uint64) public view returns (uint256)',
+  'function feeRecipient() public view returns (address)',
+  'event MessageSent(bytes32 indexed messageId, uint64 indexed destinationChainSelector, address receiver, uint256 amount, uint256 fees)',
+];
+
+const RECEIVER_ABI = [
+  'function paused() public view returns (bool)',
+  'function allowlistedSourceChains(uint64) public view returns (bool)',
+  'function allowlistedSenders(uint64) public view returns (address)',
+  'function chainBridgedCap(uint64) public view returns (uint256)',
+  'function chainDailyLimit(uint64) public view returns (uint256)',
+  'function chainDailyAmount(uint64) public view returns (uint256)',
+  'function chainLastReset(uint64) public view returns (uint256)',
+  'event MessageReceived(bytes32 indexed messageId, uint64 indexed sourceChainSelector, address sender, address recipient, uint256 amount)',
+];
+
+/**
+ * CCIP Pair Client - Sends through CCIPRebaseTokenSender and follows the
+ * message to CCIPRebaseTokenReceiver on the destination chain
+ */
+export class CCIPPairClient {
+  private sender: Contract;
+  private receiver: Contract;
+  private config: CCIPPairConfig;
+  private signer?: Signer;
+  private decimals: number = 18;
+
+  constructor(config: CCIPPairConfig, signer?: Signer) {
+    this.config = config;
+    this.signer = signer;
+
+    this.sender = new Contract(
+      config.senderAddress,
+      SENDER_ABI,
+      signer || config.sourceProvider
+    );
+
+    this.receiver = new Contract(
+      config.receiverAddress,
+      RECEIVER_ABI,
+      config.destinationProvider
+    );
+  }
+
+  /**
+   * Get sender lane state for the destination chain
+   */
+  async getSenderStatus(): Promise<SenderLaneStatus> {
+    const dest = this.config.destinationChainSelector;
+    const [paused, allowlisted, receiver, feeBps, sendCap, dailyLimit, dailyAmount, lastReset, dayBucket] =
+      await Promise.all([
+        this.sender.paused(),
+        this.sender.allowlistedDestinationChains(dest),
+        this.sender.allowlistedReceivers(dest),
+        this.sender.chainFeeBps(dest),
+        this.sender.chainSendCap(dest),
+        this.sender.chainDailyLimit(dest),
+        this.sender.chainDailyAmount(dest),
+        this.sender.chainLastReset(dest),
+        this.currentDayBucket(this.config.sourceProvider),
+      ]);
+
+    const dailyUsed: bigint = lastReset === dayBucket ? dailyAmount : 0n;
+
+    return {
+      paused,
+      destinationAllowlisted: allowlisted,
+      allowlistedReceiver: receiver,
+      feeBps,
+      sendCap,
+      dailyLimit,
+      dailyUsed,
+      dailyRemaining: dailyLimit > 0n ? (dailyLimit as bigint) - dailyUsed : null,
+    };
+  }
+
+  /**
+   * Get receiver lane state for the source chain
+   */
+  async getReceiverStatus(): Promise<ReceiverLaneStatus> {
+    const source = this.config.sourceChainSelector;
+    const [paused, allowlisted, sender, bridgedCap, dailyLimit, dailyAmount, lastReset, dayBucket] =
+      await Promise.all([
+        this.receiver.paused(),
+        this.receiver.allowlistedSourceChains(source),
+        this.receiver.allowlistedSenders(source),
+        this.receiver.chainBridgedCap(source),
+        this.receiver.chainDailyLimit(source),
+        this.receiver.chainDailyAmount(source),
+        this.receiver.chainLastReset(source),
+        this.currentDayBucket(this.config.destinationProvider),
+      ]);
+
+    const dailyUsed: bigint = lastReset === dayBucket ? dailyAmount : 0n;
+
+    return {
+      paused,
+      sourceAllowlisted: allowlisted,
+      allowlistedSender: sender,
+      bridgedCap,
+      dailyLimit,
+      dailyUsed,
+      dailyRemaining: dailyLimit > 0n ? (dailyLimit as bigint) - dailyUsed : null,
+    };
+  }
+
+  /**
+   * Compute the protocol fee deduction for an amount
+   */
+  computeFee(amount: bigint, feeBps: bigint): { protocolFee: bigint; bridgedAmount: bigint } {
+    const protocolFee = feeBps > 0n ? (amount * feeBps) / 10_000n : 0n;
+    return {
+      protocolFee,
+      bridgedAmount: amount - protocolFee,
+    };
+  }
+
+  /**
+   * Quote protocol fee and CCIP LINK fee for a send
+   *
+   * The CCIP fee is read from the router with the same message the sender
+   * builds; it is omitted if the router or LINK token cannot be queried.
+   */
+  async quote(
+    recipient: string,
+    amount: string | bigint,
+    from?: string,
+    linkTokenAddress?: string
+  ): Promise<PairFeeQuote> {
+    const amountBn = this.parseAmount(amount);
+    const feeBps: bigint = await this.sender.chainFeeBps(this.config.destinationChainSelector);
+    const { protocolFee, bridgedAmount } = this.computeFee(amountBn, feeBps);
+
+    const quote: PairFeeQuote = {
+      amount: this.toAmount(amountBn),
+      protocolFee: this.toAmount(protocolFee),
+      bridgedAmount: this.toAmount(bridgedAmount),
+      feeBps,
+    };
+
+    if (!linkTokenAddress) {
+      return quote;
+    }
+
+    try {
+      const [routerAddress, tokenAddress, allowlistedReceiver] = await Promise.all([
+        this.sender.getRouter(),
+        this.sender.rebaseToken(),
+        this.sender.allowlistedReceivers(this.config.destinationChainSelector),
+      ]);
+
+      const token = new Contract(
+        tokenAddress,
+        ['function getInterestRate(address user) external view returns (uint256)'],
+        this.config.sourceProvider
+      );
+      const interestRate: bigint = from ? await token.getInterestRate(from) : 0n;
+
+      const coder = ethers.AbiCoder.defaultAbiCoder();
+      const message = {
+        receiver: coder.encode(['address'], [allowlistedReceiver]),
+        data: coder.encode(['address', 'uint256', 'uint256'], [recipient, bridgedAmount, interestRate]),
+        tokenAmounts: [],
+        feeToken: linkTokenAddress,
+        extraArgs: ethers.concat([EVM_EXTRA_ARGS_V1_TAG, coder.encode(['uint256'], [SENDER_GAS_LIMIT])]),
+      };
+
+      const router = new Contract(
+        routerAddress,
+        ['function getFee(uint64 destinationChainSelector, (bytes receiver, bytes data, (address token, uint256 amount)[] tokenAmounts, address feeToken, bytes extraArgs) message) external view returns (uint256)'],
+        this.config.sourceProvider
+      );
+      const link = new Contract(
+        linkTokenAddress,
+        ['function balanceOf(address account) public view returns (uint256)'],
+        this.config.sourceProvider
+      );
+
+      const [ccipFee, linkBalance] = await Promise.all([
+        router.getFee(this.config.destinationChainSelector, message),
+        link.balanceOf(this.config.senderAddress),
+      ]);
+
+      quote.ccipFee = this.toAmount(ccipFee);
+      quote.senderLinkBalance = this.toAmount(linkBalance);
+    } catch {
+      // Router quote unavailable; protocol fee breakdown is still valid
+    }
+
+    return quote;
+  }
+
+  /**
+   * Validate allowlists, caps and daily limits on both sides of the lane
+   */
+  async preflight(
+    recipient: string,
+    amount: string | bigint,
+    from?: string,
+    linkTokenAddress?: string
+  ): Promise<PairPreflight> {
+    const amountBn = this.parseAmount(amount);
+    const [sender, receiver, quote] = await Promise.all([
+      this.getSenderStatus(),
+      this.getReceiverStatus(),
+      this.quote(recipient, amountBn, from, linkTokenAddress),
+    ]);
+
+    const issues: string[] = [];
+    const bridged = quote.bridgedAmount.raw;
+    let error: BaseroError | undefined;
+
+    if (!ethers.isAddress(recipient) || recipient === ethers.ZeroAddress) {
+      issues.push(`Invalid recipient: ${recipient}`);
+    }
+    if (amountBn === 0n) {
+      issues.push('Amount must be greater than zero');
+    }
+
+    // Source side
+    if (sender.paused) {
+      issues.push('Sender is paused');
+    }
+    if (!sender.destinationAllowlisted) {
+      issues.push(`Destination chain not allowlisted on sender: ${this.config.destinationChainSelector}`);
+    }
+    if (sender.allowlistedReceiver === ethers.ZeroAddress) {
+      issues.push('No receiver allowlisted on sender for destination chain');
+    } else if (sender.allowlistedReceiver.toLowerCase() !== this.config.receiverAddress.toLowerCase()) {
+      issues.push(`Sender routes to ${sender.allowlistedReceiver}, not ${this.config.receiverAddress}`);
+    }
+    if (sender.sendCap > 0n && amountBn > sender.sendCap) {
+      issues.push(`Amount exceeds sender per-send cap of ${ethers.formatUnits(sender.sendCap, this.decimals)}`);
+    }
+    if (sender.dailyRemaining !== null && amountBn > sender.dailyRemaining) {
+      issues.push(`Amount exceeds sender daily remaining of ${ethers.formatUnits(sender.dailyRemaining, this.decimals)}`);
+    }
+    if (sender.feeBps > 0n && quote.protocolFee.raw > 0n && (await this.sender.feeRecipient()) === ethers.ZeroAddress) {
+      // The protocol fee is minted to feeRecipient after ccipSend
+      error = defaultErrorRegistry.decodeData(
+        ethers.id('FeeRecipientNotSet()').slice(0, 10),
+        'CCIPRebaseTokenSender'
+      ) ?? undefined;
+      issues.push(error?.humanMessage ?? 'Sender fee recipient not set');
+    }
+    if (quote.ccipFee && quote.senderLinkBalance && quote.ccipFee.raw > quote.senderLinkBalance.raw) {
+      issues.push(`Sender LINK balance ${quote.senderLinkBalance.formatted} below CCIP fee ${quote.ccipFee.formatted}`);
+    }
+
+    // Destination side
+    if (receiver.paused) {
+      issues.push('Receiver is paused');
+    }
+    if (!receiver.sourceAllowlisted) {
+      issues.push(`Source chain not allowlisted on receiver: ${this.config.sourceChainSelector}`);
+    }
+    if (receiver.allowlistedSender.toLowerCase() !== this.config.senderAddress.toLowerCase()) {
+      issues.push(`Receiver expects sender ${receiver.allowlistedSender}, not ${this.config.senderAddress}`);
+    }
+    if (receiver.bridgedCap > 0n && bridged > receiver.bridgedCap) {
+      issues.push(`Bridged amount exceeds receiver cap of ${ethers.formatUnits(receiver.bridgedCap, this.decimals)}`);
+    }
+    if (receiver.dailyRemaining !== null && bridged > receiver.dailyRemaining) {
+      issues.push(`Bridged amount exceeds receiver daily remaining of ${ethers.formatUnits(receiver.dailyRemaining, this.decimals)}`);
+    }
+
+    return {
+      ok: issues.length === 0,
+      issues,
+      error,
+      sender,
+      receiver,
+      quote,
+    };
+  }
+
+  /**
+   * Send tokens across the lane after pre-flight checks
+   *
+   * With `simulate`, the send also runs as an `eth_call` and gas estimate first.
+   */
+  async send(
+    recipient: string,
+    amount: string | bigint,
+    options?: TransactionOptions,
+    linkTokenAddress?: string
+  ): Promise<OperationResult<PairMessageSent>> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    try {
+      const amountBn = this.parseAmount(amount);
+      const from = await this.signer.getAddress();
+      const check = await this.preflight(recipient, amountBn, from, linkTokenAddress);
+
+      if (check.error) {
+        return { success: false, error: check.error };
+      }
+      if (!check.ok) {
+        throw new Error(`Preflight failed: ${check.issues.join('; ')}`);
+      }
+
+      const destination = this.config.destinationChainSelector;
+      const overrides = txOverrides(options);
+      const preflight = options?.simulate
+        ? await runPreflight({
+          contract: 'CCIPRebaseTokenSender',
+          method: 'sendTokensCrossChain',
+          call: () => this.sender.sendTokensCrossChain.staticCall(destination, recipient, amountBn, overrides),
+          estimateGas: () => this.sender.sendTokensCrossChain.estimateGas(destination, recipient, amountBn, overrides),
+        })
+        : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.sender.sendTokensCrossChain(destination, recipient, amountBn, overrides);
+      const receipt = await tx.wait();
+      const sent = this.parseMessageSent(receipt);
+
+      return {
+        success: true,
+        hash: tx.hash,
+        receipt,
+        preflight,
+        data: sent || undefined,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: decodeBaseroError(error, 'CCIPRebaseTokenSender'),
+      };
+    }
+  }
+
+  /**
+   * Extract MessageSent from a source-chain receipt
+   */
+  parseMessageSent(receipt: TransactionReceipt | null): PairMessageSent | null {
+    const address = this.config.senderAddress.toLowerCase();
+
+    for (const log of receipt?.logs || []) {
+      if (log.address.toLowerCase() !== address) continue;
+
+      try {
+        const parsed = this.sender.interface.parseLog(log);
+        if (parsed && parsed.name === 'MessageSent') {
+          return {
+            messageId: parsed.args.messageId,
+            destinationChainSelector: parsed.args.destinationChainSelector,
+            receiver: parsed.args.receiver,
+            amount: parsed.args.amount,
+            fees: parsed.args.fees,
+          };
+        }
+      } catch {
+        // Not a sender event
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Look up the MessageReceived event for a message on the destination chain
+   */
+  async findDelivery(messageId: string, fromBlock: number = 0): Promise<PairDelivery | null> {
+    const filter = this.receiver.filters.MessageReceived(messageId, this.config.sourceChainSelector);
+    const events = await this.receiver.queryFilter(filter, fromBlock);
+    const event = events[0] as ethers.EventLog | undefined;
+
+    if (!event) return null;
+
+    return {
+      messageId: event.args.messageId,
+      sourceChainSelector: event.args.sourceChainSelector,
+      sender: event.args.sender,
+      recipient: event.args.recipient,
+      amount: event.args.amount,
+      transactionHash: event.transactionHash,
+      blockNumber: event.blockNumber,
+    };
+  }
+
+  /**
+   * Poll the destination chain until the message is delivered
+   *
+   * CCIP finality on the source chain typically takes several minutes,
+   * so the default timeout is generous.
+   */
+  async waitForDelivery(
+    messageId: string,
+    opts: { fromBlock?: number; pollIntervalMs?: number; timeoutMs?: number } = {}
+  ): Promise<PairDelivery> {
+    const pollIntervalMs = opts.pollIntervalMs ?? 15_000;
+    const timeoutMs = opts.timeoutMs ?? 60 * 60 * 1000;
+    const fromBlock = opts.fromBlock ?? await this.config.destinationProvider.getBlockNumber();
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+      const delivery = await this.findDelivery(messageId, fromBlock);
+      if (delivery) return delivery;
+
+      await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+    }
+
+    throw new Error(`Timeout waiting for delivery of ${messageId}`);
+  }
+
+  /**
+   * Send and wait for delivery on the destination chain
+   */
+  async sendAndTrack(
+    recipient: string,
+    amount: string | bigint,
+    opts: { pollIntervalMs?: number; timeoutMs?: number; linkTokenAddress?: string } = {},
+    options?: TransactionOptions
+  ): Promise<OperationResult<{ sent: PairMessageSent; delivery: PairDelivery }>> {
+    const fromBlock = await this.config.destinationProvider.getBlockNumber();
+    const result = await this.send(recipient, amount, options, opts.linkTokenAddress);
+
+    if (!result.success || !result.data) {
+      return {
+        ...result,
+        success: false,
+        data: undefined,
+        error: result.error || new BaseroError({
+          contract: 'CCIPRebaseTokenSender',
+          name: 'MissingEvent',
+          args: {},
+          humanMessage: 'MessageSent event not found in receipt',
+        }),
+      };
+    }
+
+    try {
+      const delivery = await this.waitForDelivery(result.data.messageId, {
+        fromBlock,
+        pollIntervalMs: opts.pollIntervalMs,
+        timeoutMs: opts.timeoutMs,
+      });
+
+      return {
+        ...result,
+        data: { sent: result.data, delivery },
+      };
+    } catch (error) {
+      return {
+        ...result,
+        success: false,
+        data: undefined,
+        error: decodeBaseroError(error, 'CCIPRebaseTokenSender'),
+      };
+    }
+  }
+
+  /**
+   * Day bucket as computed on-chain (block.timestamp / 1 days)
+   */
+  private async currentDayBucket(provider: Provider): Promise<bigint> {
+    const block = await provider.getBlock('latest');
+    const timestamp = block ? BigInt(block.timestamp) : BigInt(Math.floor(Date.now() / 1000));
+    return timestamp / SECONDS_PER_DAY;
+  }
+
+  /**
+   * Wrap raw wei amount
+   */
+  private toAmount(raw: bigint): Amount {
+    return {
+      raw,
+      formatted: ethers.formatUnits(raw, this.decimals),
+      decimals: this.decimals,
+    };
+  }
+
+  /**
+   * Parse amount string to bigint
+   */
+  private parseAmount(amount: string | bigint): bigint {
+    if (typeof amount === 'bigint') return amount;
+    return ethers.parseUnits(amount, this.decimals);
+  }
+}
+
+export default CCIPPairClient;
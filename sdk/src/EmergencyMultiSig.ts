@@ -0,0 +1,585 @@
+/**
+ * @fileoverview Basero Emergency Multisig
+ * Operator client for BaseEmergencyMultiSig proposals
+ *
+ * Proposals collect signer approvals until their threshold, then wait out
+ * the execution delay. The contract never writes the Expired status, so a
+ * pending proposal past `expiresAt` is reported as Expired here. Only the
+ * signer set, threshold and emergency mode are changed on execution;
+ * UpdateParameter and EmergencyWithdraw proposals are recorded but act on
+ * nothing, and summaries say so before anyone approves one.
+ */
+
+import { ethers, BytesLike, Provider, Signer, TransactionReceipt } from 'ethers';
+import { OperationResult, TransactionOptions } from './BaseroSDK';
+import { decodeBaseroError } from './ErrorDecoder';
+import { CostEstimate, GasFeeEstimator } from './GasFeeEstimator';
+import { PreflightReport, runPreflight, txOverrides } from './Preflight';
+import { BaseEmergencyMultiSigContract, BaseEmergencyMultiSigWriteFunctions } from './generated';
+
+/**
+ * OperationType, in contract order
+ */
+export enum MultiSigOperation {
+  Pause = 0,
+  Unpause = 1,
+  UpdateParameter = 2,
+  EmergencyWithdraw = 3,
+  UpdateThreshold = 4,
+  AddSigner = 5,
+  RemoveSigner = 6,
+}
+
+/**
+ * ProposalStatus, in contract order
+ */
+export enum MultiSigProposalStatus {
+  Pending = 0,
+  Approved = 1,
+  Executed = 2,
+  Cancelled = 3,
+  Expired = 4,
+}
+
+/**
+ * A proposal to create, by operation
+ */
+export type MultiSigOperationRequest =
+  | { type: MultiSigOperation.Pause; targetContract?: string }
+  | { type: MultiSigOperation.Unpause; targetContract?: string }
+  | { type: MultiSigOperation.UpdateParameter; targetContract: string; callData: BytesLike }
+  | { type: MultiSigOperation.EmergencyWithdraw; targetContract: string; callData: BytesLike }
+  | { type: MultiSigOperation.UpdateThreshold; threshold: number | bigint }
+  | { type: MultiSigOperation.AddSigner; signer: string }
+  | { type: MultiSigOperation.RemoveSigner; signer: string };
+
+/**
+ * Signer set and timing settings
+ */
+export interface MultiSigConfig {
+  signers: string[];
+  threshold: bigint;
+  /** Seconds a proposal accepts approvals */
+  proposalExpiration: bigint;
+  /** Seconds from creation before an approved proposal can execute */
+  executionDelay: bigint;
+  emergencyMode: boolean;
+  emergencyModeTimeout: bigint;
+  pauseTarget: string;
+  owner: string;
+}
+
+/**
+ * What executing a proposal would do
+ */
+export interface MultiSigProposalSummary {
+  /** One line, e.g. "Add signer 0x… (3 → 4 signers)" */
+  action: string;
+  /** Reasons execution would revert or have no effect */
+  warnings: string[];
+}
+
+export interface MultiSigProposal {
+  id: bigint;
+  proposer: string;
+  operation: MultiSigOperation;
+  description: string;
+  targetContract: string;
+  callData: string;
+  threshold: bigint;
+  approvalsCount: bigint;
+  approvers: string[];
+  /** Effective status: Pending past `expiresAt` is Expired */
+  status: MultiSigProposalStatus;
+  createdAt: bigint;
+  expiresAt: bigint;
+  executableAt: bigint;
+  /** Seconds left to approve (0 unless Pending) */
+  expiresIn: bigint;
+  /** Seconds until execution is allowed (0 once executable or not Approved) */
+  executableIn: bigint;
+  summary: MultiSigProposalSummary;
+}
+
+/**
+ * Emergency MultiSig Helper - Wraps BaseEmergencyMultiSig contract
+ */
+export class EmergencyMultiSigHelper {
+  private contract: BaseEmergencyMultiSigContract;
+  private provider: Provider;
+  private signer?: Signer;
+
+  constructor(provider: Provider, multisigAddress: string, signer?: Signer) {
+    this.provider = provider;
+    this.signer = signer;
+    this.contract = new BaseEmergencyMultiSigContract(multisigAddress, signer || provider);
+  }
+
+  /**
+   * Get signers, threshold, timing and emergency mode
+   */
+  async getConfig(): Promise<MultiSigConfig> {
+    const [signers, threshold, proposalExpiration, executionDelay, emergencyMode, emergencyModeTimeout, pauseTarget, owner] =
+      await Promise.all([
+        this.contract.getSigners(),
+        this.contract.signerThreshold(),
+        this.contract.proposalExpiration(),
+        this.contract.executionDelay(),
+        this.contract.emergencyMode(),
+        this.contract.emergencyModeTimeout(),
+        this.contract.pauseTarget(),
+        this.contract.owner(),
+      ]);
+
+    return {
+      signers,
+      threshold,
+      proposalExpiration,
+      executionDelay,
+      emergencyMode,
+      emergencyModeTimeout,
+      pauseTarget,
+      owner,
+    };
+  }
+
+  /**
+   * Get a proposal with approvers, timing and summary
+   */
+  async getProposal(proposalId: bigint, config?: MultiSigConfig): Promise<MultiSigProposal> {
+    const [resolved, now] = await Promise.all([
+      config ? Promise.resolve(config) : this.getConfig(),
+      this.getTimestamp(),
+    ]);
+    return this.loadProposal(proposalId, resolved, now);
+  }
+
+  /**
+   * Get proposals still accepting approvals or awaiting execution, newest first
+   */
+  async getOpenProposals(): Promise<MultiSigProposal[]> {
+    const [config, now, counter] = await Promise.all([
+      this.getConfig(),
+      this.getTimestamp(),
+      this.contract.proposalCounter(),
+    ]);
+
+    const open: MultiSigProposal[] = [];
+    for (let id = counter - 1n; id >= 1n; id -= 10n) {
+      const ids: bigint[] = [];
+      for (let next = id; next >= 1n && next > id - 10n; next--) ids.push(next);
+
+      const proposals = await Promise.all(ids.map((next) => this.loadProposal(next, config, now)));
+      open.push(
+        ...proposals.filter(
+          (proposal) =>
+            proposal.status === MultiSigProposalStatus.Pending || proposal.status === MultiSigProposalStatus.Approved
+        )
+      );
+    }
+    return open;
+  }
+
+  /**
+   * Check whether an address has approved a proposal
+   */
+  async hasApproved(proposalId: bigint, address: string): Promise<boolean> {
+    const approvers = await this.contract.getApprovers(proposalId);
+    return approvers.some((approver) => approver.toLowerCase() === address.toLowerCase());
+  }
+
+  /**
+   * Check whether an address is a signer
+   */
+  async isSigner(address: string): Promise<boolean> {
+    return this.contract.isSigner(address);
+  }
+
+  /**
+   * Create a proposal (signer only); the proposer's approval is counted
+   */
+  async createProposal(
+    operation: MultiSigOperationRequest,
+    description: string,
+    options?: TransactionOptions
+  ): Promise<OperationResult<{ proposalId: bigint }>> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    try {
+      const { operationType, targetContract, callData } = EmergencyMultiSigHelper.encodeOperation(operation);
+      const args: BaseEmergencyMultiSigWriteFunctions['createProposal']['args'] = [
+        operationType,
+        description,
+        targetContract,
+        callData,
+      ];
+
+      const preflight = options?.simulate ? await this.preflight('createProposal', args, options) : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.contract.createProposal(...args, txOverrides(options));
+      const receipt = await tx.wait();
+      const created = this.contract.findEvent(receipt, 'ProposalCreated');
+
+      return {
+        success: true,
+        hash: tx.hash,
+        receipt,
+        preflight,
+        data: created ? { proposalId: created.args.proposalId } : undefined,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: decodeBaseroError(error, 'BaseEmergencyMultiSig'),
+      };
+    }
+  }
+
+  /**
+   * Approve a pending proposal (signer only)
+   */
+  async approveProposal(
+    proposalId: bigint,
+    options?: TransactionOptions
+  ): Promise<OperationResult<{ approvalsCount: bigint; threshold: bigint }>> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    try {
+      const preflight = options?.simulate ? await this.preflight('approveProposal', [proposalId], options) : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.contract.approveProposal(proposalId, txOverrides(options));
+      const receipt = await tx.wait();
+      const approved = this.contract.findEvent(receipt, 'ProposalApproved');
+
+      return {
+        success: true,
+        hash: tx.hash,
+        receipt,
+        preflight,
+        data: approved
+          ? { approvalsCount: approved.args.approvalsCount, threshold: approved.args.threshold }
+          : undefined,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: decodeBaseroError(error, 'BaseEmergencyMultiSig'),
+      };
+    }
+  }
+
+  /**
+   * Execute an approved proposal once its delay has passed (signer only)
+   */
+  async executeProposal(proposalId: bigint, options?: TransactionOptions): Promise<OperationResult> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    try {
+      const preflight = options?.simulate ? await this.preflight('executeProposal', [proposalId], options) : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.contract.executeProposal(proposalId, txOverrides(options));
+      const receipt = await tx.wait();
+
+      return {
+        success: true,
+        hash: tx.hash,
+        receipt,
+        preflight,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: decodeBaseroError(error, 'BaseEmergencyMultiSig'),
+      };
+    }
+  }
+
+  /**
+   * Cancel a pending or approved proposal (owner only)
+   */
+  async cancelProposal(proposalId: bigint, reason: string, options?: TransactionOptions): Promise<OperationResult> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    try {
+      const preflight = options?.simulate
+        ? await this.preflight('cancelProposal', [proposalId, reason], options)
+        : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.contract.cancelProposal(proposalId, reason, txOverrides(options));
+      const receipt = await tx.wait();
+
+      return {
+        success: true,
+        hash: tx.hash,
+        receipt,
+        preflight,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: decodeBaseroError(error, 'BaseEmergencyMultiSig'),
+      };
+    }
+  }
+
+  /**
+   * Open an expedited pause proposal at half the threshold (signer only)
+   *
+   * It executes immediately when that threshold is one signer. Otherwise
+   * it takes approvals for one hour and then the usual execution delay.
+   * Without a `ProposalExecuted` event, `proposalId` is the proposal this
+   * signer opened as an expedited pause in the receipt's block; it is
+   * best-effort only if the same signer opened two in that block.
+   */
+  async emergencyPause(options?: TransactionOptions): Promise<OperationResult<{ proposalId: bigint; executed: boolean }>> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    try {
+      const preflight = options?.simulate ? await this.preflight('emergencyPause', [], options) : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.contract.emergencyPause(txOverrides(options));
+      const receipt = await tx.wait();
+      const executed = this.contract.findEvent(receipt, 'ProposalExecuted');
+      const proposalId = executed
+        ? executed.args.proposalId
+        : await this.findPauseProposal(receipt!);
+
+      return {
+        success: true,
+        hash: tx.hash,
+        receipt,
+        preflight,
+        data: { proposalId, executed: !!executed },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: decodeBaseroError(error, 'BaseEmergencyMultiSig'),
+      };
+    }
+  }
+
+  /**
+   * Simulate a multisig write without sending it
+   */
+  async preflight<K extends keyof BaseEmergencyMultiSigWriteFunctions>(
+    method: K,
+    args: BaseEmergencyMultiSigWriteFunctions[K]['args'],
+    options?: TransactionOptions
+  ): Promise<PreflightReport> {
+    const overrides = txOverrides(options);
+    return runPreflight({
+      contract: 'BaseEmergencyMultiSig',
+      method,
+      call: () => this.contract.staticCall(method, args, overrides),
+      estimateGas: () => this.contract.estimateGas(method, args, overrides),
+    });
+  }
+
+  /**
+   * Estimate gas and fees for a multisig write
+   */
+  async estimateCost<K extends keyof BaseEmergencyMultiSigWriteFunctions>(
+    method: K,
+    args: BaseEmergencyMultiSigWriteFunctions[K]['args'],
+    estimator: GasFeeEstimator,
+    options?: TransactionOptions
+  ): Promise<CostEstimate> {
+    const tx = await this.contract.populateTransaction(method, args, txOverrides(options));
+    if (!tx.from && this.signer) tx.from = await this.signer.getAddress();
+    return estimator.estimate(tx);
+  }
+
+  /**
+   * Contract arguments for an operation
+   */
+  static encodeOperation(operation: MultiSigOperationRequest): {
+    operationType: MultiSigOperation;
+    targetContract: string;
+    callData: string;
+  } {
+    const coder = ethers.AbiCoder.defaultAbiCoder();
+
+    switch (operation.type) {
+      case MultiSigOperation.Pause:
+      case MultiSigOperation.Unpause:
+        return { operationType: operation.type, targetContract: operation.targetContract ?? 'ALL', callData: '0x' };
+      case MultiSigOperation.UpdateParameter:
+      case MultiSigOperation.EmergencyWithdraw:
+        return {
+          operationType: operation.type,
+          targetContract: operation.targetContract,
+          callData: ethers.hexlify(operation.callData),
+        };
+      case MultiSigOperation.UpdateThreshold:
+        return {
+          operationType: operation.type,
+          targetContract: 'BaseEmergencyMultiSig',
+          callData: coder.encode(['uint256'], [operation.threshold]),
+        };
+      case MultiSigOperation.AddSigner:
+      case MultiSigOperation.RemoveSigner:
+        if (!ethers.isAddress(operation.signer)) throw new Error(`Invalid signer address: ${operation.signer}`);
+        return {
+          operationType: operation.type,
+          targetContract: 'BaseEmergencyMultiSig',
+          callData: coder.encode(['address'], [operation.signer]),
+        };
+    }
+  }
+
+  /**
+   * Describe what executing a proposal would do against the current config
+   */
+  static summarize(
+    operation: MultiSigOperation,
+    callData: string,
+    targetContract: string,
+    config: MultiSigConfig
+  ): MultiSigProposalSummary {
+    const coder = ethers.AbiCoder.defaultAbiCoder();
+    const warnings: string[] = [];
+    const signerCount = config.signers.length;
+    const isSigner = (address: string) =>
+      config.signers.some((signer) => signer.toLowerCase() === address.toLowerCase());
+    const decode = <T>(type: string): T | null => {
+      try {
+        return coder.decode([type], callData)[0] as T;
+      } catch {
+        warnings.push(`Call data does not decode as ${type}; execution will revert`);
+        return null;
+      }
+    };
+
+    switch (operation) {
+      case MultiSigOperation.Pause:
+        if (config.emergencyMode) warnings.push('Emergency mode is already active; execution restarts its 24h timeout');
+        return { action: `Enter emergency mode for 24 hours (pause target ${config.pauseTarget})`, warnings };
+
+      case MultiSigOperation.Unpause:
+        if (!config.emergencyMode) warnings.push('Emergency mode is not active; execution will revert');
+        return { action: 'Leave emergency mode', warnings };
+
+      case MultiSigOperation.UpdateParameter:
+        warnings.push('The multisig only emits an event for this operation; it does not call the target');
+        return { action: `Record a parameter update for ${targetContract} (${EmergencyMultiSigHelper.describeCall(callData)})`, warnings };
+
+      case MultiSigOperation.EmergencyWithdraw:
+        warnings.push('The multisig does not implement withdrawals; execution only marks the proposal executed');
+        return { action: `Record an emergency withdrawal from ${targetContract} (${EmergencyMultiSigHelper.describeCall(callData)})`, warnings };
+
+      case MultiSigOperation.UpdateThreshold: {
+        const threshold = decode<bigint>('uint256');
+        if (threshold === null) return { action: 'Change the signer threshold', warnings };
+        if (threshold === 0n || threshold > BigInt(signerCount)) {
+          warnings.push(`Threshold must be between 1 and ${signerCount}; execution will revert`);
+        }
+        return { action: `Change threshold from ${config.threshold} to ${threshold} of ${signerCount} signers`, warnings };
+      }
+
+      case MultiSigOperation.AddSigner: {
+        const signer = decode<string>('address');
+        if (signer === null) return { action: 'Add a signer', warnings };
+        if (signer === ethers.ZeroAddress) warnings.push('Signer is the zero address; execution will revert');
+        if (isSigner(signer)) warnings.push(`${signer} is already a signer; execution will revert`);
+        return { action: `Add signer ${signer} (${signerCount} → ${signerCount + 1} signers)`, warnings };
+      }
+
+      case MultiSigOperation.RemoveSigner: {
+        const signer = decode<string>('address');
+        if (signer === null) return { action: 'Remove a signer', warnings };
+        if (!isSigner(signer)) warnings.push(`${signer} is not a signer; execution will revert`);
+        if (signerCount <= 1) warnings.push('Cannot remove the last signer; execution will revert');
+        if (config.threshold > BigInt(signerCount - 1)) {
+          warnings.push(`Threshold ${config.threshold} will exceed the ${signerCount - 1} remaining signers`);
+        }
+        return { action: `Remove signer ${signer} (${signerCount} → ${signerCount - 1} signers)`, warnings };
+      }
+
+      default:
+        return { action: `Unknown operation ${operation}`, warnings: ['Unknown operation type'] };
+    }
+  }
+
+  /**
+   * Selector and size of opaque call data
+   */
+  private static describeCall(callData: string): string {
+    const size = ethers.dataLength(callData);
+    if (size === 0) return 'no call data';
+    return size >= 4 ? `selector ${ethers.dataSlice(callData, 0, 4)}, ${size} bytes` : `${size} bytes`;
+  }
+
+  /**
+   * Id of the expedited pause a receipt opened, among the proposals created in its block
+   */
+  private async findPauseProposal(receipt: TransactionReceipt): Promise<bigint> {
+    const [first, next] = await Promise.all([
+      this.contract.contract.proposalCounter({ blockTag: receipt.blockNumber - 1 }) as Promise<bigint>,
+      this.contract.contract.proposalCounter({ blockTag: receipt.blockNumber }) as Promise<bigint>,
+    ]);
+    for (let id = first; id < next; id++) {
+      const proposal = await this.contract.proposals(id);
+      if (
+        Number(proposal.operationType) === MultiSigOperation.Pause &&
+        proposal.description === 'Emergency Pause (Expedited)' &&
+        proposal.proposer.toLowerCase() === receipt.from.toLowerCase()
+      ) {
+        return id;
+      }
+    }
+    throw new Error(`Emergency pause proposal not found in block ${receipt.blockNumber}`);
+  }
+
+  private async loadProposal(proposalId: bigint, config: MultiSigConfig, now: bigint): Promise<MultiSigProposal> {
+    const [proposal, approvers] = await Promise.all([
+      this.contract.proposals(proposalId),
+      this.contract.getApprovers(proposalId),
+    ]);
+    if (proposal.id === 0n) throw new Error(`Proposal not found: ${proposalId}`);
+
+    const operation = Number(proposal.operationType) as MultiSigOperation;
+    let status = Number(proposal.status) as MultiSigProposalStatus;
+    if (status === MultiSigProposalStatus.Pending && now > proposal.expiresAt) {
+      status = MultiSigProposalStatus.Expired;
+    }
+
+    const executableAt = proposal.createdAt + config.executionDelay;
+    const remaining = (until: bigint) => (until > now ? until - now : 0n);
+
+    return {
+      id: proposal.id,
+      proposer: proposal.proposer,
+      operation,
+      description: proposal.description,
+      targetContract: proposal.targetContract,
+      callData: proposal.callData,
+      threshold: proposal.threshold,
+      approvalsCount: proposal.approvalsCount,
+      approvers,
+      status,
+      createdAt: proposal.createdAt,
+      expiresAt: proposal.expiresAt,
+      executableAt,
+      expiresIn: status === MultiSigProposalStatus.Pending ? remaining(proposal.expiresAt) : 0n,
+      executableIn: status === MultiSigProposalStatus.Approved ? remaining(executableAt) : 0n,
+      summary: EmergencyMultiSigHelper.summarize(operation, proposal.callData, proposal.targetContract, config),
+    };
+  }
+
+  /**
+   * Latest block timestamp; proposal timing is enforced against it, not local time
+   */
+  private async getTimestamp(): Promise<bigint> {
+    const block = await this.provider.getBlock('latest');
+    if (!block) throw new Error('Block not found: latest');
+    return BigInt(block.timestamp);
+  }
+}
+
+export default EmergencyMultiSigHelper;
@@ -0,0 +1,410 @@
+/**
+ * @fileoverview Basero Error Decoder
+ * Decodes revert data from Basero contracts into typed errors
+ *
+ * Features:
+ * - Registry of every protocol contract's custom errors, keyed by selector
+ * - Revert data extraction from ethers errors and raw eth_call failures
+ * - Human-readable messages for the errors users actually hit
+ */
+
+import { AbiCoder, Interface, InterfaceAbi, dataSlice, ethers, isHexString } from 'ethers';
+import {
+  AdvancedInterestStrategyAbi,
+  BASEGovernorAbi,
+  BASETimelockAbi,
+  BaseEmergencyMultiSigAbi,
+  EnhancedCCIPBridgeAbi,
+  PauseRecoveryAbi,
+  RebaseTokenAbi,
+  RebaseTokenVaultAbi,
+  toNamedArgs,
+} from './generated';
+
+/**
+ * Contracts whose errors are not covered by the generated bindings
+ */
+const CCIP_SENDER_ERRORS = [
+  'error NotEnoughBalance(uint256 currentBalance, uint256 calculatedFees)',
+  'error DestinationChainNotAllowlisted(uint64 destinationChainSelector)',
+  'error ReceiverNotAllowlisted(uint64 destinationChainSelector)',
+  'error InvalidReceiverAddress()',
+  'error FeeRecipientNotSet()',
+  'error SendAmountExceedsCap(uint256 requested, uint256 cap)',
+  'error DailyLimitExceeded(uint256 requested, uint256 remaining)',
+  'error InvalidFeeBps()',
+  'error EnforcedPause()',
+  'error OwnableUnauthorizedAccount(address account)',
+];
+
+const CCIP_RECEIVER_ERRORS = [
+  'error SourceChainNotAllowlisted(uint64 sourceChainSelector)',
+  'error SenderNotAllowlisted(address sender)',
+  'error InvalidSenderAddress()',
+  'error BridgeCapExceeded(uint256 received, uint256 cap)',
+  'error BridgeDailyLimitExceeded(uint256 received, uint256 remaining)',
+  'error InvalidRouter(address router)',
+  'error EnforcedPause()',
+];
+
+const GOVERNANCE_TOKEN_ERRORS = [
+  'error ExceedsMaxSupply()',
+  'error ZeroAmount()',
+  'error InvalidRecipient()',
+  'error VotesExpiredSignature(uint256 expiry)',
+  'error InvalidAccountNonce(address account, uint256 currentNonce)',
+  'error ERC5805FutureLookup(uint256 timepoint, uint48 clock)',
+  'error ECDSAInvalidSignature()',
+  'error ECDSAInvalidSignatureLength(uint256 length)',
+  'error ECDSAInvalidSignatureS(bytes32 s)',
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+];
+
+const CCIP_ROUTER_ERRORS = [
+  'error UnsupportedDestinationChain(uint64 destChainSelector)',
+  'error InsufficientFeeTokenAmount()',
+  'error InvalidMsgValue()',
+];
+
+const ERROR_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+const PANIC_REASONS: Record<number, string> = {
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division or modulo by zero',
+  0x21: 'invalid enum value',
+  0x22: 'invalid storage byte array',
+  0x31: 'pop on empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory',
+  0x51: 'call to uninitialized function',
+};
+
+const PROPOSAL_STATES = ['Pending', 'Active', 'Canceled', 'Defeated', 'Succeeded', 'Queued', 'Expired', 'Executed'];
+
+const fmt = (value: unknown): string => ethers.formatEther(value as bigint);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+/**
+ * Messages for errors surfaced to end users; anything else falls back to
+ * the error name split into words.
+ */
+const HUMAN_MESSAGES: Record<string, (args: any) => string> = {
+  // Vault
+  AmountZero: () => 'Amount must be greater than zero',
+  MinDepositNotMet: (a) => `Deposit of ${fmt(a.provided)} ETH is below the ${fmt(a.minimum)} ETH minimum`,
+  DepositCapExceeded: (a) => `Deposit of ${fmt(a.requested)} ETH exceeds the ${fmt(a.maxPerAddress)} ETH per-address cap`,
+  TvlCapExceeded: (a) => `Deposit of ${fmt(a.requested)} ETH exceeds the vault's ${fmt(a.maxTotal)} ETH TVL cap`,
+  SlippageTooHigh: (a) => `Redemption would return ${fmt(a.expected)} ETH, below the ${fmt(a.minOut)} ETH minimum`,
+  NotAllowlisted: () => 'Address is not on the vault allowlist',
+  DepositsArePaused: () => 'Vault deposits are paused',
+  RedeemsArePaused: () => 'Vault redemptions are paused',
+  NoTokensToRedeem: () => 'No tokens to redeem',
+  InsufficientBalance: () => 'Insufficient balance',
+
+  // Bridge
+  RateLimitExceeded: (a) => `Bridge rate limit exceeded: requested ${fmt(a.requested)}, ${fmt(a.available)} available`,
+  BridgeAmountOutOfBounds: (a) =>
+    `Bridge amount ${fmt(a.amount)} is outside the allowed range ${fmt(a.min)} - ${fmt(a.max)}`,
+  ChainNotConfigured: (a) => `Chain ${a.chainSelector} is not configured on the bridge`,
+  InvalidSourceChain: (a) => `Messages from chain ${a.chainSelector} are not accepted`,
+  InsufficientLinkBalance: () => 'Bridge does not hold enough LINK to pay CCIP fees',
+
+  // Legacy CCIP pair
+  NotEnoughBalance: (a) => `Sender holds ${fmt(a.currentBalance)} LINK but the message costs ${fmt(a.calculatedFees)} LINK`,
+  DestinationChainNotAllowlisted: (a) => `Destination chain ${a.destinationChainSelector} is not allowlisted`,
+  ReceiverNotAllowlisted: (a) => `No receiver is allowlisted for chain ${a.destinationChainSelector}`,
+  SendAmountExceedsCap: (a) => `Transfer of ${fmt(a.requested)} exceeds the ${fmt(a.cap)} per-transfer cap`,
+  DailyLimitExceeded: (a) => `Transfer of ${fmt(a.requested)} exceeds the remaining daily limit of ${fmt(a.remaining)}`,
+  SourceChainNotAllowlisted: (a) => `Source chain ${a.sourceChainSelector} is not allowlisted`,
+  SenderNotAllowlisted: (a) => `Sender ${a.sender} is not allowlisted`,
+  BridgeCapExceeded: (a) => `Received ${fmt(a.received)} exceeds the ${fmt(a.cap)} bridge cap`,
+  BridgeDailyLimitExceeded: (a) => `Received ${fmt(a.received)} exceeds the remaining daily limit of ${fmt(a.remaining)}`,
+  UnsupportedDestinationChain: (a) => `CCIP router does not support chain ${a.destChainSelector}`,
+
+  // Interest strategy
+  TierNotFound: () => 'Tier does not exist',
+  InvalidLockDuration: () => 'Lock duration must be between 1 week and 4 years',
+  LockNotExpired: () => 'Lock has not expired yet',
+  DepositsNotLocked: () => 'User has no locked deposit',
+
+  // Governance
+  GovernorUnexpectedProposalState: (a) =>
+    `Proposal is ${PROPOSAL_STATES[Number(a.current)] ?? `in state ${a.current}`}; the action is not allowed in this state`,
+  GovernorInsufficientProposerVotes: (a) =>
+    `Proposer has ${fmt(a.votes)} votes but ${fmt(a.threshold)} are required to propose`,
+  GovernorAlreadyCastVote: (a) => `${a.voter} has already voted on this proposal`,
+  GovernorNonexistentProposal: (a) => `Proposal ${a.proposalId} does not exist`,
+  GovernorNotQueuedProposal: (a) => `Proposal ${a.proposalId} has not been queued`,
+  TimelockUnexpectedOperationState: () => 'Timelock operation is not in the expected state',
+  TimelockInsufficientDelay: (a) => `Delay ${a.delay}s is below the timelock minimum of ${a.minDelay}s`,
+  VotesExpiredSignature: (a) => `Signature expired at ${a.expiry}`,
+  InvalidAccountNonce: (a) => `Nonce is stale; current nonce for ${a.account} is ${a.currentNonce}`,
+
+  // Shared OpenZeppelin errors
+  EnforcedPause: () => 'Contract is paused',
+  ExpectedPause: () => 'Contract is not paused',
+  OwnableUnauthorizedAccount: (a) => `${a.account} is not the contract owner`,
+  AccessControlUnauthorizedAccount: (a) => `${a.account} is missing role ${a.neededRole}`,
+  ReentrancyGuardReentrantCall: () => 'Reentrant call rejected',
+  ERC20InsufficientBalance: (a) => `Balance of ${fmt(a.balance)} is below the ${fmt(a.needed)} required`,
+  ERC20InsufficientAllowance: (a) => `Allowance of ${fmt(a.allowance)} is below the ${fmt(a.needed)} required`,
+
+  // Builtins
+  Error: (a) => a.message,
+  Panic: (a) => `Panic: ${PANIC_REASONS[Number(a.code)] ?? `code ${a.code}`}`,
+};
+
+/**
+ * A revert decoded against the Basero error registry
+ *
+ * `name` is the Solidity error name (e.g. `RateLimitExceeded`), or
+ * `UnknownError` when the failure carried no decodable revert data.
+ */
+export class BaseroError extends Error {
+  readonly contract: string | null;
+  readonly args: Record<string, unknown>;
+  readonly humanMessage: string;
+  readonly selector: string | null;
+  readonly data: string | null;
+  readonly originalError: unknown;
+
+  constructor(params: {
+    contract: string | null;
+    name: string;
+    args: Record<string, unknown>;
+    humanMessage: string;
+    selector?: string | null;
+    data?: string | null;
+    originalError?: unknown;
+  }) {
+    super(params.humanMessage);
+    this.name = params.name;
+    this.contract = params.contract;
+    this.args = params.args;
+    this.humanMessage = params.humanMessage;
+    this.selector = params.selector ?? null;
+    this.data = params.data ?? null;
+    this.originalError = params.originalError;
+  }
+
+  /**
+   * Whether the revert matched a known error (custom or builtin)
+   */
+  get isDecoded(): boolean {
+    return this.selector !== null;
+  }
+}
+
+interface RegisteredError {
+  contract: string;
+  iface: Interface;
+}
+
+/**
+ * Error Decoder Registry - Maps error selectors to the contracts that declare them
+ */
+export class ErrorDecoderRegistry {
+  private bySelector: Map<string, RegisteredError[]> = new Map();
+  private byAddress: Map<string, string> = new Map();
+
+  /**
+   * Registry preloaded with every Basero contract
+   */
+  static withDefaults(): ErrorDecoderRegistry {
+    return new ErrorDecoderRegistry()
+      .register('RebaseToken', RebaseTokenAbi)
+      .register('RebaseTokenVault', RebaseTokenVaultAbi)
+      .register('EnhancedCCIPBridge', EnhancedCCIPBridgeAbi)
+      .register('BASEGovernor', BASEGovernorAbi)
+      .register('BASETimelock', BASETimelockAbi)
+      .register('BaseEmergencyMultiSig', BaseEmergencyMultiSigAbi)
+      .register('PauseRecovery', PauseRecoveryAbi)
+      .register('AdvancedInterestStrategy', AdvancedInterestStrategyAbi)
+      .register('CCIPRebaseTokenSender', CCIP_SENDER_ERRORS)
+      .register('CCIPRebaseTokenReceiver', CCIP_RECEIVER_ERRORS)
+      .register('BASEGovernanceToken', GOVERNANCE_TOKEN_ERRORS)
+      .register('CCIPRouter', CCIP_ROUTER_ERRORS);
+  }
+
+  /**
+   * Register a contract's errors, optionally binding deployed addresses to it
+   */
+  register(contract: string, abi: InterfaceAbi, addresses: string[] = []): this {
+    const iface = new Interface(abi);
+
+    iface.forEachError((fragment) => {
+      const entries = this.bySelector.get(fragment.selector) || [];
+      if (!entries.some((entry) => entry.contract === contract)) {
+        entries.push({ contract, iface });
+      }
+      this.bySelector.set(fragment.selector, entries);
+    });
+
+    for (const address of addresses) {
+      this.registerAddress(address, contract);
+    }
+
+    return this;
+  }
+
+  /**
+   * Attribute reverts from a deployed address to a registered contract
+   */
+  registerAddress(address: string, contract: string): this {
+    this.byAddress.set(address.toLowerCase(), contract);
+    return this;
+  }
+
+  /**
+   * Decode raw revert data
+   *
+   * @param data - Revert payload (selector + ABI-encoded args)
+   * @param contract - Contract expected to have reverted, used to resolve
+   *   selectors shared by several contracts
+   */
+  decodeData(data: string, contract?: string | null): BaseroError | null {
+    if (!isHexString(data) || data.length < 10) return null;
+
+    const selector = dataSlice(data, 0, 4);
+    const payload = dataSlice(data, 4);
+
+    try {
+      if (selector === ERROR_SELECTOR) {
+        const [message] = AbiCoder.defaultAbiCoder().decode(['string'], payload);
+        return this.build(contract ?? null, 'Error', { message }, selector, data);
+      }
+      if (selector === PANIC_SELECTOR) {
+        const [code] = AbiCoder.defaultAbiCoder().decode(['uint256'], payload);
+        return this.build(contract ?? null, 'Panic', { code }, selector, data);
+      }
+
+      const entries = this.bySelector.get(selector);
+      if (!entries || entries.length === 0) return null;
+
+      const match = entries.find((entry) => entry.contract === contract) || entries[0];
+      const fragment = match.iface.getError(selector)!;
+      const values = match.iface.decodeErrorResult(fragment, data);
+
+      // Only attribute shared selectors (Ownable, Pausable, ...) when the caller told us which contract
+      const owner = entries.length === 1 ? match.contract : (contract ?? null);
+
+      return this.build(owner, fragment.name, toNamedArgs(fragment.inputs, values), selector, data);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Decode any thrown value (ethers error, JSON-RPC error, eth_call failure)
+   *
+   * Always returns a BaseroError; undecodable failures keep the original
+   * message under the name `UnknownError`.
+   */
+  decode(error: unknown, contract?: string | null): BaseroError {
+    if (error instanceof BaseroError) return error;
+
+    const hint = contract ?? this.contractFor(error);
+    const data = ErrorDecoderRegistry.extractRevertData(error);
+    const decoded = data ? this.decodeData(data, hint) : null;
+
+    if (decoded) return new BaseroError({ ...decoded, name: decoded.name, originalError: error });
+
+    const message = ErrorDecoderRegistry.messageOf(error);
+    return new BaseroError({
+      contract: hint,
+      name: 'UnknownError',
+      args: {},
+      humanMessage: message,
+      data,
+      originalError: error,
+    });
+  }
+
+  /**
+   * Find revert data in an error thrown by ethers or a JSON-RPC provider
+   */
+  static extractRevertData(error: unknown): string | null {
+    const seen = new Set<unknown>();
+    const queue: unknown[] = [error];
+
+    while (queue.length > 0) {
+      const current = queue.shift();
+      if (!current || typeof current !== 'object' || seen.has(current)) continue;
+      seen.add(current);
+
+      const candidate = current as Record<string, unknown>;
+      if (typeof candidate.data === 'string' && isHexString(candidate.data) && candidate.data.length >= 10) {
+        return candidate.data;
+      }
+
+      // ethers CallExceptionError -> info.error -> provider payload -> error.data
+      for (const key of ['data', 'error', 'info', 'cause']) {
+        if (candidate[key] && typeof candidate[key] === 'object') queue.push(candidate[key]);
+      }
+    }
+
+    return null;
+  }
+
+  private contractFor(error: unknown): string | null {
+    const transaction = isRecord(error) ? error.transaction : undefined;
+    const to = isRecord(transaction) ? transaction.to : undefined;
+    return typeof to === 'string' ? this.byAddress.get(to.toLowerCase()) ?? null : null;
+  }
+
+  private build(
+    contract: string | null,
+    name: string,
+    args: Record<string, unknown>,
+    selector: string,
+    data: string
+  ): BaseroError {
+    return new BaseroError({
+      contract,
+      name,
+      args,
+      humanMessage: ErrorDecoderRegistry.humanize(name, args),
+      selector,
+      data,
+    });
+  }
+
+  private static humanize(name: string, args: Record<string, unknown>): string {
+    const template = HUMAN_MESSAGES[name];
+    if (template) return template(args);
+
+    const words = name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+    const details = Object.entries(args).map(([key, value]) => `${key}=${value}`);
+    const sentence = words.charAt(0).toUpperCase() + words.slice(1);
+    return details.length ? `${sentence} (${details.join(', ')})` : sentence;
+  }
+
+  private static messageOf(error: unknown): string {
+    if (typeof error === 'string') return error;
+    if (isRecord(error)) {
+      for (const key of ['shortMessage', 'reason', 'message']) {
+        const value = error[key];
+        if (typeof value === 'string' && value) return value;
+      }
+    }
+    return 'Unknown error occurred';
+  }
+}
+
+/**
+ * Shared registry used by the SDK helpers
+ */
+export const defaultErrorRegistry = ErrorDecoderRegistry.withDefaults();
+
+/**
+ * Decode an error with the shared registry
+ */
+export function decodeBaseroError(error: unknown, contract?: string | null): BaseroError {
+  return defaultErrorRegistry.decode(error, contract);
+}
+
+export default ErrorDecoderRegistry;
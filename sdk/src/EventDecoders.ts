@@ -3,7 +3,53 @@
  * Parse and decode protocol events
  */
 
-import { ethers, Log, EventLog } from 'ethers';
+import { ethers, Log, EventLog, InterfaceAbi } from 'ethers';
+import type { NetworkConfig } from './BaseroSDK';
+import {
+  AdvancedInterestStrategyAbi,
+  AdvancedInterestStrategyEvents,
+  AdvancedInterestStrategyLockCreatedEvent,
+  AdvancedInterestStrategyPerformanceFeeChargedEvent,
+  BASEGovernorAbi,
+  BASEGovernorEvents,
+  BASEGovernorProposalCreatedEvent,
+  BASEGovernorProposalCreatedWithMetadataEvent,
+  BASEGovernorProposalExecutedEvent,
+  BASEGovernorProposalQueuedEvent,
+  BASETimelockAbi,
+  BASETimelockCallExecutedEvent,
+  BASETimelockCallScheduledEvent,
+  BASETimelockCancelledEvent,
+  BASETimelockEvents,
+  BaseEmergencyMultiSigAbi,
+  BaseEmergencyMultiSigEvents,
+  BaseEmergencyMultiSigProposalApprovedEvent,
+  BaseEmergencyMultiSigProposalCreatedEvent,
+  BaseEmergencyMultiSigProposalExecutedEvent,
+  EnhancedCCIPBridgeAbi,
+  EnhancedCCIPBridgeBatchCreatedEvent,
+  EnhancedCCIPBridgeCrossChainTransferEvent,
+  EnhancedCCIPBridgeEvents,
+  EnhancedCCIPBridgeMessageReceivedEvent,
+  EnhancedCCIPBridgeRateLimitAppliedEvent,
+  ParsedEvent,
+  PauseRecoveryAbi,
+  PauseRecoveryEvents,
+  PauseRecoveryProtocolPausedEvent,
+  PauseRecoveryRecoveryInitiatedEvent,
+  PauseRecoveryRecoveryStageUpdatedEvent,
+  RebaseTokenAbi,
+  RebaseTokenEvents,
+  RebaseTokenInterestRateSetEvent,
+  RebaseTokenSharesTransferredEvent,
+  RebaseTokenVaultAbi,
+  RebaseTokenVaultDepositEvent,
+  RebaseTokenVaultEvents,
+  RebaseTokenVaultInterestAccrualDetailedEvent,
+  RebaseTokenVaultInterestAccruedEvent,
+  RebaseTokenVaultRedeemEvent,
+  toNamedArgs,
+} from './generated';
 
 /**
  * Decoded event result
@@ -15,6 +61,20 @@ export interface DecodedEvent {
   raw?: Log;
 }
 
+/**
+ * Event ABIs by contract name
+ */
+const EVENT_ABIS: Record<string, InterfaceAbi> = {
+  RebaseToken: RebaseTokenAbi,
+  RebaseTokenVault: RebaseTokenVaultAbi,
+  EnhancedCCIPBridge: EnhancedCCIPBridgeAbi,
+  BASEGovernor: BASEGovernorAbi,
+  BASETimelock: BASETimelockAbi,
+  BaseEmergencyMultiSig: BaseEmergencyMultiSigAbi,
+  PauseRecovery: PauseRecoveryAbi,
+  AdvancedInterestStrategy: AdvancedInterestStrategyAbi,
+};
+
 /**
  * Event parser utility
  */
@@ -29,37 +89,9 @@ export class EventDecoder {
    * Initialize contract interfaces
    */
   private initializeInterfaces(): void {
-    // Token events
-    const tokenAbi = [
-      'event Transfer(address indexed from, address indexed to, uint256 value)',
-      'event Approval(address indexed owner, address indexed spender, uint256 value)',
-      'event Rebase(int256 indexed percent, uint256 newTotalSupply)',
-    ];
-    this.interfaces.set('RebaseToken', new ethers.Interface(tokenAbi));
-
-    // Vault events
-    const vaultAbi = [
-      'event Deposit(address indexed caller, address indexed owner, uint256 assets, uint256 shares)',
-      'event Withdraw(address indexed caller, address indexed receiver, address indexed owner, uint256 assets, uint256 shares)',
-    ];
-    this.interfaces.set('RebaseTokenVault', new ethers.Interface(vaultAbi));
-
-    // Bridge events
-    const bridgeAbi = [
-      'event MessageSent(bytes32 indexed messageId, uint64 destChain, uint256 amount)',
-      'event MessageReceived(bytes32 indexed messageId, uint256 amount)',
-      'event MessageFailed(bytes32 indexed messageId, string reason)',
-    ];
-    this.interfaces.set('EnhancedCCIPBridge', new ethers.Interface(bridgeAbi));
-
-    // Governor events
-    const governorAbi = [
-      'event ProposalCreated(uint256 indexed proposalId, address indexed proposer, address[] targets, uint256[] values, string[] signatures, bytes[] calldatas, uint256 startBlock, uint256 endBlock, string description)',
-      'event VoteCast(address indexed voter, uint256 proposalId, uint8 support, uint256 weight, string reason)',
-      'event ProposalQueued(uint256 indexed proposalId, uint256 eta)',
-      'event ProposalExecuted(uint256 indexed proposalId)',
-    ];
-    this.interfaces.set('BASEGovernor', new ethers.Interface(governorAbi));
+    for (const [contractName, abi] of Object.entries(EVENT_ABIS)) {
+      this.interfaces.set(contractName, new ethers.Interface(abi));
+    }
   }
 
   /**
@@ -108,6 +140,27 @@ export class EventDecoder {
       .filter((event): event is DecodedEvent => event !== null);
   }
 
+  /**
+   * Decode a log into a typed event with arguments keyed by name
+   */
+  parse<TEvents>(log: Log, contractName: string): ParsedEvent<TEvents> | null {
+    const iface = this.interfaces.get(contractName);
+    if (!iface) return null;
+
+    try {
+      const parsed = iface.parseLog(log);
+      if (!parsed) return null;
+
+      return {
+        name: parsed.name,
+        args: toNamedArgs(parsed.fragment.inputs, parsed.args),
+        log,
+      } as ParsedEvent<TEvents>;
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Format event for display
    */
@@ -140,13 +193,48 @@ export class EventDecoder {
 }
 
 /**
- * Token event parser
+ * Typed parser for one contract's events
  */
-export class TokenEventParser {
-  private decoder: EventDecoder;
+export class ContractEventParser<TEvents> {
+  protected decoder: EventDecoder;
+  protected contractName: string;
 
-  constructor() {
+  constructor(contractName: string) {
     this.decoder = new EventDecoder();
+    this.contractName = contractName;
+  }
+
+  /**
+   * Parse any event declared by the contract
+   */
+  parse(log: Log): ParsedEvent<TEvents> | null {
+    return this.decoder.parse<TEvents>(log, this.contractName);
+  }
+
+  /**
+   * Parse a log as one named event
+   */
+  parseAs<K extends keyof TEvents & string>(log: Log, name: K): TEvents[K] | null {
+    const event = this.parse(log);
+    return event && event.name === name ? (event.args as TEvents[K]) : null;
+  }
+
+  /**
+   * Parse every decodable log, preserving order
+   */
+  parseAll(logs: Log[]): ParsedEvent<TEvents>[] {
+    return logs
+      .map(log => this.parse(log))
+      .filter((event): event is ParsedEvent<TEvents> => event !== null);
+  }
+}
+
+/**
+ * Token event parser
+ */
+export class TokenEventParser extends ContractEventParser<RebaseTokenEvents> {
+  constructor() {
+    super('RebaseToken');
   }
 
   /**
@@ -157,13 +245,13 @@ export class TokenEventParser {
     to: string;
     amount: bigint;
   } | null {
-    const event = this.decoder.decodeEvent(log, 'RebaseToken');
-    if (!event || event.eventName !== 'Transfer') return null;
+    const event = this.parseAs(log, 'Transfer');
+    if (!event) return null;
 
     return {
-      from: event.indexed.from,
-      to: event.indexed.to,
-      amount: event.args.value,
+      from: event.from,
+      to: event.to,
+      amount: event.value,
     };
   }
 
@@ -175,30 +263,28 @@ export class TokenEventParser {
     spender: string;
     amount: bigint;
   } | null {
-    const event = this.decoder.decodeEvent(log, 'RebaseToken');
-    if (!event || event.eventName !== 'Approval') return null;
+    const event = this.parseAs(log, 'Approval');
+    if (!event) return null;
 
     return {
-      owner: event.indexed.owner,
-      spender: event.indexed.spender,
-      amount: event.args.value,
+      owner: event.owner,
+      spender: event.spender,
+      amount: event.value,
     };
   }
 
   /**
-   * Parse Rebase event
+   * Parse SharesTransferred event
    */
-  parseRebase(log: Log): {
-    percent: bigint;
-    newTotalSupply: bigint;
-  } | null {
-    const event = this.decoder.decodeEvent(log, 'RebaseToken');
-    if (!event || event.eventName !== 'Rebase') return null;
+  parseSharesTransferred(log: Log): RebaseTokenSharesTransferredEvent | null {
+    return this.parseAs(log, 'SharesTransferred');
+  }
 
-    return {
-      percent: event.indexed.percent,
-      newTotalSupply: event.args.newTotalSupply,
-    };
+  /**
+   * Parse InterestRateSet event
+   */
+  parseInterestRateSet(log: Log): RebaseTokenInterestRateSetEvent | null {
+    return this.parseAs(log, 'InterestRateSet');
   }
 
   /**
@@ -227,57 +313,41 @@ export class TokenEventParser {
 /**
  * Vault event parser
  */
-export class VaultEventParser {
-  private decoder: EventDecoder;
-
+export class VaultEventParser extends ContractEventParser<RebaseTokenVaultEvents> {
   constructor() {
-    this.decoder = new EventDecoder();
+    super('RebaseTokenVault');
   }
 
   /**
    * Parse Deposit event
    */
-  parseDeposit(log: Log): {
-    caller: string;
-    owner: string;
-    assets: bigint;
-    shares: bigint;
-  } | null {
-    const event = this.decoder.decodeEvent(log, 'RebaseTokenVault');
-    if (!event || event.eventName !== 'Deposit') return null;
+  parseDeposit(log: Log): RebaseTokenVaultDepositEvent | null {
+    return this.parseAs(log, 'Deposit');
+  }
 
-    return {
-      caller: event.indexed.caller,
-      owner: event.indexed.owner,
-      assets: event.args.assets,
-      shares: event.args.shares,
-    };
+  /**
+   * Parse Redeem event
+   */
+  parseRedeem(log: Log): RebaseTokenVaultRedeemEvent | null {
+    return this.parseAs(log, 'Redeem');
   }
 
   /**
-   * Parse Withdraw event
+   * Parse InterestAccrued event
    */
-  parseWithdraw(log: Log): {
-    caller: string;
-    receiver: string;
-    owner: string;
-    assets: bigint;
-    shares: bigint;
-  } | null {
-    const event = this.decoder.decodeEvent(log, 'RebaseTokenVault');
-    if (!event || event.eventName !== 'Withdraw') return null;
+  parseInterestAccrued(log: Log): RebaseTokenVaultInterestAccruedEvent | null {
+    return this.parseAs(log, 'InterestAccrued');
+  }
 
-    return {
-      caller: event.indexed.caller,
-      receiver: event.indexed.receiver,
-      owner: event.indexed.owner,
-      assets: event.args.assets,
-      shares: event.args.shares,
-    };
+  /**
+   * Parse InterestAccrualDetailed event
+   */
+  parseInterestAccrualDetailed(log: Log): RebaseTokenVaultInterestAccrualDetailedEvent | null {
+    return this.parseAs(log, 'InterestAccrualDetailed');
   }
 
   /**
-   * Get vault activity summary
+   * Get vault activity summary (ETH in and out)
    */
   getActivitySummary(logs: Log[]): {
     deposits: bigint;
@@ -290,13 +360,13 @@ export class VaultEventParser {
     for (const log of logs) {
       const deposit = this.parseDeposit(log);
       if (deposit) {
-        deposits += deposit.assets;
+        deposits += deposit.ethAmount;
         continue;
       }
 
-      const withdraw = this.parseWithdraw(log);
-      if (withdraw) {
-        withdrawals += withdraw.assets;
+      const redeem = this.parseRedeem(log);
+      if (redeem) {
+        withdrawals += redeem.ethReceived;
       }
     }
 
@@ -311,71 +381,47 @@ export class VaultEventParser {
 /**
  * Bridge event parser
  */
-export class BridgeEventParser {
-  private decoder: EventDecoder;
-
+export class BridgeEventParser extends ContractEventParser<EnhancedCCIPBridgeEvents> {
   constructor() {
-    this.decoder = new EventDecoder();
+    super('EnhancedCCIPBridge');
   }
 
   /**
-   * Parse MessageSent event
+   * Parse CrossChainTransfer event (message sent)
    */
-  parseMessageSent(log: Log): {
-    messageId: string;
-    destChain: bigint;
-    amount: bigint;
-  } | null {
-    const event = this.decoder.decodeEvent(log, 'EnhancedCCIPBridge');
-    if (!event || event.eventName !== 'MessageSent') return null;
-
-    return {
-      messageId: event.indexed.messageId,
-      destChain: event.args.destChain,
-      amount: event.args.amount,
-    };
+  parseCrossChainTransfer(log: Log): EnhancedCCIPBridgeCrossChainTransferEvent | null {
+    return this.parseAs(log, 'CrossChainTransfer');
   }
 
   /**
    * Parse MessageReceived event
    */
-  parseMessageReceived(log: Log): {
-    messageId: string;
-    amount: bigint;
-  } | null {
-    const event = this.decoder.decodeEvent(log, 'EnhancedCCIPBridge');
-    if (!event || event.eventName !== 'MessageReceived') return null;
-
-    return {
-      messageId: event.indexed.messageId,
-      amount: event.args.amount,
-    };
+  parseMessageReceived(log: Log): EnhancedCCIPBridgeMessageReceivedEvent | null {
+    return this.parseAs(log, 'MessageReceived');
   }
 
   /**
-   * Parse MessageFailed event
+   * Parse BatchCreated event
    */
-  parseMessageFailed(log: Log): {
-    messageId: string;
-    reason: string;
-  } | null {
-    const event = this.decoder.decodeEvent(log, 'EnhancedCCIPBridge');
-    if (!event || event.eventName !== 'MessageFailed') return null;
+  parseBatchCreated(log: Log): EnhancedCCIPBridgeBatchCreatedEvent | null {
+    return this.parseAs(log, 'BatchCreated');
+  }
 
-    return {
-      messageId: event.indexed.messageId,
-      reason: event.args.reason,
-    };
+  /**
+   * Parse RateLimitApplied event
+   */
+  parseRateLimitApplied(log: Log): EnhancedCCIPBridgeRateLimitAppliedEvent | null {
+    return this.parseAs(log, 'RateLimitApplied');
   }
 
   /**
    * Track message status
    */
-  trackMessages(logs: Log[]): Map<string, 'sent' | 'received' | 'failed'> {
-    const status = new Map<string, 'sent' | 'received' | 'failed'>();
+  trackMessages(logs: Log[]): Map<string, 'sent' | 'received'> {
+    const status = new Map<string, 'sent' | 'received'>();
 
     for (const log of logs) {
-      const sent = this.parseMessageSent(log);
+      const sent = this.parseCrossChainTransfer(log);
       if (sent) {
         status.set(sent.messageId, 'sent');
         continue;
@@ -384,12 +430,6 @@ export class BridgeEventParser {
       const received = this.parseMessageReceived(log);
       if (received) {
         status.set(received.messageId, 'received');
-        continue;
-      }
-
-      const failed = this.parseMessageFailed(log);
-      if (failed) {
-        status.set(failed.messageId, 'failed');
       }
     }
 
@@ -400,33 +440,23 @@ export class BridgeEventParser {
 /**
  * Governance event parser
  */
-export class GovernanceEventParser {
-  private decoder: EventDecoder;
-
+export class GovernanceEventParser extends ContractEventParser<BASEGovernorEvents> {
   constructor() {
-    this.decoder = new EventDecoder();
+    super('BASEGovernor');
   }
 
   /**
    * Parse ProposalCreated event
    */
-  parseProposalCreated(log: Log): {
-    proposalId: bigint;
-    proposer: string;
-    description: string;
-    startBlock: bigint;
-    endBlock: bigint;
-  } | null {
-    const event = this.decoder.decodeEvent(log, 'BASEGovernor');
-    if (!event || event.eventName !== 'ProposalCreated') return null;
+  parseProposalCreated(log: Log): BASEGovernorProposalCreatedEvent | null {
+    return this.parseAs(log, 'ProposalCreated');
+  }
 
-    return {
-      proposalId: event.indexed.proposalId,
-      proposer: event.indexed.proposer,
-      description: event.args.description,
-      startBlock: event.args.startBlock,
-      endBlock: event.args.endBlock,
-    };
+  /**
+   * Parse ProposalCreatedWithMetadata event
+   */
+  parseProposalCreatedWithMetadata(log: Log): BASEGovernorProposalCreatedWithMetadataEvent | null {
+    return this.parseAs(log, 'ProposalCreatedWithMetadata');
   }
 
   /**
@@ -437,32 +467,32 @@ export class GovernanceEventParser {
     proposalId: bigint;
     support: number;
     weight: bigint;
+    reason: string;
   } | null {
-    const event = this.decoder.decodeEvent(log, 'BASEGovernor');
-    if (!event || event.eventName !== 'VoteCast') return null;
+    const event = this.parseAs(log, 'VoteCast');
+    if (!event) return null;
 
     return {
-      voter: event.indexed.voter,
-      proposalId: event.indexed.proposalId,
-      support: event.args.support,
-      weight: event.args.weight,
+      voter: event.voter,
+      proposalId: event.proposalId,
+      support: Number(event.support),
+      weight: event.weight,
+      reason: event.reason,
     };
   }
 
   /**
    * Parse ProposalQueued event
    */
-  parseProposalQueued(log: Log): {
-    proposalId: bigint;
-    eta: bigint;
-  } | null {
-    const event = this.decoder.decodeEvent(log, 'BASEGovernor');
-    if (!event || event.eventName !== 'ProposalQueued') return null;
+  parseProposalQueued(log: Log): BASEGovernorProposalQueuedEvent | null {
+    return this.parseAs(log, 'ProposalQueued');
+  }
 
-    return {
-      proposalId: event.indexed.proposalId,
-      eta: event.args.eta,
-    };
+  /**
+   * Parse ProposalExecuted event
+   */
+  parseProposalExecuted(log: Log): BASEGovernorProposalExecutedEvent | null {
+    return this.parseAs(log, 'ProposalExecuted');
   }
 
   /**
@@ -494,41 +524,254 @@ export class GovernanceEventParser {
   }
 }
 
+/**
+ * Timelock event parser
+ */
+export class TimelockEventParser extends ContractEventParser<BASETimelockEvents> {
+  constructor() {
+    super('BASETimelock');
+  }
+
+  /**
+   * Parse CallScheduled event
+   */
+  parseCallScheduled(log: Log): BASETimelockCallScheduledEvent | null {
+    return this.parseAs(log, 'CallScheduled');
+  }
+
+  /**
+   * Parse CallExecuted event
+   */
+  parseCallExecuted(log: Log): BASETimelockCallExecutedEvent | null {
+    return this.parseAs(log, 'CallExecuted');
+  }
+
+  /**
+   * Parse Cancelled event
+   */
+  parseCancelled(log: Log): BASETimelockCancelledEvent | null {
+    return this.parseAs(log, 'Cancelled');
+  }
+}
+
+/**
+ * Emergency multisig event parser
+ */
+export class MultiSigEventParser extends ContractEventParser<BaseEmergencyMultiSigEvents> {
+  constructor() {
+    super('BaseEmergencyMultiSig');
+  }
+
+  /**
+   * Parse ProposalCreated event
+   */
+  parseProposalCreated(log: Log): BaseEmergencyMultiSigProposalCreatedEvent | null {
+    return this.parseAs(log, 'ProposalCreated');
+  }
+
+  /**
+   * Parse ProposalApproved event
+   */
+  parseProposalApproved(log: Log): BaseEmergencyMultiSigProposalApprovedEvent | null {
+    return this.parseAs(log, 'ProposalApproved');
+  }
+
+  /**
+   * Parse ProposalExecuted event
+   */
+  parseProposalExecuted(log: Log): BaseEmergencyMultiSigProposalExecutedEvent | null {
+    return this.parseAs(log, 'ProposalExecuted');
+  }
+}
+
+/**
+ * Pause/recovery event parser
+ */
+export class RecoveryEventParser extends ContractEventParser<PauseRecoveryEvents> {
+  constructor() {
+    super('PauseRecovery');
+  }
+
+  /**
+   * Parse ProtocolPaused event
+   */
+  parseProtocolPaused(log: Log): PauseRecoveryProtocolPausedEvent | null {
+    return this.parseAs(log, 'ProtocolPaused');
+  }
+
+  /**
+   * Parse RecoveryInitiated event
+   */
+  parseRecoveryInitiated(log: Log): PauseRecoveryRecoveryInitiatedEvent | null {
+    return this.parseAs(log, 'RecoveryInitiated');
+  }
+
+  /**
+   * Parse RecoveryStageUpdated event
+   */
+  parseRecoveryStageUpdated(log: Log): PauseRecoveryRecoveryStageUpdatedEvent | null {
+    return this.parseAs(log, 'RecoveryStageUpdated');
+  }
+}
+
+/**
+ * Interest strategy event parser
+ */
+export class InterestStrategyEventParser extends ContractEventParser<AdvancedInterestStrategyEvents> {
+  constructor() {
+    super('AdvancedInterestStrategy');
+  }
+
+  /**
+   * Parse LockCreated event
+   */
+  parseLockCreated(log: Log): AdvancedInterestStrategyLockCreatedEvent | null {
+    return this.parseAs(log, 'LockCreated');
+  }
+
+  /**
+   * Parse PerformanceFeeCharged event
+   */
+  parsePerformanceFeeCharged(log: Log): AdvancedInterestStrategyPerformanceFeeChargedEvent | null {
+    return this.parseAs(log, 'PerformanceFeeCharged');
+  }
+}
+
+/**
+ * Event categories produced by the indexer
+ */
+export type EventCategory = 'tokens' | 'vault' | 'bridge' | 'governance' | 'multisig' | 'recovery';
+
+/**
+ * Decoded event tagged with the contract it was routed to
+ */
+export type IndexedEvent<TEvents> = ParsedEvent<TEvents> & { contract: string };
+
+/**
+ * Routed events per category, each in chain order
+ */
+export interface IndexedLogs {
+  tokens: IndexedEvent<RebaseTokenEvents>[];
+  vault: IndexedEvent<RebaseTokenVaultEvents>[];
+  bridge: IndexedEvent<EnhancedCCIPBridgeEvents>[];
+  governance: Array<IndexedEvent<BASEGovernorEvents> | IndexedEvent<BASETimelockEvents>>;
+  multisig: IndexedEvent<BaseEmergencyMultiSigEvents>[];
+  recovery: IndexedEvent<PauseRecoveryEvents>[];
+  /** Logs from unconfigured addresses or with undecodable topics */
+  unrouted: Log[];
+}
+
+/**
+ * Contracts the indexer can route to and the config field holding each address
+ */
+const INDEXED_CONTRACTS: Array<{
+  contract: string;
+  category: EventCategory;
+  abi: InterfaceAbi;
+  configKey: keyof NetworkConfig;
+}> = [
+  { contract: 'RebaseToken', category: 'tokens', abi: RebaseTokenAbi, configKey: 'tokenAddress' },
+  { contract: 'RebaseTokenVault', category: 'vault', abi: RebaseTokenVaultAbi, configKey: 'vaultAddress' },
+  { contract: 'EnhancedCCIPBridge', category: 'bridge', abi: EnhancedCCIPBridgeAbi, configKey: 'bridgeAddress' },
+  { contract: 'BASEGovernor', category: 'governance', abi: BASEGovernorAbi, configKey: 'governorAddress' },
+  { contract: 'BASETimelock', category: 'governance', abi: BASETimelockAbi, configKey: 'timelockAddress' },
+  { contract: 'BaseEmergencyMultiSig', category: 'multisig', abi: BaseEmergencyMultiSigAbi, configKey: 'emergencyMultisigAddress' },
+  { contract: 'PauseRecovery', category: 'recovery', abi: PauseRecoveryAbi, configKey: 'pauseRecoveryAddress' },
+];
+
 /**
  * Combined event indexer
+ *
+ * Logs are routed by emitting address to the contracts configured in
+ * NetworkConfig or added with `register`. Logs from any other address are
+ * left unrouted, so a foreign ERC-20 Transfer is never counted as a
+ * RebaseToken transfer.
  */
 export class EventIndexer {
-  private tokenParser: TokenEventParser;
-  private vaultParser: VaultEventParser;
-  private bridgeParser: BridgeEventParser;
-  private governanceParser: GovernanceEventParser;
+  private interfaces: Map<string, ethers.Interface> = new Map();
+  private categories: Map<string, EventCategory> = new Map();
+  private routes: Map<string, string> = new Map();
 
-  constructor() {
-    this.tokenParser = new TokenEventParser();
-    this.vaultParser = new VaultEventParser();
-    this.bridgeParser = new BridgeEventParser();
-    this.governanceParser = new GovernanceEventParser();
+  constructor(config?: Partial<NetworkConfig>) {
+    for (const entry of INDEXED_CONTRACTS) {
+      this.interfaces.set(entry.contract, new ethers.Interface(entry.abi));
+      this.categories.set(entry.contract, entry.category);
+
+      const address = config?.[entry.configKey];
+      if (typeof address === 'string' && ethers.isAddress(address)) {
+        this.register(address, entry.contract);
+      }
+    }
+  }
+
+  /**
+   * Route logs from an address to a known contract
+   */
+  register(address: string, contract: string): this {
+    if (!this.interfaces.has(contract)) {
+      throw new Error(`Unknown contract: ${contract}`);
+    }
+    this.routes.set(address.toLowerCase(), contract);
+    return this;
+  }
+
+  /**
+   * Decode a single log with the interface of the contract it routes to
+   */
+  decodeLog(log: Log): { category: EventCategory; event: IndexedEvent<any> } | null {
+    const contract = this.routes.get(log.address.toLowerCase());
+    if (!contract) return null;
+
+    try {
+      const parsed = this.interfaces.get(contract)!.parseLog(log);
+      if (!parsed) return null;
+
+      return {
+        category: this.categories.get(contract)!,
+        event: {
+          name: parsed.name,
+          args: toNamedArgs(parsed.fragment.inputs, parsed.args),
+          log,
+          contract,
+        },
+      };
+    } catch {
+      return null;
+    }
   }
 
   /**
    * Index all events from logs
    */
-  indexLogs(logs: Log[]): {
-    tokens: any[];
-    vault: any[];
-    bridge: any[];
-    governance: any[];
-  } {
-    return {
+  indexLogs(logs: Log[]): IndexedLogs {
+    const indexed: IndexedLogs = {
       tokens: [],
       vault: [],
       bridge: [],
       governance: [],
+      multisig: [],
+      recovery: [],
+      unrouted: [],
     };
+
+    for (const log of [...logs].sort(EventIndexer.compareLogs)) {
+      const decoded = this.decodeLog(log);
+      if (!decoded) {
+        indexed.unrouted.push(log);
+        continue;
+      }
+      (indexed[decoded.category] as IndexedEvent<any>[]).push(decoded.event);
+    }
+
+    return indexed;
   }
 
   /**
    * Get user activity summary
+   *
+   * Bridge messages carry no sender, so a CrossChainTransfer or
+   * MessageReceived counts for the user when they are its recipient or the
+   * same transaction burns/mints their tokens.
    */
   getUserActivity(logs: Log[], userAddress: string): {
     transfers: number;
@@ -538,6 +781,10 @@ export class EventIndexer {
     votes: number;
     messages: number;
   } {
+    const user = userAddress.toLowerCase();
+    const is = (address: string) => address.toLowerCase() === user;
+    const indexed = this.indexLogs(logs);
+
     let transfers = 0;
     let approvals = 0;
     let deposits = 0;
@@ -545,29 +792,39 @@ export class EventIndexer {
     let votes = 0;
     let messages = 0;
 
-    for (const log of logs) {
-      const transfer = this.tokenParser.parseTransfer(log);
-      if (transfer && (transfer.from.toLowerCase() === userAddress.toLowerCase() ||
-        transfer.to.toLowerCase() === userAddress.toLowerCase())) {
+    const userTxs = new Set<string>();
+
+    for (const event of indexed.tokens) {
+      if (event.name === 'Transfer' && (is(event.args.from) || is(event.args.to))) {
         transfers++;
+        userTxs.add(event.log.transactionHash);
+      } else if (event.name === 'Approval' && is(event.args.owner)) {
+        approvals++;
       }
+    }
 
-      const deposit = this.vaultParser.parseDeposit(log);
-      if (deposit && deposit.owner.toLowerCase() === userAddress.toLowerCase()) {
+    for (const event of indexed.vault) {
+      if (event.name === 'Deposit' && is(event.args.user)) {
         deposits++;
-      }
-
-      const withdraw = this.vaultParser.parseWithdraw(log);
-      if (withdraw && withdraw.owner.toLowerCase() === userAddress.toLowerCase()) {
+      } else if (event.name === 'Redeem' && is(event.args.user)) {
         withdrawals++;
       }
+    }
 
-      const vote = this.governanceParser.parseVoteCast(log);
-      if (vote && vote.voter.toLowerCase() === userAddress.toLowerCase()) {
+    for (const event of indexed.governance) {
+      if ((event.name === 'VoteCast' || event.name === 'VoteCastWithParams') && is(event.args.voter)) {
         votes++;
       }
     }
 
+    for (const event of indexed.bridge) {
+      if (event.name === 'CrossChainTransfer') {
+        if (is(event.args.recipient) || userTxs.has(event.log.transactionHash)) messages++;
+      } else if (event.name === 'MessageReceived') {
+        if (userTxs.has(event.log.transactionHash)) messages++;
+      }
+    }
+
     return {
       transfers,
       approvals,
@@ -577,13 +834,25 @@ export class EventIndexer {
       messages,
     };
   }
+
+  /**
+   * Chain order: block, then log index within the block
+   */
+  private static compareLogs(a: Log, b: Log): number {
+    return a.blockNumber - b.blockNumber || a.index - b.index;
+  }
 }
 
 export default {
   EventDecoder,
+  ContractEventParser,
   TokenEventParser,
   VaultEventParser,
   BridgeEventParser,
   GovernanceEventParser,
+  TimelockEventParser,
+  MultiSigEventParser,
+  RecoveryEventParser,
+  InterestStrategyEventParser,
   EventIndexer,
 };
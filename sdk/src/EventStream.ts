@@ -0,0 +1,387 @@
+/**
+ * @fileoverview Basero Event Stream
+ * Typed live subscriptions over WebSocket or HTTP polling providers
+ *
+ * Both transports feed the same LogFetcher cursor: a WebSocket provider
+ * triggers a fetch on every new block, an HTTP provider is polled on an
+ * interval. After a disconnect the fetcher resumes from its cursor, so the
+ * gap is backfilled and overlapping logs are dropped by txHash + logIndex.
+ */
+
+import { ethers, Log, Provider, WebSocketLike } from 'ethers';
+import type { NetworkConfig } from './BaseroSDK';
+import { EventCategory, EventIndexer } from './EventDecoders';
+import { LogFetcher, LogFetcherUpdate } from './LogFetcher';
+import {
+  BASEGovernorEvents,
+  BASETimelockEvents,
+  BaseEmergencyMultiSigEvents,
+  EnhancedCCIPBridgeEvents,
+  PauseRecoveryEvents,
+  RebaseTokenEvents,
+  RebaseTokenVaultEvents,
+  TypedEvent,
+} from './generated';
+
+export type EventPrefix = 'token' | 'vault' | 'bridge' | 'governance' | 'multisig' | 'recovery';
+
+/**
+ * Event delivered to subscribers
+ *
+ * `removed` is true when a previously delivered event was reorganised out.
+ */
+export type StreamEvent<TName extends string = string, TArgs = any> = TypedEvent<TName, TArgs> & {
+  contract: string;
+  removed: boolean;
+};
+
+type Prefixed<P extends EventPrefix, TEvents> = {
+  [K in keyof TEvents & string as `${P}:${K}`]: StreamEvent<K, TEvents[K]>;
+};
+
+/**
+ * Subscribable event names, e.g. 'vault:Deposit' or 'bridge:CrossChainTransfer'
+ */
+export type BaseroEventMap =
+  Prefixed<'token', RebaseTokenEvents> &
+  Prefixed<'vault', RebaseTokenVaultEvents> &
+  Prefixed<'bridge', EnhancedCCIPBridgeEvents> &
+  Prefixed<'governance', BASEGovernorEvents & BASETimelockEvents> &
+  Prefixed<'multisig', BaseEmergencyMultiSigEvents> &
+  Prefixed<'recovery', PauseRecoveryEvents>;
+
+export type WildcardEvent = '*' | `${EventPrefix}:*`;
+
+export type StreamHandler<T> = (event: T) => void;
+
+/**
+ * Stream configuration
+ */
+export interface EventStreamOptions {
+  /** HTTP polling interval (default 4000ms) */
+  pollIntervalMs?: number;
+  /** Blocks to stay behind head (default 0) */
+  confirmations?: number;
+  /** Block to start from (defaults to latest) */
+  fromBlock?: number;
+  /** Create a fresh WebSocket provider after a disconnect */
+  reconnect?: () => Provider | Promise<Provider>;
+  /** Treat a WebSocket as dead after this long without a block (default 60000ms) */
+  staleAfterMs?: number;
+  /** Delivered event keys remembered for de-duplication (default 10000) */
+  dedupeWindow?: number;
+}
+
+const CATEGORY_PREFIX: Record<EventCategory, EventPrefix> = {
+  tokens: 'token',
+  vault: 'vault',
+  bridge: 'bridge',
+  governance: 'governance',
+  multisig: 'multisig',
+  recovery: 'recovery',
+};
+
+/**
+ * Shared event stream - one log pipeline fanned out to any number of handlers
+ *
+ * The pipeline starts with the first subscription and stops when the last
+ * one is removed, so UI components can subscribe and unsubscribe freely.
+ */
+export class BaseroEventStream {
+  private provider: Provider;
+  private options: EventStreamOptions;
+  private indexer: EventIndexer;
+  private fetcher: LogFetcher;
+  private handlers: Map<string, Set<StreamHandler<any>>> = new Map();
+  private errorHandlers: Set<StreamHandler<Error>> = new Set();
+  private delivered: Set<string> = new Set();
+  private running = false;
+  private polling = false;
+  private pending = false;
+  private reconnecting = false;
+  private timer?: ReturnType<typeof setTimeout>;
+  private staleTimer?: ReturnType<typeof setTimeout>;
+  private blockListener = () => this.onBlock();
+
+  constructor(provider: Provider, config: Partial<NetworkConfig>, options: EventStreamOptions = {}) {
+    this.provider = provider;
+    this.options = options;
+    this.indexer = new EventIndexer(config);
+    this.fetcher = new LogFetcher({
+      provider,
+      addresses: [
+        config.tokenAddress,
+        config.vaultAddress,
+        config.bridgeAddress,
+        config.governorAddress,
+        config.timelockAddress,
+        config.emergencyMultisigAddress,
+        config.pauseRecoveryAddress,
+      ].filter((address): address is string => !!address),
+      startBlock: options.fromBlock,
+      confirmations: options.confirmations,
+    });
+  }
+
+  /**
+   * Subscribe to an event; returns an unsubscribe function
+   */
+  on<K extends keyof BaseroEventMap>(event: K, handler: StreamHandler<BaseroEventMap[K]>): () => void;
+  on(event: WildcardEvent, handler: StreamHandler<StreamEvent>): () => void;
+  on(event: string, handler: StreamHandler<any>): () => void {
+    const set = this.handlers.get(event) || new Set();
+    set.add(handler);
+    this.handlers.set(event, set);
+    this.start();
+
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event
+   */
+  once<K extends keyof BaseroEventMap>(event: K, handler: StreamHandler<BaseroEventMap[K]>): () => void;
+  once(event: WildcardEvent, handler: StreamHandler<StreamEvent>): () => void;
+  once(event: string, handler: StreamHandler<any>): () => void {
+    const wrapped: StreamHandler<any> = (payload) => {
+      this.off(event, wrapped);
+      handler(payload);
+    };
+    return this.on(event as WildcardEvent, wrapped);
+  }
+
+  /**
+   * Remove a handler
+   */
+  off(event: string, handler: StreamHandler<any>): void {
+    const set = this.handlers.get(event);
+    if (!set) return;
+
+    set.delete(handler);
+    if (set.size === 0) this.handlers.delete(event);
+    if (this.handlers.size === 0) this.stop();
+  }
+
+  /**
+   * Receive transport and handler errors
+   */
+  onError(handler: StreamHandler<Error>): () => void {
+    this.errorHandlers.add(handler);
+    return () => this.errorHandlers.delete(handler);
+  }
+
+  /**
+   * Number of handlers, optionally for one event
+   */
+  listenerCount(event?: string): number {
+    if (event) return this.handlers.get(event)?.size ?? 0;
+    let count = 0;
+    for (const set of this.handlers.values()) count += set.size;
+    return count;
+  }
+
+  /**
+   * Start the pipeline (called by the first on())
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.attach(this.provider);
+  }
+
+  /**
+   * Stop the pipeline and detach from the provider
+   */
+  stop(): void {
+    if (!this.running) return;
+    this.running = false;
+    this.detach();
+  }
+
+  /**
+   * Subscribe to blocks on a WebSocket provider, or poll an HTTP one
+   */
+  private attach(provider: Provider): void {
+    this.provider = provider;
+    this.fetcher.setProvider(provider);
+
+    const socket = BaseroEventStream.socketOf(provider);
+    if (!socket) {
+      this.startPolling(0);
+      return;
+    }
+
+    provider.on('block', this.blockListener);
+    socket.addEventListener?.('close', () => this.handleDisconnect());
+    this.armStaleTimer();
+
+    // Catch up on anything missed while disconnected
+    void this.fetch();
+  }
+
+  /**
+   * Fetch on an interval until detached
+   */
+  private startPolling(delay: number): void {
+    const interval = this.options.pollIntervalMs ?? 4000;
+    const loop = async () => {
+      await this.fetch();
+      if (this.running && this.timer !== undefined) this.timer = setTimeout(loop, interval);
+    };
+    this.timer = setTimeout(loop, delay);
+  }
+
+  /**
+   * Remove block listeners and timers
+   */
+  private detach(): void {
+    void this.provider.off('block', this.blockListener);
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    if (this.staleTimer !== undefined) {
+      clearTimeout(this.staleTimer);
+      this.staleTimer = undefined;
+    }
+  }
+
+  private onBlock(): void {
+    this.armStaleTimer();
+    void this.fetch();
+  }
+
+  private armStaleTimer(): void {
+    if (this.staleTimer !== undefined) clearTimeout(this.staleTimer);
+    this.staleTimer = setTimeout(() => this.handleDisconnect(), this.options.staleAfterMs ?? 60_000);
+  }
+
+  /**
+   * Replace a dead WebSocket provider, backing off between attempts
+   *
+   * Without a reconnect factory the stream falls back to polling the
+   * existing provider.
+   */
+  private async handleDisconnect(): Promise<void> {
+    if (!this.running || this.reconnecting) return;
+    this.reconnecting = true;
+    this.detach();
+
+    if (!this.options.reconnect) {
+      this.emitError(new Error('Event stream WebSocket disconnected; falling back to polling'));
+      this.startPolling(this.options.pollIntervalMs ?? 4000);
+      this.reconnecting = false;
+      return;
+    }
+
+    let delay = 1000;
+    while (this.running) {
+      try {
+        const provider = await this.options.reconnect();
+        if (this.running) this.attach(provider);
+        break;
+      } catch (error) {
+        this.emitError(error as Error);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        delay = Math.min(delay * 2, 30_000);
+      }
+    }
+
+    this.reconnecting = false;
+  }
+
+  /**
+   * Run one fetch, coalescing triggers that arrive while it is in flight
+   */
+  private async fetch(): Promise<void> {
+    if (this.polling) {
+      this.pending = true;
+      return;
+    }
+    this.polling = true;
+
+    try {
+      do {
+        this.pending = false;
+        this.dispatch(await this.fetcher.poll());
+      } while (this.pending && this.running);
+    } catch (error) {
+      this.emitError(error as Error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Decode and fan out removed, then added, logs
+   */
+  private dispatch(update: LogFetcherUpdate): void {
+    for (const log of update.removed) {
+      const key = BaseroEventStream.keyOf(log);
+      if (!this.delivered.delete(key)) continue;
+      this.emit(log, true);
+    }
+
+    for (const log of update.added) {
+      const key = BaseroEventStream.keyOf(log);
+      if (this.delivered.has(key)) continue;
+      this.remember(key);
+      this.emit(log, false);
+    }
+  }
+
+  private emit(log: Log, removed: boolean): void {
+    const decoded = this.indexer.decodeLog(log);
+    if (!decoded) return;
+
+    const prefix = CATEGORY_PREFIX[decoded.category];
+    const event: StreamEvent = { ...decoded.event, removed };
+
+    for (const name of [`${prefix}:${event.name}`, `${prefix}:*`, '*']) {
+      for (const handler of this.handlers.get(name) || []) {
+        try {
+          handler(event);
+        } catch (error) {
+          this.emitError(error as Error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Remember a delivered key, evicting the oldest past the window
+   */
+  private remember(key: string): void {
+    this.delivered.add(key);
+    const window = this.options.dedupeWindow ?? 10_000;
+    if (this.delivered.size > window) {
+      const oldest = this.delivered.values().next().value;
+      if (oldest !== undefined) this.delivered.delete(oldest);
+    }
+  }
+
+  private emitError(error: Error): void {
+    for (const handler of this.errorHandlers) handler(error);
+  }
+
+  private static keyOf(log: Log): string {
+    return `${log.transactionHash}:${log.index}`;
+  }
+
+  /**
+   * Underlying socket of an ethers WebSocketProvider, if any
+   */
+  private static socketOf(
+    provider: Provider
+  ): (WebSocketLike & { addEventListener?: (type: string, listener: () => void) => void }) | null {
+    if (!(provider instanceof ethers.WebSocketProvider)) return null;
+    try {
+      return provider.websocket;
+    } catch {
+      // The getter throws once the socket is closed
+      return null;
+    }
+  }
+}
+
+export default BaseroEventStream;
@@ -0,0 +1,338 @@
+/**
+ * @fileoverview Basero Gas and Fee Estimation
+ * Prices encoded calls from estimateGas, EIP-1559 fee history and CCIP fees
+ *
+ * Tiers take a percentile of recent priority fees and add headroom over the
+ * next block's base fee. Expected cost uses base fee + tip; max cost is the
+ * worst case the wallet authorises (gasLimit * maxFeePerGas).
+ */
+
+import { ethers, Contract, Provider, TransactionRequest } from 'ethers';
+
+export type FeeTier = 'slow' | 'normal' | 'fast';
+
+export const FEE_TIERS: FeeTier[] = ['slow', 'normal', 'fast'];
+
+export interface FeeTierQuote {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+export interface FeeTiers {
+  /** Base fee of the next block (gas price on legacy chains) */
+  baseFeePerGas: bigint;
+  eip1559: boolean;
+  slow: FeeTierQuote;
+  normal: FeeTierQuote;
+  fast: FeeTierQuote;
+}
+
+/**
+ * CCIP message fee attached to an operation
+ *
+ * `paidBy: 'contract'` marks fees the bridge pays from its own LINK balance;
+ * they are reported but not added to the caller's totals.
+ */
+export interface CcipFee {
+  token: 'LINK' | 'native';
+  amount: bigint;
+  paidBy: 'sender' | 'contract';
+}
+
+export interface FiatCost {
+  currency: string;
+  gas: number;
+  value: number;
+  ccipFee: number;
+  total: number;
+}
+
+export interface TierCost extends FeeTierQuote {
+  /** gasEstimate * (baseFee + tip) */
+  gasCost: bigint;
+  /** gasLimit * maxFeePerGas */
+  maxGasCost: bigint;
+  /** Native token the caller spends: value + gasCost (+ native CCIP fee) */
+  totalNative: bigint;
+  fiat?: FiatCost;
+}
+
+export interface CostEstimate {
+  gasEstimate: bigint;
+  gasLimit: bigint;
+  value: bigint;
+  ccipFee?: CcipFee;
+  baseFeePerGas: bigint;
+  eip1559: boolean;
+  tiers: Record<FeeTier, TierCost>;
+  prices?: { native: number | null; link: number | null };
+}
+
+/**
+ * Pluggable fiat price lookup (price of one whole token)
+ */
+export interface PriceSource {
+  currency: string;
+  getPrice(symbol: string): Promise<number | null>;
+}
+
+export interface GasFeeEstimatorOptions {
+  priceSource?: PriceSource;
+  /** Symbol the price source knows the chain's native token by */
+  nativeSymbol?: string;
+  /** Blocks of fee history to sample */
+  historyBlocks?: number;
+  /** Reward percentiles for slow/normal/fast */
+  percentiles?: [number, number, number];
+  /** Gas limit headroom over estimateGas, in basis points */
+  gasBufferBps?: number;
+}
+
+/**
+ * Fixed prices, e.g. from a backend or for tests
+ */
+export class StaticPriceSource implements PriceSource {
+  private prices: Map<string, number>;
+
+  constructor(prices: Record<string, number>, readonly currency: string = 'USD') {
+    this.prices = new Map(Object.entries(prices).map(([symbol, price]) => [symbol.toUpperCase(), price]));
+  }
+
+  async getPrice(symbol: string): Promise<number | null> {
+    return this.prices.get(symbol.toUpperCase()) ?? null;
+  }
+}
+
+/**
+ * Chainlink price feeds keyed by symbol (e.g. ETH/USD, LINK/USD aggregators)
+ */
+export class ChainlinkPriceSource implements PriceSource {
+  private static readonly FEED_ABI = [
+    'function decimals() external view returns (uint8)',
+    'function latestRoundData() external view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+  ];
+
+  private feeds: Map<string, Contract>;
+
+  constructor(
+    provider: Provider,
+    feeds: Record<string, string>,
+    readonly currency: string = 'USD',
+    private maxAgeSeconds: number = 86_400
+  ) {
+    this.feeds = new Map(
+      Object.entries(feeds).map(([symbol, address]) => [
+        symbol.toUpperCase(),
+        new Contract(address, ChainlinkPriceSource.FEED_ABI, provider),
+      ])
+    );
+  }
+
+  async getPrice(symbol: string): Promise<number | null> {
+    const feed = this.feeds.get(symbol.toUpperCase());
+    if (!feed) return null;
+
+    const [decimals, round] = await Promise.all([feed.decimals(), feed.latestRoundData()]);
+    const age = Math.floor(Date.now() / 1000) - Number(round.updatedAt);
+    if (round.answer <= 0n || age > this.maxAgeSeconds) return null;
+
+    return Number(ethers.formatUnits(round.answer, decimals));
+  }
+}
+
+/**
+ * Gas and fee estimator for encoded calls
+ */
+export class GasFeeEstimator {
+  /** Headroom over the next base fee per tier, in basis points */
+  static readonly BASE_FEE_HEADROOM_BPS: Record<FeeTier, bigint> = {
+    slow: 11_000n,
+    normal: 12_500n,
+    fast: 20_000n,
+  };
+
+  private provider: Provider;
+  private priceSource?: PriceSource;
+  private nativeSymbol: string;
+  private historyBlocks: number;
+  private percentiles: [number, number, number];
+  private gasBufferBps: bigint;
+
+  constructor(provider: Provider, options: GasFeeEstimatorOptions = {}) {
+    this.provider = provider;
+    this.priceSource = options.priceSource;
+    this.nativeSymbol = options.nativeSymbol || 'ETH';
+    this.historyBlocks = options.historyBlocks || 20;
+    this.percentiles = options.percentiles || [10, 50, 90];
+    this.gasBufferBps = BigInt(options.gasBufferBps ?? 1_000);
+  }
+
+  /**
+   * Propose slow/normal/fast fees from eth_feeHistory
+   *
+   * Falls back to getFeeData() when the provider cannot send raw RPC
+   * requests or the chain has no base fee.
+   */
+  async getFeeTiers(): Promise<FeeTiers> {
+    const rpc = this.provider as Provider & { send?: (method: string, params: unknown[]) => Promise<any> };
+
+    if (typeof rpc.send === 'function') {
+      try {
+        const history = await rpc.send('eth_feeHistory', [
+          ethers.toQuantity(this.historyBlocks),
+          'latest',
+          this.percentiles,
+        ]);
+        const baseFees: string[] = history?.baseFeePerGas || [];
+        if (baseFees.length > 0 && Array.isArray(history.reward)) {
+          // The last entry is the base fee of the pending block
+          const baseFeePerGas = BigInt(baseFees[baseFees.length - 1]);
+          const rewards = (history.reward as string[][]).map((row) => row.map((value) => BigInt(value)));
+          const tiers = {} as Record<FeeTier, FeeTierQuote>;
+
+          FEE_TIERS.forEach((tier, i) => {
+            const tip = this.median(rewards.map((row) => row[i] ?? 0n).filter((value) => value > 0n));
+            tiers[tier] = {
+              maxPriorityFeePerGas: tip,
+              maxFeePerGas: (baseFeePerGas * GasFeeEstimator.BASE_FEE_HEADROOM_BPS[tier]) / 10_000n + tip,
+            };
+          });
+
+          return { baseFeePerGas, eip1559: true, ...tiers };
+        }
+      } catch {
+        // eth_feeHistory unsupported; fall through to getFeeData
+      }
+    }
+
+    const feeData = await this.provider.getFeeData();
+
+    if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+      const tip = feeData.maxPriorityFeePerGas;
+      const baseFeePerGas = (feeData.maxFeePerGas - tip) / 2n;
+      const quote = (tier: FeeTier, tierTip: bigint): FeeTierQuote => ({
+        maxPriorityFeePerGas: tierTip,
+        maxFeePerGas: (baseFeePerGas * GasFeeEstimator.BASE_FEE_HEADROOM_BPS[tier]) / 10_000n + tierTip,
+      });
+
+      return {
+        baseFeePerGas,
+        eip1559: true,
+        slow: quote('slow', tip / 2n),
+        normal: quote('normal', tip),
+        fast: quote('fast', tip * 2n),
+      };
+    }
+
+    const gasPrice = feeData.gasPrice ?? 0n;
+    const legacy = (bps: bigint): FeeTierQuote => ({
+      maxFeePerGas: (gasPrice * bps) / 10_000n,
+      maxPriorityFeePerGas: 0n,
+    });
+
+    return {
+      baseFeePerGas: gasPrice,
+      eip1559: false,
+      slow: legacy(10_000n),
+      normal: legacy(11_000n),
+      fast: legacy(12_500n),
+    };
+  }
+
+  /**
+   * Estimate an encoded call and price it for every tier
+   */
+  async estimate(tx: TransactionRequest, ccipFee?: CcipFee): Promise<CostEstimate> {
+    const [gasEstimate, fees, prices] = await Promise.all([
+      this.provider.estimateGas(tx),
+      this.getFeeTiers(),
+      this.getPrices(ccipFee),
+    ]);
+
+    const gasLimit = gasEstimate + (gasEstimate * this.gasBufferBps) / 10_000n;
+    const value = tx.value ? BigInt(tx.value) : 0n;
+    const callerCcipNative = ccipFee && ccipFee.paidBy === 'sender' && ccipFee.token === 'native'
+      ? ccipFee.amount
+      : 0n;
+
+    const tiers = {} as Record<FeeTier, TierCost>;
+    for (const tier of FEE_TIERS) {
+      const quote = fees[tier];
+      const effective = fees.eip1559
+        ? this.min(fees.baseFeePerGas + quote.maxPriorityFeePerGas, quote.maxFeePerGas)
+        : quote.maxFeePerGas;
+      const gasCost = gasEstimate * effective;
+
+      tiers[tier] = {
+        ...quote,
+        gasCost,
+        maxGasCost: gasLimit * quote.maxFeePerGas,
+        totalNative: value + gasCost + callerCcipNative,
+        fiat: prices ? this.toFiat(gasCost, value, ccipFee, prices) : undefined,
+      };
+    }
+
+    return {
+      gasEstimate,
+      gasLimit,
+      value,
+      ccipFee,
+      baseFeePerGas: fees.baseFeePerGas,
+      eip1559: fees.eip1559,
+      tiers,
+      prices: prices || undefined,
+    };
+  }
+
+  private async getPrices(ccipFee?: CcipFee): Promise<{ native: number | null; link: number | null } | null> {
+    if (!this.priceSource) return null;
+
+    const [native, link] = await Promise.all([
+      this.priceSource.getPrice(this.nativeSymbol).catch(() => null),
+      ccipFee?.token === 'LINK'
+        ? this.priceSource.getPrice('LINK').catch(() => null)
+        : Promise.resolve(null),
+    ]);
+
+    return { native, link };
+  }
+
+  private toFiat(
+    gasCost: bigint,
+    value: bigint,
+    ccipFee: CcipFee | undefined,
+    prices: { native: number | null; link: number | null }
+  ): FiatCost | undefined {
+    if (prices.native === null || !this.priceSource) return undefined;
+
+    const toFiat = (wei: bigint, price: number) => Number(ethers.formatEther(wei)) * price;
+    const gas = toFiat(gasCost, prices.native);
+    const valueFiat = toFiat(value, prices.native);
+
+    let ccip = 0;
+    if (ccipFee) {
+      const price = ccipFee.token === 'native' ? prices.native : prices.link;
+      ccip = price === null ? 0 : toFiat(ccipFee.amount, price);
+    }
+
+    return {
+      currency: this.priceSource.currency,
+      gas,
+      value: valueFiat,
+      ccipFee: ccip,
+      total: gas + valueFiat + (ccipFee?.paidBy === 'sender' ? ccip : 0),
+    };
+  }
+
+  private median(values: bigint[]): bigint {
+    if (values.length === 0) return 0n;
+    const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    return sorted[Math.floor(sorted.length / 2)];
+  }
+
+  private min(a: bigint, b: bigint): bigint {
+    return a < b ? a : b;
+  }
+}
+
+export default GasFeeEstimator;
@@ -0,0 +1,530 @@
+/**
+ * @fileoverview Basero Governance Signatures
+ * EIP-712 delegation and ballot signing with relayer submission
+ */
+
+import { ethers, Contract, Provider, Signer, TypedDataDomain, TypedDataField } from 'ethers';
+import { OperationResult, TransactionOptions } from './BaseroSDK';
+import { BaseroError, decodeBaseroError } from './ErrorDecoder';
+import { PreflightReport, runPreflight, txOverrides } from './Preflight';
+
+/**
+ * EIP-712 type definitions (match ERC20Votes and OpenZeppelin Governor)
+ */
+export const DELEGATION_TYPES: Record<string, TypedDataField[]> = {
+  Delegation: [
+    { name: 'delegatee', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+};
+
+export const BALLOT_TYPES: Record<string, TypedDataField[]> = {
+  Ballot: [
+    { name: 'proposalId', type: 'uint256' },
+    { name: 'support', type: 'uint8' },
+    { name: 'voter', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+};
+
+/**
+ * Vote support values
+ */
+export enum VoteSupport {
+  Against = 0,
+  For = 1,
+  Abstain = 2,
+}
+
+/**
+ * Typed data ready for eth_signTypedData_v4
+ */
+export interface TypedDataPayload<T> {
+  domain: TypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  primaryType: string;
+  message: T;
+}
+
+export interface DelegationMessage {
+  delegatee: string;
+  nonce: bigint;
+  expiry: bigint;
+}
+
+export interface BallotMessage {
+  proposalId: bigint;
+  support: VoteSupport;
+  voter: string;
+  nonce: bigint;
+}
+
+/**
+ * Signed delegation, serializable for off-chain collection
+ */
+export interface SignedDelegation {
+  delegator: string;
+  message: DelegationMessage;
+  signature: string;
+}
+
+/**
+ * Signed ballot, serializable for off-chain collection
+ */
+export interface SignedBallot {
+  message: BallotMessage;
+  signature: string;
+}
+
+/**
+ * Per-item result of a relayed batch
+ */
+export interface RelayResult<T> {
+  item: T;
+  result: OperationResult;
+}
+
+/**
+ * Governance Signature Helper - Builds, signs, verifies and relays
+ * EIP-712 delegations (BASEGovernanceToken) and ballots (BASEGovernor)
+ */
+export class GovernanceSignatureHelper {
+  private tokenContract: Contract;
+  private governorContract: Contract;
+  private signer?: Signer;
+  private domains: Map<string, TypedDataDomain> = new Map();
+
+  constructor(
+    provider: Provider,
+    governanceTokenAddress: string,
+    governorAddress: string,
+    signer?: Signer
+  ) {
+    this.signer = signer;
+
+    const tokenAbi = [
+      'function eip712Domain() public view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)',
+      'function nonces(address owner) public view returns (uint256)',
+      'function delegates(address account) public view returns (address)',
+      'function getVotes(address account) public view returns (uint256)',
+      'function delegateSelf() external',
+      'function delegateVotes(address delegatee) external',
+      'function delegateBySig(address delegatee, uint256 nonce, uint256 expiry, uint8 v, bytes32 r, bytes32 s) public',
+      'event DelegateChanged(address indexed delegator, address indexed fromDelegate, address indexed toDelegate)',
+    ];
+
+    const governorAbi = [
+      'function eip712Domain() public view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)',
+      'function nonces(address owner) public view returns (uint256)',
+      'function hasVoted(uint256 proposalId, address account) public view returns (bool)',
+      'function state(uint256 proposalId) public view returns (uint8)',
+      'function castVoteBySig(uint256 proposalId, uint8 support, address voter, bytes signature) public returns (uint256)',
+    ];
+
+    this.tokenContract = new Contract(governanceTokenAddress, tokenAbi, signer || provider);
+    this.governorContract = new Contract(governorAddress, governorAbi, signer || provider);
+  }
+
+  /**
+   * Set relayer/signer
+   */
+  setSigner(signer: Signer): void {
+    this.signer = signer;
+    this.tokenContract = this.tokenContract.connect(signer) as Contract;
+    this.governorContract = this.governorContract.connect(signer) as Contract;
+  }
+
+  // ============= Direct delegation =============
+
+  /**
+   * Get current delegate of an account
+   */
+  async getDelegate(account: string): Promise<string> {
+    return this.tokenContract.delegates(account);
+  }
+
+  /**
+   * Delegate voting power to self
+   */
+  async delegateSelf(options?: TransactionOptions): Promise<OperationResult> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    try {
+      const preflight = options?.simulate
+        ? await this.preflight(this.tokenContract, 'BASEGovernanceToken', 'delegateSelf', [], options)
+        : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.tokenContract.delegateSelf(txOverrides(options));
+      const receipt = await tx.wait();
+
+      return {
+        success: true,
+        hash: tx.hash,
+        receipt,
+        preflight,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: decodeBaseroError(error, 'BASEGovernanceToken'),
+      };
+    }
+  }
+
+  /**
+   * Delegate voting power to another account
+   */
+  async delegate(delegatee: string, options?: TransactionOptions): Promise<OperationResult> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    try {
+      const preflight = options?.simulate
+        ? await this.preflight(this.tokenContract, 'BASEGovernanceToken', 'delegateVotes', [delegatee], options)
+        : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.tokenContract.delegateVotes(delegatee, txOverrides(options));
+      const receipt = await tx.wait();
+
+      return {
+        success: true,
+        hash: tx.hash,
+        receipt,
+        preflight,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: decodeBaseroError(error, 'BASEGovernanceToken'),
+      };
+    }
+  }
+
+  // ============= Delegation signatures =============
+
+  /**
+   * Build delegation typed data for a delegator
+   */
+  async buildDelegation(
+    delegator: string,
+    delegatee: string,
+    expiry: bigint
+  ): Promise<TypedDataPayload<DelegationMessage>> {
+    const [domain, nonce] = await Promise.all([
+      this.getDomain(this.tokenContract),
+      this.tokenContract.nonces(delegator),
+    ]);
+
+    return {
+      domain,
+      types: DELEGATION_TYPES,
+      primaryType: 'Delegation',
+      message: { delegatee, nonce, expiry },
+    };
+  }
+
+  /**
+   * Sign a delegation with the given wallet (defaults to helper signer)
+   */
+  async signDelegation(
+    delegatee: string,
+    expiry: bigint,
+    wallet: Signer | undefined = this.signer
+  ): Promise<SignedDelegation> {
+    if (!wallet) throw new Error('Signer not available');
+
+    const delegator = await wallet.getAddress();
+    const payload = await this.buildDelegation(delegator, delegatee, expiry);
+    const signature = await wallet.signTypedData(payload.domain, payload.types, payload.message);
+
+    return { delegator, message: payload.message, signature };
+  }
+
+  /**
+   * Check a signed delegation recovers to its delegator
+   */
+  async verifyDelegation(signed: SignedDelegation): Promise<boolean> {
+    const domain = await this.getDomain(this.tokenContract);
+    const recovered = ethers.verifyTypedData(domain, DELEGATION_TYPES, signed.message, signed.signature);
+    return recovered.toLowerCase() === signed.delegator.toLowerCase();
+  }
+
+  /**
+   * Relay a signed delegation (caller pays gas)
+   */
+  async submitDelegation(signed: SignedDelegation, options?: TransactionOptions): Promise<OperationResult> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    try {
+      const { v, r, s } = ethers.Signature.from(signed.signature);
+      const args = [signed.message.delegatee, signed.message.nonce, signed.message.expiry, v, r, s];
+      const preflight = options?.simulate
+        ? await this.preflight(this.tokenContract, 'BASEGovernanceToken', 'delegateBySig', args, options)
+        : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.tokenContract.delegateBySig(...args, txOverrides(options));
+      const receipt = await tx.wait();
+
+      return {
+        success: true,
+        hash: tx.hash,
+        receipt,
+        preflight,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: decodeBaseroError(error, 'BASEGovernanceToken'),
+      };
+    }
+  }
+
+  // ============= Ballot signatures =============
+
+  /**
+   * Build ballot typed data for a voter
+   */
+  async buildBallot(
+    voter: string,
+    proposalId: bigint,
+    support: VoteSupport
+  ): Promise<TypedDataPayload<BallotMessage>> {
+    const [domain, nonce] = await Promise.all([
+      this.getDomain(this.governorContract),
+      this.governorContract.nonces(voter),
+    ]);
+
+    return {
+      domain,
+      types: BALLOT_TYPES,
+      primaryType: 'Ballot',
+      message: { proposalId, support, voter, nonce },
+    };
+  }
+
+  /**
+   * Sign a ballot with the given wallet (defaults to helper signer)
+   */
+  async signBallot(
+    proposalId: bigint,
+    support: VoteSupport,
+    wallet: Signer | undefined = this.signer
+  ): Promise<SignedBallot> {
+    if (!wallet) throw new Error('Signer not available');
+
+    const voter = await wallet.getAddress();
+    const payload = await this.buildBallot(voter, proposalId, support);
+    const signature = await wallet.signTypedData(payload.domain, payload.types, payload.message);
+
+    return { message: payload.message, signature };
+  }
+
+  /**
+   * Check a signed ballot recovers to its voter
+   */
+  async verifyBallot(signed: SignedBallot): Promise<boolean> {
+    const domain = await this.getDomain(this.governorContract);
+    const recovered = ethers.verifyTypedData(domain, BALLOT_TYPES, signed.message, signed.signature);
+    return recovered.toLowerCase() === signed.message.voter.toLowerCase();
+  }
+
+  /**
+   * Relay a signed ballot (caller pays gas)
+   */
+  async submitBallot(signed: SignedBallot, options?: TransactionOptions): Promise<OperationResult> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    try {
+      const args = [signed.message.proposalId, signed.message.support, signed.message.voter, signed.signature];
+      const preflight = options?.simulate
+        ? await this.preflight(this.governorContract, 'BASEGovernor', 'castVoteBySig', args, options)
+        : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.governorContract.castVoteBySig(...args, txOverrides(options));
+      const receipt = await tx.wait();
+
+      return {
+        success: true,
+        hash: tx.hash,
+        receipt,
+        preflight,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: decodeBaseroError(error, 'BASEGovernor'),
+      };
+    }
+  }
+
+  // ============= Bulk relaying =============
+
+  /**
+   * Relay many delegations from one relayer
+   *
+   * Invalid, expired or stale-nonce signatures are rejected before any
+   * gas is spent; a delegator's later items may carry the nonces following
+   * its earlier ones. Remaining items are broadcast with consecutive relayer
+   * nonces and then awaited together.
+   */
+  async relayDelegations(
+    items: SignedDelegation[],
+    options?: TransactionOptions
+  ): Promise<RelayResult<SignedDelegation>[]> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    const nextNonces = new Map<string, bigint>();
+
+    return this.relayAll(items, options, async signed => {
+      if (signed.message.expiry < now) return 'Signature expired';
+      if (!(await this.verifyDelegation(signed))) return 'Invalid signature';
+
+      const key = signed.delegator.toLowerCase();
+      const nonce: bigint = nextNonces.get(key) ?? await this.tokenContract.nonces(signed.delegator);
+      if (nonce !== signed.message.nonce) return `Stale nonce ${signed.message.nonce} (expected ${nonce})`;
+      nextNonces.set(key, nonce + 1n);
+
+      return null;
+    }, (signed, overrides) => {
+      const { v, r, s } = ethers.Signature.from(signed.signature);
+      return this.tokenContract.delegateBySig(
+        signed.message.delegatee,
+        signed.message.nonce,
+        signed.message.expiry,
+        v,
+        r,
+        s,
+        overrides
+      );
+    });
+  }
+
+  /**
+   * Relay many ballots from one relayer
+   *
+   * Ballots for proposals that are not Active, voters who already voted,
+   * and invalid or stale-nonce signatures are rejected before submission;
+   * a voter's later ballots may carry the nonces following its earlier ones.
+   */
+  async relayBallots(
+    items: SignedBallot[],
+    options?: TransactionOptions
+  ): Promise<RelayResult<SignedBallot>[]> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    const ACTIVE = 1;
+    const nextNonces = new Map<string, bigint>();
+
+    return this.relayAll(items, options, async signed => {
+      if (!(await this.verifyBallot(signed))) return 'Invalid signature';
+
+      const key = signed.message.voter.toLowerCase();
+      const [state, voted, nonce] = await Promise.all([
+        this.governorContract.state(signed.message.proposalId),
+        this.governorContract.hasVoted(signed.message.proposalId, signed.message.voter),
+        nextNonces.get(key) ?? this.governorContract.nonces(signed.message.voter),
+      ]);
+      if (Number(state) !== ACTIVE) return `Proposal not active (state ${state})`;
+      if (voted) return 'Voter already voted';
+      if (nonce !== signed.message.nonce) return `Stale nonce ${signed.message.nonce} (expected ${nonce})`;
+      nextNonces.set(key, nonce + 1n);
+
+      return null;
+    }, (signed, overrides) => this.governorContract.castVoteBySig(
+      signed.message.proposalId,
+      signed.message.support,
+      signed.message.voter,
+      signed.signature,
+      overrides
+    ));
+  }
+
+  /**
+   * Validate, broadcast with sequential nonces, then await receipts
+   */
+  private async relayAll<T>(
+    items: T[],
+    options: TransactionOptions | undefined,
+    validate: (item: T) => Promise<string | null>,
+    send: (item: T, overrides: ethers.Overrides) => Promise<ethers.ContractTransactionResponse>
+  ): Promise<RelayResult<T>[]> {
+    const results: RelayResult<T>[] = [];
+    const pending: Array<{ index: number; tx: ethers.ContractTransactionResponse }> = [];
+    let nonce = options?.nonce ?? await this.signer!.getNonce('pending');
+
+    for (const item of items) {
+      const index = results.length;
+      results.push({ item, result: { success: false } });
+
+      try {
+        const problem = await validate(item);
+        if (problem) {
+          results[index].result = {
+            success: false,
+            error: new BaseroError({ contract: null, name: 'ValidationError', args: {}, humanMessage: problem }),
+          };
+          continue;
+        }
+
+        const tx = await send(item, { ...txOverrides(options), nonce });
+        nonce++;
+        pending.push({ index, tx });
+      } catch (error) {
+        results[index].result = { success: false, error: decodeBaseroError(error) };
+      }
+    }
+
+    await Promise.all(pending.map(async ({ index, tx }) => {
+      try {
+        const receipt = await tx.wait();
+        results[index].result = { success: true, hash: tx.hash, receipt };
+      } catch (error) {
+        results[index].result = { success: false, hash: tx.hash, error: decodeBaseroError(error) };
+      }
+    }));
+
+    return results;
+  }
+
+  /**
+   * Simulate a token or governor write without sending it
+   */
+  private preflight(
+    contract: Contract,
+    name: string,
+    method: string,
+    args: unknown[],
+    options?: TransactionOptions
+  ): Promise<PreflightReport> {
+    const overrides = txOverrides(options);
+    const fn = contract.getFunction(method);
+    return runPreflight({
+      contract: name,
+      method,
+      call: () => fn.staticCall(...args, overrides),
+      estimateGas: () => fn.estimateGas(...args, overrides),
+    });
+  }
+
+  /**
+   * Read and cache the EIP-712 domain (ERC-5267)
+   */
+  private async getDomain(contract: Contract): Promise<TypedDataDomain> {
+    const address = (contract.target as string).toLowerCase();
+    const cached = this.domains.get(address);
+    if (cached) return cached;
+
+    const [, name, version, chainId, verifyingContract] = await contract.eip712Domain();
+    const domain: TypedDataDomain = { name, version, chainId, verifyingContract };
+
+    this.domains.set(address, domain);
+    return domain;
+  }
+}
+
+export default GovernanceSignatureHelper;
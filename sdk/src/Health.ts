@@ -0,0 +1,522 @@
+/**
+ * @fileoverview Basero Health
+ * Typed reads of HealthChecker and a polling monitor that reports changes
+ *
+ * HealthChecker evaluates every component in one view call. Several fields
+ * are placeholders on-chain (holder and user counts, bridge message stats,
+ * governance proposal counts) and always read as zero.
+ *
+ * HealthMonitor diffs successive snapshots and emits a transition only when
+ * something changes, so handlers see a pause, an outage or an alert once.
+ */
+
+import { Provider } from 'ethers';
+import {
+  HealthCheckerBridgeHealthStructOutput,
+  HealthCheckerContract,
+  HealthCheckerGovernanceHealthStructOutput,
+  HealthCheckerSystemHealthStructOutput,
+  HealthCheckerTimelockHealthStructOutput,
+  HealthCheckerTokenHealthStructOutput,
+  HealthCheckerVaultHealthStructOutput,
+  HealthCheckerVotingEscrowHealthStructOutput,
+} from './generated';
+
+export interface TokenHealth {
+  isOperational: boolean;
+  totalSupply: bigint;
+  rebaseIndex: bigint;
+  lastRebaseTime: bigint;
+  timeSinceRebase: bigint;
+  /** Last rebase within MAX_REBASE_INTERVAL (25h) */
+  rebaseHealthy: boolean;
+}
+
+export interface VaultHealth {
+  isOperational: boolean;
+  isPaused: boolean;
+  totalAssets: bigint;
+  totalShares: bigint;
+  /** Assets over the deposit cap, in bps (0 without a cap) */
+  utilizationRate: bigint;
+  /** Assets per share, 1e18 scaled */
+  sharePrice: bigint;
+  /** Utilization below MAX_HEALTHY_UTILIZATION (95%) */
+  utilizationHealthy: boolean;
+  sharePriceHealthy: boolean;
+}
+
+export interface BridgeHealth {
+  isOperational: boolean;
+  isPaused: boolean;
+  messageFlowHealthy: boolean;
+}
+
+export interface GovernanceHealth {
+  isOperational: boolean;
+  /** Token supply, used on-chain as the voting power */
+  votingPower: bigint;
+  quorumHealthy: boolean;
+}
+
+export interface TimelockHealth {
+  isOperational: boolean;
+  minDelay: bigint;
+  /** Delay between 2 and 7 days */
+  delayHealthy: boolean;
+}
+
+export interface VotingEscrowHealth {
+  isOperational: boolean;
+  totalLocked: bigint;
+  /** More than 1% of token supply locked */
+  lockingHealthy: boolean;
+}
+
+export interface SystemHealth {
+  allSystemsOperational: boolean;
+  token: TokenHealth;
+  vault: VaultHealth;
+  bridge: BridgeHealth;
+  governance: GovernanceHealth;
+  timelock: TimelockHealth;
+  votingEscrow: VotingEscrowHealth;
+  timestamp: bigint;
+  blockNumber: bigint;
+}
+
+export type HealthComponent = 'token' | 'vault' | 'bridge' | 'governance' | 'timelock' | 'votingEscrow';
+
+export type PausableHealthComponent = 'vault' | 'bridge';
+
+export interface QuickMetrics {
+  /** Components whose contract answered (of 6) */
+  operational: number;
+  /** Paused components (vault and bridge) */
+  paused: number;
+  utilizationBps: bigint;
+}
+
+/**
+ * One poll: component health, active alerts and the overall verdict
+ */
+export interface HealthSnapshot {
+  health: SystemHealth;
+  alerts: string[];
+  /** As isHealthy: all operational, nothing paused, utilization and rebase healthy */
+  healthy: boolean;
+}
+
+export interface HealthThresholds {
+  maxHealthyUtilizationBps: bigint;
+  maxRebaseInterval: bigint;
+  minBridgeActivity: bigint;
+  minQuorumBps: bigint;
+}
+
+const COMPONENTS: HealthComponent[] = ['token', 'vault', 'bridge', 'governance', 'timelock', 'votingEscrow'];
+const PAUSABLE: PausableHealthComponent[] = ['vault', 'bridge'];
+
+/**
+ * Health Helper - Wraps HealthChecker contract
+ */
+export class HealthHelper {
+  private contract: HealthCheckerContract;
+
+  constructor(provider: Provider, healthCheckerAddress: string) {
+    this.contract = new HealthCheckerContract(healthCheckerAddress, provider);
+  }
+
+  get address(): string {
+    return this.contract.address;
+  }
+
+  /**
+   * Get every component's health
+   */
+  async getSystemHealth(): Promise<SystemHealth> {
+    return HealthHelper.toSystemHealth(await this.contract.getSystemHealth());
+  }
+
+  /**
+   * Get one component's health
+   */
+  async getComponentHealth<K extends HealthComponent>(component: K): Promise<SystemHealth[K]> {
+    const read: { [C in HealthComponent]: () => Promise<SystemHealth[C]> } = {
+      token: async () => HealthHelper.toTokenHealth(await this.contract.getTokenHealth()),
+      vault: async () => HealthHelper.toVaultHealth(await this.contract.getVaultHealth()),
+      bridge: async () => HealthHelper.toBridgeHealth(await this.contract.getBridgeHealth()),
+      governance: async () => HealthHelper.toGovernanceHealth(await this.contract.getGovernanceHealth()),
+      timelock: async () => HealthHelper.toTimelockHealth(await this.contract.getTimelockHealth()),
+      votingEscrow: async () => HealthHelper.toVotingEscrowHealth(await this.contract.getVotingEscrowHealth()),
+    };
+    return read[component]() as Promise<SystemHealth[K]>;
+  }
+
+  /**
+   * Get operational and paused component counts and vault utilization
+   */
+  async getQuickMetrics(): Promise<QuickMetrics> {
+    const [operational, paused, utilizationBps] = await this.contract.getQuickMetrics();
+    return { operational: Number(operational), paused: Number(paused), utilizationBps };
+  }
+
+  /**
+   * Get active alert messages, e.g. "Vault is paused"
+   */
+  async getAlerts(): Promise<string[]> {
+    return [...(await this.contract.getAlerts())];
+  }
+
+  /**
+   * Check the contract's overall health verdict
+   */
+  async isHealthy(): Promise<boolean> {
+    return this.contract.isHealthy();
+  }
+
+  /**
+   * Get health, alerts and verdict from the same block
+   */
+  async getSnapshot(): Promise<HealthSnapshot> {
+    const health = await this.getSystemHealth();
+    const blockTag = Number(health.blockNumber);
+    const [alerts, healthy] = await Promise.all([
+      this.contract.contract.getAlerts({ blockTag }) as Promise<string[]>,
+      this.contract.contract.isHealthy({ blockTag }) as Promise<boolean>,
+    ]);
+    return { health, alerts: [...alerts], healthy };
+  }
+
+  /**
+   * Get the limits the checks are evaluated against
+   */
+  async getThresholds(): Promise<HealthThresholds> {
+    const [maxHealthyUtilizationBps, maxRebaseInterval, minBridgeActivity, minQuorumBps] = await Promise.all([
+      this.contract.MAX_HEALTHY_UTILIZATION(),
+      this.contract.MAX_REBASE_INTERVAL(),
+      this.contract.MIN_BRIDGE_ACTIVITY(),
+      this.contract.MIN_QUORUM_PERCENTAGE(),
+    ]);
+    return { maxHealthyUtilizationBps, maxRebaseInterval, minBridgeActivity, minQuorumBps };
+  }
+
+  private static toSystemHealth(raw: HealthCheckerSystemHealthStructOutput): SystemHealth {
+    return {
+      allSystemsOperational: raw.allSystemsOperational,
+      token: HealthHelper.toTokenHealth(raw.token),
+      vault: HealthHelper.toVaultHealth(raw.vault),
+      bridge: HealthHelper.toBridgeHealth(raw.bridge),
+      governance: HealthHelper.toGovernanceHealth(raw.governance),
+      timelock: HealthHelper.toTimelockHealth(raw.timelock),
+      votingEscrow: HealthHelper.toVotingEscrowHealth(raw.votingEscrow),
+      timestamp: raw.timestamp,
+      blockNumber: raw.blockNumber,
+    };
+  }
+
+  private static toTokenHealth(raw: HealthCheckerTokenHealthStructOutput): TokenHealth {
+    return {
+      isOperational: raw.isOperational,
+      totalSupply: raw.totalSupply,
+      rebaseIndex: raw.rebaseIndex,
+      lastRebaseTime: raw.lastRebaseTime,
+      timeSinceRebase: raw.timeSinceRebase,
+      rebaseHealthy: raw.rebaseHealthy,
+    };
+  }
+
+  private static toVaultHealth(raw: HealthCheckerVaultHealthStructOutput): VaultHealth {
+    return {
+      isOperational: raw.isOperational,
+      isPaused: raw.isPaused,
+      totalAssets: raw.totalAssets,
+      totalShares: raw.totalShares,
+      utilizationRate: raw.utilizationRate,
+      sharePrice: raw.sharePrice,
+      utilizationHealthy: raw.utilizationHealthy,
+      sharePriceHealthy: raw.sharePriceHealthy,
+    };
+  }
+
+  private static toBridgeHealth(raw: HealthCheckerBridgeHealthStructOutput): BridgeHealth {
+    return {
+      isOperational: raw.isOperational,
+      isPaused: raw.isPaused,
+      messageFlowHealthy: raw.messageFlowHealthy,
+    };
+  }
+
+  private static toGovernanceHealth(raw: HealthCheckerGovernanceHealthStructOutput): GovernanceHealth {
+    return {
+      isOperational: raw.isOperational,
+      votingPower: raw.votingPower,
+      quorumHealthy: raw.quorumHealthy,
+    };
+  }
+
+  private static toTimelockHealth(raw: HealthCheckerTimelockHealthStructOutput): TimelockHealth {
+    return {
+      isOperational: raw.isOperational,
+      minDelay: raw.minDelay,
+      delayHealthy: raw.delayHealthy,
+    };
+  }
+
+  private static toVotingEscrowHealth(raw: HealthCheckerVotingEscrowHealthStructOutput): VotingEscrowHealth {
+    return {
+      isOperational: raw.isOperational,
+      totalLocked: raw.totalLocked,
+      lockingHealthy: raw.lockingHealthy,
+    };
+  }
+}
+
+// ============= Monitor =============
+
+interface TransitionBase {
+  /** Block timestamp of the snapshot that showed the change */
+  timestamp: bigint;
+  blockNumber: bigint;
+}
+
+export interface ComponentPausedTransition extends TransitionBase {
+  type: 'componentPaused' | 'componentUnpaused';
+  component: PausableHealthComponent;
+}
+
+export interface ComponentOperationalTransition extends TransitionBase {
+  type: 'componentDown' | 'componentUp';
+  component: HealthComponent;
+}
+
+export interface UtilizationTransition extends TransitionBase {
+  type: 'utilizationCrossed';
+  thresholdBps: bigint;
+  direction: 'above' | 'below';
+  previousBps: bigint;
+  utilizationBps: bigint;
+}
+
+export interface AlertTransition extends TransitionBase {
+  type: 'alertRaised' | 'alertCleared';
+  alert: string;
+}
+
+export interface HealthVerdictTransition extends TransitionBase {
+  type: 'healthChanged';
+  healthy: boolean;
+}
+
+export type HealthTransition =
+  | ComponentPausedTransition
+  | ComponentOperationalTransition
+  | UtilizationTransition
+  | AlertTransition
+  | HealthVerdictTransition;
+
+export type HealthTransitionType = HealthTransition['type'];
+
+/**
+ * Subscribable monitor events: each transition type, every transition ('*'), or each poll ('snapshot')
+ */
+export type HealthMonitorEventMap = {
+  [K in HealthTransitionType]: Extract<HealthTransition, { type: K }>;
+} & {
+  '*': HealthTransition;
+  snapshot: HealthSnapshot;
+};
+
+export type HealthMonitorHandler<T> = (event: T) => void;
+
+/**
+ * Monitor configuration
+ */
+export interface HealthMonitorOptions {
+  /** Polling interval (default 15000ms) */
+  pollIntervalMs?: number;
+  /** Vault utilization levels to report crossings of (default [9500]) */
+  utilizationThresholdsBps?: Array<number | bigint>;
+}
+
+/**
+ * Health Monitor - Polls HealthChecker and emits typed transitions
+ *
+ * Polling starts with the first subscription and stops when the last one is
+ * removed. The first poll only sets the baseline, apart from `snapshot`.
+ */
+export class HealthMonitor {
+  private health: HealthHelper;
+  private options: HealthMonitorOptions;
+  private thresholds: bigint[];
+  private handlers: Map<string, Set<HealthMonitorHandler<any>>> = new Map();
+  private errorHandlers: Set<HealthMonitorHandler<Error>> = new Set();
+  private previous?: HealthSnapshot;
+  private running = false;
+  private polling = false;
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(health: HealthHelper, options: HealthMonitorOptions = {}) {
+    this.health = health;
+    this.options = options;
+    this.thresholds = (options.utilizationThresholdsBps ?? [9500]).map((threshold) => BigInt(threshold));
+  }
+
+  /**
+   * Subscribe to a transition type, '*' or 'snapshot'; returns an unsubscribe function
+   */
+  on<K extends keyof HealthMonitorEventMap>(event: K, handler: HealthMonitorHandler<HealthMonitorEventMap[K]>): () => void {
+    const set = this.handlers.get(event) || new Set();
+    set.add(handler);
+    this.handlers.set(event, set);
+    this.start();
+
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Remove a handler
+   */
+  off<K extends keyof HealthMonitorEventMap>(event: K, handler: HealthMonitorHandler<HealthMonitorEventMap[K]>): void {
+    const set = this.handlers.get(event);
+    if (!set) return;
+
+    set.delete(handler);
+    if (set.size === 0) this.handlers.delete(event);
+    if (this.handlers.size === 0) this.stop();
+  }
+
+  /**
+   * Receive RPC and handler errors
+   */
+  onError(handler: HealthMonitorHandler<Error>): () => void {
+    this.errorHandlers.add(handler);
+    return () => this.errorHandlers.delete(handler);
+  }
+
+  /**
+   * Start polling (called by the first on())
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    const interval = this.options.pollIntervalMs ?? 15_000;
+    const loop = async () => {
+      await this.poll();
+      if (this.running && this.timer !== undefined) this.timer = setTimeout(loop, interval);
+    };
+    this.timer = setTimeout(loop, 0);
+  }
+
+  /**
+   * Stop polling; the last snapshot is kept as the baseline for a restart
+   */
+  stop(): void {
+    if (!this.running) return;
+    this.running = false;
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Latest snapshot, if any poll has completed
+   */
+  getLastSnapshot(): HealthSnapshot | undefined {
+    return this.previous;
+  }
+
+  /**
+   * Take a snapshot now and emit what changed since the last one
+   */
+  async poll(): Promise<HealthTransition[]> {
+    if (this.polling) return [];
+    this.polling = true;
+
+    try {
+      const snapshot = await this.health.getSnapshot();
+      const transitions = this.previous ? HealthMonitor.diff(this.previous, snapshot, this.thresholds) : [];
+      this.previous = snapshot;
+
+      this.emit('snapshot', snapshot);
+      for (const transition of transitions) {
+        this.emit(transition.type, transition);
+        this.emit('*', transition);
+      }
+      return transitions;
+    } catch (error) {
+      this.emitError(error as Error);
+      return [];
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Transitions between two snapshots, in component order then alerts
+   */
+  static diff(previous: HealthSnapshot, current: HealthSnapshot, thresholdsBps: bigint[] = [9500n]): HealthTransition[] {
+    const base: TransitionBase = { timestamp: current.health.timestamp, blockNumber: current.health.blockNumber };
+    const transitions: HealthTransition[] = [];
+
+    for (const component of COMPONENTS) {
+      const was = previous.health[component].isOperational;
+      const is = current.health[component].isOperational;
+      if (was !== is) transitions.push({ ...base, type: is ? 'componentUp' : 'componentDown', component });
+    }
+
+    for (const component of PAUSABLE) {
+      const was = previous.health[component].isPaused;
+      const is = current.health[component].isPaused;
+      if (was !== is) transitions.push({ ...base, type: is ? 'componentPaused' : 'componentUnpaused', component });
+    }
+
+    const previousBps = previous.health.vault.utilizationRate;
+    const utilizationBps = current.health.vault.utilizationRate;
+    for (const thresholdBps of thresholdsBps) {
+      const wasAbove = previousBps >= thresholdBps;
+      const isAbove = utilizationBps >= thresholdBps;
+      if (wasAbove !== isAbove) {
+        transitions.push({
+          ...base,
+          type: 'utilizationCrossed',
+          thresholdBps,
+          direction: isAbove ? 'above' : 'below',
+          previousBps,
+          utilizationBps,
+        });
+      }
+    }
+
+    for (const alert of current.alerts) {
+      if (!previous.alerts.includes(alert)) transitions.push({ ...base, type: 'alertRaised', alert });
+    }
+    for (const alert of previous.alerts) {
+      if (!current.alerts.includes(alert)) transitions.push({ ...base, type: 'alertCleared', alert });
+    }
+
+    if (previous.healthy !== current.healthy) {
+      transitions.push({ ...base, type: 'healthChanged', healthy: current.healthy });
+    }
+
+    return transitions;
+  }
+
+  private emit(event: string, payload: unknown): void {
+    for (const handler of this.handlers.get(event) || []) {
+      try {
+        handler(payload);
+      } catch (error) {
+        this.emitError(error as Error);
+      }
+    }
+  }
+
+  private emitError(error: Error): void {
+    for (const handler of this.errorHandlers) handler(error);
+  }
+}
+
+export default HealthHelper;
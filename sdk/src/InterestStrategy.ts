@@ -0,0 +1,337 @@
+/**
+ * @fileoverview Basero Interest Strategy
+ * Reads and offline rate calculation for AdvancedInterestStrategy
+ *
+ * The strategy prices deposits as a utilization curve with a kink, plus a
+ * bonus for the highest deposit tier reached and, while a lock is active, a
+ * per-user lock bonus. InterestRateCalculator repeats that integer math so
+ * rates can be charted or compared without an RPC call per point.
+ *
+ * Configuration changes are owner-only; encode them with StrategyTxBuilder
+ * (TransactionBuilders) and submit from the owner or through governance.
+ */
+
+import { ethers, Provider, Signer } from 'ethers';
+import { Amount, InterestRate } from './BaseroSDK';
+import { AdvancedInterestStrategyContract } from './generated';
+
+/**
+ * Piecewise-linear utilization curve, all values in basis points
+ */
+export interface UtilizationCurve {
+  kink: bigint;
+  rateAtZero: bigint;
+  rateAtKink: bigint;
+  rateAtMax: bigint;
+}
+
+/**
+ * Deposit tier, in contract order
+ */
+export interface StrategyTier {
+  minDeposit: bigint;
+  bonusRateBps: bigint;
+}
+
+export interface PerformanceFeeConfig {
+  /** Annual return below which no fee is charged (bps) */
+  targetReturnBps: bigint;
+  /** Share of returns above target taken as fee (bps) */
+  performanceFeeBps: bigint;
+}
+
+/**
+ * Everything the rate calculator needs
+ */
+export interface StrategyParameters {
+  curve: UtilizationCurve;
+  tiers: StrategyTier[];
+  performanceFee: PerformanceFeeConfig;
+}
+
+export interface RateBreakdown {
+  utilizationRate: bigint;
+  tierBonus: bigint;
+  lockBonus: bigint;
+  total: bigint;
+}
+
+export interface RatePoint {
+  utilizationBps: number;
+  rateBps: bigint;
+}
+
+export interface PerformanceFeeQuote {
+  excessReturns: bigint;
+  fee: bigint;
+}
+
+export interface StrategyLockStatus {
+  lockedAmount: Amount;
+  lockEndTime: bigint;
+  isLocked: boolean;
+  /** Bonus the lock adds while active */
+  bonus: InterestRate;
+}
+
+export interface StrategyPerformanceFeeInfo {
+  targetReturn: InterestRate;
+  performanceFeeBps: bigint;
+  accumulatedReturns: Amount;
+}
+
+const BPS = 10_000n;
+const SECONDS_PER_YEAR = 365n * 86_400n;
+
+/**
+ * Interest Rate Calculator - Offline copy of the strategy's rate math
+ */
+export class InterestRateCalculator {
+  readonly parameters: StrategyParameters;
+
+  constructor(parameters: StrategyParameters) {
+    this.parameters = parameters;
+  }
+
+  /**
+   * Base rate at a utilization, as calculateUtilizationRate
+   */
+  utilizationRate(utilizationBps: number | bigint): bigint {
+    const utilization = BigInt(utilizationBps);
+    const { kink, rateAtZero, rateAtKink, rateAtMax } = this.parameters.curve;
+
+    if (utilization === 0n) return rateAtZero;
+    if (utilization >= BPS) return rateAtMax;
+
+    if (utilization < kink) {
+      const slope = ((rateAtKink - rateAtZero) * BPS) / kink;
+      return rateAtZero + (utilization * slope) / BPS;
+    }
+
+    const slope = ((rateAtMax - rateAtKink) * BPS) / (BPS - kink);
+    return rateAtKink + ((utilization - kink) * slope) / BPS;
+  }
+
+  /**
+   * Bonus for a deposit, as getTierBonus (stops at the first tier not met)
+   */
+  tierBonus(depositAmount: bigint): bigint {
+    let bonus = 0n;
+    for (const tier of this.parameters.tiers) {
+      if (depositAmount < tier.minDeposit) break;
+      bonus = tier.bonusRateBps;
+    }
+    return bonus;
+  }
+
+  /**
+   * Composite rate, as calculateUserRate (or calculateUserRateWithLock when a lock bonus is given)
+   */
+  userRate(depositAmount: bigint, utilizationBps: number | bigint, lockBonus: bigint = 0n): RateBreakdown {
+    const utilizationRate = this.utilizationRate(utilizationBps);
+    const tierBonus = this.tierBonus(depositAmount);
+
+    return {
+      utilizationRate,
+      tierBonus,
+      lockBonus,
+      total: utilizationRate + tierBonus + lockBonus,
+    };
+  }
+
+  /**
+   * Fee on returns above target, as calculatePerformanceFee
+   */
+  performanceFee(userBalance: bigint, originalDeposit: bigint, elapsedSeconds: bigint): PerformanceFeeQuote {
+    if (userBalance <= originalDeposit) return { excessReturns: 0n, fee: 0n };
+
+    const { targetReturnBps, performanceFeeBps } = this.parameters.performanceFee;
+    const gains = userBalance - originalDeposit;
+    const target = (originalDeposit * targetReturnBps * elapsedSeconds) / (SECONDS_PER_YEAR * BPS);
+    if (gains <= target) return { excessReturns: 0n, fee: 0n };
+
+    const excessReturns = gains - target;
+    return { excessReturns, fee: (excessReturns * performanceFeeBps) / BPS };
+  }
+
+  /**
+   * Rate vs. utilization from 0% to 100%, e.g. for a chart
+   */
+  curvePoints(stepBps: number = 100, depositAmount: bigint = 0n, lockBonus: bigint = 0n): RatePoint[] {
+    if (!(stepBps > 0) || !Number.isInteger(stepBps)) throw new Error(`Invalid step: ${stepBps}`);
+
+    const points: RatePoint[] = [];
+    const extra = this.tierBonus(depositAmount) + lockBonus;
+    for (let utilizationBps = 0; utilizationBps < 10_000; utilizationBps += stepBps) {
+      points.push({ utilizationBps, rateBps: this.utilizationRate(utilizationBps) + extra });
+    }
+    points.push({ utilizationBps: 10_000, rateBps: this.utilizationRate(10_000) + extra });
+    return points;
+  }
+}
+
+/**
+ * Interest Strategy Helper - Wraps AdvancedInterestStrategy reads
+ */
+export class InterestStrategyHelper {
+  private contract: AdvancedInterestStrategyContract;
+  private decimals: number = 18;
+
+  constructor(provider: Provider, strategyAddress: string, signer?: Signer) {
+    this.contract = new AdvancedInterestStrategyContract(strategyAddress, signer || provider);
+  }
+
+  get address(): string {
+    return this.contract.address;
+  }
+
+  /**
+   * Utilization curve (kink and rates in bps)
+   */
+  async getUtilizationCurve(): Promise<UtilizationCurve> {
+    const [kink, rateAtZero, rateAtKink, rateAtMax] = await this.contract.getUtilizationConfig();
+    return { kink, rateAtZero, rateAtKink, rateAtMax };
+  }
+
+  /**
+   * Deposit tiers in contract order
+   */
+  async getTiers(): Promise<StrategyTier[]> {
+    const tiers = await this.contract.getTiers();
+    return tiers.map(({ minDeposit, bonusRateBps }) => ({ minDeposit, bonusRateBps }));
+  }
+
+  /**
+   * Bonus a deposit amount earns from tiers
+   */
+  async getTierBonus(depositAmount: string | bigint): Promise<InterestRate> {
+    return this.toRate(await this.contract.getTierBonus(this.parseAmount(depositAmount)));
+  }
+
+  /**
+   * Base rate at a utilization (bps)
+   */
+  async getUtilizationRate(utilizationBps: number | bigint): Promise<InterestRate> {
+    return this.toRate(await this.contract.calculateUtilizationRate(utilizationBps));
+  }
+
+  /**
+   * Composite rate for a deposit; includes the user's lock bonus when `user` is given
+   */
+  async calculateUserRate(
+    depositAmount: string | bigint,
+    utilizationBps: number | bigint,
+    user?: string
+  ): Promise<InterestRate> {
+    const amount = this.parseAmount(depositAmount);
+    const rate = user
+      ? await this.contract.calculateUserRateWithLock(user, amount, utilizationBps)
+      : await this.contract.calculateUserRate(amount, utilizationBps);
+    return this.toRate(rate);
+  }
+
+  /**
+   * A user's lock and the bonus it currently adds
+   */
+  async getLockStatus(user: string): Promise<StrategyLockStatus> {
+    const [[lockedAmount, lockEndTime, isLocked], bonus] = await Promise.all([
+      this.contract.getLockStatus(user),
+      this.contract.getLockBonus(user),
+    ]);
+
+    return {
+      lockedAmount: this.toAmount(lockedAmount),
+      lockEndTime,
+      isLocked,
+      bonus: this.toRate(bonus),
+    };
+  }
+
+  /**
+   * Performance fee settings and a user's recorded returns
+   */
+  async getPerformanceFeeInfo(user: string): Promise<StrategyPerformanceFeeInfo> {
+    const [targetReturn, performanceFee, accumulatedReturns] = await this.contract.getPerformanceFeeInfo(user);
+
+    return {
+      targetReturn: this.toRate(targetReturn),
+      performanceFeeBps: performanceFee,
+      accumulatedReturns: this.toAmount(accumulatedReturns),
+    };
+  }
+
+  /**
+   * Fee owed on returns above target over `elapsedSeconds`
+   */
+  async calculatePerformanceFee(
+    userBalance: string | bigint,
+    originalDeposit: string | bigint,
+    elapsedSeconds: number | bigint
+  ): Promise<{ excessReturns: Amount; fee: Amount }> {
+    const [excessReturns, fee] = await this.contract.calculatePerformanceFee(
+      this.parseAmount(userBalance),
+      this.parseAmount(originalDeposit),
+      elapsedSeconds
+    );
+
+    return { excessReturns: this.toAmount(excessReturns), fee: this.toAmount(fee) };
+  }
+
+  /**
+   * Read the curve, tiers and fee settings into an offline calculator
+   */
+  async getCalculator(): Promise<InterestRateCalculator> {
+    return new InterestRateCalculator(await this.getParameters());
+  }
+
+  /**
+   * Curve, tiers and performance fee settings in one read
+   */
+  async getParameters(): Promise<StrategyParameters> {
+    const [curve, tiers, [targetReturnBps, performanceFeeBps]] = await Promise.all([
+      this.getUtilizationCurve(),
+      this.getTiers(),
+      this.contract.getPerformanceFeeInfo(ethers.ZeroAddress),
+    ]);
+
+    return { curve, tiers, performanceFee: { targetReturnBps, performanceFeeBps } };
+  }
+
+  /**
+   * Get strategy owner (the account allowed to change configuration)
+   */
+  async getOwner(): Promise<string> {
+    return this.contract.owner();
+  }
+
+  /**
+   * Wrap raw wei amount
+   */
+  private toAmount(raw: bigint): Amount {
+    return {
+      raw,
+      formatted: ethers.formatUnits(raw, this.decimals),
+      decimals: this.decimals,
+    };
+  }
+
+  /**
+   * Wrap basis-point rate
+   */
+  private toRate(bps: bigint): InterestRate {
+    return {
+      bps,
+      percent: (Number(bps) / 100).toFixed(2),
+    };
+  }
+
+  /**
+   * Parse amount string to bigint
+   */
+  private parseAmount(amount: string | bigint): bigint {
+    if (typeof amount === 'bigint') return amount;
+    return ethers.parseUnits(amount, this.decimals);
+  }
+}
+
+export default InterestStrategyHelper;
@@ -0,0 +1,379 @@
+/**
+ * @fileoverview Basero Log Fetcher
+ * Backfills and follows contract logs with adaptive ranges and reorg handling
+ *
+ * Block hashes are checkpointed for every block that produced logs plus the
+ * last block of each poll. A checkpoint whose hash no longer matches means
+ * the chain reorganised: logs above the newest surviving checkpoint are
+ * emitted as removed and the range is fetched again.
+ */
+
+import { Log, Provider } from 'ethers';
+
+/**
+ * Block number and hash seen when the block was processed
+ */
+export interface BlockCheckpoint {
+  number: number;
+  hash: string;
+}
+
+/**
+ * Persisted fetcher state
+ */
+export interface LogFetcherState {
+  /** Last fully processed block */
+  block: number;
+  checkpoints: BlockCheckpoint[];
+}
+
+/**
+ * Pluggable persistence for fetcher state
+ */
+export interface LogFetcherStore {
+  load(): Promise<LogFetcherState | null>;
+  save(state: LogFetcherState): Promise<void>;
+}
+
+/**
+ * Changes observed by a single poll
+ */
+export interface LogFetcherUpdate {
+  /** New logs in chain order */
+  added: Log[];
+  /** Previously emitted logs whose blocks were reorganised out, newest first */
+  removed: Log[];
+  fromBlock: number;
+  toBlock: number;
+  reorg?: {
+    /** Newest checkpoint still on the canonical chain */
+    commonAncestor: number;
+    depth: number;
+  };
+}
+
+/**
+ * Fetcher configuration
+ */
+export interface LogFetcherConfig {
+  provider: Provider;
+  addresses: string[];
+  /** getLogs topic filter (defaults to every event from the addresses) */
+  topics?: Array<string | string[] | null>;
+  store?: LogFetcherStore;
+  /** Block to start from when the store is empty (defaults to latest) */
+  startBlock?: number;
+  /** Blocks to stay behind head (default 0) */
+  confirmations?: number;
+  /** Blocks behind the cursor kept for reorg detection (default 64) */
+  reorgDepth?: number;
+  /** Initial block span per getLogs call (default 2000) */
+  initialChunkSize?: number;
+  /** Smallest span tried before a range error is rethrown (default 1) */
+  minChunkSize?: number;
+  /** Largest span the chunk may grow to (default 10000) */
+  maxChunkSize?: number;
+}
+
+/**
+ * Provider messages for over-large getLogs responses or ranges
+ */
+const RANGE_ERROR_PATTERNS = [
+  /too many (results|logs|blocks)/i,
+  /query returned more than/i,
+  /response size (exceeded|is larger)/i,
+  /log response size/i,
+  /limit exceeded/i,
+  /block range/i,
+  /range (is )?too (large|wide)/i,
+  /exceed(s|ed)? (the )?max(imum)? (block )?range/i,
+  /query timeout/i,
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+/**
+ * An error and the provider errors wrapped inside it, outermost first
+ */
+function errorChain(error: unknown): Array<Record<string, unknown>> {
+  const chain: Array<Record<string, unknown>> = [];
+  let current = error;
+
+  for (let depth = 0; isRecord(current) && depth < 4; depth++) {
+    chain.push(current);
+    const info = current.info;
+    current = current.error ?? (isRecord(info) ? info.error : undefined) ?? current.cause;
+  }
+
+  return chain;
+}
+
+function errorMessages(error: unknown): string[] {
+  return errorChain(error).flatMap(entry => (typeof entry.message === 'string' ? [entry.message] : []));
+}
+
+/**
+ * In-memory store (state is lost on restart)
+ */
+export class InMemoryLogFetcherStore implements LogFetcherStore {
+  private state: LogFetcherState | null = null;
+
+  async load(): Promise<LogFetcherState | null> {
+    return this.state ? structuredClone(this.state) : null;
+  }
+
+  async save(state: LogFetcherState): Promise<void> {
+    this.state = structuredClone(state);
+  }
+}
+
+/**
+ * Log Fetcher - Backfills from a start block and follows the head
+ */
+export class LogFetcher {
+  /** Consecutive successful calls before the span is doubled again */
+  private static readonly GROW_AFTER = 5;
+
+  private config: LogFetcherConfig;
+  private store: LogFetcherStore;
+  private chunkSize: number;
+  private chunkSuccesses = 0;
+  private block: number | null = null;
+  private checkpoints: Map<number, string> = new Map();
+  private recent: Log[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  private polling = false;
+
+  constructor(config: LogFetcherConfig) {
+    this.config = config;
+    this.store = config.store || new InMemoryLogFetcherStore();
+    this.chunkSize = config.initialChunkSize ?? 2000;
+  }
+
+  /**
+   * Restore state from the store, or start from the configured/latest block
+   */
+  async init(): Promise<number> {
+    const saved = await this.store.load();
+
+    if (saved) {
+      this.block = saved.block;
+      this.checkpoints = new Map(saved.checkpoints.map(cp => [cp.number, cp.hash]));
+      return this.block;
+    }
+
+    const start = this.config.startBlock ?? await this.config.provider.getBlockNumber();
+    this.block = start - 1;
+    await this.persist();
+
+    return this.block;
+  }
+
+  /**
+   * Check for reorgs, then fetch everything up to head minus confirmations
+   */
+  async poll(): Promise<LogFetcherUpdate> {
+    if (this.block === null) await this.init();
+
+    const update: LogFetcherUpdate = {
+      added: [],
+      removed: [],
+      fromBlock: this.block! + 1,
+      toBlock: this.block!,
+    };
+
+    const ancestor = await this.findCommonAncestor();
+    if (ancestor !== null) {
+      update.reorg = { commonAncestor: ancestor, depth: this.block! - ancestor };
+      update.removed = this.recent.filter(log => log.blockNumber > ancestor).reverse();
+      this.recent = this.recent.filter(log => log.blockNumber <= ancestor);
+      for (const number of this.checkpoints.keys()) {
+        if (number > ancestor) this.checkpoints.delete(number);
+      }
+      this.block = ancestor;
+      update.fromBlock = ancestor + 1;
+    }
+
+    const head = await this.config.provider.getBlockNumber();
+    const toBlock = head - (this.config.confirmations ?? 0);
+
+    if (toBlock >= update.fromBlock) {
+      update.added = await this.fetchRange(update.fromBlock, toBlock);
+
+      for (const log of update.added) {
+        this.checkpoints.set(log.blockNumber, log.blockHash);
+      }
+      const last = await this.config.provider.getBlock(toBlock);
+      if (last?.hash) this.checkpoints.set(toBlock, last.hash);
+
+      this.block = toBlock;
+      update.toBlock = toBlock;
+      this.recent.push(...update.added);
+      this.prune();
+    }
+
+    await this.persist();
+    return update;
+  }
+
+  /**
+   * Poll on an interval until stop() is called
+   */
+  start(intervalMs: number, onUpdate?: (update: LogFetcherUpdate) => void, onError?: (error: Error) => void): void {
+    this.stop();
+
+    const tick = async () => {
+      if (this.polling) return;
+      this.polling = true;
+
+      try {
+        const update = await this.poll();
+        if (update.added.length > 0 || update.removed.length > 0) onUpdate?.(update);
+      } catch (error) {
+        onError?.(error as Error);
+      } finally {
+        this.polling = false;
+      }
+
+      if (this.timer !== undefined) {
+        this.timer = setTimeout(tick, intervalMs);
+      }
+    };
+
+    this.timer = setTimeout(tick, 0);
+  }
+
+  /**
+   * Stop interval polling
+   */
+  stop(): void {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Swap the provider, e.g. after a WebSocket reconnect
+   */
+  setProvider(provider: Provider): void {
+    this.config = { ...this.config, provider };
+  }
+
+  /**
+   * Last fully processed block (null before init)
+   */
+  getBlock(): number | null {
+    return this.block;
+  }
+
+  /**
+   * Current getLogs span after adaptation
+   */
+  getChunkSize(): number {
+    return this.chunkSize;
+  }
+
+  /**
+   * Fetch a block range, halving the span on range errors and regrowing it after a run of successes
+   */
+  async fetchRange(fromBlock: number, toBlock: number): Promise<Log[]> {
+    const minChunk = this.config.minChunkSize ?? 1;
+    const maxChunk = this.config.maxChunkSize ?? 10_000;
+    const logs: Log[] = [];
+    let start = fromBlock;
+
+    while (start <= toBlock) {
+      const end = Math.min(start + this.chunkSize - 1, toBlock);
+
+      try {
+        logs.push(...await this.config.provider.getLogs({
+          address: this.config.addresses,
+          topics: this.config.topics,
+          fromBlock: start,
+          toBlock: end,
+        }));
+        start = end + 1;
+        if (++this.chunkSuccesses >= LogFetcher.GROW_AFTER) {
+          this.chunkSize = Math.min(this.chunkSize * 2, maxChunk);
+          this.chunkSuccesses = 0;
+        }
+      } catch (error) {
+        if (!LogFetcher.isRangeError(error) || this.chunkSize <= minChunk) throw error;
+
+        this.chunkSuccesses = 0;
+
+        const suggested = LogFetcher.suggestedEnd(error, start);
+        this.chunkSize = suggested !== null
+          ? Math.max(suggested - start + 1, minChunk)
+          : Math.max(Math.floor(this.chunkSize / 2), minChunk);
+      }
+    }
+
+    return logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+  }
+
+  /**
+   * Whether an error means the getLogs range or result set was too large
+   */
+  static isRangeError(error: unknown): boolean {
+    if (errorChain(error).some(entry => entry.code === -32005)) return true;
+    return errorMessages(error).some(message => RANGE_ERROR_PATTERNS.some(pattern => pattern.test(message)));
+  }
+
+  /**
+   * End block from a provider hint such as "try with this block range [0x1, 0x2]"
+   */
+  private static suggestedEnd(error: unknown, start: number): number | null {
+    const message = errorMessages(error).join(' ');
+    const match = message.match(/\[(0x[0-9a-f]+),\s*(0x[0-9a-f]+)\]/i);
+    if (!match) return null;
+
+    const end = parseInt(match[2], 16);
+    return end >= start ? end : null;
+  }
+
+  /**
+   * Newest checkpoint still canonical, or null if the newest checkpoint matches
+   */
+  private async findCommonAncestor(): Promise<number | null> {
+    const numbers = Array.from(this.checkpoints.keys()).sort((a, b) => b - a);
+    if (numbers.length === 0) return null;
+
+    for (let i = 0; i < numbers.length; i++) {
+      const block = await this.config.provider.getBlock(numbers[i]);
+      if (block?.hash === this.checkpoints.get(numbers[i])) {
+        return i === 0 ? null : numbers[i];
+      }
+    }
+
+    // Every checkpoint was replaced; rewind past the reorg window
+    return Math.max(numbers[numbers.length - 1] - 1, 0);
+  }
+
+  /**
+   * Drop checkpoints and remembered logs that fall outside the reorg window
+   */
+  private prune(): void {
+    const floor = this.block! - (this.config.reorgDepth ?? 64);
+
+    for (const number of this.checkpoints.keys()) {
+      if (number < floor && number !== this.block) this.checkpoints.delete(number);
+    }
+    this.recent = this.recent.filter(log => log.blockNumber >= floor);
+  }
+
+  /**
+   * Persist cursor and checkpoints
+   */
+  private async persist(): Promise<void> {
+    if (this.block === null) return;
+
+    await this.store.save({
+      block: this.block,
+      checkpoints: Array.from(this.checkpoints.entries()).map(([number, hash]) => ({ number, hash })),
+    });
+  }
+}
+
+export default LogFetcher;
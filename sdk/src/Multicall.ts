@@ -0,0 +1,243 @@
+/**
+ * @fileoverview Basero Multicall Batching
+ * Coalesces contract reads issued in the same tick into one eth_call
+ *
+ * Reads reach the node through `provider.call`. The batcher queues them
+ * until the current tick ends, then sends each block tag's queue as a
+ * single MultiCall.tryAggregate (BatchOperations) or Multicall3.aggregate3
+ * call. A call that reverts inside the batch is rejected with its own
+ * revert data, so contract errors decode exactly as they would unbatched.
+ * If the aggregate call itself fails, its calls are retried one by one.
+ *
+ * Only plain reads are batched. Calls carrying `from`, `value` or gas
+ * settings go straight to the provider, since inside a batch `msg.sender`
+ * would be the multicall contract; reads made through a signer therefore
+ * stay unbatched.
+ */
+
+import { ethers, BlockTag, Provider, TransactionRequest } from 'ethers';
+
+/**
+ * Canonical Multicall3 deployment (same address on most EVM chains)
+ */
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+export type MulticallKind = 'basero' | 'multicall3';
+
+/**
+ * Batcher configuration
+ */
+export interface MulticallConfig {
+  /** Aggregator contract address */
+  address: string;
+  /** BatchOperations MultiCall ('basero', default) or Multicall3 */
+  kind?: MulticallKind;
+  /** Calls per aggregate; larger queues are split (default 100) */
+  maxBatchSize?: number;
+  /** Extra milliseconds to wait for more calls before sending (default 0) */
+  waitMs?: number;
+}
+
+export interface MulticallStats {
+  /** Reads routed through the batcher */
+  calls: number;
+  /** Aggregate eth_calls sent */
+  batches: number;
+  /** Aggregates that failed and were retried as individual calls */
+  fallbacks: number;
+  /** Reads sent individually (single-call queues, signer reads, fallbacks) */
+  direct: number;
+}
+
+interface PendingCall {
+  target: string;
+  data: string;
+  tx: TransactionRequest;
+  resolve: (result: string) => void;
+  reject: (error: unknown) => void;
+}
+
+const AGGREGATOR_ABI = [
+  'function tryAggregate(bool requireSuccess, tuple(address target, bytes callData)[] calls) returns (tuple(bool success, bytes returnData)[] results)',
+  'function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)',
+];
+
+/**
+ * Multicall Batcher - Same-tick read coalescing behind a Provider
+ */
+export class MulticallBatcher {
+  private provider: Provider;
+  private config: MulticallConfig;
+  private iface = new ethers.Interface(AGGREGATOR_ABI);
+  private queues: Map<string, { blockTag?: BlockTag; calls: PendingCall[] }> = new Map();
+  private timer?: ReturnType<typeof setTimeout>;
+  private counters: MulticallStats = { calls: 0, batches: 0, fallbacks: 0, direct: 0 };
+
+  constructor(provider: Provider, config: MulticallConfig) {
+    if (!ethers.isAddress(config.address)) throw new Error(`Invalid multicall address: ${config.address}`);
+    this.provider = provider;
+    this.config = config;
+  }
+
+  /**
+   * The provider with `call` routed through this batcher; every other member is the original's
+   */
+  wrap(): Provider {
+    const call = (tx: TransactionRequest) => this.call(tx);
+    return new Proxy(this.provider, {
+      get: (target, property) => {
+        if (property === 'call') return call;
+        const value = Reflect.get(target, property, target);
+        return typeof value === 'function' ? value.bind(target) : value;
+      },
+    });
+  }
+
+  /**
+   * Queue a read for the next batch, or send it directly if it cannot be batched
+   */
+  async call(tx: TransactionRequest): Promise<string> {
+    if (!MulticallBatcher.isBatchable(tx)) {
+      this.counters.direct++;
+      return this.provider.call(tx);
+    }
+
+    const target = typeof tx.to === 'string' ? tx.to : await ethers.resolveAddress(tx.to!, this.provider);
+    this.counters.calls++;
+
+    return new Promise<string>((resolve, reject) => {
+      const key = String(tx.blockTag ?? 'latest');
+      const queue = this.queues.get(key) ?? { blockTag: tx.blockTag ?? undefined, calls: [] };
+      queue.calls.push({ target, data: ethers.hexlify(tx.data!), tx, resolve, reject });
+      this.queues.set(key, queue);
+      this.schedule();
+    });
+  }
+
+  /**
+   * Send everything queued now instead of waiting for the tick to end
+   */
+  async flush(): Promise<void> {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    const queues = Array.from(this.queues.values());
+    this.queues.clear();
+
+    const maxBatchSize = this.config.maxBatchSize ?? 100;
+    const batches: Promise<void>[] = [];
+    for (const { blockTag, calls } of queues) {
+      for (let i = 0; i < calls.length; i += maxBatchSize) {
+        batches.push(this.send(calls.slice(i, i + maxBatchSize), blockTag));
+      }
+    }
+    await Promise.all(batches);
+  }
+
+  /**
+   * Counters since construction
+   */
+  getStats(): MulticallStats {
+    return { ...this.counters };
+  }
+
+  /**
+   * Plain reads only: a target and call data, nothing that depends on the caller
+   */
+  static isBatchable(tx: TransactionRequest): boolean {
+    return (
+      !!tx.to &&
+      !!tx.data &&
+      !tx.from &&
+      !tx.value &&
+      tx.gasLimit == null &&
+      tx.gasPrice == null &&
+      tx.maxFeePerGas == null &&
+      tx.maxPriorityFeePerGas == null &&
+      !tx.blobs &&
+      !tx.authorizationList
+    );
+  }
+
+  private schedule(): void {
+    if (this.timer !== undefined) return;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      void this.flush();
+    }, this.config.waitMs ?? 0);
+  }
+
+  /**
+   * Send one aggregate and settle its calls
+   */
+  private async send(calls: PendingCall[], blockTag?: BlockTag): Promise<void> {
+    if (calls.length === 1) {
+      await this.sendDirect(calls[0]);
+      return;
+    }
+
+    let results: Array<{ success: boolean; returnData: string }>;
+    try {
+      results = await this.aggregate(calls, blockTag);
+      this.counters.batches++;
+    } catch {
+      this.counters.fallbacks++;
+      await Promise.all(calls.map((call) => this.sendDirect(call)));
+      return;
+    }
+
+    calls.forEach((call, i) => {
+      const { success, returnData } = results[i];
+      if (success) call.resolve(returnData);
+      else call.reject(MulticallBatcher.revertError(call, returnData));
+    });
+  }
+
+  private async aggregate(
+    calls: PendingCall[],
+    blockTag?: BlockTag
+  ): Promise<Array<{ success: boolean; returnData: string }>> {
+    const multicall3 = this.config.kind === 'multicall3';
+    const data = multicall3
+      ? this.iface.encodeFunctionData('aggregate3', [calls.map((call) => [call.target, true, call.data])])
+      : this.iface.encodeFunctionData('tryAggregate', [false, calls.map((call) => [call.target, call.data])]);
+
+    const raw = await this.provider.call({ to: this.config.address, data, blockTag });
+    const [decoded] = this.iface.decodeFunctionResult(multicall3 ? 'aggregate3' : 'tryAggregate', raw);
+    if (decoded.length !== calls.length) {
+      throw new Error(`Multicall returned ${decoded.length} results for ${calls.length} calls`);
+    }
+
+    return decoded.map((result: { success: boolean; returnData: string }) => ({
+      success: result.success,
+      returnData: result.returnData,
+    }));
+  }
+
+  private async sendDirect(call: PendingCall): Promise<void> {
+    this.counters.direct++;
+    try {
+      call.resolve(await this.provider.call(call.tx));
+    } catch (error) {
+      call.reject(error);
+    }
+  }
+
+  /**
+   * The CALL_EXCEPTION a provider raises for a revert, so Contract decodes it as usual
+   */
+  private static revertError(call: PendingCall, returnData: string): Error {
+    return ethers.makeError('execution reverted', 'CALL_EXCEPTION', {
+      action: 'call',
+      data: returnData,
+      reason: null,
+      transaction: { to: call.target, data: call.data },
+      invocation: null,
+      revert: null,
+    });
+  }
+}
+
+export default MulticallBatcher;
@@ -0,0 +1,317 @@
+/**
+ * @fileoverview Basero Network Registry
+ * Deployment manifests loaded into per-chain network configs
+ *
+ * A registry holds one deployment per chainId: its contract addresses,
+ * CCIP chain selector, explorer and RPC URLs. Deployments come from Foundry
+ * broadcasts (`broadcast/<Script>.s.sol/<chainId>/run-latest.json`) or from
+ * JSON manifests, and `getConfig` turns one into the `NetworkConfig` that
+ * `BaseroSDK` expects. Chain metadata missing from a manifest is taken from
+ * `ChainUtils`, and every registered chain is added back to it, so explorer
+ * links and selector lookups work for new networks too.
+ *
+ * Broadcasts deployed through an ERC1967 or transparent proxy are recorded
+ * under the implementation's contract name at the proxy address.
+ */
+
+import { ethers } from 'ethers';
+import type { NetworkConfig } from './BaseroSDK';
+import { ChainUtils } from './Utils';
+
+/**
+ * `NetworkConfig` fields holding contract addresses
+ */
+export type NetworkAddressKey = {
+  [K in keyof NetworkConfig]-?: K extends `${string}Address` ? K : never;
+}[keyof NetworkConfig];
+
+const ADDRESS_KEYS: NetworkAddressKey[] = [
+  'tokenAddress',
+  'vaultAddress',
+  'bridgeAddress',
+  'governorAddress',
+  'timelockAddress',
+  'votingEscrowAddress',
+  'linkTokenAddress',
+  'governanceTokenAddress',
+  'emergencyMultisigAddress',
+  'pauseRecoveryAddress',
+  'interestStrategyAddress',
+  'healthCheckerAddress',
+  'batchVaultOperationsAddress',
+  'batchTokenOperationsAddress',
+  'batchGovernanceOperationsAddress',
+  'batchBridgeOperationsAddress',
+  'multicallAddress',
+  'multicall3Address',
+];
+
+/**
+ * Contract names (as in `src/`) and the config field each one fills
+ */
+export const CONTRACT_CONFIG_KEYS: Record<string, NetworkAddressKey> = {
+  RebaseToken: 'tokenAddress',
+  UpgradeableRebaseToken: 'tokenAddress',
+  RebaseTokenVault: 'vaultAddress',
+  UpgradeableRebaseTokenVault: 'vaultAddress',
+  EnhancedCCIPBridge: 'bridgeAddress',
+  BASEGovernor: 'governorAddress',
+  BASETimelock: 'timelockAddress',
+  VotingEscrow: 'votingEscrowAddress',
+  BASEGovernanceToken: 'governanceTokenAddress',
+  BaseEmergencyMultiSig: 'emergencyMultisigAddress',
+  PauseRecovery: 'pauseRecoveryAddress',
+  AdvancedInterestStrategy: 'interestStrategyAddress',
+  HealthChecker: 'healthCheckerAddress',
+  BatchVaultOperations: 'batchVaultOperationsAddress',
+  BatchTokenOperations: 'batchTokenOperationsAddress',
+  BatchGovernanceOperations: 'batchGovernanceOperationsAddress',
+  BatchBridgeOperations: 'batchBridgeOperationsAddress',
+  MultiCall: 'multicallAddress',
+};
+
+const PROXY_CONTRACTS = ['ERC1967Proxy', 'TransparentUpgradeableProxy'];
+
+/**
+ * One chain's deployment
+ */
+export interface NetworkDeployment {
+  chainId: number;
+  name: string;
+  ccipChainSelector?: bigint;
+  rpcUrl?: string;
+  explorerUrl?: string;
+  subgraphUrl?: string;
+  /** Deployed addresses by contract name or config field */
+  contracts: Record<string, string>;
+  /** Config address fields resolved from `contracts` */
+  addresses: Partial<Record<NetworkAddressKey, string>>;
+}
+
+/**
+ * A deployment read from a manifest or broadcast, before registration names it
+ */
+export type ParsedDeployment = Omit<NetworkDeployment, 'name'> & { name?: string };
+
+/**
+ * JSON manifest for one chain
+ */
+export interface DeploymentManifest {
+  chainId: number;
+  name?: string;
+  /** Decimal string; uint64 selectors do not fit a JSON number */
+  ccipChainSelector?: string | number;
+  rpcUrl?: string;
+  explorerUrl?: string;
+  subgraphUrl?: string;
+  /** Keyed by contract name (`RebaseToken`) or config field (`tokenAddress`) */
+  contracts: Record<string, string>;
+}
+
+/**
+ * The parts of a Foundry `run-latest.json` the registry reads
+ */
+export interface FoundryBroadcast {
+  chain: number;
+  transactions: Array<{
+    transactionType: string;
+    contractName?: string | null;
+    contractAddress?: string | null;
+    arguments?: string[] | null;
+  }>;
+}
+
+/**
+ * Network Registry - Deployments keyed by chainId
+ */
+export class NetworkRegistry {
+  private networks: Map<number, NetworkDeployment> = new Map();
+
+  constructor(deployments: ParsedDeployment[] = []) {
+    deployments.forEach((deployment) => this.register(deployment));
+  }
+
+  /**
+   * Add a deployment, merging contracts into any already registered for the chain
+   *
+   * An unnamed deployment keeps the registered name, or takes the `ChainUtils` one for a new chain.
+   */
+  register(deployment: ParsedDeployment): NetworkDeployment {
+    const current = this.networks.get(deployment.chainId);
+    const contracts = { ...current?.contracts, ...deployment.contracts };
+    const merged: NetworkDeployment = {
+      chainId: deployment.chainId,
+      name: deployment.name ?? current?.name ?? ChainUtils.getChainName(deployment.chainId),
+      ccipChainSelector: deployment.ccipChainSelector ?? current?.ccipChainSelector,
+      rpcUrl: deployment.rpcUrl ?? current?.rpcUrl,
+      explorerUrl: deployment.explorerUrl ?? current?.explorerUrl,
+      subgraphUrl: deployment.subgraphUrl ?? current?.subgraphUrl,
+      contracts,
+      addresses: NetworkRegistry.resolveAddresses(contracts),
+    };
+
+    const clash = merged.ccipChainSelector !== undefined ? this.getBySelector(merged.ccipChainSelector) : undefined;
+    if (clash && clash.chainId !== merged.chainId) {
+      throw new Error(`CCIP chain selector ${merged.ccipChainSelector} is already registered for chain ${clash.chainId}`);
+    }
+
+    this.networks.set(merged.chainId, merged);
+    ChainUtils.registerChain(merged.chainId, {
+      name: merged.name,
+      rpc: merged.rpcUrl,
+      explorer: merged.explorerUrl,
+      ccipChainSelector: merged.ccipChainSelector,
+    });
+    return merged;
+  }
+
+  /**
+   * Register a broadcast, a manifest, a list of manifests or `{ networks: [...] }` (object or JSON text)
+   */
+  load(source: unknown): NetworkDeployment[] {
+    const parsed = typeof source === 'string' ? JSON.parse(source) : source;
+    if (!parsed || typeof parsed !== 'object') throw new Error('Invalid deployment manifest');
+
+    const record = parsed as Record<string, unknown>;
+    if (Array.isArray(record.transactions)) {
+      return [this.register(NetworkRegistry.parseBroadcast(parsed as FoundryBroadcast))];
+    }
+
+    const manifests = Array.isArray(parsed) ? parsed : Array.isArray(record.networks) ? record.networks : [parsed];
+    return manifests.map((manifest: DeploymentManifest) => this.register(NetworkRegistry.parseManifest(manifest)));
+  }
+
+  /**
+   * Fetch a manifest or broadcast and register it
+   */
+  async loadUrl(url: string, fetchImpl: typeof fetch = fetch): Promise<NetworkDeployment[]> {
+    const response = await fetchImpl(url);
+    if (!response.ok) throw new Error(`Failed to load deployment manifest ${url}: HTTP ${response.status}`);
+    return this.load(await response.json());
+  }
+
+  /**
+   * Get a registered deployment
+   */
+  get(chainId: number): NetworkDeployment {
+    const deployment = this.networks.get(chainId);
+    if (!deployment) throw new Error(`Unknown network: ${chainId}`);
+    return deployment;
+  }
+
+  has(chainId: number): boolean {
+    return this.networks.has(chainId);
+  }
+
+  getChainIds(): number[] {
+    return Array.from(this.networks.keys());
+  }
+
+  /**
+   * Get the deployment for a CCIP chain selector
+   */
+  getBySelector(selector: bigint): NetworkDeployment | undefined {
+    return Array.from(this.networks.values()).find((deployment) => deployment.ccipChainSelector === selector);
+  }
+
+  /**
+   * Build the SDK config for a chain; `overrides` win over the manifest
+   */
+  getConfig(chainId: number, overrides: Partial<NetworkConfig> = {}): NetworkConfig {
+    const deployment = this.get(chainId);
+    const rpcUrl = overrides.rpcUrl ?? deployment.rpcUrl;
+    if (!rpcUrl) throw new Error(`Missing required config: rpcUrl (chain ${chainId})`);
+
+    // BaseroSDK validates the required addresses
+    return {
+      ...deployment.addresses,
+      chainId,
+      rpcUrl,
+      explorerUrl: deployment.explorerUrl,
+      subgraphUrl: deployment.subgraphUrl,
+      ...overrides,
+    } as NetworkConfig;
+  }
+
+  /**
+   * Read a Foundry broadcast; proxies take their implementation's name
+   */
+  static parseBroadcast(broadcast: FoundryBroadcast): ParsedDeployment {
+    const created = broadcast.transactions.filter(
+      (tx) => (tx.transactionType === 'CREATE' || tx.transactionType === 'CREATE2') && tx.contractName && tx.contractAddress
+    );
+    const names = new Map(created.map((tx) => [tx.contractAddress!.toLowerCase(), tx.contractName!]));
+
+    // Later implementations of a proxied contract are upgrades, not new deployments
+    const contracts: Record<string, string> = {};
+    const proxied = new Set<string>();
+    for (const tx of created) {
+      const name = tx.contractName!;
+      const implementation = PROXY_CONTRACTS.includes(name) ? tx.arguments?.[0] : undefined;
+      const implementationName = implementation ? names.get(implementation.toLowerCase()) : undefined;
+
+      if (implementationName) {
+        contracts[`${implementationName}Implementation`] = implementation!;
+        contracts[implementationName] = tx.contractAddress!;
+        proxied.add(implementationName);
+      } else if (proxied.has(name)) {
+        contracts[`${name}Implementation`] = tx.contractAddress!;
+      } else {
+        contracts[name] = tx.contractAddress!;
+      }
+    }
+
+    return NetworkRegistry.parseManifest({ chainId: Number(broadcast.chain), contracts });
+  }
+
+  /**
+   * Read a JSON manifest, filling the selector and URLs from `ChainUtils`
+   */
+  static parseManifest(manifest: DeploymentManifest): ParsedDeployment {
+    const chainId = Number(manifest.chainId);
+    if (!Number.isInteger(chainId) || chainId <= 0) throw new Error(`Invalid chainId: ${manifest.chainId}`);
+    if (!manifest.contracts || typeof manifest.contracts !== 'object') {
+      throw new Error(`Missing contracts in manifest for chain ${chainId}`);
+    }
+
+    const contracts: Record<string, string> = {};
+    for (const [name, address] of Object.entries(manifest.contracts)) {
+      if (!ethers.isAddress(address)) throw new Error(`Invalid address for ${name}: ${address}`);
+      contracts[name] = ethers.getAddress(address);
+    }
+
+    const known = ChainUtils.getChainInfo(chainId);
+    return {
+      chainId,
+      name: manifest.name,
+      ccipChainSelector: manifest.ccipChainSelector !== undefined ? BigInt(manifest.ccipChainSelector) : known?.ccipChainSelector,
+      rpcUrl: manifest.rpcUrl ?? known?.rpc,
+      explorerUrl: manifest.explorerUrl ?? known?.explorer,
+      subgraphUrl: manifest.subgraphUrl,
+      contracts,
+      addresses: NetworkRegistry.resolveAddresses(contracts),
+    };
+  }
+
+  /**
+   * Map contract names to config fields; entries keyed by a config field win
+   */
+  private static resolveAddresses(contracts: Record<string, string>): Partial<Record<NetworkAddressKey, string>> {
+    const addresses: Partial<Record<NetworkAddressKey, string>> = {};
+    for (const [name, address] of Object.entries(contracts)) {
+      const key = CONTRACT_CONFIG_KEYS[name];
+      if (key) addresses[key] = address;
+    }
+    for (const key of ADDRESS_KEYS) {
+      if (contracts[key]) addresses[key] = contracts[key];
+    }
+    return addresses;
+  }
+}
+
+/**
+ * Registry used by `BaseroSDK.forChain` when none is passed
+ */
+export const defaultNetworkRegistry = new NetworkRegistry();
+
+export default NetworkRegistry;
@@ -0,0 +1,386 @@
+/**
+ * @fileoverview Basero Portfolio Analytics
+ * Per-user cost basis, interest, realized gains and APY from vault history
+ *
+ * The account's token balance is replayed with ShareAccounting and each
+ * entry is matched to the vault Deposit or Redeem in the same transaction.
+ * Cost basis is tracked in ETH at average cost: a redeem or transfer out
+ * removes basis in proportion to the tokens leaving, and realizes the ETH
+ * received (or the tokens' redeem value) minus that basis. Transfers in are
+ * valued at `previewRedeem` in their block.
+ *
+ * Interest is reported in tokens. Redemptions pay out the account's share
+ * of deposited ETH, so interest raises the token balance without raising
+ * the ETH a position redeems for.
+ */
+
+import { ethers, Log, Provider } from 'ethers';
+import { BalanceEntry, ShareAccounting } from './ShareAccounting';
+import { LogFetcher } from './LogFetcher';
+import { RebaseTokenVaultContract } from './generated';
+
+export type StatementEntryType =
+  | 'opening'
+  | 'deposit'
+  | 'redeem'
+  | 'transfer_in'
+  | 'transfer_out'
+  | 'interest';
+
+/**
+ * One line of a user statement
+ */
+export interface StatementEntry {
+  type: StatementEntryType;
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: string | null;
+  /** ETH paid in or received; redeem value for transfers and the opening balance */
+  ethAmount: bigint;
+  tokenAmount: bigint;
+  /** Token balance after this entry */
+  balance: bigint;
+  /** ETH cost basis after this entry */
+  costBasis: bigint;
+  /** ETH gain realized by this entry */
+  realizedGain: bigint;
+  counterparty?: string;
+}
+
+/**
+ * Portfolio position and performance at one block
+ */
+export interface PortfolioReport {
+  address: string;
+  fromBlock: number;
+  asOfBlock: number;
+  asOfTimestamp: number;
+  shares: bigint;
+  balance: bigint;
+  /** Locked rate in basis points */
+  interestRate: bigint;
+  /** ETH the current balance would redeem for */
+  redeemValue: bigint;
+  costBasis: bigint;
+  totalDeposited: bigint;
+  totalRedeemed: bigint;
+  /** Tokens credited by vault accruals, net of protocol fee */
+  accruedInterest: bigint;
+  realizedGain: bigint;
+  unrealizedGain: bigint;
+  horizonDays: number;
+  /** RebaseTokenVault.estimateInterest over `horizonDays` */
+  projectedInterest: bigint;
+  /** Annualized growth from interest alone, in tokens (null before any time has passed) */
+  timeWeightedApy: number | null;
+  /** Annualized internal rate of return on ETH flows (null if it has no solution) */
+  moneyWeightedApy: number | null;
+  entries: StatementEntry[];
+}
+
+export interface PortfolioReportOptions {
+  /** Report as of this block (default latest) */
+  toBlock?: number;
+  /** Days projected by `projectedInterest` (default 365) */
+  horizonDays?: number;
+}
+
+export interface PortfolioAnalyticsOptions {
+  /** First block of history; earlier holdings become an opening entry (default 0) */
+  fromBlock?: number;
+}
+
+const SECONDS_PER_YEAR = 365 * 86_400;
+
+/**
+ * Portfolio Analytics - Statements and performance for vault depositors
+ */
+export class PortfolioAnalytics {
+  private provider: Provider;
+  private vault: RebaseTokenVaultContract;
+  private accounting: ShareAccounting;
+  private options: PortfolioAnalyticsOptions;
+
+  constructor(provider: Provider, tokenAddress: string, vaultAddress: string, options: PortfolioAnalyticsOptions = {}) {
+    this.provider = provider;
+    this.vault = new RebaseTokenVaultContract(vaultAddress, provider);
+    this.accounting = new ShareAccounting(provider, tokenAddress, vaultAddress);
+    this.options = options;
+  }
+
+  /**
+   * Build a user's statement and performance figures
+   */
+  async getReport(address: string, options: PortfolioReportOptions = {}): Promise<PortfolioReport> {
+    const fromBlock = this.options.fromBlock ?? 0;
+    const toBlock = options.toBlock ?? await this.provider.getBlockNumber();
+    const horizonDays = options.horizonDays ?? 365;
+    if (toBlock < fromBlock) throw new Error(`Invalid block range: ${fromBlock}-${toBlock}`);
+
+    const opening = fromBlock > 0
+      ? await this.accounting.getShareBalance(address, fromBlock - 1)
+      : null;
+    const [replayed, vaultLogs] = await Promise.all([
+      this.accounting.replay(address, fromBlock, toBlock, opening?.balance ?? 0n),
+      this.fetchVaultEvents(address, fromBlock, toBlock),
+    ]);
+
+    const entries: StatementEntry[] = [];
+    let basis = 0n;
+    let balance = opening?.balance ?? 0n;
+
+    if (opening && opening.balance > 0n) {
+      basis = await this.previewRedeem(opening.balance, fromBlock - 1);
+      entries.push({
+        type: 'opening',
+        blockNumber: fromBlock - 1,
+        timestamp: 0,
+        transactionHash: null,
+        ethAmount: basis,
+        tokenAmount: opening.balance,
+        balance,
+        costBasis: basis,
+        realizedGain: 0n,
+      });
+    }
+
+    for (const entry of replayed) {
+      const classified = await this.classify(entry, vaultLogs);
+      let realizedGain = 0n;
+
+      if (classified.type === 'deposit' || classified.type === 'transfer_in') {
+        basis += classified.ethAmount;
+      } else if (classified.type === 'redeem' || classified.type === 'transfer_out') {
+        const removed = balance > 0n ? (basis * entry.amount) / balance : basis;
+        basis -= removed;
+        realizedGain = classified.ethAmount - removed;
+      }
+      balance = entry.balance;
+
+      entries.push({
+        ...classified,
+        blockNumber: entry.blockNumber,
+        timestamp: 0,
+        transactionHash: entry.transactionHash,
+        tokenAmount: entry.amount,
+        balance,
+        costBasis: basis,
+        realizedGain,
+        counterparty: entry.counterparty,
+      });
+    }
+
+    const [info, projectedInterest, timestamps] = await Promise.all([
+      this.vault.contract.getUserInfo(address, { blockTag: toBlock }) as Promise<[bigint, bigint, bigint, bigint]>,
+      this.vault.contract.estimateInterest(address, horizonDays, { blockTag: toBlock }) as Promise<bigint>,
+      this.loadTimestamps([...entries.map(entry => entry.blockNumber), toBlock]),
+    ]);
+    const [shares, currentBalance, interestRate] = info;
+    const redeemValue = currentBalance > 0n ? await this.previewRedeem(currentBalance, toBlock) : 0n;
+
+    for (const entry of entries) entry.timestamp = timestamps.get(entry.blockNumber) ?? 0;
+    const asOfTimestamp = timestamps.get(toBlock) ?? 0;
+
+    const total = (type: StatementEntryType, field: 'ethAmount' | 'tokenAmount') =>
+      entries.filter(entry => entry.type === type).reduce((sum, entry) => sum + entry[field], 0n);
+
+    return {
+      address,
+      fromBlock,
+      asOfBlock: toBlock,
+      asOfTimestamp,
+      shares,
+      balance: currentBalance,
+      interestRate,
+      redeemValue,
+      costBasis: basis,
+      totalDeposited: total('deposit', 'ethAmount'),
+      totalRedeemed: total('redeem', 'ethAmount'),
+      accruedInterest: total('interest', 'tokenAmount'),
+      realizedGain: entries.reduce((sum, entry) => sum + entry.realizedGain, 0n),
+      unrealizedGain: redeemValue - basis,
+      horizonDays,
+      projectedInterest,
+      timeWeightedApy: PortfolioAnalytics.timeWeightedApy(entries, asOfTimestamp),
+      moneyWeightedApy: PortfolioAnalytics.moneyWeightedApy(entries, redeemValue, asOfTimestamp),
+      entries,
+    };
+  }
+
+  /**
+   * Statement entries as CSV, amounts in decimal ETH/tokens
+   */
+  static toCSV(report: PortfolioReport): string {
+    const header = [
+      'timestamp',
+      'date',
+      'block',
+      'transaction',
+      'type',
+      'eth_amount',
+      'token_amount',
+      'balance',
+      'cost_basis',
+      'realized_gain',
+      'counterparty',
+    ];
+    const rows = report.entries.map(entry => [
+      entry.timestamp,
+      entry.timestamp ? new Date(entry.timestamp * 1000).toISOString() : '',
+      entry.blockNumber,
+      entry.transactionHash ?? '',
+      entry.type,
+      ethers.formatEther(entry.ethAmount),
+      ethers.formatEther(entry.tokenAmount),
+      ethers.formatEther(entry.balance),
+      ethers.formatEther(entry.costBasis),
+      ethers.formatEther(entry.realizedGain),
+      entry.counterparty ?? '',
+    ].join(','));
+
+    return [header.join(','), ...rows].join('\n') + '\n';
+  }
+
+  /**
+   * Full report as JSON, amounts in decimal ETH/tokens and dates in ISO 8601
+   */
+  static toJSON(report: PortfolioReport): string {
+    return JSON.stringify(
+      {
+        ...report,
+        asOfDate: new Date(report.asOfTimestamp * 1000).toISOString(),
+        interestRate: Number(report.interestRate),
+        entries: report.entries.map(entry => ({
+          ...entry,
+          date: entry.timestamp ? new Date(entry.timestamp * 1000).toISOString() : null,
+        })),
+      },
+      (_, value) => (typeof value === 'bigint' ? ethers.formatEther(value) : value),
+      2
+    );
+  }
+
+  /**
+   * Compounded interest growth per token held, annualized from the first entry
+   */
+  static timeWeightedApy(entries: StatementEntry[], asOfTimestamp: number): number | null {
+    if (entries.length === 0) return null;
+
+    let growth = 1;
+    for (const entry of entries) {
+      const before = entry.balance - entry.tokenAmount;
+      if (entry.type === 'interest' && before > 0n) {
+        growth *= 1 + Number(entry.tokenAmount) / Number(before);
+      }
+    }
+
+    const elapsed = asOfTimestamp - entries[0].timestamp;
+    if (elapsed <= 0) return null;
+    return Math.pow(growth, SECONDS_PER_YEAR / elapsed) - 1;
+  }
+
+  /**
+   * Annual rate discounting every ETH flow (and the current redeem value) to zero
+   */
+  static moneyWeightedApy(entries: StatementEntry[], redeemValue: bigint, asOfTimestamp: number): number | null {
+    const flows: Array<{ amount: number; timestamp: number }> = [];
+    for (const entry of entries) {
+      const amount = Number(ethers.formatEther(entry.ethAmount));
+      if (entry.type === 'opening' || entry.type === 'deposit' || entry.type === 'transfer_in') {
+        flows.push({ amount: -amount, timestamp: entry.timestamp });
+      } else if (entry.type === 'redeem' || entry.type === 'transfer_out') {
+        flows.push({ amount, timestamp: entry.timestamp });
+      }
+    }
+    flows.push({ amount: Number(ethers.formatEther(redeemValue)), timestamp: asOfTimestamp });
+
+    const start = flows[0].timestamp;
+    if (asOfTimestamp <= start) return null;
+
+    const presentValue = (rate: number) =>
+      flows.reduce((sum, flow) => sum + flow.amount / Math.pow(1 + rate, (flow.timestamp - start) / SECONDS_PER_YEAR), 0);
+
+    // Present value falls as the rate rises; bisect between a near-total loss and 1e6x
+    let low = -0.999999;
+    let high = 1e6;
+    if (Math.sign(presentValue(low)) === Math.sign(presentValue(high))) return null;
+
+    for (let i = 0; i < 200; i++) {
+      const mid = (low + high) / 2;
+      if (presentValue(mid) > 0) low = mid;
+      else high = mid;
+    }
+    return (low + high) / 2;
+  }
+
+  /**
+   * Name a balance entry and price it in ETH
+   */
+  private async classify(
+    entry: BalanceEntry,
+    vaultLogs: Map<string, Log[]>
+  ): Promise<Pick<StatementEntry, 'type' | 'ethAmount'>> {
+    if (entry.kind === 'interest') return { type: 'interest', ethAmount: 0n };
+
+    const mint = entry.counterparty === ethers.ZeroAddress;
+    const wanted = entry.kind === 'in' ? 'Deposit' : 'Redeem';
+    const logs = vaultLogs.get(entry.transactionHash) ?? [];
+    const index = mint ? logs.findIndex(log => this.vault.parseLog(log)?.name === wanted) : -1;
+
+    if (index >= 0) {
+      const [log] = logs.splice(index, 1);
+      const event = this.vault.parseLog(log)!;
+      return event.name === 'Deposit'
+        ? { type: 'deposit', ethAmount: event.args.ethAmount }
+        : { type: 'redeem', ethAmount: (event.args as { ethReceived: bigint }).ethReceived };
+    }
+
+    return {
+      type: entry.kind === 'in' ? 'transfer_in' : 'transfer_out',
+      ethAmount: await this.previewRedeem(entry.amount, entry.blockNumber),
+    };
+  }
+
+  /**
+   * The account's Deposit and Redeem logs, grouped by transaction
+   */
+  private async fetchVaultEvents(address: string, fromBlock: number, toBlock: number): Promise<Map<string, Log[]>> {
+    const topics = [
+      [
+        this.vault.interface.getEvent('Deposit')!.topicHash,
+        this.vault.interface.getEvent('Redeem')!.topicHash,
+      ],
+      ethers.zeroPadValue(address, 32),
+    ];
+    const logs = await new LogFetcher({
+      provider: this.provider,
+      addresses: [this.vault.address],
+      topics,
+    }).fetchRange(fromBlock, toBlock);
+
+    const byTx = new Map<string, Log[]>();
+    for (const log of logs) {
+      byTx.set(log.transactionHash, [...(byTx.get(log.transactionHash) ?? []), log]);
+    }
+    return byTx;
+  }
+
+  private async previewRedeem(tokenAmount: bigint, blockNumber: number): Promise<bigint> {
+    return this.vault.contract.previewRedeem(tokenAmount, { blockTag: blockNumber }) as Promise<bigint>;
+  }
+
+  private async loadTimestamps(numbers: number[]): Promise<Map<number, number>> {
+    const unique = Array.from(new Set(numbers));
+    const timestamps = new Map<number, number>();
+
+    for (let i = 0; i < unique.length; i += 10) {
+      const blocks = await Promise.all(unique.slice(i, i + 10).map(number => this.provider.getBlock(number)));
+      for (const block of blocks) {
+        if (block) timestamps.set(block.number, block.timestamp);
+      }
+    }
+    return timestamps;
+  }
+}
+
+export default PortfolioAnalytics;
@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Basero Preflight Simulation
+ * Runs a write as eth_call + estimateGas before it reaches the wallet
+ *
+ * Contract guards are evaluated in the order the Solidity function checks
+ * them, so a revert on one guard marks every earlier guard as passed and
+ * every later one as not evaluated.
+ */
+
+import { Overrides } from 'ethers';
+import type { TransactionOptions } from './BaseroSDK';
+import { BaseroError, decodeBaseroError } from './ErrorDecoder';
+
+export type PreflightStatus = 'pass' | 'fail' | 'skipped';
+
+export interface PreflightCheck {
+  name: string;
+  status: PreflightStatus;
+  message?: string;
+}
+
+export interface PreflightReport {
+  ok: boolean;
+  method: string;
+  contract: string;
+  checks: PreflightCheck[];
+  gasEstimate?: bigint;
+  error?: BaseroError;
+}
+
+/**
+ * A require-style guard in the target function and the errors it reverts with
+ */
+export interface PreflightGuard {
+  check: string;
+  errors: string[];
+}
+
+export interface PreflightRequest {
+  contract: string;
+  method: string;
+  guards?: PreflightGuard[];
+  checks?: PreflightCheck[];
+  call: () => Promise<unknown>;
+  estimateGas: () => Promise<bigint>;
+}
+
+/**
+ * Strip SDK-only fields before options are handed to ethers
+ */
+export function txOverrides(options?: TransactionOptions): Overrides {
+  if (!options) return {};
+  const { simulate, ...overrides } = options;
+  return overrides;
+}
+
+/**
+ * Simulate a write and build its preflight report
+ */
+export async function runPreflight(request: PreflightRequest): Promise<PreflightReport> {
+  const guards = request.guards || [];
+  const checks: PreflightCheck[] = [...(request.checks || [])];
+  const report: PreflightReport = {
+    ok: false,
+    method: request.method,
+    contract: request.contract,
+    checks,
+  };
+
+  try {
+    await request.call();
+
+    for (const guard of guards) {
+      checks.push({ name: guard.check, status: 'pass' });
+    }
+    checks.push({ name: 'simulation', status: 'pass' });
+
+    try {
+      report.gasEstimate = await request.estimateGas();
+      checks.push({ name: 'gasEstimate', status: 'pass' });
+    } catch (error) {
+      report.error = decodeBaseroError(error, request.contract);
+      checks.push({ name: 'gasEstimate', status: 'fail', message: report.error.humanMessage });
+    }
+  } catch (error) {
+    report.error = decodeBaseroError(error, request.contract);
+    const failed = guards.findIndex((guard) => guard.errors.includes(report.error!.name));
+
+    guards.forEach((guard, i) => {
+      if (failed === -1 || i > failed) {
+        checks.push({ name: guard.check, status: 'skipped' });
+      } else if (i < failed) {
+        checks.push({ name: guard.check, status: 'pass' });
+      } else {
+        checks.push({ name: guard.check, status: 'fail', message: report.error!.humanMessage });
+      }
+    });
+    checks.push({
+      name: 'simulation',
+      status: 'fail',
+      message: report.error.humanMessage,
+    });
+  }
+
+  report.ok = checks.every((check) => check.status !== 'fail');
+
+  if (!report.ok && !report.error) {
+    const failed = checks.find((check) => check.status === 'fail')!;
+    report.error = new BaseroError({
+      contract: request.contract,
+      name: 'PreflightFailed',
+      args: { check: failed.name },
+      humanMessage: failed.message || `Preflight check failed: ${failed.name}`,
+    });
+  }
+
+  return report;
+}
+
+export default runPreflight;
@@ -0,0 +1,849 @@
+/**
+ * @fileoverview Basero Pause Recovery
+ * Incident-handling client for PauseRecovery
+ *
+ * Pausing takes a pre-pause snapshot and opens a recovery at the Initial
+ * stage in the same transaction. The contract lets a recovery jump to any
+ * stage until its one-day target passes; this client only moves it forward.
+ * Emergency withdrawal requests emit no event and the contract never checks
+ * `maxEmergencyWithdrawalPercent`, so requests and approvals are checked
+ * here: RebaseToken against its total supply (the vault mints and burns it
+ * and never holds any), ETH and other tokens against the vault's holdings.
+ */
+
+import { ethers, BytesLike, Log, Provider, Signer, TransactionReceipt } from 'ethers';
+import { OperationResult, TransactionOptions } from './BaseroSDK';
+import { decodeBaseroError } from './ErrorDecoder';
+import { CostEstimate, GasFeeEstimator } from './GasFeeEstimator';
+import { LogFetcher } from './LogFetcher';
+import { PreflightReport, runPreflight, txOverrides } from './Preflight';
+import { PauseRecoveryContract, PauseRecoveryWriteFunctions, RebaseTokenVaultContract } from './generated';
+
+/**
+ * PauseLevel, in contract order
+ */
+export enum PauseLevel {
+  None = 0,
+  VaultOnly = 1,
+  BridgeOnly = 2,
+  GovernanceOnly = 3,
+  PartialPause = 4,
+  FullPause = 5,
+}
+
+/**
+ * RecoveryStage, in contract order
+ */
+export enum RecoveryStage {
+  Initial = 0,
+  Assessment = 1,
+  Planning = 2,
+  Execution = 3,
+  Verification = 4,
+  Completed = 5,
+}
+
+export type PausableComponent = 'vault' | 'bridge' | 'governance';
+
+export interface PauseStatus {
+  level: PauseLevel;
+  isActive: boolean;
+  initiatedAt: bigint;
+  initiatedBy: string;
+  reason: string;
+  vaultPaused: boolean;
+  bridgePaused: boolean;
+  governancePaused: boolean;
+  /** When the cooldown allows unpausing (0 when not paused) */
+  unpauseAvailableAt: bigint;
+  /** Seconds of cooldown left */
+  unpauseIn: bigint;
+}
+
+/**
+ * Authorities, linked contracts and safety parameters
+ */
+export interface RecoveryConfig {
+  multiSig: string;
+  owner: string;
+  maxEmergencyWithdrawalPercent: bigint;
+  pauseCooldown: bigint;
+  recoveryTimeout: bigint;
+  vault: string;
+  bridge: string;
+  governor: string;
+}
+
+export interface RecoveryRecord {
+  id: bigint;
+  stage: RecoveryStage;
+  description: string;
+  initiatedAt: bigint;
+  initiator: string;
+  targetCompletionTime: bigint;
+  isCompleted: boolean;
+  completedAt: bigint;
+  outcome: string;
+  /** Data passed with the last stage change */
+  recoveryData: string;
+  /** Past its target, so stages can no longer advance (completeRecovery still works) */
+  timedOut: boolean;
+  /** Stage `advanceStage` moves to by default (null once Completed) */
+  nextStage: RecoveryStage | null;
+}
+
+export interface RecoverySnapshot {
+  id: bigint;
+  timestamp: bigint;
+  snapshotTaker: string;
+  description: string;
+  totalSupply: bigint;
+  totalVaultShares: bigint;
+  totalLockedVotes: bigint;
+  bridgeQueuedMessages: bigint;
+  pauseLevel: PauseLevel;
+  vaultPaused: boolean;
+  bridgePaused: boolean;
+  governancePaused: boolean;
+}
+
+export interface EmergencyWithdrawalRequest {
+  id: bigint;
+  user: string;
+  token: string;
+  amount: bigint;
+  requestedAt: bigint;
+  approved: boolean;
+  withdrawn: boolean;
+}
+
+/**
+ * Largest emergency withdrawal of a token allowed right now
+ */
+export interface EmergencyWithdrawalLimit {
+  token: string;
+  /** RebaseToken total supply, else the vault's holdings (ETH balance for the zero address) */
+  basis: bigint;
+  percent: bigint;
+  maxAmount: bigint;
+}
+
+export type IncidentEventType =
+  | 'paused'
+  | 'unpaused'
+  | 'recovery_initiated'
+  | 'stage_updated'
+  | 'recovery_completed'
+  | 'snapshot'
+  | 'emergency_withdrawal';
+
+export interface IncidentTimelineEntry {
+  type: IncidentEventType;
+  /** Block timestamp recorded in the event */
+  timestamp: bigint;
+  recoveryId?: bigint;
+  /** One line, e.g. "Recovery #2: Assessment → Planning" */
+  description: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+const ERC20_BALANCE_ABI = [
+  'function balanceOf(address account) view returns (uint256)',
+  'function totalSupply() view returns (uint256)',
+];
+
+/**
+ * Recovery Helper - Wraps PauseRecovery contract
+ */
+export class RecoveryHelper {
+  private contract: PauseRecoveryContract;
+  private provider: Provider;
+  private signer?: Signer;
+
+  constructor(provider: Provider, recoveryAddress: string, signer?: Signer) {
+    this.provider = provider;
+    this.signer = signer;
+    this.contract = new PauseRecoveryContract(recoveryAddress, signer || provider);
+  }
+
+  get address(): string {
+    return this.contract.address;
+  }
+
+  /**
+   * Get authorities, linked contracts and safety parameters
+   */
+  async getConfig(): Promise<RecoveryConfig> {
+    const [multiSig, owner, maxEmergencyWithdrawalPercent, pauseCooldown, recoveryTimeout, vault, bridge, governor] =
+      await Promise.all([
+        this.contract.multiSigAddress(),
+        this.contract.owner(),
+        this.contract.maxEmergencyWithdrawalPercent(),
+        this.contract.pauseCooldown(),
+        this.contract.recoveryTimeout(),
+        this.contract.vaultAddress(),
+        this.contract.bridgeAddress(),
+        this.contract.governorAddress(),
+      ]);
+
+    return { multiSig, owner, maxEmergencyWithdrawalPercent, pauseCooldown, recoveryTimeout, vault, bridge, governor };
+  }
+
+  /**
+   * Get the current pause and when it can be lifted
+   */
+  async getPauseStatus(): Promise<PauseStatus> {
+    const [state, cooldown, now] = await Promise.all([
+      this.contract.getPauseState(),
+      this.contract.pauseCooldown(),
+      this.getTimestamp(),
+    ]);
+
+    const unpauseAvailableAt = state.isActive ? state.initiatedAt + cooldown : 0n;
+
+    return {
+      level: Number(state.level) as PauseLevel,
+      isActive: state.isActive,
+      initiatedAt: state.initiatedAt,
+      initiatedBy: state.initiatedBy,
+      reason: state.reason,
+      vaultPaused: state.vaultPaused,
+      bridgePaused: state.bridgePaused,
+      governancePaused: state.governancePaused,
+      unpauseAvailableAt,
+      unpauseIn: unpauseAvailableAt > now ? unpauseAvailableAt - now : 0n,
+    };
+  }
+
+  /**
+   * Check whether a component is paused
+   */
+  async isPaused(component: PausableComponent): Promise<boolean> {
+    return this.contract.isPaused(component);
+  }
+
+  /**
+   * Get a recovery with its timeout and next stage
+   */
+  async getRecovery(recoveryId: bigint): Promise<RecoveryRecord> {
+    const [recovery, now] = await Promise.all([this.contract.recoveries(recoveryId), this.getTimestamp()]);
+    if (recovery.id === 0n) throw new Error(`Recovery not found: ${recoveryId}`);
+
+    const stage = Number(recovery.stage) as RecoveryStage;
+
+    return {
+      id: recovery.id,
+      stage,
+      description: recovery.description,
+      initiatedAt: recovery.initiatedAt,
+      initiator: recovery.initiator,
+      targetCompletionTime: recovery.targetCompletionTime,
+      isCompleted: recovery.isCompleted,
+      completedAt: recovery.completedAt,
+      outcome: recovery.outcome,
+      recoveryData: recovery.recoveryData,
+      timedOut: !recovery.isCompleted && now > recovery.targetCompletionTime,
+      nextStage: stage === RecoveryStage.Completed ? null : ((stage + 1) as RecoveryStage),
+    };
+  }
+
+  /**
+   * Get the most recently opened recovery, if any
+   */
+  async getLatestRecovery(): Promise<RecoveryRecord | null> {
+    const counter = await this.contract.recoveryCounter();
+    return counter > 1n ? this.getRecovery(counter - 1n) : null;
+  }
+
+  /**
+   * Get a state snapshot
+   */
+  async getSnapshot(snapshotId: bigint): Promise<RecoverySnapshot> {
+    const snapshot = await this.contract.snapshots(snapshotId);
+    if (snapshot.id === 0n) throw new Error(`Snapshot not found: ${snapshotId}`);
+    return this.toSnapshot(snapshot);
+  }
+
+  /**
+   * Get the latest snapshots, newest first
+   */
+  async getRecentSnapshots(count: number = 10): Promise<RecoverySnapshot[]> {
+    const counter = await this.contract.snapshotCounter();
+    const ids: bigint[] = [];
+    for (let id = counter - 1n; id >= 1n && ids.length < count; id--) ids.push(id);
+
+    const snapshots = await Promise.all(ids.map((id) => this.contract.snapshots(id)));
+    return snapshots.map((snapshot) => this.toSnapshot(snapshot));
+  }
+
+  /**
+   * Get an emergency withdrawal request
+   */
+  async getWithdrawalRequest(requestId: bigint): Promise<EmergencyWithdrawalRequest> {
+    const request = await this.contract.withdrawalRequests(requestId);
+    if (request.id === 0n) throw new Error(`Withdrawal request not found: ${requestId}`);
+
+    return {
+      id: request.id,
+      user: request.user,
+      token: request.token,
+      amount: request.amount,
+      requestedAt: request.requestedAt,
+      approved: request.approved,
+      withdrawn: request.withdrawn,
+    };
+  }
+
+  /**
+   * Largest emergency withdrawal of a token (zero address for ETH), as a share of its basis
+   */
+  async getWithdrawalLimit(token: string): Promise<EmergencyWithdrawalLimit> {
+    if (!ethers.isAddress(token)) throw new Error(`Invalid token address: ${token}`);
+
+    const [vault, percent] = await Promise.all([
+      this.contract.vaultAddress(),
+      this.contract.maxEmergencyWithdrawalPercent(),
+    ]);
+
+    let basis: bigint;
+    if (token === ethers.ZeroAddress) {
+      basis = await this.provider.getBalance(vault);
+    } else {
+      const erc20 = new ethers.Contract(token, ERC20_BALANCE_ABI, this.provider);
+      const rebaseToken = await new RebaseTokenVaultContract(vault, this.provider).i_rebaseToken();
+      basis = token.toLowerCase() === rebaseToken.toLowerCase()
+        ? ((await erc20.totalSupply()) as bigint)
+        : ((await erc20.balanceOf(vault)) as bigint);
+    }
+
+    return { token, basis, percent, maxAmount: (basis * percent) / 100n };
+  }
+
+  /**
+   * Pause at a level with a reason (multisig or owner)
+   *
+   * Returns the recovery and pre-pause snapshot opened by the pause.
+   */
+  async pause(
+    level: PauseLevel,
+    reason: string,
+    options?: TransactionOptions
+  ): Promise<OperationResult<{ recoveryId: bigint; snapshotId: bigint }>> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    try {
+      if (level === PauseLevel.None) throw new Error('Invalid pause level: None');
+      if (!reason.trim()) throw new Error('Pause reason required');
+
+      const preflight = options?.simulate ? await this.preflight('pauseProtocol', [level, reason], options) : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.contract.pauseProtocol(level, reason, txOverrides(options));
+      const receipt = await tx.wait();
+      const initiated = this.contract.findEvent(receipt, 'RecoveryInitiated');
+      const snapshot = this.contract.findEvent(receipt, 'StateSnapshotTaken');
+
+      return {
+        success: true,
+        hash: tx.hash,
+        receipt,
+        preflight,
+        data:
+          initiated && snapshot
+            ? { recoveryId: initiated.args.recoveryId, snapshotId: snapshot.args.snapshotId }
+            : undefined,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: decodeBaseroError(error, 'PauseRecovery'),
+      };
+    }
+  }
+
+  /**
+   * Lift the pause once the cooldown has passed (multisig or owner)
+   *
+   * `level` is only recorded in ProtocolUnpaused; it defaults to the active level.
+   */
+  async unpause(level?: PauseLevel, options?: TransactionOptions): Promise<OperationResult<{ snapshotId: bigint }>> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    try {
+      const status = await this.getPauseStatus();
+      if (!status.isActive) throw new Error('Protocol not paused');
+      if (status.unpauseIn > 0n) throw new Error(`Pause cooldown active for ${status.unpauseIn}s`);
+
+      const args: PauseRecoveryWriteFunctions['unpauseProtocol']['args'] = [level ?? status.level];
+
+      const preflight = options?.simulate ? await this.preflight('unpauseProtocol', args, options) : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.contract.unpauseProtocol(...args, txOverrides(options));
+      const receipt = await tx.wait();
+      const snapshot = this.contract.findEvent(receipt, 'StateSnapshotTaken');
+
+      return {
+        success: true,
+        hash: tx.hash,
+        receipt,
+        preflight,
+        data: snapshot ? { snapshotId: snapshot.args.snapshotId } : undefined,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: decodeBaseroError(error, 'PauseRecovery'),
+      };
+    }
+  }
+
+  /**
+   * Move a recovery forward one stage, or to a later `nextStage` (multisig or owner)
+   *
+   * Advancing to Completed also completes the recovery with the contract's
+   * default outcome; use completeRecovery to record a custom one.
+   */
+  async advanceStage(
+    recoveryId: bigint,
+    nextStage?: RecoveryStage,
+    data: BytesLike = '0x',
+    options?: TransactionOptions
+  ): Promise<OperationResult<{ oldStage: RecoveryStage; newStage: RecoveryStage; completed: boolean }>> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    try {
+      const recovery = await this.getRecovery(recoveryId);
+      if (recovery.isCompleted || recovery.nextStage === null) throw new Error(`Recovery already completed: ${recoveryId}`);
+      if (recovery.timedOut) throw new Error(`Recovery timed out: ${recoveryId}`);
+
+      const target = nextStage ?? recovery.nextStage;
+      if (target <= recovery.stage) {
+        throw new Error(
+          `Cannot move recovery ${recoveryId} from ${RecoveryStage[recovery.stage]} back to ${RecoveryStage[target]}`
+        );
+      }
+
+      const args: PauseRecoveryWriteFunctions['advanceRecoveryStage']['args'] = [recoveryId, target, data];
+
+      const preflight = options?.simulate ? await this.preflight('advanceRecoveryStage', args, options) : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.contract.advanceRecoveryStage(...args, txOverrides(options));
+      const receipt = await tx.wait();
+      const updated = this.contract.findEvent(receipt, 'RecoveryStageUpdated');
+
+      return {
+        success: true,
+        hash: tx.hash,
+        receipt,
+        preflight,
+        data: updated
+          ? {
+              oldStage: Number(updated.args.oldStage) as RecoveryStage,
+              newStage: Number(updated.args.newStage) as RecoveryStage,
+              completed: !!this.contract.findEvent(receipt, 'RecoveryCompleted'),
+            }
+          : undefined,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: decodeBaseroError(error, 'PauseRecovery'),
+      };
+    }
+  }
+
+  /**
+   * Complete a recovery from any stage with an outcome (multisig or owner); not subject to the timeout
+   */
+  async completeRecovery(
+    recoveryId: bigint,
+    outcome: string,
+    options?: TransactionOptions
+  ): Promise<OperationResult<{ duration: bigint }>> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    try {
+      const preflight = options?.simulate
+        ? await this.preflight('completeRecovery', [recoveryId, outcome], options)
+        : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.contract.completeRecovery(recoveryId, outcome, txOverrides(options));
+      const receipt = await tx.wait();
+      const completed = this.contract.findEvent(receipt, 'RecoveryCompleted');
+
+      return {
+        success: true,
+        hash: tx.hash,
+        receipt,
+        preflight,
+        data: completed ? { duration: completed.args.duration } : undefined,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: decodeBaseroError(error, 'PauseRecovery'),
+      };
+    }
+  }
+
+  /**
+   * File an emergency withdrawal request while paused
+   *
+   * `amount` is in the token's smallest unit and must be within getWithdrawalLimit.
+   * The event-less request id is found among the requests filed in the
+   * receipt's block by matching user, token, amount and time.
+   */
+  async requestEmergencyWithdrawal(
+    user: string,
+    token: string,
+    amount: bigint,
+    options?: TransactionOptions
+  ): Promise<OperationResult<{ requestId: bigint }>> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    try {
+      if (!ethers.isAddress(user)) throw new Error(`Invalid user address: ${user}`);
+      if (amount <= 0n) throw new Error('Amount must be greater than 0');
+      await this.assertWithinLimit(token, amount);
+
+      const args: PauseRecoveryWriteFunctions['requestEmergencyWithdrawal']['args'] = [user, token, amount];
+
+      const preflight = options?.simulate
+        ? await this.preflight('requestEmergencyWithdrawal', args, options)
+        : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.contract.requestEmergencyWithdrawal(...args, txOverrides(options));
+      const receipt = await tx.wait();
+      const requestId = await this.findWithdrawalRequest(receipt!, user, token, amount);
+
+      return {
+        success: true,
+        hash: tx.hash,
+        receipt,
+        preflight,
+        data: { requestId },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: decodeBaseroError(error, 'PauseRecovery'),
+      };
+    }
+  }
+
+  /**
+   * Approve a withdrawal request (multisig or owner), re-checking the limit against current holdings
+   */
+  async approveEmergencyWithdrawal(requestId: bigint, options?: TransactionOptions): Promise<OperationResult> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    try {
+      const request = await this.getWithdrawalRequest(requestId);
+      if (request.approved) throw new Error(`Withdrawal request already approved: ${requestId}`);
+      await this.assertWithinLimit(request.token, request.amount);
+
+      const preflight = options?.simulate
+        ? await this.preflight('approveEmergencyWithdrawal', [requestId], options)
+        : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.contract.approveEmergencyWithdrawal(requestId, txOverrides(options));
+      const receipt = await tx.wait();
+
+      return {
+        success: true,
+        hash: tx.hash,
+        receipt,
+        preflight,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: decodeBaseroError(error, 'PauseRecovery'),
+      };
+    }
+  }
+
+  /**
+   * Execute an approved withdrawal request while paused
+   */
+  async executeEmergencyWithdrawal(
+    requestId: bigint,
+    options?: TransactionOptions
+  ): Promise<OperationResult<{ user: string; token: string; amount: bigint }>> {
+    if (!this.signer) throw new Error('Signer not available');
+
+    try {
+      const preflight = options?.simulate
+        ? await this.preflight('executeEmergencyWithdrawal', [requestId], options)
+        : undefined;
+      if (preflight && !preflight.ok) return { success: false, error: preflight.error, preflight };
+
+      const tx = await this.contract.executeEmergencyWithdrawal(requestId, txOverrides(options));
+      const receipt = await tx.wait();
+      const withdrawal = this.contract.findEvent(receipt, 'EmergencyWithdrawal');
+
+      return {
+        success: true,
+        hash: tx.hash,
+        receipt,
+        preflight,
+        data: withdrawal
+          ? { user: withdrawal.args.user, token: withdrawal.args.token, amount: withdrawal.args.amount }
+          : undefined,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: decodeBaseroError(error, 'PauseRecovery'),
+      };
+    }
+  }
+
+  /**
+   * Every pause, recovery, snapshot and withdrawal event in a block range, oldest first
+   */
+  async getTimeline(fromBlock: number, toBlock?: number): Promise<IncidentTimelineEntry[]> {
+    const end = toBlock ?? (await this.provider.getBlockNumber());
+    if (end < fromBlock) throw new Error(`Invalid block range: ${fromBlock}-${end}`);
+
+    const logs = await new LogFetcher({ provider: this.provider, addresses: [this.contract.address] }).fetchRange(
+      fromBlock,
+      end
+    );
+
+    return logs
+      .map((log) => this.toTimelineEntry(log))
+      .filter((entry): entry is IncidentTimelineEntry => entry !== null)
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  /**
+   * One incident's events: from the pause that opened the recovery to the
+   * later of its unpause and its completion, or to the unpause alone when
+   * the recovery was never completed
+   */
+  async getIncidentTimeline(recoveryId: bigint, fromBlock: number, toBlock?: number): Promise<IncidentTimelineEntry[]> {
+    const entries = await this.getTimeline(fromBlock, toBlock);
+
+    const opened = entries.find((entry) => entry.type === 'recovery_initiated' && entry.recoveryId === recoveryId);
+    if (!opened) throw new Error(`Recovery ${recoveryId} not initiated in blocks ${fromBlock}+`);
+
+    const start = entries.findIndex((entry) => entry.transactionHash === opened.transactionHash);
+    let end = entries.length - 1;
+    const unpaused = entries.findIndex((entry, index) => index > start && entry.type === 'unpaused');
+    const completed = entries.findIndex(
+      (entry) => entry.type === 'recovery_completed' && entry.recoveryId === recoveryId
+    );
+    if (unpaused >= 0) end = completed >= 0 ? Math.max(unpaused, completed) : unpaused;
+
+    return entries
+      .slice(start, end + 1)
+      .filter((entry) => entry.recoveryId === undefined || entry.recoveryId === recoveryId);
+  }
+
+  /**
+   * Simulate a recovery write without sending it
+   */
+  async preflight<K extends keyof PauseRecoveryWriteFunctions>(
+    method: K,
+    args: PauseRecoveryWriteFunctions[K]['args'],
+    options?: TransactionOptions
+  ): Promise<PreflightReport> {
+    const overrides = txOverrides(options);
+    return runPreflight({
+      contract: 'PauseRecovery',
+      method,
+      call: () => this.contract.staticCall(method, args, overrides),
+      estimateGas: () => this.contract.estimateGas(method, args, overrides),
+    });
+  }
+
+  /**
+   * Estimate gas and fees for a recovery write
+   */
+  async estimateCost<K extends keyof PauseRecoveryWriteFunctions>(
+    method: K,
+    args: PauseRecoveryWriteFunctions[K]['args'],
+    estimator: GasFeeEstimator,
+    options?: TransactionOptions
+  ): Promise<CostEstimate> {
+    const tx = await this.contract.populateTransaction(method, args, txOverrides(options));
+    if (!tx.from && this.signer) tx.from = await this.signer.getAddress();
+    return estimator.estimate(tx);
+  }
+
+  /**
+   * Render a timeline as one line per event, e.g. for an incident report
+   */
+  static formatTimeline(entries: IncidentTimelineEntry[]): string {
+    return entries
+      .map((entry) => `${new Date(Number(entry.timestamp) * 1000).toISOString()}  ${entry.description}`)
+      .join('\n');
+  }
+
+  /**
+   * Id of the withdrawal request a receipt filed, newest match in its block first
+   */
+  private async findWithdrawalRequest(
+    receipt: TransactionReceipt,
+    user: string,
+    token: string,
+    amount: bigint
+  ): Promise<bigint> {
+    const [block, first, next] = await Promise.all([
+      this.provider.getBlock(receipt.blockNumber),
+      this.contract.contract.withdrawalCounter({ blockTag: receipt.blockNumber - 1 }) as Promise<bigint>,
+      this.contract.contract.withdrawalCounter({ blockTag: receipt.blockNumber }) as Promise<bigint>,
+    ]);
+    if (!block) throw new Error(`Block not found: ${receipt.blockNumber}`);
+
+    for (let id = next - 1n; id >= first; id--) {
+      const request = await this.contract.withdrawalRequests(id);
+      if (
+        request.user.toLowerCase() === user.toLowerCase() &&
+        request.token.toLowerCase() === token.toLowerCase() &&
+        request.amount === amount &&
+        request.requestedAt === BigInt(block.timestamp)
+      ) {
+        return id;
+      }
+    }
+    throw new Error(`Withdrawal request not found in block ${receipt.blockNumber}`);
+  }
+
+  private async assertWithinLimit(token: string, amount: bigint): Promise<void> {
+    const limit = await this.getWithdrawalLimit(token);
+    if (amount > limit.maxAmount) {
+      throw new Error(
+        `Emergency withdrawal of ${amount} exceeds ${limit.percent}% of ${limit.basis} (max ${limit.maxAmount})`
+      );
+    }
+  }
+
+  private toSnapshot(snapshot: Awaited<ReturnType<PauseRecoveryContract['snapshots']>>): RecoverySnapshot {
+    return {
+      id: snapshot.id,
+      timestamp: snapshot.timestamp,
+      snapshotTaker: snapshot.snapshotTaker,
+      description: snapshot.description,
+      totalSupply: snapshot.totalSupply,
+      totalVaultShares: snapshot.totalVaultShares,
+      totalLockedVotes: snapshot.totalLockedVotes,
+      bridgeQueuedMessages: snapshot.bridgeQueuedMessages,
+      pauseLevel: Number(snapshot.pauseLevel) as PauseLevel,
+      vaultPaused: snapshot.vaultPaused,
+      bridgePaused: snapshot.bridgePaused,
+      governancePaused: snapshot.governancePaused,
+    };
+  }
+
+  private toTimelineEntry(log: Log): IncidentTimelineEntry | null {
+    const event = this.contract.parseLog(log);
+    if (!event) return null;
+
+    const base = {
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+    };
+
+    switch (event.name) {
+      case 'ProtocolPaused': {
+        const { args } = event;
+        return {
+          ...base,
+          type: 'paused',
+          timestamp: args.timestamp,
+          description: `Protocol paused (${PauseLevel[Number(args.pauseLevel)]}) by ${args.initiator}: ${args.reason}`,
+        };
+      }
+      case 'ProtocolUnpaused': {
+        const { args } = event;
+        return {
+          ...base,
+          type: 'unpaused',
+          timestamp: args.timestamp,
+          description: `Protocol unpaused (${PauseLevel[Number(args.pauseLevel)]}) by ${args.initiator}`,
+        };
+      }
+      case 'RecoveryInitiated': {
+        const { args } = event;
+        return {
+          ...base,
+          type: 'recovery_initiated',
+          timestamp: args.timestamp,
+          recoveryId: args.recoveryId,
+          description: `Recovery #${args.recoveryId} opened: ${args.description}`,
+        };
+      }
+      case 'RecoveryStageUpdated': {
+        const { args } = event;
+        return {
+          ...base,
+          type: 'stage_updated',
+          timestamp: args.timestamp,
+          recoveryId: args.recoveryId,
+          description: `Recovery #${args.recoveryId}: ${RecoveryStage[Number(args.oldStage)]} → ${RecoveryStage[Number(args.newStage)]}`,
+        };
+      }
+      case 'RecoveryCompleted': {
+        const { args } = event;
+        return {
+          ...base,
+          type: 'recovery_completed',
+          timestamp: args.timestamp,
+          recoveryId: args.recoveryId,
+          description: `Recovery #${args.recoveryId} completed after ${RecoveryHelper.formatDuration(args.duration)}: ${args.outcome}`,
+        };
+      }
+      case 'StateSnapshotTaken': {
+        const { args } = event;
+        return {
+          ...base,
+          type: 'snapshot',
+          timestamp: args.timestamp,
+          description: `Snapshot #${args.snapshotId}: ${args.description}`,
+        };
+      }
+      case 'EmergencyWithdrawal': {
+        const { args } = event;
+        return {
+          ...base,
+          type: 'emergency_withdrawal',
+          timestamp: args.timestamp,
+          description: `Emergency withdrawal of ${args.amount} (token ${args.token}) to ${args.user}`,
+        };
+      }
+      default:
+        return null;
+    }
+  }
+
+  private static formatDuration(seconds: bigint): string {
+    const total = Number(seconds);
+    const days = Math.floor(total / 86_400);
+    const hours = Math.floor((total % 86_400) / 3_600);
+    const minutes = Math.floor((total % 3_600) / 60);
+    if (days > 0) return `${days}d ${hours}h`;
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    return `${minutes}m`;
+  }
+
+  /**
+   * Latest block timestamp; cooldowns and timeouts are enforced against it, not local time
+   */
+  private async getTimestamp(): Promise<bigint> {
+    const block = await this.provider.getBlock('latest');
+    if (!block) throw new Error('Block not found: latest');
+    return BigInt(block.timestamp);
+  }
+}
+
+export default RecoveryHelper;
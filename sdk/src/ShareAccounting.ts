@@ -0,0 +1,355 @@
+/**
+ * @fileoverview Basero Share Accounting
+ * Share-aware balances, offline conversion and balance change breakdowns
+ *
+ * RebaseToken stores shares; a balance is `shares * totalSupply / totalShares`.
+ * Interest raises totalSupply without touching shares, so every holder's
+ * balance grows by the same factor. Conversions here round the way the
+ * contract does, so offline results match on-chain reads at the same price.
+ */
+
+import { BlockTag, ethers, Log, Provider } from 'ethers';
+import { LogFetcher } from './LogFetcher';
+import { RebaseTokenContract, RebaseTokenVaultContract } from './generated';
+
+/**
+ * Token supply and shares at one block
+ */
+export interface SharePrice {
+  totalSupply: bigint;
+  totalShares: bigint;
+  blockNumber: number;
+  /** Local time the price was read (ms) */
+  fetchedAt: number;
+}
+
+/**
+ * Shares and balance read at the same block
+ */
+export interface ShareBalance {
+  address: string;
+  shares: bigint;
+  balance: bigint;
+  /** Locked rate in basis points */
+  interestRate: bigint;
+  price: SharePrice;
+}
+
+/**
+ * Simple-interest projection, as RebaseTokenVault.estimateInterest
+ */
+export interface BalanceProjection {
+  address: string;
+  balance: bigint;
+  interestRate: bigint;
+  horizonDays: number;
+  projectedInterest: bigint;
+  projectedBalance: bigint;
+}
+
+/**
+ * Balance change between two blocks split by cause
+ *
+ * `transfers.net + interest + rebase === balanceAfter - balanceBefore`.
+ */
+export interface BalanceChangeBreakdown {
+  address: string;
+  fromBlock: number;
+  toBlock: number;
+  sharesBefore: bigint;
+  sharesAfter: bigint;
+  balanceBefore: bigint;
+  balanceAfter: bigint;
+  change: bigint;
+  /** Token amounts moved by transfers, mints and burns */
+  transfers: {
+    in: bigint;
+    out: bigint;
+    net: bigint;
+  };
+  /** Share of vault interest accruals (net of protocol fee) */
+  interest: bigint;
+  /** Remaining share price movement: supply changes outside vault accruals and rounding */
+  rebase: bigint;
+}
+
+/**
+ * One replayed change to an account's balance
+ */
+export interface BalanceEntry {
+  /** Tokens received (incl. mints), sent (incl. burns), or credited by a vault accrual */
+  kind: 'in' | 'out' | 'interest';
+  amount: bigint;
+  /** Running balance after this entry */
+  balance: bigint;
+  /** Other side of a transfer; the zero address for mints and burns */
+  counterparty?: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface ShareAccountingOptions {
+  /** How long a fetched share price is reused (default 30000ms) */
+  priceTtlMs?: number;
+}
+
+const BPS = 10_000n;
+const SECONDS_PER_YEAR = 365n * 86_400n;
+
+/**
+ * Share Accounting - Share-aware reads on top of RebaseToken
+ */
+export class ShareAccounting {
+  private provider: Provider;
+  private token: RebaseTokenContract;
+  private vault?: RebaseTokenVaultContract;
+  private options: ShareAccountingOptions;
+  private price?: SharePrice;
+
+  constructor(provider: Provider, tokenAddress: string, vaultAddress?: string, options: ShareAccountingOptions = {}) {
+    this.provider = provider;
+    this.token = new RebaseTokenContract(tokenAddress, provider);
+    this.vault = vaultAddress ? new RebaseTokenVaultContract(vaultAddress, provider) : undefined;
+    this.options = options;
+  }
+
+  /**
+   * Current share price, reusing the cached one while it is fresh
+   */
+  async getSharePrice(refresh = false): Promise<SharePrice> {
+    const ttl = this.options.priceTtlMs ?? 30_000;
+    if (!refresh && this.price && Date.now() - this.price.fetchedAt < ttl) {
+      return this.price;
+    }
+
+    const blockNumber = await this.provider.getBlockNumber();
+    this.price = await this.readPrice(blockNumber);
+    return this.price;
+  }
+
+  /**
+   * Seed the cache, e.g. with a price persisted from an earlier session
+   */
+  setSharePrice(price: SharePrice): void {
+    this.price = price;
+  }
+
+  /**
+   * Last price fetched or set, without a network call
+   */
+  getCachedSharePrice(): SharePrice | null {
+    return this.price ?? null;
+  }
+
+  /**
+   * Convert a token amount to shares at the cached price
+   */
+  toShares(amount: bigint, price: SharePrice | undefined = this.price): bigint {
+    if (!price) throw new Error('Share price not loaded');
+    return ShareAccounting.tokensToShares(amount, price);
+  }
+
+  /**
+   * Convert shares to a token amount at the cached price
+   */
+  toTokens(shares: bigint, price: SharePrice | undefined = this.price): bigint {
+    if (!price) throw new Error('Share price not loaded');
+    return ShareAccounting.sharesToTokens(shares, price);
+  }
+
+  /**
+   * Shares, balance and rate for an account, all read at one block
+   */
+  async getShareBalance(address: string, blockTag?: BlockTag): Promise<ShareBalance> {
+    const blockNumber = blockTag === undefined
+      ? await this.provider.getBlockNumber()
+      : await this.resolveBlock(blockTag);
+
+    const [shares, interestRate, price] = await Promise.all([
+      this.token.contract.sharesOf(address, { blockTag: blockNumber }) as Promise<bigint>,
+      this.token.contract.getInterestRate(address, { blockTag: blockNumber }) as Promise<bigint>,
+      this.readPrice(blockNumber),
+    ]);
+
+    if (blockTag === undefined) this.price = price;
+
+    return {
+      address,
+      shares,
+      balance: ShareAccounting.sharesToTokens(shares, price),
+      interestRate,
+      price,
+    };
+  }
+
+  /**
+   * Project a balance forward at the account's locked rate (simple interest)
+   */
+  async projectBalance(address: string, horizonDays: number): Promise<BalanceProjection> {
+    if (!(horizonDays >= 0)) throw new Error(`Invalid horizon: ${horizonDays}`);
+
+    const { balance, interestRate } = await this.getShareBalance(address);
+    const seconds = BigInt(Math.round(horizonDays * 86_400));
+    const projectedInterest = (balance * interestRate * seconds) / BPS / SECONDS_PER_YEAR;
+
+    return {
+      address,
+      balance,
+      interestRate,
+      horizonDays,
+      projectedInterest,
+      projectedBalance: balance + projectedInterest,
+    };
+  }
+
+  /**
+   * Explain how an account's balance changed between the end of two blocks
+   *
+   * Whatever the real balance differs from the replayed one by is reported
+   * as `rebase`.
+   */
+  async explainBalanceChange(address: string, fromBlock: number, toBlock: number): Promise<BalanceChangeBreakdown> {
+    if (toBlock < fromBlock) throw new Error(`Invalid block range: ${fromBlock}-${toBlock}`);
+
+    const [before, after] = await Promise.all([
+      this.getShareBalance(address, fromBlock),
+      this.getShareBalance(address, toBlock),
+    ]);
+    const entries = await this.replay(address, fromBlock + 1, toBlock, before.balance);
+
+    const sum = (kind: BalanceEntry['kind']) =>
+      entries.filter(entry => entry.kind === kind).reduce((total, entry) => total + entry.amount, 0n);
+    const transfersIn = sum('in');
+    const transfersOut = sum('out');
+    const interest = sum('interest');
+
+    const change = after.balance - before.balance;
+    const net = transfersIn - transfersOut;
+
+    return {
+      address,
+      fromBlock,
+      toBlock,
+      sharesBefore: before.shares,
+      sharesAfter: after.shares,
+      balanceBefore: before.balance,
+      balanceAfter: after.balance,
+      change,
+      transfers: { in: transfersIn, out: transfersOut, net },
+      interest,
+      rebase: change - net - interest,
+    };
+  }
+
+  /**
+   * Replay an account's balance over blocks `fromBlock..toBlock` inclusive
+   *
+   * Transfers, mints and burns move the running balance by their amount;
+   * each InterestAccrualDetailed credits the account's share of the net
+   * interest (balance / supplyBefore).
+   */
+  async replay(address: string, fromBlock: number, toBlock: number, startBalance: bigint): Promise<BalanceEntry[]> {
+    const logs = await this.fetchEvents(address, fromBlock, toBlock);
+    const account = address.toLowerCase();
+    const entries: BalanceEntry[] = [];
+    let running = startBalance;
+
+    const push = (kind: BalanceEntry['kind'], amount: bigint, log: Log, counterparty?: string) => {
+      running += kind === 'out' ? -amount : amount;
+      entries.push({
+        kind,
+        amount,
+        balance: running,
+        counterparty,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+      });
+    };
+
+    for (const log of logs) {
+      const transfer = this.token.parseLog(log);
+      if (transfer?.name === 'Transfer') {
+        const { from, to, value } = transfer.args;
+        if (to.toLowerCase() === account) push('in', value, log, from.toLowerCase());
+        if (from.toLowerCase() === account) push('out', value, log, to.toLowerCase());
+        continue;
+      }
+
+      const accrual = this.vault?.parseLog(log);
+      if (accrual?.name === 'InterestAccrualDetailed' && accrual.args.supplyBefore > 0n && running > 0n) {
+        const { supplyBefore, interestAccrued, protocolFee } = accrual.args;
+        push('interest', (running * (interestAccrued - protocolFee)) / supplyBefore, log);
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Shares to tokens, rounding down like getTokenAmountByShares
+   */
+  static sharesToTokens(shares: bigint, price: Pick<SharePrice, 'totalSupply' | 'totalShares'>): bigint {
+    if (price.totalShares === 0n) return 0n;
+    return (shares * price.totalSupply) / price.totalShares;
+  }
+
+  /**
+   * Tokens to shares, rounding down like getSharesByTokenAmount
+   */
+  static tokensToShares(amount: bigint, price: Pick<SharePrice, 'totalSupply' | 'totalShares'>): bigint {
+    if (price.totalSupply === 0n) return amount;
+    return (amount * price.totalShares) / price.totalSupply;
+  }
+
+  /**
+   * Supply and shares at a block
+   */
+  private async readPrice(blockNumber: number): Promise<SharePrice> {
+    const [totalSupply, totalShares] = await Promise.all([
+      this.token.contract.totalSupply({ blockTag: blockNumber }) as Promise<bigint>,
+      this.token.contract.getTotalShares({ blockTag: blockNumber }) as Promise<bigint>,
+    ]);
+
+    return { totalSupply, totalShares, blockNumber, fetchedAt: Date.now() };
+  }
+
+  private async resolveBlock(blockTag: BlockTag): Promise<number> {
+    if (typeof blockTag === 'number') return blockTag;
+
+    const block = await this.provider.getBlock(blockTag);
+    if (!block) throw new Error(`Block not found: ${blockTag}`);
+    return block.number;
+  }
+
+  /**
+   * Transfers to or from the account and vault accruals, in chain order
+   */
+  private async fetchEvents(address: string, fromBlock: number, toBlock: number): Promise<Log[]> {
+    if (fromBlock > toBlock) return [];
+
+    const transferTopic = this.token.interface.getEvent('Transfer')!.topicHash;
+    const accountTopic = ethers.zeroPadValue(address, 32);
+    const fetch = (addresses: string[], topics: Array<string | null>) =>
+      new LogFetcher({ provider: this.provider, addresses, topics }).fetchRange(fromBlock, toBlock);
+
+    const [sent, received, accruals] = await Promise.all([
+      fetch([this.token.address], [transferTopic, accountTopic]),
+      fetch([this.token.address], [transferTopic, null, accountTopic]),
+      this.vault
+        ? fetch([this.vault.address], [this.vault.interface.getEvent('InterestAccrualDetailed')!.topicHash])
+        : Promise.resolve([]),
+    ]);
+
+    // Self-transfers match both filters
+    const unique = new Map<string, Log>();
+    for (const log of [...sent, ...received, ...accruals]) {
+      unique.set(`${log.transactionHash}-${log.index}`, log);
+    }
+
+    return Array.from(unique.values()).sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+  }
+}
+
+export default ShareAccounting;
@@ -0,0 +1,1088 @@
+/**
+ * @fileoverview Basero Subgraph Client
+ * Typed queries over the Basero subgraph with an on-chain fallback
+ *
+ * When no subgraph URL is configured the same queries are answered by
+ * scanning the protocol's logs with LogFetcher and rebuilding the subgraph
+ * entities in memory. The fallback reads every log from `fromBlock` and the
+ * timestamp of every block that produced one, so it suits local networks
+ * and small deployments rather than a long-running mainnet dashboard.
+ *
+ * Pages are ordered newest first by block number. A cursor holds the block
+ * of the last item and the ids already returned from that block, so ties
+ * within a block never repeat or skip items on either backend.
+ */
+
+import { ethers, Log, Provider } from 'ethers';
+import type { NetworkConfig } from './BaseroSDK';
+import { EventIndexer } from './EventDecoders';
+import { LogFetcher } from './LogFetcher';
+import {
+  BASEGovernorContract,
+  RebaseTokenContract,
+  RebaseTokenVaultInterestAccrualDetailedEvent,
+} from './generated';
+
+export type SubgraphDepositTier = 'Bronze' | 'Silver' | 'Gold' | 'Platinum' | 'Diamond';
+
+export type SubgraphProposalState =
+  | 'Pending'
+  | 'Active'
+  | 'Canceled'
+  | 'Defeated'
+  | 'Succeeded'
+  | 'Queued'
+  | 'Expired'
+  | 'Executed';
+
+export type SubgraphBridgeStatus = 'Sent' | 'Received' | 'Failed';
+
+/**
+ * User entity totals and balances
+ */
+export interface UserPortfolio {
+  id: string;
+  totalDeposited: bigint;
+  totalWithdrawn: bigint;
+  currentVaultBalance: bigint;
+  currentShares: bigint;
+  tokenBalance: bigint;
+  tokenShares: bigint;
+  interestRate: number;
+  votingPower: bigint;
+  delegatedTo: string | null;
+  totalBridged: bigint;
+  totalReceived: bigint;
+  tier: SubgraphDepositTier;
+  tierBonus: number;
+  firstSeenTimestamp: bigint;
+  firstSeenBlock: bigint;
+  lastActivityTimestamp: bigint;
+  transactionCount: bigint;
+}
+
+export interface SubgraphDeposit {
+  id: string;
+  user: string;
+  /** ETH deposited */
+  amount: bigint;
+  /** RebaseTokens minted */
+  shares: bigint;
+  interestRate: number;
+  timestamp: bigint;
+  blockNumber: bigint;
+  transactionHash: string;
+}
+
+export interface SubgraphWithdrawal {
+  id: string;
+  user: string;
+  /** ETH received */
+  amount: bigint;
+  /** RebaseTokens burned */
+  shares: bigint;
+  timestamp: bigint;
+  blockNumber: bigint;
+  transactionHash: string;
+}
+
+export interface SubgraphRebase {
+  id: string;
+  epoch: bigint;
+  previousSupply: bigint;
+  newSupply: bigint;
+  delta: bigint;
+  /** Decimal string, e.g. "0.0274" */
+  percentChange: string;
+  timestamp: bigint;
+  blockNumber: bigint;
+  transactionHash: string;
+}
+
+export interface SubgraphVote {
+  id: string;
+  proposalId: bigint;
+  voter: string;
+  support: boolean;
+  /** 0 = Against, 1 = For, 2 = Abstain */
+  supportType: number;
+  votes: bigint;
+  reason: string;
+  timestamp: bigint;
+  blockNumber: bigint;
+  transactionHash: string;
+}
+
+export interface SubgraphProposal {
+  id: string;
+  proposalId: bigint;
+  proposer: string;
+  targets: string[];
+  values: bigint[];
+  signatures: string[];
+  calldatas: string[];
+  description: string;
+  title: string | null;
+  proposalType: number | null;
+  startBlock: bigint;
+  endBlock: bigint;
+  /** Lifecycle state from events only (Pending, Queued, Executed, Canceled) */
+  state: SubgraphProposalState;
+  forVotes: bigint;
+  againstVotes: bigint;
+  abstainVotes: bigint;
+  eta: bigint | null;
+  queuedAt: bigint | null;
+  executedAt: bigint | null;
+  canceledAt: bigint | null;
+  createdAt: bigint;
+  createdAtBlock: bigint;
+  transactionHash: string;
+  /** Newest votes first, up to `votesFirst` */
+  votes: SubgraphVote[];
+}
+
+export interface SubgraphBridgeTransfer {
+  id: string;
+  messageId: string;
+  sender: string;
+  recipient: string;
+  amount: bigint;
+  sourceChain: bigint;
+  destinationChain: bigint;
+  status: SubgraphBridgeStatus;
+  sentAt: bigint;
+  sentAtBlock: bigint;
+  completedAt: bigint | null;
+  completedAtBlock: bigint | null;
+  transactionHash: string;
+}
+
+/**
+ * One page of results, newest first
+ */
+export interface Page<T> {
+  items: T[];
+  /** Pass as `after` to load the next page; null on the last page */
+  cursor: string | null;
+  hasMore: boolean;
+}
+
+export interface PageOptions {
+  /** Page size (default 100, max 1000) */
+  first?: number;
+  /** Cursor from the previous page */
+  after?: string;
+}
+
+export interface ProposalQueryOptions extends PageOptions {
+  state?: SubgraphProposalState;
+  proposer?: string;
+  /** Votes included per proposal (default 100) */
+  votesFirst?: number;
+}
+
+export interface BridgeTransferQueryOptions extends PageOptions {
+  sender?: string;
+  status?: SubgraphBridgeStatus;
+}
+
+/**
+ * Client configuration
+ */
+export interface SubgraphClientConfig {
+  /** GraphQL endpoint; without one, queries are answered from logs */
+  url?: string;
+  headers?: Record<string, string>;
+  /** Fetch implementation (defaults to the global fetch) */
+  fetch?: typeof fetch;
+  /** Request timeout (default 30000ms) */
+  timeoutMs?: number;
+  /** Provider and contract addresses for the log fallback */
+  provider?: Provider;
+  network?: Partial<NetworkConfig>;
+  /** First block scanned by the fallback (default 0) */
+  fromBlock?: number;
+  /** CCIP selector of this chain, reported as sourceChain by the fallback (default 0) */
+  chainSelector?: bigint;
+}
+
+interface Cursor {
+  block: string;
+  ids: string[];
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+const DEPOSIT_FIELDS = 'id user { id } amount shares interestRate timestamp blockNumber transactionHash';
+const WITHDRAWAL_FIELDS = 'id user { id } amount shares timestamp blockNumber transactionHash';
+const REBASE_FIELDS = 'id epoch previousSupply newSupply delta percentChange timestamp blockNumber transactionHash';
+const VOTE_FIELDS = 'id proposal { proposalId } voter { id } support supportType votes reason timestamp blockNumber transactionHash';
+const PROPOSAL_FIELDS = `id proposalId proposer { id } targets values signatures calldatas description title proposalType
+  startBlock endBlock state forVotes againstVotes abstainVotes eta queuedAt executedAt canceledAt
+  createdAt createdAtBlock transactionHash`;
+const BRIDGE_FIELDS = `id messageId sender { id } recipient amount sourceChain destinationChain status
+  sentAt sentAtBlock completedAt completedAtBlock transactionHash`;
+const USER_FIELDS = `id totalDeposited totalWithdrawn currentVaultBalance currentShares tokenBalance tokenShares
+  interestRate votingPower delegatedTo { id } totalBridged totalReceived tier tierBonus
+  firstSeenTimestamp firstSeenBlock lastActivityTimestamp transactionCount`;
+
+/**
+ * Subgraph Client - Dashboard queries without per-user contract calls
+ */
+export class SubgraphClient {
+  private config: SubgraphClientConfig;
+  private fallback?: LogIndex;
+
+  constructor(config: SubgraphClientConfig) {
+    if (!config.url && !config.provider) {
+      throw new Error('Subgraph URL or provider required');
+    }
+    this.config = config;
+  }
+
+  /**
+   * Whether queries go to the subgraph or the log fallback
+   */
+  get source(): 'subgraph' | 'logs' {
+    return this.config.url ? 'subgraph' : 'logs';
+  }
+
+  /**
+   * Run a raw GraphQL query against the subgraph
+   */
+  async query<T = any>(document: string, variables: Record<string, unknown> = {}): Promise<T> {
+    if (!this.config.url) throw new Error('Subgraph URL not configured');
+
+    const fetchImpl = this.config.fetch ?? fetch;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeoutMs ?? 30_000);
+
+    try {
+      const response = await fetchImpl(this.config.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.config.headers },
+        body: JSON.stringify({ query: document, variables }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Subgraph request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const body = await response.json() as { data?: T; errors?: Array<{ message: string }> };
+      if (body.errors && body.errors.length > 0) {
+        throw new Error(`Subgraph query failed: ${body.errors.map(error => error.message).join('; ')}`);
+      }
+      if (!body.data) throw new Error('Subgraph returned no data');
+
+      return body.data;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Totals and balances for a user, or null if they never interacted
+   *
+   * From logs, balances, interest rate and voting power are read live;
+   * tier is not derived (Bronze, no bonus) and delegatedTo is null.
+   */
+  async getUserPortfolio(address: string): Promise<UserPortfolio | null> {
+    const id = address.toLowerCase();
+
+    if (!this.config.url) {
+      return (await this.logIndex()).getPortfolio(id);
+    }
+
+    const data = await this.query<{ user: any }>(
+      `query Portfolio($id: ID!) { user(id: $id) { ${USER_FIELDS} } }`,
+      { id }
+    );
+    return data.user ? toPortfolio(data.user) : null;
+  }
+
+  /**
+   * Vault deposits, optionally for one user
+   */
+  async getDeposits(user?: string, options: PageOptions = {}): Promise<Page<SubgraphDeposit>> {
+    const where = user ? { user: user.toLowerCase() } : {};
+
+    if (!this.config.url) {
+      const index = await this.logIndex();
+      return paginate(index.deposits.filter(d => !user || d.user === where.user), d => d.blockNumber, options);
+    }
+
+    return this.page('deposits', 'Deposit', DEPOSIT_FIELDS, where, 'blockNumber', options, toDeposit);
+  }
+
+  /**
+   * Vault redemptions, optionally for one user
+   */
+  async getWithdrawals(user?: string, options: PageOptions = {}): Promise<Page<SubgraphWithdrawal>> {
+    const where = user ? { user: user.toLowerCase() } : {};
+
+    if (!this.config.url) {
+      const index = await this.logIndex();
+      return paginate(index.withdrawals.filter(w => !user || w.user === where.user), w => w.blockNumber, options);
+    }
+
+    return this.page('withdrawals', 'Withdrawal', WITHDRAWAL_FIELDS, where, 'blockNumber', options, toWithdrawal);
+  }
+
+  /**
+   * Rebases (one per detailed interest accrual)
+   */
+  async getRebases(options: PageOptions = {}): Promise<Page<SubgraphRebase>> {
+    if (!this.config.url) {
+      return paginate((await this.logIndex()).rebases, r => r.blockNumber, options);
+    }
+
+    return this.page('rebases', 'Rebase', REBASE_FIELDS, {}, 'blockNumber', options, toRebase);
+  }
+
+  /**
+   * Proposals with their most recent votes
+   */
+  async getProposals(options: ProposalQueryOptions = {}): Promise<Page<SubgraphProposal>> {
+    const votesFirst = options.votesFirst ?? DEFAULT_PAGE_SIZE;
+    const where: Record<string, unknown> = {};
+    if (options.state) where.state = options.state;
+    if (options.proposer) where.proposer = options.proposer.toLowerCase();
+
+    if (!this.config.url) {
+      const index = await this.logIndex();
+      const proposals = index.proposalList()
+        .filter(p => !options.state || p.state === options.state)
+        .filter(p => !options.proposer || p.proposer === where.proposer)
+        .map(p => ({ ...p, votes: p.votes.slice(0, votesFirst) }));
+      return paginate(proposals, p => p.createdAtBlock, options);
+    }
+
+    const fields = `${PROPOSAL_FIELDS}
+      votes(first: ${votesFirst}, orderBy: blockNumber, orderDirection: desc) { ${VOTE_FIELDS} }`;
+    return this.page('proposals', 'Proposal', fields, where, 'createdAtBlock', options, toProposal);
+  }
+
+  /**
+   * Single proposal with its most recent votes
+   */
+  async getProposal(proposalId: bigint, votesFirst = DEFAULT_PAGE_SIZE): Promise<SubgraphProposal | null> {
+    if (!this.config.url) {
+      const proposal = (await this.logIndex()).proposals.get(proposalId.toString());
+      return proposal ? { ...proposal, votes: proposal.votes.slice(0, votesFirst) } : null;
+    }
+
+    const data = await this.query<{ proposal: any }>(
+      `query Proposal($id: ID!) {
+        proposal(id: $id) {
+          ${PROPOSAL_FIELDS}
+          votes(first: ${votesFirst}, orderBy: blockNumber, orderDirection: desc) { ${VOTE_FIELDS} }
+        }
+      }`,
+      { id: proposalId.toString() }
+    );
+    return data.proposal ? toProposal(data.proposal) : null;
+  }
+
+  /**
+   * All votes on a proposal, page by page
+   */
+  async getVotes(proposalId: bigint, options: PageOptions = {}): Promise<Page<SubgraphVote>> {
+    if (!this.config.url) {
+      const proposal = (await this.logIndex()).proposals.get(proposalId.toString());
+      return paginate(proposal?.votes ?? [], v => v.blockNumber, options);
+    }
+
+    return this.page('votes', 'Vote', VOTE_FIELDS, { proposal: proposalId.toString() }, 'blockNumber', options, toVote);
+  }
+
+  /**
+   * Bridge transfers sent from or delivered to this chain
+   */
+  async getBridgeTransfers(options: BridgeTransferQueryOptions = {}): Promise<Page<SubgraphBridgeTransfer>> {
+    const where: Record<string, unknown> = {};
+    if (options.sender) where.sender = options.sender.toLowerCase();
+    if (options.status) where.status = options.status;
+
+    if (!this.config.url) {
+      const transfers = Array.from((await this.logIndex()).bridgeTransfers.values())
+        .filter(t => !options.sender || t.sender === where.sender)
+        .filter(t => !options.status || t.status === options.status);
+      return paginate(transfers.reverse(), t => t.sentAtBlock, options);
+    }
+
+    return this.page('bridgeTransfers', 'BridgeTransfer', BRIDGE_FIELDS, where, 'sentAtBlock', options, toBridgeTransfer);
+  }
+
+  /**
+   * Iterate every item across pages, e.g. `for await (const d of client.iterate(o => client.getDeposits(user, o)))`
+   */
+  async *iterate<T>(load: (options: PageOptions) => Promise<Page<T>>, pageSize = DEFAULT_PAGE_SIZE): AsyncGenerator<T> {
+    let after: string | undefined;
+
+    do {
+      const page = await load({ first: pageSize, after });
+      yield* page.items;
+      after = page.cursor ?? undefined;
+    } while (after);
+  }
+
+  /**
+   * Query one page of a collection ordered by a block number field
+   */
+  private async page<K extends string, T extends { id: string } & Record<K, bigint>>(
+    collection: string,
+    entity: string,
+    fields: string,
+    filter: Record<string, unknown>,
+    orderBy: K,
+    options: PageOptions,
+    map: (raw: any) => T
+  ): Promise<Page<T>> {
+    const first = pageSize(options);
+    const where = { ...filter };
+    const after = options.after ? decodeCursor(options.after) : null;
+
+    if (after) {
+      where[`${orderBy}_lte`] = after.block;
+      if (after.ids.length > 0) where.id_not_in = after.ids;
+    }
+
+    const data = await this.query<{ items: any[] }>(
+      `query Page($first: Int!, $where: ${entity}_filter) {
+        items: ${collection}(first: $first, orderBy: ${orderBy}, orderDirection: desc, where: $where) { ${fields} }
+      }`,
+      { first: first + 1, where }
+    );
+
+    const items = data.items.map(map);
+    return toPage(items.slice(0, first), items.length > first, item => item[orderBy], after);
+  }
+
+  /**
+   * Lazily created log index, brought up to date before each query
+   */
+  private async logIndex(): Promise<LogIndex> {
+    if (!this.fallback) {
+      this.fallback = new LogIndex(this.config);
+    }
+    await this.fallback.sync();
+    return this.fallback;
+  }
+}
+
+/**
+ * Subgraph entities rebuilt from logs, mirroring the subgraph mappings
+ */
+class LogIndex {
+  deposits: SubgraphDeposit[] = [];
+  withdrawals: SubgraphWithdrawal[] = [];
+  rebases: SubgraphRebase[] = [];
+  proposals: Map<string, SubgraphProposal> = new Map();
+  bridgeTransfers: Map<string, SubgraphBridgeTransfer> = new Map();
+
+  private provider: Provider;
+  private network: Partial<NetworkConfig>;
+  private chainSelector: bigint;
+  private indexer: EventIndexer;
+  private fetcher: LogFetcher;
+  private logs: Log[] = [];
+  private timestamps: Map<number, bigint> = new Map();
+  private txSenders: Map<string, string> = new Map();
+  private users: Map<string, UserPortfolio & { txs: Set<string> }> = new Map();
+  private synced = false;
+
+  constructor(config: SubgraphClientConfig) {
+    if (!config.provider) throw new Error('Provider required for the log fallback');
+
+    this.provider = config.provider;
+    this.network = config.network ?? {};
+    this.chainSelector = config.chainSelector ?? 0n;
+    this.indexer = new EventIndexer(this.network);
+    this.fetcher = new LogFetcher({
+      provider: config.provider,
+      addresses: [
+        this.network.tokenAddress,
+        this.network.vaultAddress,
+        this.network.bridgeAddress,
+        this.network.governorAddress,
+      ].filter((address): address is string => !!address && ethers.isAddress(address)),
+      startBlock: config.fromBlock ?? 0,
+    });
+  }
+
+  /**
+   * Fetch new logs, drop reorganised ones and rebuild if anything changed
+   */
+  async sync(): Promise<void> {
+    const update = await this.fetcher.poll();
+    if (this.synced && update.added.length === 0 && update.removed.length === 0) return;
+
+    const removed = new Set(update.removed.map(logKey));
+    this.logs = this.logs.filter(log => !removed.has(logKey(log))).concat(update.added);
+
+    await this.loadTimestamps();
+    await this.loadSenders();
+    this.rebuild();
+    this.synced = true;
+  }
+
+  /**
+   * Proposals newest first
+   */
+  proposalList(): SubgraphProposal[] {
+    return Array.from(this.proposals.values()).reverse();
+  }
+
+  /**
+   * Totals from logs plus live balances and voting power
+   */
+  async getPortfolio(id: string): Promise<UserPortfolio | null> {
+    const user = this.users.get(id);
+    if (!user) return null;
+
+    const { txs, ...portfolio } = user;
+    const token = this.network.tokenAddress
+      ? new RebaseTokenContract(this.network.tokenAddress, this.provider)
+      : null;
+    const governor = this.network.governorAddress
+      ? new BASEGovernorContract(this.network.governorAddress, this.provider)
+      : null;
+
+    const [tokenBalance, tokenShares, interestRate, votingPower] = await Promise.all([
+      token ? token.balanceOf(id) : 0n,
+      token ? token.sharesOf(id) : 0n,
+      token ? token.getInterestRate(id) : 0n,
+      governor ? governor.clock().then(clock => governor.getVotes(id, clock - 1n)) : 0n,
+    ]);
+
+    return {
+      ...portfolio,
+      tokenBalance,
+      tokenShares,
+      interestRate: Number(interestRate),
+      votingPower,
+      transactionCount: BigInt(txs.size),
+    };
+  }
+
+  /**
+   * Replay every retained log in chain order
+   */
+  private rebuild(): void {
+    this.deposits = [];
+    this.withdrawals = [];
+    this.rebases = [];
+    this.proposals = new Map();
+    this.bridgeTransfers = new Map();
+    this.users = new Map();
+
+    const mints = new Map<string, Array<{ index: number; to: string }>>();
+    const sorted = [...this.logs].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    for (const log of sorted) {
+      const decoded = this.indexer.decodeLog(log);
+      if (!decoded) continue;
+
+      const { name, args } = decoded.event;
+      const block = BigInt(log.blockNumber);
+      const timestamp = this.timestamps.get(log.blockNumber) ?? 0n;
+      const id = `${log.transactionHash}-${log.index}`;
+
+      switch (`${decoded.event.contract}:${name}`) {
+        case 'RebaseToken:Transfer':
+          if (args.from === ethers.ZeroAddress) {
+            const list = mints.get(log.transactionHash) ?? [];
+            list.push({ index: log.index, to: args.to.toLowerCase() });
+            mints.set(log.transactionHash, list);
+          }
+          break;
+
+        case 'RebaseTokenVault:Deposit': {
+          const user = this.touch(args.user, log, timestamp);
+          user.totalDeposited += args.ethAmount;
+          user.currentVaultBalance += args.ethAmount;
+          user.currentShares += args.tokensReceived;
+          this.deposits.push({
+            id,
+            user: user.id,
+            amount: args.ethAmount,
+            shares: args.tokensReceived,
+            interestRate: Number(args.interestRate),
+            timestamp,
+            blockNumber: block,
+            transactionHash: log.transactionHash,
+          });
+          break;
+        }
+
+        case 'RebaseTokenVault:Redeem': {
+          const user = this.touch(args.user, log, timestamp);
+          user.totalWithdrawn += args.ethReceived;
+          user.currentVaultBalance = clampZero(user.currentVaultBalance - args.ethReceived);
+          user.currentShares = clampZero(user.currentShares - args.tokenAmount);
+          this.withdrawals.push({
+            id,
+            user: user.id,
+            amount: args.ethReceived,
+            shares: args.tokenAmount,
+            timestamp,
+            blockNumber: block,
+            transactionHash: log.transactionHash,
+          });
+          break;
+        }
+
+        case 'RebaseTokenVault:InterestAccrualDetailed': {
+          const { supplyBefore, supplyAfter } = args as RebaseTokenVaultInterestAccrualDetailedEvent;
+          const epoch = BigInt(this.rebases.length);
+          this.rebases.push({
+            id: epoch.toString(),
+            epoch,
+            previousSupply: supplyBefore,
+            newSupply: supplyAfter,
+            delta: supplyAfter - supplyBefore,
+            percentChange: percentChange(supplyBefore, supplyAfter),
+            timestamp,
+            blockNumber: block,
+            transactionHash: log.transactionHash,
+          });
+          break;
+        }
+
+        case 'BASEGovernor:ProposalCreated': {
+          const proposer = this.touch(args.proposer, log, timestamp);
+          this.proposals.set(args.proposalId.toString(), {
+            id: args.proposalId.toString(),
+            proposalId: args.proposalId,
+            proposer: proposer.id,
+            targets: args.targets.map((target: string) => target.toLowerCase()),
+            values: [...args.values],
+            signatures: [...args.signatures],
+            calldatas: [...args.calldatas],
+            description: args.description,
+            title: null,
+            proposalType: null,
+            startBlock: args.voteStart,
+            endBlock: args.voteEnd,
+            state: 'Pending',
+            forVotes: 0n,
+            againstVotes: 0n,
+            abstainVotes: 0n,
+            eta: null,
+            queuedAt: null,
+            executedAt: null,
+            canceledAt: null,
+            createdAt: timestamp,
+            createdAtBlock: block,
+            transactionHash: log.transactionHash,
+            votes: [],
+          });
+          break;
+        }
+
+        case 'BASEGovernor:ProposalCreatedWithMetadata': {
+          const proposal = this.proposals.get(args.proposalId.toString());
+          if (proposal) {
+            proposal.title = args.title;
+            proposal.proposalType = Number(args.proposalType);
+          }
+          break;
+        }
+
+        case 'BASEGovernor:VoteCast':
+        case 'BASEGovernor:VoteCastWithParams': {
+          const proposal = this.proposals.get(args.proposalId.toString());
+          if (!proposal) break;
+
+          const voter = this.touch(args.voter, log, timestamp);
+          const supportType = Number(args.support);
+          if (supportType === 0) proposal.againstVotes += args.weight;
+          else if (supportType === 1) proposal.forVotes += args.weight;
+          else proposal.abstainVotes += args.weight;
+
+          proposal.votes.unshift({
+            id: `${proposal.id}-${voter.id}`,
+            proposalId: proposal.proposalId,
+            voter: voter.id,
+            support: supportType === 1,
+            supportType,
+            votes: args.weight,
+            reason: args.reason,
+            timestamp,
+            blockNumber: block,
+            transactionHash: log.transactionHash,
+          });
+          break;
+        }
+
+        case 'BASEGovernor:ProposalQueued': {
+          const proposal = this.proposals.get(args.proposalId.toString());
+          if (proposal) {
+            proposal.state = 'Queued';
+            proposal.eta = args.etaSeconds;
+            proposal.queuedAt = timestamp;
+          }
+          break;
+        }
+
+        case 'BASEGovernor:ProposalExecuted': {
+          const proposal = this.proposals.get(args.proposalId.toString());
+          if (proposal) {
+            proposal.state = 'Executed';
+            proposal.executedAt = timestamp;
+          }
+          break;
+        }
+
+        case 'BASEGovernor:ProposalCanceled': {
+          const proposal = this.proposals.get(args.proposalId.toString());
+          if (proposal) {
+            proposal.state = 'Canceled';
+            proposal.canceledAt = timestamp;
+          }
+          break;
+        }
+
+        case 'EnhancedCCIPBridge:CrossChainTransfer': {
+          const sender = this.touch(this.txSenders.get(log.transactionHash) ?? ethers.ZeroAddress, log, timestamp);
+          sender.totalBridged += args.amount;
+          this.bridgeTransfers.set(args.messageId, {
+            id: args.messageId,
+            messageId: args.messageId,
+            sender: sender.id,
+            recipient: args.recipient.toLowerCase(),
+            amount: args.amount,
+            sourceChain: this.chainSelector,
+            destinationChain: args.destinationChain,
+            status: 'Sent',
+            sentAt: timestamp,
+            sentAtBlock: block,
+            completedAt: null,
+            completedAtBlock: null,
+            transactionHash: log.transactionHash,
+          });
+          break;
+        }
+
+        case 'EnhancedCCIPBridge:MessageReceived': {
+          // Recipient is the RebaseToken mint emitted just before the event
+          const mint = (mints.get(log.transactionHash) ?? []).filter(m => m.index < log.index).pop();
+          const recipient = mint?.to ?? ethers.ZeroAddress;
+
+          const transfer = this.bridgeTransfers.get(args.messageId) ?? {
+            id: args.messageId,
+            messageId: args.messageId,
+            sender: args.sender.toLowerCase(),
+            recipient,
+            amount: args.amount,
+            sourceChain: args.sourceChainSelector,
+            destinationChain: this.chainSelector,
+            status: 'Received' as SubgraphBridgeStatus,
+            sentAt: timestamp,
+            sentAtBlock: block,
+            completedAt: null,
+            completedAtBlock: null,
+            transactionHash: log.transactionHash,
+          };
+          transfer.status = 'Received';
+          transfer.completedAt = timestamp;
+          transfer.completedAtBlock = block;
+          this.bridgeTransfers.set(args.messageId, transfer);
+
+          if (recipient !== ethers.ZeroAddress) {
+            this.touch(recipient, log, timestamp).totalReceived += args.amount;
+          }
+          break;
+        }
+      }
+    }
+
+    this.deposits.reverse();
+    this.withdrawals.reverse();
+    this.rebases.reverse();
+  }
+
+  /**
+   * Get or create a user and record the activity
+   */
+  private touch(address: string, log: Log, timestamp: bigint): UserPortfolio & { txs: Set<string> } {
+    const id = address.toLowerCase();
+    let user = this.users.get(id);
+
+    if (!user) {
+      user = {
+        id,
+        totalDeposited: 0n,
+        totalWithdrawn: 0n,
+        currentVaultBalance: 0n,
+        currentShares: 0n,
+        tokenBalance: 0n,
+        tokenShares: 0n,
+        interestRate: 0,
+        votingPower: 0n,
+        delegatedTo: null,
+        totalBridged: 0n,
+        totalReceived: 0n,
+        tier: 'Bronze',
+        tierBonus: 0,
+        firstSeenTimestamp: timestamp,
+        firstSeenBlock: BigInt(log.blockNumber),
+        lastActivityTimestamp: timestamp,
+        transactionCount: 0n,
+        txs: new Set(),
+      };
+      this.users.set(id, user);
+    }
+
+    user.lastActivityTimestamp = timestamp;
+    user.txs.add(log.transactionHash);
+    return user;
+  }
+
+  /**
+   * Timestamps for blocks that produced logs
+   */
+  private async loadTimestamps(): Promise<void> {
+    const missing = Array.from(new Set(this.logs.map(log => log.blockNumber)))
+      .filter(number => !this.timestamps.has(number));
+
+    for (let i = 0; i < missing.length; i += 10) {
+      const blocks = await Promise.all(missing.slice(i, i + 10).map(number => this.provider.getBlock(number)));
+      for (const block of blocks) {
+        if (block) this.timestamps.set(block.number, BigInt(block.timestamp));
+      }
+    }
+  }
+
+  /**
+   * Transaction senders for bridge sends, which the event does not carry
+   */
+  private async loadSenders(): Promise<void> {
+    const bridge = this.network.bridgeAddress?.toLowerCase();
+    const missing = Array.from(new Set(
+      this.logs
+        .filter(log => log.address.toLowerCase() === bridge)
+        .map(log => log.transactionHash)
+    )).filter(hash => !this.txSenders.has(hash));
+
+    for (let i = 0; i < missing.length; i += 10) {
+      const txs = await Promise.all(missing.slice(i, i + 10).map(hash => this.provider.getTransaction(hash)));
+      for (const tx of txs) {
+        if (tx) this.txSenders.set(tx.hash, tx.from);
+      }
+    }
+  }
+}
+
+function pageSize(options: PageOptions): number {
+  return Math.min(Math.max(options.first ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+}
+
+/**
+ * Page through an in-memory list that is already newest first
+ */
+function paginate<T extends { id: string }>(
+  items: T[],
+  blockOf: (item: T) => bigint,
+  options: PageOptions
+): Page<T> {
+  const first = pageSize(options);
+  const after = options.after ? decodeCursor(options.after) : null;
+
+  const remaining = after
+    ? items.filter(item => {
+      const block = blockOf(item);
+      const cursorBlock = BigInt(after.block);
+      return block < cursorBlock || (block === cursorBlock && !after.ids.includes(item.id));
+    })
+    : items;
+
+  return toPage(remaining.slice(0, first), remaining.length > first, blockOf, after);
+}
+
+/**
+ * Build a page and the cursor for the one after it
+ */
+function toPage<T>(items: T[], hasMore: boolean, blockOf: (item: T) => bigint, after: Cursor | null): Page<T> {
+  if (!hasMore || items.length === 0) {
+    return { items, cursor: null, hasMore: false };
+  }
+
+  const block = blockOf(items[items.length - 1]);
+  const ids = items
+    .filter(item => blockOf(item) === block)
+    .map(item => (item as unknown as { id: string }).id);
+
+  // Items from the same block returned by earlier pages stay excluded
+  if (after && BigInt(after.block) === block) ids.unshift(...after.ids);
+
+  return { items, cursor: encodeCursor({ block: block.toString(), ids }), hasMore: true };
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return ethers.encodeBase64(ethers.toUtf8Bytes(JSON.stringify(cursor)));
+}
+
+function decodeCursor(value: string): Cursor {
+  try {
+    const cursor = JSON.parse(ethers.toUtf8String(ethers.decodeBase64(value)));
+    if (typeof cursor.block !== 'string' || !Array.isArray(cursor.ids)) throw new Error();
+    return cursor;
+  } catch {
+    throw new Error(`Invalid cursor: ${value}`);
+  }
+}
+
+function logKey(log: Log): string {
+  return `${log.transactionHash}-${log.index}`;
+}
+
+function clampZero(value: bigint): bigint {
+  return value < 0n ? 0n : value;
+}
+
+/**
+ * Percent change with the subgraph's precision trimmed to 18 decimals
+ */
+function percentChange(before: bigint, after: bigint): string {
+  if (before === 0n) return '0';
+  const formatted = ethers.formatUnits(((after - before) * 100n * 10n ** 18n) / before, 18);
+  return formatted.endsWith('.0') ? formatted.slice(0, -2) : formatted;
+}
+
+function big(value: string): bigint {
+  return BigInt(value);
+}
+
+function optionalBig(value: string | null): bigint | null {
+  return value === null || value === undefined ? null : BigInt(value);
+}
+
+function toPortfolio(raw: any): UserPortfolio {
+  return {
+    id: raw.id,
+    totalDeposited: big(raw.totalDeposited),
+    totalWithdrawn: big(raw.totalWithdrawn),
+    currentVaultBalance: big(raw.currentVaultBalance),
+    currentShares: big(raw.currentShares),
+    tokenBalance: big(raw.tokenBalance),
+    tokenShares: big(raw.tokenShares),
+    interestRate: raw.interestRate,
+    votingPower: big(raw.votingPower),
+    delegatedTo: raw.delegatedTo?.id ?? null,
+    totalBridged: big(raw.totalBridged),
+    totalReceived: big(raw.totalReceived),
+    tier: raw.tier,
+    tierBonus: raw.tierBonus,
+    firstSeenTimestamp: big(raw.firstSeenTimestamp),
+    firstSeenBlock: big(raw.firstSeenBlock),
+    lastActivityTimestamp: big(raw.lastActivityTimestamp),
+    transactionCount: big(raw.transactionCount),
+  };
+}
+
+function toDeposit(raw: any): SubgraphDeposit {
+  return {
+    id: raw.id,
+    user: raw.user.id,
+    amount: big(raw.amount),
+    shares: big(raw.shares),
+    interestRate: raw.interestRate,
+    timestamp: big(raw.timestamp),
+    blockNumber: big(raw.blockNumber),
+    transactionHash: raw.transactionHash,
+  };
+}
+
+function toWithdrawal(raw: any): SubgraphWithdrawal {
+  return {
+    id: raw.id,
+    user: raw.user.id,
+    amount: big(raw.amount),
+    shares: big(raw.shares),
+    timestamp: big(raw.timestamp),
+    blockNumber: big(raw.blockNumber),
+    transactionHash: raw.transactionHash,
+  };
+}
+
+function toRebase(raw: any): SubgraphRebase {
+  return {
+    id: raw.id,
+    epoch: big(raw.epoch),
+    previousSupply: big(raw.previousSupply),
+    newSupply: big(raw.newSupply),
+    delta: big(raw.delta),
+    percentChange: raw.percentChange,
+    timestamp: big(raw.timestamp),
+    blockNumber: big(raw.blockNumber),
+    transactionHash: raw.transactionHash,
+  };
+}
+
+function toVote(raw: any): SubgraphVote {
+  return {
+    id: raw.id,
+    proposalId: big(raw.proposal.proposalId),
+    voter: raw.voter.id,
+    support: raw.support,
+    supportType: raw.supportType,
+    votes: big(raw.votes),
+    reason: raw.reason,
+    timestamp: big(raw.timestamp),
+    blockNumber: big(raw.blockNumber),
+    transactionHash: raw.transactionHash,
+  };
+}
+
+function toProposal(raw: any): SubgraphProposal {
+  return {
+    id: raw.id,
+    proposalId: big(raw.proposalId),
+    proposer: raw.proposer.id,
+    targets: raw.targets,
+    values: raw.values.map(big),
+    signatures: raw.signatures,
+    calldatas: raw.calldatas,
+    description: raw.description,
+    title: raw.title ?? null,
+    proposalType: raw.proposalType ?? null,
+    startBlock: big(raw.startBlock),
+    endBlock: big(raw.endBlock),
+    state: raw.state,
+    forVotes: big(raw.forVotes),
+    againstVotes: big(raw.againstVotes),
+    abstainVotes: big(raw.abstainVotes),
+    eta: optionalBig(raw.eta),
+    queuedAt: optionalBig(raw.queuedAt),
+    executedAt: optionalBig(raw.executedAt),
+    canceledAt: optionalBig(raw.canceledAt),
+    createdAt: big(raw.createdAt),
+    createdAtBlock: big(raw.createdAtBlock),
+    transactionHash: raw.transactionHash,
+    votes: (raw.votes ?? []).map(toVote),
+  };
+}
+
+function toBridgeTransfer(raw: any): SubgraphBridgeTransfer {
+  return {
+    id: raw.id,
+    messageId: raw.messageId,
+    sender: raw.sender.id,
+    recipient: raw.recipient,
+    amount: big(raw.amount),
+    sourceChain: big(raw.sourceChain),
+    destinationChain: big(raw.destinationChain),
+    status: raw.status,
+    sentAt: big(raw.sentAt),
+    sentAtBlock: big(raw.sentAtBlock),
+    completedAt: optionalBig(raw.completedAt),
+    completedAtBlock: optionalBig(raw.completedAtBlock),
+    transactionHash: raw.transactionHash,
+  };
+}
+
+export default SubgraphClient;
@@ -410,20 +410,19 @@ export class BridgeTxBuilder extends TransactionBuilder {
    */
   crossChainTransfer(
     bridgeAddress: string,
-    destChain: number,
-    receiver: string,
+    destChain: bigint,
+    recipient: string,
     amount: string
   ): this {
     const iface = new ethers.Interface([
-      'function sendTokens(uint64 destChain, address receiver, uint256 amount, address recipient)',
+      'function bridgeTokens(uint64 _destinationChain, address _recipient, uint256 _amount) returns (bytes32)',
     ]);
 
     const amountBn = ethers.parseUnits(amount, 18);
-    const calldata = iface.encodeFunctionData('sendTokens', [
+    const calldata = iface.encodeFunctionData('bridgeTokens', [
       destChain,
-      receiver,
+      recipient,
       amountBn,
-      receiver, // recipient same as receiver in this context
     ]);
 
     this.targets.push(bridgeAddress);
@@ -435,27 +434,171 @@ export class BridgeTxBuilder extends TransactionBuilder {
   }
 
   /**
-   * Set rate limits
+   * Set inbound rate limit (token bucket) for a source chain
    */
-  setRateLimits(
+  setRateLimit(
     bridgeAddress: string,
-    maxPerMessage: string,
-    maxPerDay: string
+    sourceChain: bigint,
+    tokensPerSecond: string,
+    maxBurstSize: string
   ): this {
     const iface = new ethers.Interface([
-      'function setRateLimits(uint256 maxPerMessage, uint256 maxPerDay)',
+      'function setRateLimit(uint64 _sourceChain, uint256 _tokensPerSecond, uint256 _maxBurstSize)',
+    ]);
+
+    const tokensPerSecondBn = ethers.parseUnits(tokensPerSecond, 18);
+    const maxBurstSizeBn = ethers.parseUnits(maxBurstSize, 18);
+
+    const calldata = iface.encodeFunctionData('setRateLimit', [
+      sourceChain,
+      tokensPerSecondBn,
+      maxBurstSizeBn,
     ]);
 
-    const maxPerMessageBn = ethers.parseUnits(maxPerMessage, 18);
-    const maxPerDayBn = ethers.parseUnits(maxPerDay, 18);
+    this.targets.push(bridgeAddress);
+    this.values.push(0n);
+    this.calldatas.push(calldata);
+
+    this.description = `Set rate limit for chain ${sourceChain}: ${tokensPerSecond}/s, burst ${maxBurstSize}`;
+    return this;
+  }
+
+  /**
+   * Configure a destination chain
+   */
+  configureChain(
+    bridgeAddress: string,
+    chainSelector: bigint,
+    receiver: string,
+    minAmount: string,
+    maxAmount: string,
+    batchWindow: number
+  ): this {
+    const iface = new ethers.Interface([
+      'function configureChain(uint64 _chainSelector, address _receiver, uint256 _minAmount, uint256 _maxAmount, uint256 _batchWindow)',
+    ]);
 
-    const calldata = iface.encodeFunctionData('setRateLimits', [maxPerMessageBn, maxPerDayBn]);
+    const calldata = iface.encodeFunctionData('configureChain', [
+      chainSelector,
+      receiver,
+      ethers.parseUnits(minAmount, 18),
+      ethers.parseUnits(maxAmount, 18),
+      batchWindow,
+    ]);
 
     this.targets.push(bridgeAddress);
     this.values.push(0n);
     this.calldatas.push(calldata);
 
-    this.description = `Set rate limits: ${maxPerMessage}/msg, ${maxPerDay}/day`;
+    this.description = `Configure chain ${chainSelector}: ${minAmount}-${maxAmount} tokens`;
+    return this;
+  }
+
+  /**
+   * Set description
+   */
+  setDescription(desc: string): this {
+    this.description = desc;
+    return this;
+  }
+}
+
+/**
+ * Interest Strategy Transaction Builder - Owner-only AdvancedInterestStrategy calls
+ *
+ * Arguments are checked against the contract's own limits so an invalid
+ * proposal fails here rather than at execution.
+ */
+export class StrategyTxBuilder extends TransactionBuilder {
+  private static readonly MIN_LOCK_DURATION = 7 * 86_400;
+  private static readonly MAX_LOCK_DURATION = 4 * 365 * 86_400;
+
+  /**
+   * Set the utilization curve (all values in bps)
+   */
+  setUtilizationRates(
+    strategyAddress: string,
+    kink: number,
+    rateAtZero: number,
+    rateAtKink: number,
+    rateAtMax: number
+  ): this {
+    if (kink < 1000 || kink > 10000) {
+      throw new Error(`InvalidUtilizationRate: kink ${kink} must be between 1000 and 10000 bps`);
+    }
+    if (!(rateAtZero < rateAtKink && rateAtKink < rateAtMax)) {
+      throw new Error('InvalidUtilizationRate: rates must increase from zero to kink to max');
+    }
+
+    const iface = new ethers.Interface([
+      'function setUtilizationRates(uint256 kink, uint256 rateAtZero, uint256 rateAtKink, uint256 rateAtMax)',
+    ]);
+
+    const calldata = iface.encodeFunctionData('setUtilizationRates', [kink, rateAtZero, rateAtKink, rateAtMax]);
+
+    this.targets.push(strategyAddress);
+    this.values.push(0n);
+    this.calldatas.push(calldata);
+
+    this.description = `Set utilization curve: ${rateAtZero} bps at 0%, ${rateAtKink} bps at ${kink / 100}%, ${rateAtMax} bps at 100%`;
+    return this;
+  }
+
+  /**
+   * Append a deposit tier (minimums must increase)
+   */
+  addTier(strategyAddress: string, minDeposit: string, bonusRateBps: number): this {
+    if (bonusRateBps > 10000) {
+      throw new Error(`InvalidTierConfiguration: bonus ${bonusRateBps} exceeds 10000 bps`);
+    }
+
+    const iface = new ethers.Interface([
+      'function addTier(uint256 minDeposit, uint256 bonusRateBps)',
+    ]);
+
+    const calldata = iface.encodeFunctionData('addTier', [ethers.parseUnits(minDeposit, 18), bonusRateBps]);
+
+    this.targets.push(strategyAddress);
+    this.values.push(0n);
+    this.calldatas.push(calldata);
+
+    this.description = `Add tier: ${minDeposit} ETH and above earns +${bonusRateBps} bps`;
+    return this;
+  }
+
+  /**
+   * Lock a user's deposit for a bonus rate
+   */
+  lockDeposit(
+    strategyAddress: string,
+    user: string,
+    amount: string,
+    durationSeconds: number,
+    unlockBonusBps: number
+  ): this {
+    if (durationSeconds < StrategyTxBuilder.MIN_LOCK_DURATION || durationSeconds > StrategyTxBuilder.MAX_LOCK_DURATION) {
+      throw new Error(`InvalidLockDuration: ${durationSeconds}s must be between 1 week and 4 years`);
+    }
+    if (unlockBonusBps > 10000) {
+      throw new Error(`InvalidTierConfiguration: lock bonus ${unlockBonusBps} exceeds 10000 bps`);
+    }
+
+    const iface = new ethers.Interface([
+      'function lockDeposit(address user, uint256 amount, uint256 duration, uint256 unlockBonus)',
+    ]);
+
+    const calldata = iface.encodeFunctionData('lockDeposit', [
+      user,
+      ethers.parseUnits(amount, 18),
+      durationSeconds,
+      unlockBonusBps,
+    ]);
+
+    this.targets.push(strategyAddress);
+    this.values.push(0n);
+    this.calldatas.push(calldata);
+
+    this.description = `Lock ${amount} ETH for ${user} over ${Math.round(durationSeconds / 86_400)} days at +${unlockBonusBps} bps`;
     return this;
   }
 
@@ -507,6 +650,14 @@ export class BatchTxBuilder {
     return this;
   }
 
+  /**
+   * Add interest strategy transaction
+   */
+  addStrategy(builder: StrategyTxBuilder): this {
+    this.batches.push(builder.build());
+    return this;
+  }
+
   /**
    * Set overall description
    */
@@ -557,5 +708,6 @@ export default {
   TokenTxBuilder,
   GovernanceTxBuilder,
   BridgeTxBuilder,
+  StrategyTxBuilder,
   BatchTxBuilder,
 };
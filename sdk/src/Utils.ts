@@ -4,6 +4,7 @@
  */
 
 import { ethers } from 'ethers';
+import { ErrorDecoderRegistry, defaultErrorRegistry } from './ErrorDecoder';
 
 /**
  * Amount formatting utilities
@@ -161,17 +162,63 @@ export class AddressUtils {
   }
 }
 
+/**
+ * Known chain metadata; `ChainUtils.registerChain` adds to it
+ */
+export interface ChainInfo {
+  name: string;
+  rpc?: string;
+  explorer?: string;
+  /** CCIP chain selector */
+  ccipChainSelector?: bigint;
+  testnet?: boolean;
+}
+
 /**
  * Chain utilities
  */
 export class ChainUtils {
-  private static readonly CHAIN_DATA: Record<number, { name: string; rpc?: string; explorer?: string }> = {
-    11155111: { name: 'Sepolia', explorer: 'https://sepolia.etherscan.io' },
-    84532: { name: 'Base Sepolia', explorer: 'https://sepolia.basescan.org' },
-    1: { name: 'Ethereum', explorer: 'https://etherscan.io' },
-    8453: { name: 'Base', explorer: 'https://basescan.org' },
+  private static readonly CHAIN_DATA: Record<number, ChainInfo> = {
+    11155111: {
+      name: 'Sepolia',
+      explorer: 'https://sepolia.etherscan.io',
+      ccipChainSelector: 16015286601757825753n,
+      testnet: true,
+    },
+    84532: {
+      name: 'Base Sepolia',
+      explorer: 'https://sepolia.basescan.org',
+      ccipChainSelector: 10344971235874465080n,
+      testnet: true,
+    },
+    1: { name: 'Ethereum', explorer: 'https://etherscan.io', ccipChainSelector: 5009297550715157269n, testnet: false },
+    8453: { name: 'Base', explorer: 'https://basescan.org', ccipChainSelector: 15971525489660198786n, testnet: false },
   };
 
+  /**
+   * Add or update a chain; unset fields keep their current values
+   */
+  static registerChain(chainId: number, info: Partial<ChainInfo>): void {
+    const current = ChainUtils.CHAIN_DATA[chainId];
+    const defined = Object.fromEntries(Object.entries(info).filter(([, value]) => value !== undefined));
+    ChainUtils.CHAIN_DATA[chainId] = { ...current, ...defined, name: info.name ?? current?.name ?? `Unknown (${chainId})` };
+  }
+
+  /**
+   * Get chain metadata
+   */
+  static getChainInfo(chainId: number): ChainInfo | undefined {
+    const info = ChainUtils.CHAIN_DATA[chainId];
+    return info ? { ...info } : undefined;
+  }
+
+  /**
+   * Get every known chain id
+   */
+  static getChainIds(): number[] {
+    return Object.keys(ChainUtils.CHAIN_DATA).map(Number);
+  }
+
   /**
    * Get chain name
    */
@@ -179,6 +226,20 @@ export class ChainUtils {
     return ChainUtils.CHAIN_DATA[chainId]?.name || `Unknown (${chainId})`;
   }
 
+  /**
+   * Get CCIP chain selector
+   */
+  static getChainSelector(chainId: number): bigint | undefined {
+    return ChainUtils.CHAIN_DATA[chainId]?.ccipChainSelector;
+  }
+
+  /**
+   * Get chain id for a CCIP chain selector
+   */
+  static getChainIdBySelector(selector: bigint): number | undefined {
+    return ChainUtils.getChainIds().find((chainId) => ChainUtils.CHAIN_DATA[chainId].ccipChainSelector === selector);
+  }
+
   /**
    * Get explorer URL for transaction
    */
@@ -199,14 +260,14 @@ export class ChainUtils {
    * Check if testnet
    */
   static isTestnet(chainId: number): boolean {
-    return [11155111, 84532].includes(chainId);
+    return ChainUtils.CHAIN_DATA[chainId]?.testnet === true;
   }
 
   /**
    * Check if mainnet
    */
   static isMainnet(chainId: number): boolean {
-    return [1, 8453].includes(chainId);
+    return ChainUtils.CHAIN_DATA[chainId]?.testnet === false;
   }
 }
 
@@ -258,7 +319,7 @@ export class Validators {
    * Validate chain ID
    */
   static isValidChainId(chainId: number): boolean {
-    return [11155111, 84532, 1, 8453].includes(chainId);
+    return ChainUtils.getChainIds().includes(chainId);
   }
 
   /**
@@ -281,10 +342,14 @@ export class Validators {
 
 /**
  * Fee estimation utilities
+ *
+ * The per-operation gas figures are rough constants; use GasFeeEstimator
+ * (or a helper's estimateCost) to estimate the actual encoded call.
  */
 export class FeeEstimator {
   /**
    * Estimate gas for deposit (typical ~145k)
+   * @deprecated Use GasFeeEstimator.estimate or a helper's estimateCost
    */
   static estimateDepositGas(): bigint {
     return BigInt(145000);
@@ -292,6 +357,7 @@ export class FeeEstimator {
 
   /**
    * Estimate gas for withdrawal (typical ~148k)
+   * @deprecated Use GasFeeEstimator.estimate or a helper's estimateCost
    */
   static estimateWithdrawGas(): bigint {
     return BigInt(148000);
@@ -299,6 +365,7 @@ export class FeeEstimator {
 
   /**
    * Estimate gas for transfer (typical ~65k)
+   * @deprecated Use GasFeeEstimator.estimate or a helper's estimateCost
    */
   static estimateTransferGas(): bigint {
     return BigInt(65000);
@@ -306,6 +373,7 @@ export class FeeEstimator {
 
   /**
    * Estimate gas for approval (typical ~46k)
+   * @deprecated Use GasFeeEstimator.estimate or a helper's estimateCost
    */
   static estimateApprovalGas(): bigint {
     return BigInt(46000);
@@ -313,6 +381,7 @@ export class FeeEstimator {
 
   /**
    * Estimate gas for rebase (typical ~95k)
+   * @deprecated Use GasFeeEstimator.estimate or a helper's estimateCost
    */
   static estimateRebaseGas(): bigint {
     return BigInt(95000);
@@ -320,6 +389,7 @@ export class FeeEstimator {
 
   /**
    * Estimate gas for vote cast (typical ~85k)
+   * @deprecated Use GasFeeEstimator.estimate or a helper's estimateCost
    */
   static estimateVoteCastGas(): bigint {
     return BigInt(85000);
@@ -327,6 +397,7 @@ export class FeeEstimator {
 
   /**
    * Estimate gas for proposal creation (typical ~190k)
+   * @deprecated Use GasFeeEstimator.estimate or a helper's estimateCost
    */
   static estimateProposalGas(): bigint {
     return BigInt(190000);
@@ -334,6 +405,7 @@ export class FeeEstimator {
 
   /**
    * Estimate gas for cross-chain transfer (typical ~350k)
+   * @deprecated Use GasFeeEstimator.estimate or a helper's estimateCost
    */
   static estimateCrossChainGas(): bigint {
     return BigInt(350000);
@@ -379,8 +451,17 @@ export class ErrorFormatter {
 
   /**
    * Extract revert reason
+   *
+   * Custom errors and require strings are decoded from the revert data when
+   * present; message matching is only a fallback for providers that drop it.
    */
   static extractRevertReason(error: any): string | null {
+    const data = ErrorDecoderRegistry.extractRevertData(error);
+    const decoded = data ? defaultErrorRegistry.decodeData(data) : null;
+    if (decoded) {
+      return decoded.humanMessage;
+    }
+
     const message = ErrorFormatter.formatError(error);
 
     // Try to extract revert reason from common patterns
@@ -0,0 +1,275 @@
+/* Autogenerated by sdk/scripts/generate-bindings.mjs from the Foundry build. Do not edit. */
+
+/**
+ * @fileoverview Typed bindings for AdvancedInterestStrategy
+ */
+
+import type {
+  AddressLike,
+  BigNumberish,
+  BytesLike,
+  ContractRunner,
+  ContractTransactionResponse,
+  Overrides,
+} from 'ethers';
+import { BuiltinError, TypedContract } from './common';
+
+export const AdvancedInterestStrategyAbi = [
+  {"inputs":[{"internalType":"address","name":"_vault","type":"address"}],"stateMutability":"nonpayable","type":"constructor"},
+  {"inputs":[],"name":"DepositsNotLocked","type":"error"},
+  {"inputs":[],"name":"InvalidLockDuration","type":"error"},
+  {"inputs":[],"name":"InvalidPerformanceFee","type":"error"},
+  {"inputs":[],"name":"InvalidTierConfiguration","type":"error"},
+  {"inputs":[],"name":"InvalidUtilizationRate","type":"error"},
+  {"inputs":[],"name":"InvalidVaultAddress","type":"error"},
+  {"inputs":[],"name":"LockNotExpired","type":"error"},
+  {"inputs":[{"internalType":"address","name":"owner","type":"address"}],"name":"OwnableInvalidOwner","type":"error"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"}],"name":"OwnableUnauthorizedAccount","type":"error"},
+  {"inputs":[],"name":"TierNotFound","type":"error"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"user","type":"address"},{"indexed":false,"internalType":"uint256","name":"amount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"duration","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"unlockBonus","type":"uint256"}],"name":"LockCreated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"user","type":"address"},{"indexed":false,"internalType":"uint256","name":"newEndTime","type":"uint256"}],"name":"LockExtended","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"user","type":"address"},{"indexed":false,"internalType":"uint256","name":"amount","type":"uint256"}],"name":"LockUnlocked","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"previousOwner","type":"address"},{"indexed":true,"internalType":"address","name":"newOwner","type":"address"}],"name":"OwnershipTransferred","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"user","type":"address"},{"indexed":false,"internalType":"uint256","name":"excessReturns","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"fee","type":"uint256"}],"name":"PerformanceFeeCharged","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"targetReturn","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"performanceFee","type":"uint256"}],"name":"PerformanceFeeConfigUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"tierIndex","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"minDeposit","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"bonusRate","type":"uint256"}],"name":"TierAdded","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"tierIndex","type":"uint256"}],"name":"TierRemoved","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"kink","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"rateAtZero","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"rateAtKink","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"rateAtMax","type":"uint256"}],"name":"UtilizationRatesUpdated","type":"event"},
+  {"inputs":[{"internalType":"uint256","name":"minDeposit","type":"uint256"},{"internalType":"uint256","name":"bonusRateBps","type":"uint256"}],"name":"addTier","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"userBalance","type":"uint256"},{"internalType":"uint256","name":"originalDeposit","type":"uint256"},{"internalType":"uint256","name":"elapsedSeconds","type":"uint256"}],"name":"calculatePerformanceFee","outputs":[{"internalType":"uint256","name":"excessReturns","type":"uint256"},{"internalType":"uint256","name":"performanceFee","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"userDeposit","type":"uint256"},{"internalType":"uint256","name":"utilizationBps","type":"uint256"}],"name":"calculateUserRate","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"},{"internalType":"uint256","name":"userDeposit","type":"uint256"},{"internalType":"uint256","name":"utilizationBps","type":"uint256"}],"name":"calculateUserRateWithLock","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"utilizationBps","type":"uint256"}],"name":"calculateUtilizationRate","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"},{"internalType":"uint256","name":"additionalDuration","type":"uint256"}],"name":"extendLock","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"}],"name":"getLockBonus","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"}],"name":"getLockStatus","outputs":[{"internalType":"uint256","name":"lockedAmount","type":"uint256"},{"internalType":"uint256","name":"lockEndTime","type":"uint256"},{"internalType":"bool","name":"isLocked","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"}],"name":"getPerformanceFeeInfo","outputs":[{"internalType":"uint256","name":"targetReturn","type":"uint256"},{"internalType":"uint256","name":"performanceFee","type":"uint256"},{"internalType":"uint256","name":"accumulatedReturns","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"tierIndex","type":"uint256"}],"name":"getTier","outputs":[{"components":[{"internalType":"uint256","name":"minDeposit","type":"uint256"},{"internalType":"uint256","name":"bonusRateBps","type":"uint256"}],"internalType":"struct AdvancedInterestStrategy.TierConfig","name":"","type":"tuple"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"depositAmount","type":"uint256"}],"name":"getTierBonus","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getTierCount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getTiers","outputs":[{"components":[{"internalType":"uint256","name":"minDeposit","type":"uint256"},{"internalType":"uint256","name":"bonusRateBps","type":"uint256"}],"internalType":"struct AdvancedInterestStrategy.TierConfig[]","name":"","type":"tuple[]"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getUtilizationConfig","outputs":[{"internalType":"uint256","name":"kink","type":"uint256"},{"internalType":"uint256","name":"rateAtZero","type":"uint256"},{"internalType":"uint256","name":"rateAtKink","type":"uint256"},{"internalType":"uint256","name":"rateAtMax","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"},{"internalType":"uint256","name":"duration","type":"uint256"},{"internalType":"uint256","name":"unlockBonus","type":"uint256"}],"name":"lockDeposit","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"owner","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"}],"name":"recordPerformanceCheck","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"tierIndex","type":"uint256"}],"name":"removeTier","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"renounceOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"targetReturnBps","type":"uint256"},{"internalType":"uint256","name":"performanceFeeBps","type":"uint256"},{"internalType":"address","name":"feeRecipient","type":"address"}],"name":"setPerformanceFeeConfig","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"kink","type":"uint256"},{"internalType":"uint256","name":"rateAtZero","type":"uint256"},{"internalType":"uint256","name":"rateAtKink","type":"uint256"},{"internalType":"uint256","name":"rateAtMax","type":"uint256"}],"name":"setUtilizationRates","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"newOwner","type":"address"}],"name":"transferOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"}],"name":"unlockDeposit","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"vault","outputs":[{"internalType":"contract RebaseTokenVault","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+] as const;
+
+export type AdvancedInterestStrategyTierConfigStructOutput = [minDeposit: bigint, bonusRateBps: bigint] & { minDeposit: bigint; bonusRateBps: bigint; };
+
+export interface AdvancedInterestStrategyLockCreatedEvent {
+  user: string;
+  amount: bigint;
+  duration: bigint;
+  unlockBonus: bigint;
+}
+
+export interface AdvancedInterestStrategyLockExtendedEvent {
+  user: string;
+  newEndTime: bigint;
+}
+
+export interface AdvancedInterestStrategyLockUnlockedEvent {
+  user: string;
+  amount: bigint;
+}
+
+export interface AdvancedInterestStrategyOwnershipTransferredEvent {
+  previousOwner: string;
+  newOwner: string;
+}
+
+export interface AdvancedInterestStrategyPerformanceFeeChargedEvent {
+  user: string;
+  excessReturns: bigint;
+  fee: bigint;
+}
+
+export interface AdvancedInterestStrategyPerformanceFeeConfigUpdatedEvent {
+  targetReturn: bigint;
+  performanceFee: bigint;
+}
+
+export interface AdvancedInterestStrategyTierAddedEvent {
+  tierIndex: bigint;
+  minDeposit: bigint;
+  bonusRate: bigint;
+}
+
+export interface AdvancedInterestStrategyTierRemovedEvent {
+  tierIndex: bigint;
+}
+
+export interface AdvancedInterestStrategyUtilizationRatesUpdatedEvent {
+  kink: bigint;
+  rateAtZero: bigint;
+  rateAtKink: bigint;
+  rateAtMax: bigint;
+}
+
+export interface AdvancedInterestStrategyEvents {
+  LockCreated: AdvancedInterestStrategyLockCreatedEvent;
+  LockExtended: AdvancedInterestStrategyLockExtendedEvent;
+  LockUnlocked: AdvancedInterestStrategyLockUnlockedEvent;
+  OwnershipTransferred: AdvancedInterestStrategyOwnershipTransferredEvent;
+  PerformanceFeeCharged: AdvancedInterestStrategyPerformanceFeeChargedEvent;
+  PerformanceFeeConfigUpdated: AdvancedInterestStrategyPerformanceFeeConfigUpdatedEvent;
+  TierAdded: AdvancedInterestStrategyTierAddedEvent;
+  TierRemoved: AdvancedInterestStrategyTierRemovedEvent;
+  UtilizationRatesUpdated: AdvancedInterestStrategyUtilizationRatesUpdatedEvent;
+}
+
+export type AdvancedInterestStrategyError =
+  | { name: 'DepositsNotLocked'; args: {}}
+  | { name: 'InvalidLockDuration'; args: {}}
+  | { name: 'InvalidPerformanceFee'; args: {}}
+  | { name: 'InvalidTierConfiguration'; args: {}}
+  | { name: 'InvalidUtilizationRate'; args: {}}
+  | { name: 'InvalidVaultAddress'; args: {}}
+  | { name: 'LockNotExpired'; args: {}}
+  | { name: 'OwnableInvalidOwner'; args: { owner: string; } }
+  | { name: 'OwnableUnauthorizedAccount'; args: { account: string; } }
+  | { name: 'TierNotFound'; args: {}}
+  | BuiltinError;
+
+export interface AdvancedInterestStrategyWriteFunctions {
+  addTier: { args: [minDeposit: BigNumberish, bonusRateBps: BigNumberish]; result: void };
+  extendLock: { args: [user: AddressLike, additionalDuration: BigNumberish]; result: void };
+  lockDeposit: { args: [user: AddressLike, amount: BigNumberish, duration: BigNumberish, unlockBonus: BigNumberish]; result: void };
+  recordPerformanceCheck: { args: [user: AddressLike]; result: void };
+  removeTier: { args: [tierIndex: BigNumberish]; result: void };
+  renounceOwnership: { args: []; result: void };
+  setPerformanceFeeConfig: { args: [targetReturnBps: BigNumberish, performanceFeeBps: BigNumberish, feeRecipient: AddressLike]; result: void };
+  setUtilizationRates: { args: [kink: BigNumberish, rateAtZero: BigNumberish, rateAtKink: BigNumberish, rateAtMax: BigNumberish]; result: void };
+  transferOwnership: { args: [newOwner: AddressLike]; result: void };
+  unlockDeposit: { args: [user: AddressLike]; result: void };
+}
+
+const AdvancedInterestStrategyWriteSignatures: Record<keyof AdvancedInterestStrategyWriteFunctions, string> = {
+  addTier: 'addTier(uint256,uint256)',
+  extendLock: 'extendLock(address,uint256)',
+  lockDeposit: 'lockDeposit(address,uint256,uint256,uint256)',
+  recordPerformanceCheck: 'recordPerformanceCheck(address)',
+  removeTier: 'removeTier(uint256)',
+  renounceOwnership: 'renounceOwnership()',
+  setPerformanceFeeConfig: 'setPerformanceFeeConfig(uint256,uint256,address)',
+  setUtilizationRates: 'setUtilizationRates(uint256,uint256,uint256,uint256)',
+  transferOwnership: 'transferOwnership(address)',
+  unlockDeposit: 'unlockDeposit(address)',
+};
+
+export class AdvancedInterestStrategyContract extends TypedContract<AdvancedInterestStrategyEvents, AdvancedInterestStrategyError, AdvancedInterestStrategyWriteFunctions> {
+  static readonly abi = AdvancedInterestStrategyAbi;
+
+  constructor(address: string, runner?: ContractRunner | null) {
+    super(address, AdvancedInterestStrategyAbi, AdvancedInterestStrategyWriteSignatures, runner);
+  }
+
+  connect(runner: ContractRunner | null): AdvancedInterestStrategyContract {
+    return new AdvancedInterestStrategyContract(this.address, runner);
+  }
+
+  addTier(minDeposit: BigNumberish, bonusRateBps: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('addTier(uint256,uint256)', [minDeposit, bonusRateBps], overrides);
+  }
+
+  calculatePerformanceFee(userBalance: BigNumberish, originalDeposit: BigNumberish, elapsedSeconds: BigNumberish): Promise<[excessReturns: bigint, performanceFee: bigint] & { excessReturns: bigint; performanceFee: bigint; }> {
+    return this.read('calculatePerformanceFee(uint256,uint256,uint256)', [userBalance, originalDeposit, elapsedSeconds]);
+  }
+
+  calculateUserRate(userDeposit: BigNumberish, utilizationBps: BigNumberish): Promise<bigint> {
+    return this.read('calculateUserRate(uint256,uint256)', [userDeposit, utilizationBps]);
+  }
+
+  calculateUserRateWithLock(user: AddressLike, userDeposit: BigNumberish, utilizationBps: BigNumberish): Promise<bigint> {
+    return this.read('calculateUserRateWithLock(address,uint256,uint256)', [user, userDeposit, utilizationBps]);
+  }
+
+  calculateUtilizationRate(utilizationBps: BigNumberish): Promise<bigint> {
+    return this.read('calculateUtilizationRate(uint256)', [utilizationBps]);
+  }
+
+  extendLock(user: AddressLike, additionalDuration: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('extendLock(address,uint256)', [user, additionalDuration], overrides);
+  }
+
+  getLockBonus(user: AddressLike): Promise<bigint> {
+    return this.read('getLockBonus(address)', [user]);
+  }
+
+  getLockStatus(user: AddressLike): Promise<[lockedAmount: bigint, lockEndTime: bigint, isLocked: boolean] & { lockedAmount: bigint; lockEndTime: bigint; isLocked: boolean; }> {
+    return this.read('getLockStatus(address)', [user]);
+  }
+
+  getPerformanceFeeInfo(user: AddressLike): Promise<[targetReturn: bigint, performanceFee: bigint, accumulatedReturns: bigint] & { targetReturn: bigint; performanceFee: bigint; accumulatedReturns: bigint; }> {
+    return this.read('getPerformanceFeeInfo(address)', [user]);
+  }
+
+  getTier(tierIndex: BigNumberish): Promise<AdvancedInterestStrategyTierConfigStructOutput> {
+    return this.read('getTier(uint256)', [tierIndex]);
+  }
+
+  getTierBonus(depositAmount: BigNumberish): Promise<bigint> {
+    return this.read('getTierBonus(uint256)', [depositAmount]);
+  }
+
+  getTierCount(): Promise<bigint> {
+    return this.read('getTierCount()', []);
+  }
+
+  getTiers(): Promise<AdvancedInterestStrategyTierConfigStructOutput[]> {
+    return this.read('getTiers()', []);
+  }
+
+  getUtilizationConfig(): Promise<[kink: bigint, rateAtZero: bigint, rateAtKink: bigint, rateAtMax: bigint] & { kink: bigint; rateAtZero: bigint; rateAtKink: bigint; rateAtMax: bigint; }> {
+    return this.read('getUtilizationConfig()', []);
+  }
+
+  lockDeposit(user: AddressLike, amount: BigNumberish, duration: BigNumberish, unlockBonus: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('lockDeposit(address,uint256,uint256,uint256)', [user, amount, duration, unlockBonus], overrides);
+  }
+
+  owner(): Promise<string> {
+    return this.read('owner()', []);
+  }
+
+  recordPerformanceCheck(user: AddressLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('recordPerformanceCheck(address)', [user], overrides);
+  }
+
+  removeTier(tierIndex: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('removeTier(uint256)', [tierIndex], overrides);
+  }
+
+  renounceOwnership(overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('renounceOwnership()', [], overrides);
+  }
+
+  setPerformanceFeeConfig(targetReturnBps: BigNumberish, performanceFeeBps: BigNumberish, feeRecipient: AddressLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('setPerformanceFeeConfig(uint256,uint256,address)', [targetReturnBps, performanceFeeBps, feeRecipient], overrides);
+  }
+
+  setUtilizationRates(kink: BigNumberish, rateAtZero: BigNumberish, rateAtKink: BigNumberish, rateAtMax: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('setUtilizationRates(uint256,uint256,uint256,uint256)', [kink, rateAtZero, rateAtKink, rateAtMax], overrides);
+  }
+
+  transferOwnership(newOwner: AddressLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('transferOwnership(address)', [newOwner], overrides);
+  }
+
+  unlockDeposit(user: AddressLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('unlockDeposit(address)', [user], overrides);
+  }
+
+  vault(): Promise<string> {
+    return this.read('vault()', []);
+  }
+}
+
+export default AdvancedInterestStrategyContract;
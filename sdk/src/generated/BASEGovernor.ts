@@ -0,0 +1,510 @@
+/* Autogenerated by sdk/scripts/generate-bindings.mjs from the Foundry build. Do not edit. */
+
+/**
+ * @fileoverview Typed bindings for BASEGovernor
+ */
+
+import type {
+  AddressLike,
+  BigNumberish,
+  BytesLike,
+  ContractRunner,
+  ContractTransactionResponse,
+  Overrides,
+} from 'ethers';
+import { BuiltinError, TypedContract } from './common';
+
+export const BASEGovernorAbi = [
+  {"inputs":[{"internalType":"contract IVotes","name":"votesToken","type":"address"},{"internalType":"contract TimelockController","name":"timelockController","type":"address"}],"stateMutability":"nonpayable","type":"constructor"},
+  {"inputs":[],"name":"CheckpointUnorderedInsertion","type":"error"},
+  {"inputs":[],"name":"FailedInnerCall","type":"error"},
+  {"inputs":[{"internalType":"address","name":"voter","type":"address"}],"name":"GovernorAlreadyCastVote","type":"error"},
+  {"inputs":[{"internalType":"uint256","name":"proposalId","type":"uint256"}],"name":"GovernorAlreadyQueuedProposal","type":"error"},
+  {"inputs":[],"name":"GovernorDisabledDeposit","type":"error"},
+  {"inputs":[{"internalType":"address","name":"proposer","type":"address"},{"internalType":"uint256","name":"votes","type":"uint256"},{"internalType":"uint256","name":"threshold","type":"uint256"}],"name":"GovernorInsufficientProposerVotes","type":"error"},
+  {"inputs":[{"internalType":"uint256","name":"targets","type":"uint256"},{"internalType":"uint256","name":"calldatas","type":"uint256"},{"internalType":"uint256","name":"values","type":"uint256"}],"name":"GovernorInvalidProposalLength","type":"error"},
+  {"inputs":[{"internalType":"uint256","name":"quorumNumerator","type":"uint256"},{"internalType":"uint256","name":"quorumDenominator","type":"uint256"}],"name":"GovernorInvalidQuorumFraction","type":"error"},
+  {"inputs":[{"internalType":"address","name":"voter","type":"address"}],"name":"GovernorInvalidSignature","type":"error"},
+  {"inputs":[],"name":"GovernorInvalidVoteType","type":"error"},
+  {"inputs":[{"internalType":"uint256","name":"votingPeriod","type":"uint256"}],"name":"GovernorInvalidVotingPeriod","type":"error"},
+  {"inputs":[{"internalType":"uint256","name":"proposalId","type":"uint256"}],"name":"GovernorNonexistentProposal","type":"error"},
+  {"inputs":[{"internalType":"uint256","name":"proposalId","type":"uint256"}],"name":"GovernorNotQueuedProposal","type":"error"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"}],"name":"GovernorOnlyExecutor","type":"error"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"}],"name":"GovernorOnlyProposer","type":"error"},
+  {"inputs":[],"name":"GovernorQueueNotImplemented","type":"error"},
+  {"inputs":[{"internalType":"address","name":"proposer","type":"address"}],"name":"GovernorRestrictedProposer","type":"error"},
+  {"inputs":[{"internalType":"uint256","name":"proposalId","type":"uint256"},{"internalType":"enum IGovernor.ProposalState","name":"current","type":"uint8"},{"internalType":"bytes32","name":"expectedStates","type":"bytes32"}],"name":"GovernorUnexpectedProposalState","type":"error"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"},{"internalType":"uint256","name":"currentNonce","type":"uint256"}],"name":"InvalidAccountNonce","type":"error"},
+  {"inputs":[],"name":"InvalidShortString","type":"error"},
+  {"inputs":[],"name":"InvalidTimelockAddress","type":"error"},
+  {"inputs":[],"name":"InvalidVotesAddress","type":"error"},
+  {"inputs":[],"name":"QueueEmpty","type":"error"},
+  {"inputs":[],"name":"QueueFull","type":"error"},
+  {"inputs":[{"internalType":"uint8","name":"bits","type":"uint8"},{"internalType":"uint256","name":"value","type":"uint256"}],"name":"SafeCastOverflowedUintDowncast","type":"error"},
+  {"inputs":[{"internalType":"string","name":"str","type":"string"}],"name":"StringTooLong","type":"error"},
+  {"anonymous":false,"inputs":[],"name":"EIP712DomainChanged","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"proposalId","type":"uint256"}],"name":"ProposalCanceled","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"proposalId","type":"uint256"},{"indexed":false,"internalType":"address","name":"proposer","type":"address"},{"indexed":false,"internalType":"address[]","name":"targets","type":"address[]"},{"indexed":false,"internalType":"uint256[]","name":"values","type":"uint256[]"},{"indexed":false,"internalType":"string[]","name":"signatures","type":"string[]"},{"indexed":false,"internalType":"bytes[]","name":"calldatas","type":"bytes[]"},{"indexed":false,"internalType":"uint256","name":"voteStart","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"voteEnd","type":"uint256"},{"indexed":false,"internalType":"string","name":"description","type":"string"}],"name":"ProposalCreated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"proposalId","type":"uint256"},{"indexed":true,"internalType":"address","name":"proposer","type":"address"},{"indexed":false,"internalType":"string","name":"title","type":"string"},{"indexed":false,"internalType":"enum BASEGovernor.ProposalType","name":"proposalType","type":"uint8"},{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"}],"name":"ProposalCreatedWithMetadata","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"proposalId","type":"uint256"}],"name":"ProposalExecuted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"proposalId","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"etaSeconds","type":"uint256"}],"name":"ProposalQueued","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"oldProposalThreshold","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"newProposalThreshold","type":"uint256"}],"name":"ProposalThresholdSet","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"oldQuorumNumerator","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"newQuorumNumerator","type":"uint256"}],"name":"QuorumNumeratorUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"oldTimelock","type":"address"},{"indexed":false,"internalType":"address","name":"newTimelock","type":"address"}],"name":"TimelockChange","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"voter","type":"address"},{"indexed":false,"internalType":"uint256","name":"proposalId","type":"uint256"},{"indexed":false,"internalType":"uint8","name":"support","type":"uint8"},{"indexed":false,"internalType":"uint256","name":"weight","type":"uint256"},{"indexed":false,"internalType":"string","name":"reason","type":"string"}],"name":"VoteCast","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"voter","type":"address"},{"indexed":false,"internalType":"uint256","name":"proposalId","type":"uint256"},{"indexed":false,"internalType":"uint8","name":"support","type":"uint8"},{"indexed":false,"internalType":"uint256","name":"weight","type":"uint256"},{"indexed":false,"internalType":"string","name":"reason","type":"string"},{"indexed":false,"internalType":"bytes","name":"params","type":"bytes"}],"name":"VoteCastWithParams","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"oldVotingDelay","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"newVotingDelay","type":"uint256"}],"name":"VotingDelaySet","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"oldVotingPeriod","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"newVotingPeriod","type":"uint256"}],"name":"VotingPeriodSet","type":"event"},
+  {"inputs":[],"name":"BALLOT_TYPEHASH","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"CLOCK_MODE","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"COUNTING_MODE","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"pure","type":"function"},
+  {"inputs":[],"name":"EXTENDED_BALLOT_TYPEHASH","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address[]","name":"targets","type":"address[]"},{"internalType":"uint256[]","name":"values","type":"uint256[]"},{"internalType":"bytes[]","name":"calldatas","type":"bytes[]"},{"internalType":"bytes32","name":"descriptionHash","type":"bytes32"}],"name":"cancel","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"proposalId","type":"uint256"},{"internalType":"uint8","name":"support","type":"uint8"}],"name":"castVote","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"proposalId","type":"uint256"},{"internalType":"uint8","name":"support","type":"uint8"},{"internalType":"address","name":"voter","type":"address"},{"internalType":"bytes","name":"signature","type":"bytes"}],"name":"castVoteBySig","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"proposalId","type":"uint256"},{"internalType":"uint8","name":"support","type":"uint8"},{"internalType":"string","name":"reason","type":"string"}],"name":"castVoteWithReason","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"proposalId","type":"uint256"},{"internalType":"uint8","name":"support","type":"uint8"},{"internalType":"string","name":"reason","type":"string"},{"internalType":"bytes","name":"params","type":"bytes"}],"name":"castVoteWithReasonAndParams","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"proposalId","type":"uint256"},{"internalType":"uint8","name":"support","type":"uint8"},{"internalType":"address","name":"voter","type":"address"},{"internalType":"string","name":"reason","type":"string"},{"internalType":"bytes","name":"params","type":"bytes"},{"internalType":"bytes","name":"signature","type":"bytes"}],"name":"castVoteWithReasonAndParamsBySig","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"clock","outputs":[{"internalType":"uint48","name":"","type":"uint48"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address[]","name":"targets","type":"address[]"},{"internalType":"uint256[]","name":"values","type":"uint256[]"},{"internalType":"bytes[]","name":"calldatas","type":"bytes[]"},{"internalType":"string","name":"title","type":"string"},{"internalType":"enum BASEGovernor.ProposalType","name":"proposalType","type":"uint8"},{"internalType":"string","name":"description","type":"string"}],"name":"createProposalWithMetadata","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"eip712Domain","outputs":[{"internalType":"bytes1","name":"fields","type":"bytes1"},{"internalType":"string","name":"name","type":"string"},{"internalType":"string","name":"version","type":"string"},{"internalType":"uint256","name":"chainId","type":"uint256"},{"internalType":"address","name":"verifyingContract","type":"address"},{"internalType":"bytes32","name":"salt","type":"bytes32"},{"internalType":"uint256[]","name":"extensions","type":"uint256[]"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address[]","name":"targets","type":"address[]"},{"internalType":"uint256[]","name":"values","type":"uint256[]"},{"internalType":"bytes[]","name":"calldatas","type":"bytes[]"},{"internalType":"bytes32","name":"descriptionHash","type":"bytes32"}],"name":"execute","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"payable","type":"function"},
+  {"inputs":[],"name":"getProposalCount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"proposalId","type":"uint256"}],"name":"getProposalMetadata","outputs":[{"components":[{"internalType":"string","name":"title","type":"string"},{"internalType":"string","name":"description","type":"string"},{"internalType":"uint256","name":"createdAt","type":"uint256"},{"internalType":"address","name":"proposer","type":"address"},{"internalType":"enum BASEGovernor.ProposalType","name":"proposalType","type":"uint8"}],"internalType":"struct BASEGovernor.ProposalMetadata","name":"","type":"tuple"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"blockNumber","type":"uint256"}],"name":"getQuorumVotes","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"},{"internalType":"uint256","name":"timepoint","type":"uint256"}],"name":"getVotes","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"},{"internalType":"uint256","name":"timepoint","type":"uint256"},{"internalType":"bytes","name":"params","type":"bytes"}],"name":"getVotesWithParams","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getVotingParameters","outputs":[{"internalType":"uint256","name":"votingDelay_","type":"uint256"},{"internalType":"uint256","name":"votingPeriod_","type":"uint256"},{"internalType":"uint256","name":"proposalThreshold_","type":"uint256"},{"internalType":"uint256","name":"quorumPercentage_","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"proposalId","type":"uint256"},{"internalType":"address","name":"account","type":"address"}],"name":"hasVoted","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address[]","name":"targets","type":"address[]"},{"internalType":"uint256[]","name":"values","type":"uint256[]"},{"internalType":"bytes[]","name":"calldatas","type":"bytes[]"},{"internalType":"bytes32","name":"descriptionHash","type":"bytes32"}],"name":"hashProposal","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"pure","type":"function"},
+  {"inputs":[],"name":"name","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"owner","type":"address"}],"name":"nonces","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"},{"internalType":"address","name":"","type":"address"},{"internalType":"uint256[]","name":"","type":"uint256[]"},{"internalType":"uint256[]","name":"","type":"uint256[]"},{"internalType":"bytes","name":"","type":"bytes"}],"name":"onERC1155BatchReceived","outputs":[{"internalType":"bytes4","name":"","type":"bytes4"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"},{"internalType":"address","name":"","type":"address"},{"internalType":"uint256","name":"","type":"uint256"},{"internalType":"uint256","name":"","type":"uint256"},{"internalType":"bytes","name":"","type":"bytes"}],"name":"onERC1155Received","outputs":[{"internalType":"bytes4","name":"","type":"bytes4"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"},{"internalType":"address","name":"","type":"address"},{"internalType":"uint256","name":"","type":"uint256"},{"internalType":"bytes","name":"","type":"bytes"}],"name":"onERC721Received","outputs":[{"internalType":"bytes4","name":"","type":"bytes4"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"proposalId","type":"uint256"}],"name":"proposalDeadline","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"proposalId","type":"uint256"}],"name":"proposalEta","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"proposalId","type":"uint256"}],"name":"proposalNeedsQueuing","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"proposalId","type":"uint256"}],"name":"proposalProposer","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"proposalId","type":"uint256"}],"name":"proposalSnapshot","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"proposalThreshold","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"proposalId","type":"uint256"}],"name":"proposalVotes","outputs":[{"internalType":"uint256","name":"againstVotes","type":"uint256"},{"internalType":"uint256","name":"forVotes","type":"uint256"},{"internalType":"uint256","name":"abstainVotes","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address[]","name":"targets","type":"address[]"},{"internalType":"uint256[]","name":"values","type":"uint256[]"},{"internalType":"bytes[]","name":"calldatas","type":"bytes[]"},{"internalType":"string","name":"description","type":"string"}],"name":"propose","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address[]","name":"targets","type":"address[]"},{"internalType":"uint256[]","name":"values","type":"uint256[]"},{"internalType":"bytes[]","name":"calldatas","type":"bytes[]"},{"internalType":"bytes32","name":"descriptionHash","type":"bytes32"}],"name":"queue","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"blockNumber","type":"uint256"}],"name":"quorum","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"quorumDenominator","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"timepoint","type":"uint256"}],"name":"quorumNumerator","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"quorumNumerator","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"target","type":"address"},{"internalType":"uint256","name":"value","type":"uint256"},{"internalType":"bytes","name":"data","type":"bytes"}],"name":"relay","outputs":[],"stateMutability":"payable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"newProposalThreshold","type":"uint256"}],"name":"setProposalThreshold","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint48","name":"newVotingDelay","type":"uint48"}],"name":"setVotingDelay","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint32","name":"newVotingPeriod","type":"uint32"}],"name":"setVotingPeriod","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"proposalId","type":"uint256"}],"name":"state","outputs":[{"internalType":"enum IGovernor.ProposalState","name":"","type":"uint8"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes4","name":"interfaceId","type":"bytes4"}],"name":"supportsInterface","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"timelock","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"token","outputs":[{"internalType":"contract IERC5805","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"newQuorumNumerator","type":"uint256"}],"name":"updateQuorumNumerator","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"contract TimelockController","name":"newTimelock","type":"address"}],"name":"updateTimelock","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"version","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"votingDelay","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"votingPeriod","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"stateMutability":"payable","type":"receive"},
+] as const;
+
+export type BASEGovernorProposalMetadataStructOutput = [title: string, description: string, createdAt: bigint, proposer: string, proposalType: bigint] & { title: string; description: string; createdAt: bigint; proposer: string; proposalType: bigint; };
+
+export interface BASEGovernorEIP712DomainChangedEvent {
+
+}
+
+export interface BASEGovernorProposalCanceledEvent {
+  proposalId: bigint;
+}
+
+export interface BASEGovernorProposalCreatedEvent {
+  proposalId: bigint;
+  proposer: string;
+  targets: string[];
+  values: bigint[];
+  signatures: string[];
+  calldatas: string[];
+  voteStart: bigint;
+  voteEnd: bigint;
+  description: string;
+}
+
+export interface BASEGovernorProposalCreatedWithMetadataEvent {
+  proposalId: bigint;
+  proposer: string;
+  title: string;
+  proposalType: bigint;
+  timestamp: bigint;
+}
+
+export interface BASEGovernorProposalExecutedEvent {
+  proposalId: bigint;
+}
+
+export interface BASEGovernorProposalQueuedEvent {
+  proposalId: bigint;
+  etaSeconds: bigint;
+}
+
+export interface BASEGovernorProposalThresholdSetEvent {
+  oldProposalThreshold: bigint;
+  newProposalThreshold: bigint;
+}
+
+export interface BASEGovernorQuorumNumeratorUpdatedEvent {
+  oldQuorumNumerator: bigint;
+  newQuorumNumerator: bigint;
+}
+
+export interface BASEGovernorTimelockChangeEvent {
+  oldTimelock: string;
+  newTimelock: string;
+}
+
+export interface BASEGovernorVoteCastEvent {
+  voter: string;
+  proposalId: bigint;
+  support: bigint;
+  weight: bigint;
+  reason: string;
+}
+
+export interface BASEGovernorVoteCastWithParamsEvent {
+  voter: string;
+  proposalId: bigint;
+  support: bigint;
+  weight: bigint;
+  reason: string;
+  params: string;
+}
+
+export interface BASEGovernorVotingDelaySetEvent {
+  oldVotingDelay: bigint;
+  newVotingDelay: bigint;
+}
+
+export interface BASEGovernorVotingPeriodSetEvent {
+  oldVotingPeriod: bigint;
+  newVotingPeriod: bigint;
+}
+
+export interface BASEGovernorEvents {
+  EIP712DomainChanged: BASEGovernorEIP712DomainChangedEvent;
+  ProposalCanceled: BASEGovernorProposalCanceledEvent;
+  ProposalCreated: BASEGovernorProposalCreatedEvent;
+  ProposalCreatedWithMetadata: BASEGovernorProposalCreatedWithMetadataEvent;
+  ProposalExecuted: BASEGovernorProposalExecutedEvent;
+  ProposalQueued: BASEGovernorProposalQueuedEvent;
+  ProposalThresholdSet: BASEGovernorProposalThresholdSetEvent;
+  QuorumNumeratorUpdated: BASEGovernorQuorumNumeratorUpdatedEvent;
+  TimelockChange: BASEGovernorTimelockChangeEvent;
+  VoteCast: BASEGovernorVoteCastEvent;
+  VoteCastWithParams: BASEGovernorVoteCastWithParamsEvent;
+  VotingDelaySet: BASEGovernorVotingDelaySetEvent;
+  VotingPeriodSet: BASEGovernorVotingPeriodSetEvent;
+}
+
+export type BASEGovernorError =
+  | { name: 'CheckpointUnorderedInsertion'; args: {}}
+  | { name: 'FailedInnerCall'; args: {}}
+  | { name: 'GovernorAlreadyCastVote'; args: { voter: string; } }
+  | { name: 'GovernorAlreadyQueuedProposal'; args: { proposalId: bigint; } }
+  | { name: 'GovernorDisabledDeposit'; args: {}}
+  | { name: 'GovernorInsufficientProposerVotes'; args: { proposer: string; votes: bigint; threshold: bigint; } }
+  | { name: 'GovernorInvalidProposalLength'; args: { targets: bigint; calldatas: bigint; values: bigint; } }
+  | { name: 'GovernorInvalidQuorumFraction'; args: { quorumNumerator: bigint; quorumDenominator: bigint; } }
+  | { name: 'GovernorInvalidSignature'; args: { voter: string; } }
+  | { name: 'GovernorInvalidVoteType'; args: {}}
+  | { name: 'GovernorInvalidVotingPeriod'; args: { votingPeriod: bigint; } }
+  | { name: 'GovernorNonexistentProposal'; args: { proposalId: bigint; } }
+  | { name: 'GovernorNotQueuedProposal'; args: { proposalId: bigint; } }
+  | { name: 'GovernorOnlyExecutor'; args: { account: string; } }
+  | { name: 'GovernorOnlyProposer'; args: { account: string; } }
+  | { name: 'GovernorQueueNotImplemented'; args: {}}
+  | { name: 'GovernorRestrictedProposer'; args: { proposer: string; } }
+  | { name: 'GovernorUnexpectedProposalState'; args: { proposalId: bigint; current: bigint; expectedStates: string; } }
+  | { name: 'InvalidAccountNonce'; args: { account: string; currentNonce: bigint; } }
+  | { name: 'InvalidShortString'; args: {}}
+  | { name: 'InvalidTimelockAddress'; args: {}}
+  | { name: 'InvalidVotesAddress'; args: {}}
+  | { name: 'QueueEmpty'; args: {}}
+  | { name: 'QueueFull'; args: {}}
+  | { name: 'SafeCastOverflowedUintDowncast'; args: { bits: bigint; value: bigint; } }
+  | { name: 'StringTooLong'; args: { str: string; } }
+  | BuiltinError;
+
+export interface BASEGovernorWriteFunctions {
+  cancel: { args: [targets: AddressLike[], values: BigNumberish[], calldatas: BytesLike[], descriptionHash: BytesLike]; result: bigint };
+  castVote: { args: [proposalId: BigNumberish, support: BigNumberish]; result: bigint };
+  castVoteBySig: { args: [proposalId: BigNumberish, support: BigNumberish, voter: AddressLike, signature: BytesLike]; result: bigint };
+  castVoteWithReason: { args: [proposalId: BigNumberish, support: BigNumberish, reason: string]; result: bigint };
+  castVoteWithReasonAndParams: { args: [proposalId: BigNumberish, support: BigNumberish, reason: string, params: BytesLike]; result: bigint };
+  castVoteWithReasonAndParamsBySig: { args: [proposalId: BigNumberish, support: BigNumberish, voter: AddressLike, reason: string, params: BytesLike, signature: BytesLike]; result: bigint };
+  createProposalWithMetadata: { args: [targets: AddressLike[], values: BigNumberish[], calldatas: BytesLike[], title: string, proposalType: BigNumberish, description: string]; result: bigint };
+  execute: { args: [targets: AddressLike[], values: BigNumberish[], calldatas: BytesLike[], descriptionHash: BytesLike]; result: bigint };
+  onERC1155BatchReceived: { args: [arg0: AddressLike, arg1: AddressLike, arg2: BigNumberish[], arg3: BigNumberish[], arg4: BytesLike]; result: string };
+  onERC1155Received: { args: [arg0: AddressLike, arg1: AddressLike, arg2: BigNumberish, arg3: BigNumberish, arg4: BytesLike]; result: string };
+  onERC721Received: { args: [arg0: AddressLike, arg1: AddressLike, arg2: BigNumberish, arg3: BytesLike]; result: string };
+  propose: { args: [targets: AddressLike[], values: BigNumberish[], calldatas: BytesLike[], description: string]; result: bigint };
+  queue: { args: [targets: AddressLike[], values: BigNumberish[], calldatas: BytesLike[], descriptionHash: BytesLike]; result: bigint };
+  relay: { args: [target: AddressLike, value: BigNumberish, data: BytesLike]; result: void };
+  setProposalThreshold: { args: [newProposalThreshold: BigNumberish]; result: void };
+  setVotingDelay: { args: [newVotingDelay: BigNumberish]; result: void };
+  setVotingPeriod: { args: [newVotingPeriod: BigNumberish]; result: void };
+  updateQuorumNumerator: { args: [newQuorumNumerator: BigNumberish]; result: void };
+  updateTimelock: { args: [newTimelock: AddressLike]; result: void };
+}
+
+const BASEGovernorWriteSignatures: Record<keyof BASEGovernorWriteFunctions, string> = {
+  cancel: 'cancel(address[],uint256[],bytes[],bytes32)',
+  castVote: 'castVote(uint256,uint8)',
+  castVoteBySig: 'castVoteBySig(uint256,uint8,address,bytes)',
+  castVoteWithReason: 'castVoteWithReason(uint256,uint8,string)',
+  castVoteWithReasonAndParams: 'castVoteWithReasonAndParams(uint256,uint8,string,bytes)',
+  castVoteWithReasonAndParamsBySig: 'castVoteWithReasonAndParamsBySig(uint256,uint8,address,string,bytes,bytes)',
+  createProposalWithMetadata: 'createProposalWithMetadata(address[],uint256[],bytes[],string,uint8,string)',
+  execute: 'execute(address[],uint256[],bytes[],bytes32)',
+  onERC1155BatchReceived: 'onERC1155BatchReceived(address,address,uint256[],uint256[],bytes)',
+  onERC1155Received: 'onERC1155Received(address,address,uint256,uint256,bytes)',
+  onERC721Received: 'onERC721Received(address,address,uint256,bytes)',
+  propose: 'propose(address[],uint256[],bytes[],string)',
+  queue: 'queue(address[],uint256[],bytes[],bytes32)',
+  relay: 'relay(address,uint256,bytes)',
+  setProposalThreshold: 'setProposalThreshold(uint256)',
+  setVotingDelay: 'setVotingDelay(uint48)',
+  setVotingPeriod: 'setVotingPeriod(uint32)',
+  updateQuorumNumerator: 'updateQuorumNumerator(uint256)',
+  updateTimelock: 'updateTimelock(address)',
+};
+
+export class BASEGovernorContract extends TypedContract<BASEGovernorEvents, BASEGovernorError, BASEGovernorWriteFunctions> {
+  static readonly abi = BASEGovernorAbi;
+
+  constructor(address: string, runner?: ContractRunner | null) {
+    super(address, BASEGovernorAbi, BASEGovernorWriteSignatures, runner);
+  }
+
+  connect(runner: ContractRunner | null): BASEGovernorContract {
+    return new BASEGovernorContract(this.address, runner);
+  }
+
+  BALLOT_TYPEHASH(): Promise<string> {
+    return this.read('BALLOT_TYPEHASH()', []);
+  }
+
+  cancel(targets: AddressLike[], values: BigNumberish[], calldatas: BytesLike[], descriptionHash: BytesLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('cancel(address[],uint256[],bytes[],bytes32)', [targets, values, calldatas, descriptionHash], overrides);
+  }
+
+  castVote(proposalId: BigNumberish, support: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('castVote(uint256,uint8)', [proposalId, support], overrides);
+  }
+
+  castVoteBySig(proposalId: BigNumberish, support: BigNumberish, voter: AddressLike, signature: BytesLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('castVoteBySig(uint256,uint8,address,bytes)', [proposalId, support, voter, signature], overrides);
+  }
+
+  castVoteWithReason(proposalId: BigNumberish, support: BigNumberish, reason: string, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('castVoteWithReason(uint256,uint8,string)', [proposalId, support, reason], overrides);
+  }
+
+  castVoteWithReasonAndParams(proposalId: BigNumberish, support: BigNumberish, reason: string, params: BytesLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('castVoteWithReasonAndParams(uint256,uint8,string,bytes)', [proposalId, support, reason, params], overrides);
+  }
+
+  castVoteWithReasonAndParamsBySig(proposalId: BigNumberish, support: BigNumberish, voter: AddressLike, reason: string, params: BytesLike, signature: BytesLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('castVoteWithReasonAndParamsBySig(uint256,uint8,address,string,bytes,bytes)', [proposalId, support, voter, reason, params, signature], overrides);
+  }
+
+  clock(): Promise<bigint> {
+    return this.read('clock()', []);
+  }
+
+  CLOCK_MODE(): Promise<string> {
+    return this.read('CLOCK_MODE()', []);
+  }
+
+  COUNTING_MODE(): Promise<string> {
+    return this.read('COUNTING_MODE()', []);
+  }
+
+  createProposalWithMetadata(targets: AddressLike[], values: BigNumberish[], calldatas: BytesLike[], title: string, proposalType: BigNumberish, description: string, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('createProposalWithMetadata(address[],uint256[],bytes[],string,uint8,string)', [targets, values, calldatas, title, proposalType, description], overrides);
+  }
+
+  eip712Domain(): Promise<[fields: string, name: string, version: string, chainId: bigint, verifyingContract: string, salt: string, extensions: bigint[]] & { fields: string; name: string; version: string; chainId: bigint; verifyingContract: string; salt: string; extensions: bigint[]; }> {
+    return this.read('eip712Domain()', []);
+  }
+
+  execute(targets: AddressLike[], values: BigNumberish[], calldatas: BytesLike[], descriptionHash: BytesLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('execute(address[],uint256[],bytes[],bytes32)', [targets, values, calldatas, descriptionHash], overrides);
+  }
+
+  EXTENDED_BALLOT_TYPEHASH(): Promise<string> {
+    return this.read('EXTENDED_BALLOT_TYPEHASH()', []);
+  }
+
+  getProposalCount(): Promise<bigint> {
+    return this.read('getProposalCount()', []);
+  }
+
+  getProposalMetadata(proposalId: BigNumberish): Promise<BASEGovernorProposalMetadataStructOutput> {
+    return this.read('getProposalMetadata(uint256)', [proposalId]);
+  }
+
+  getQuorumVotes(blockNumber: BigNumberish): Promise<bigint> {
+    return this.read('getQuorumVotes(uint256)', [blockNumber]);
+  }
+
+  getVotes(account: AddressLike, timepoint: BigNumberish): Promise<bigint> {
+    return this.read('getVotes(address,uint256)', [account, timepoint]);
+  }
+
+  getVotesWithParams(account: AddressLike, timepoint: BigNumberish, params: BytesLike): Promise<bigint> {
+    return this.read('getVotesWithParams(address,uint256,bytes)', [account, timepoint, params]);
+  }
+
+  getVotingParameters(): Promise<[votingDelay_: bigint, votingPeriod_: bigint, proposalThreshold_: bigint, quorumPercentage_: bigint] & { votingDelay_: bigint; votingPeriod_: bigint; proposalThreshold_: bigint; quorumPercentage_: bigint; }> {
+    return this.read('getVotingParameters()', []);
+  }
+
+  hashProposal(targets: AddressLike[], values: BigNumberish[], calldatas: BytesLike[], descriptionHash: BytesLike): Promise<bigint> {
+    return this.read('hashProposal(address[],uint256[],bytes[],bytes32)', [targets, values, calldatas, descriptionHash]);
+  }
+
+  hasVoted(proposalId: BigNumberish, account: AddressLike): Promise<boolean> {
+    return this.read('hasVoted(uint256,address)', [proposalId, account]);
+  }
+
+  name(): Promise<string> {
+    return this.read('name()', []);
+  }
+
+  nonces(owner: AddressLike): Promise<bigint> {
+    return this.read('nonces(address)', [owner]);
+  }
+
+  onERC1155BatchReceived(arg0: AddressLike, arg1: AddressLike, arg2: BigNumberish[], arg3: BigNumberish[], arg4: BytesLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('onERC1155BatchReceived(address,address,uint256[],uint256[],bytes)', [arg0, arg1, arg2, arg3, arg4], overrides);
+  }
+
+  onERC1155Received(arg0: AddressLike, arg1: AddressLike, arg2: BigNumberish, arg3: BigNumberish, arg4: BytesLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('onERC1155Received(address,address,uint256,uint256,bytes)', [arg0, arg1, arg2, arg3, arg4], overrides);
+  }
+
+  onERC721Received(arg0: AddressLike, arg1: AddressLike, arg2: BigNumberish, arg3: BytesLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('onERC721Received(address,address,uint256,bytes)', [arg0, arg1, arg2, arg3], overrides);
+  }
+
+  proposalDeadline(proposalId: BigNumberish): Promise<bigint> {
+    return this.read('proposalDeadline(uint256)', [proposalId]);
+  }
+
+  proposalEta(proposalId: BigNumberish): Promise<bigint> {
+    return this.read('proposalEta(uint256)', [proposalId]);
+  }
+
+  proposalNeedsQueuing(proposalId: BigNumberish): Promise<boolean> {
+    return this.read('proposalNeedsQueuing(uint256)', [proposalId]);
+  }
+
+  proposalProposer(proposalId: BigNumberish): Promise<string> {
+    return this.read('proposalProposer(uint256)', [proposalId]);
+  }
+
+  proposalSnapshot(proposalId: BigNumberish): Promise<bigint> {
+    return this.read('proposalSnapshot(uint256)', [proposalId]);
+  }
+
+  proposalThreshold(): Promise<bigint> {
+    return this.read('proposalThreshold()', []);
+  }
+
+  proposalVotes(proposalId: BigNumberish): Promise<[againstVotes: bigint, forVotes: bigint, abstainVotes: bigint] & { againstVotes: bigint; forVotes: bigint; abstainVotes: bigint; }> {
+    return this.read('proposalVotes(uint256)', [proposalId]);
+  }
+
+  propose(targets: AddressLike[], values: BigNumberish[], calldatas: BytesLike[], description: string, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('propose(address[],uint256[],bytes[],string)', [targets, values, calldatas, description], overrides);
+  }
+
+  queue(targets: AddressLike[], values: BigNumberish[], calldatas: BytesLike[], descriptionHash: BytesLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('queue(address[],uint256[],bytes[],bytes32)', [targets, values, calldatas, descriptionHash], overrides);
+  }
+
+  quorum(blockNumber: BigNumberish): Promise<bigint> {
+    return this.read('quorum(uint256)', [blockNumber]);
+  }
+
+  quorumDenominator(): Promise<bigint> {
+    return this.read('quorumDenominator()', []);
+  }
+
+  quorumNumerator(timepoint: BigNumberish): Promise<bigint>;
+  quorumNumerator(): Promise<bigint>;
+  quorumNumerator(...args: unknown[]): Promise<any> {
+    switch (args.length) {
+      case 1: return this.read('quorumNumerator(uint256)', args);
+      case 0: return this.read('quorumNumerator()', args);
+      default: throw new Error('quorumNumerator: unexpected argument count');
+    }
+  }
+
+  relay(target: AddressLike, value: BigNumberish, data: BytesLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('relay(address,uint256,bytes)', [target, value, data], overrides);
+  }
+
+  setProposalThreshold(newProposalThreshold: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('setProposalThreshold(uint256)', [newProposalThreshold], overrides);
+  }
+
+  setVotingDelay(newVotingDelay: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('setVotingDelay(uint48)', [newVotingDelay], overrides);
+  }
+
+  setVotingPeriod(newVotingPeriod: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('setVotingPeriod(uint32)', [newVotingPeriod], overrides);
+  }
+
+  state(proposalId: BigNumberish): Promise<bigint> {
+    return this.read('state(uint256)', [proposalId]);
+  }
+
+  supportsInterface(interfaceId: BytesLike): Promise<boolean> {
+    return this.read('supportsInterface(bytes4)', [interfaceId]);
+  }
+
+  timelock(): Promise<string> {
+    return this.read('timelock()', []);
+  }
+
+  token(): Promise<string> {
+    return this.read('token()', []);
+  }
+
+  updateQuorumNumerator(newQuorumNumerator: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('updateQuorumNumerator(uint256)', [newQuorumNumerator], overrides);
+  }
+
+  updateTimelock(newTimelock: AddressLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('updateTimelock(address)', [newTimelock], overrides);
+  }
+
+  version(): Promise<string> {
+    return this.read('version()', []);
+  }
+
+  votingDelay(): Promise<bigint> {
+    return this.read('votingDelay()', []);
+  }
+
+  votingPeriod(): Promise<bigint> {
+    return this.read('votingPeriod()', []);
+  }
+}
+
+export default BASEGovernorContract;
@@ -0,0 +1,360 @@
+/* Autogenerated by sdk/scripts/generate-bindings.mjs from the Foundry build. Do not edit. */
+
+/**
+ * @fileoverview Typed bindings for BASETimelock
+ */
+
+import type {
+  AddressLike,
+  BigNumberish,
+  BytesLike,
+  ContractRunner,
+  ContractTransactionResponse,
+  Overrides,
+} from 'ethers';
+import { BuiltinError, TypedContract } from './common';
+
+export const BASETimelockAbi = [
+  {"inputs":[{"internalType":"address","name":"_governorAddress","type":"address"},{"internalType":"address","name":"_treasuryMultisig","type":"address"},{"internalType":"address[]","name":"_proposers","type":"address[]"},{"internalType":"address[]","name":"_executors","type":"address[]"},{"internalType":"address","name":"_admin","type":"address"}],"stateMutability":"nonpayable","type":"constructor"},
+  {"inputs":[],"name":"AccessControlBadConfirmation","type":"error"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"},{"internalType":"bytes32","name":"neededRole","type":"bytes32"}],"name":"AccessControlUnauthorizedAccount","type":"error"},
+  {"inputs":[],"name":"FailedInnerCall","type":"error"},
+  {"inputs":[],"name":"InvalidGovernorAddress","type":"error"},
+  {"inputs":[],"name":"InvalidMultisigAddress","type":"error"},
+  {"inputs":[],"name":"OnlyGovernor","type":"error"},
+  {"inputs":[],"name":"OnlyMultisig","type":"error"},
+  {"inputs":[{"internalType":"uint256","name":"delay","type":"uint256"},{"internalType":"uint256","name":"minDelay","type":"uint256"}],"name":"TimelockInsufficientDelay","type":"error"},
+  {"inputs":[{"internalType":"uint256","name":"targets","type":"uint256"},{"internalType":"uint256","name":"payloads","type":"uint256"},{"internalType":"uint256","name":"values","type":"uint256"}],"name":"TimelockInvalidOperationLength","type":"error"},
+  {"inputs":[{"internalType":"address","name":"caller","type":"address"}],"name":"TimelockUnauthorizedCaller","type":"error"},
+  {"inputs":[{"internalType":"bytes32","name":"predecessorId","type":"bytes32"}],"name":"TimelockUnexecutedPredecessor","type":"error"},
+  {"inputs":[{"internalType":"bytes32","name":"operationId","type":"bytes32"},{"internalType":"bytes32","name":"expectedStates","type":"bytes32"}],"name":"TimelockUnexpectedOperationState","type":"error"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"id","type":"bytes32"},{"indexed":true,"internalType":"uint256","name":"index","type":"uint256"},{"indexed":false,"internalType":"address","name":"target","type":"address"},{"indexed":false,"internalType":"uint256","name":"value","type":"uint256"},{"indexed":false,"internalType":"bytes","name":"data","type":"bytes"}],"name":"CallExecuted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"id","type":"bytes32"},{"indexed":false,"internalType":"bytes32","name":"salt","type":"bytes32"}],"name":"CallSalt","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"id","type":"bytes32"},{"indexed":true,"internalType":"uint256","name":"index","type":"uint256"},{"indexed":false,"internalType":"address","name":"target","type":"address"},{"indexed":false,"internalType":"uint256","name":"value","type":"uint256"},{"indexed":false,"internalType":"bytes","name":"data","type":"bytes"},{"indexed":false,"internalType":"bytes32","name":"predecessor","type":"bytes32"},{"indexed":false,"internalType":"uint256","name":"delay","type":"uint256"}],"name":"CallScheduled","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"id","type":"bytes32"}],"name":"Cancelled","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"oldGovernor","type":"address"},{"indexed":true,"internalType":"address","name":"newGovernor","type":"address"}],"name":"GovernorUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"oldDuration","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"newDuration","type":"uint256"}],"name":"MinDelayChange","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"bytes32","name":"previousAdminRole","type":"bytes32"},{"indexed":true,"internalType":"bytes32","name":"newAdminRole","type":"bytes32"}],"name":"RoleAdminChanged","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"address","name":"account","type":"address"},{"indexed":true,"internalType":"address","name":"sender","type":"address"}],"name":"RoleGranted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"address","name":"account","type":"address"},{"indexed":true,"internalType":"address","name":"sender","type":"address"}],"name":"RoleRevoked","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"oldMultisig","type":"address"},{"indexed":true,"internalType":"address","name":"newMultisig","type":"address"}],"name":"TreasuryMultisigUpdated","type":"event"},
+  {"inputs":[],"name":"CANCELLER_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"DEFAULT_ADMIN_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"EXECUTOR_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"MIN_DELAY","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"PROPOSER_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"id","type":"bytes32"}],"name":"cancel","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address payable","name":"recipient","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"emergencyWithdrawETH","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"target","type":"address"},{"internalType":"uint256","name":"value","type":"uint256"},{"internalType":"bytes","name":"payload","type":"bytes"},{"internalType":"bytes32","name":"predecessor","type":"bytes32"},{"internalType":"bytes32","name":"salt","type":"bytes32"}],"name":"execute","outputs":[],"stateMutability":"payable","type":"function"},
+  {"inputs":[{"internalType":"address[]","name":"targets","type":"address[]"},{"internalType":"uint256[]","name":"values","type":"uint256[]"},{"internalType":"bytes[]","name":"payloads","type":"bytes[]"},{"internalType":"bytes32","name":"predecessor","type":"bytes32"},{"internalType":"bytes32","name":"salt","type":"bytes32"}],"name":"executeBatch","outputs":[],"stateMutability":"payable","type":"function"},
+  {"inputs":[],"name":"getCurrentTimestamp","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getMinDelay","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"id","type":"bytes32"}],"name":"getOperationState","outputs":[{"internalType":"enum TimelockController.OperationState","name":"","type":"uint8"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"}],"name":"getRoleAdmin","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"id","type":"bytes32"}],"name":"getTimestamp","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getTreasuryBalance","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"governorAddress","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"grantRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"hasRole","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"target","type":"address"},{"internalType":"uint256","name":"value","type":"uint256"},{"internalType":"bytes","name":"data","type":"bytes"},{"internalType":"bytes32","name":"predecessor","type":"bytes32"},{"internalType":"bytes32","name":"salt","type":"bytes32"}],"name":"hashOperation","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"pure","type":"function"},
+  {"inputs":[{"internalType":"address[]","name":"targets","type":"address[]"},{"internalType":"uint256[]","name":"values","type":"uint256[]"},{"internalType":"bytes[]","name":"payloads","type":"bytes[]"},{"internalType":"bytes32","name":"predecessor","type":"bytes32"},{"internalType":"bytes32","name":"salt","type":"bytes32"}],"name":"hashOperationBatch","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"pure","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"id","type":"bytes32"}],"name":"isOperation","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"id","type":"bytes32"}],"name":"isOperationDone","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"id","type":"bytes32"}],"name":"isOperationPending","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"id","type":"bytes32"}],"name":"isOperationReady","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"},{"internalType":"address","name":"","type":"address"},{"internalType":"uint256[]","name":"","type":"uint256[]"},{"internalType":"uint256[]","name":"","type":"uint256[]"},{"internalType":"bytes","name":"","type":"bytes"}],"name":"onERC1155BatchReceived","outputs":[{"internalType":"bytes4","name":"","type":"bytes4"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"},{"internalType":"address","name":"","type":"address"},{"internalType":"uint256","name":"","type":"uint256"},{"internalType":"uint256","name":"","type":"uint256"},{"internalType":"bytes","name":"","type":"bytes"}],"name":"onERC1155Received","outputs":[{"internalType":"bytes4","name":"","type":"bytes4"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"},{"internalType":"address","name":"","type":"address"},{"internalType":"uint256","name":"","type":"uint256"},{"internalType":"bytes","name":"","type":"bytes"}],"name":"onERC721Received","outputs":[{"internalType":"bytes4","name":"","type":"bytes4"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"callerConfirmation","type":"address"}],"name":"renounceRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"revokeRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"target","type":"address"},{"internalType":"uint256","name":"value","type":"uint256"},{"internalType":"bytes","name":"data","type":"bytes"},{"internalType":"bytes32","name":"predecessor","type":"bytes32"},{"internalType":"bytes32","name":"salt","type":"bytes32"},{"internalType":"uint256","name":"delay","type":"uint256"}],"name":"schedule","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address[]","name":"targets","type":"address[]"},{"internalType":"uint256[]","name":"values","type":"uint256[]"},{"internalType":"bytes[]","name":"payloads","type":"bytes[]"},{"internalType":"bytes32","name":"predecessor","type":"bytes32"},{"internalType":"bytes32","name":"salt","type":"bytes32"},{"internalType":"uint256","name":"delay","type":"uint256"}],"name":"scheduleBatch","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes4","name":"interfaceId","type":"bytes4"}],"name":"supportsInterface","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"treasuryMultisig","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"newDelay","type":"uint256"}],"name":"updateDelay","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"newGovernor","type":"address"}],"name":"updateGovernor","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"newMultisig","type":"address"}],"name":"updateTreasuryMultisig","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"stateMutability":"payable","type":"receive"},
+] as const;
+
+export interface BASETimelockCallExecutedEvent {
+  id: string;
+  index: bigint;
+  target: string;
+  value: bigint;
+  data: string;
+}
+
+export interface BASETimelockCallSaltEvent {
+  id: string;
+  salt: string;
+}
+
+export interface BASETimelockCallScheduledEvent {
+  id: string;
+  index: bigint;
+  target: string;
+  value: bigint;
+  data: string;
+  predecessor: string;
+  delay: bigint;
+}
+
+export interface BASETimelockCancelledEvent {
+  id: string;
+}
+
+export interface BASETimelockGovernorUpdatedEvent {
+  oldGovernor: string;
+  newGovernor: string;
+}
+
+export interface BASETimelockMinDelayChangeEvent {
+  oldDuration: bigint;
+  newDuration: bigint;
+}
+
+export interface BASETimelockRoleAdminChangedEvent {
+  role: string;
+  previousAdminRole: string;
+  newAdminRole: string;
+}
+
+export interface BASETimelockRoleGrantedEvent {
+  role: string;
+  account: string;
+  sender: string;
+}
+
+export interface BASETimelockRoleRevokedEvent {
+  role: string;
+  account: string;
+  sender: string;
+}
+
+export interface BASETimelockTreasuryMultisigUpdatedEvent {
+  oldMultisig: string;
+  newMultisig: string;
+}
+
+export interface BASETimelockEvents {
+  CallExecuted: BASETimelockCallExecutedEvent;
+  CallSalt: BASETimelockCallSaltEvent;
+  CallScheduled: BASETimelockCallScheduledEvent;
+  Cancelled: BASETimelockCancelledEvent;
+  GovernorUpdated: BASETimelockGovernorUpdatedEvent;
+  MinDelayChange: BASETimelockMinDelayChangeEvent;
+  RoleAdminChanged: BASETimelockRoleAdminChangedEvent;
+  RoleGranted: BASETimelockRoleGrantedEvent;
+  RoleRevoked: BASETimelockRoleRevokedEvent;
+  TreasuryMultisigUpdated: BASETimelockTreasuryMultisigUpdatedEvent;
+}
+
+export type BASETimelockError =
+  | { name: 'AccessControlBadConfirmation'; args: {}}
+  | { name: 'AccessControlUnauthorizedAccount'; args: { account: string; neededRole: string; } }
+  | { name: 'FailedInnerCall'; args: {}}
+  | { name: 'InvalidGovernorAddress'; args: {}}
+  | { name: 'InvalidMultisigAddress'; args: {}}
+  | { name: 'OnlyGovernor'; args: {}}
+  | { name: 'OnlyMultisig'; args: {}}
+  | { name: 'TimelockInsufficientDelay'; args: { delay: bigint; minDelay: bigint; } }
+  | { name: 'TimelockInvalidOperationLength'; args: { targets: bigint; payloads: bigint; values: bigint; } }
+  | { name: 'TimelockUnauthorizedCaller'; args: { caller: string; } }
+  | { name: 'TimelockUnexecutedPredecessor'; args: { predecessorId: string; } }
+  | { name: 'TimelockUnexpectedOperationState'; args: { operationId: string; expectedStates: string; } }
+  | BuiltinError;
+
+export interface BASETimelockWriteFunctions {
+  cancel: { args: [id: BytesLike]; result: void };
+  emergencyWithdrawETH: { args: [recipient: AddressLike, amount: BigNumberish]; result: void };
+  execute: { args: [target: AddressLike, value: BigNumberish, payload: BytesLike, predecessor: BytesLike, salt: BytesLike]; result: void };
+  executeBatch: { args: [targets: AddressLike[], values: BigNumberish[], payloads: BytesLike[], predecessor: BytesLike, salt: BytesLike]; result: void };
+  grantRole: { args: [role: BytesLike, account: AddressLike]; result: void };
+  onERC1155BatchReceived: { args: [arg0: AddressLike, arg1: AddressLike, arg2: BigNumberish[], arg3: BigNumberish[], arg4: BytesLike]; result: string };
+  onERC1155Received: { args: [arg0: AddressLike, arg1: AddressLike, arg2: BigNumberish, arg3: BigNumberish, arg4: BytesLike]; result: string };
+  onERC721Received: { args: [arg0: AddressLike, arg1: AddressLike, arg2: BigNumberish, arg3: BytesLike]; result: string };
+  renounceRole: { args: [role: BytesLike, callerConfirmation: AddressLike]; result: void };
+  revokeRole: { args: [role: BytesLike, account: AddressLike]; result: void };
+  schedule: { args: [target: AddressLike, value: BigNumberish, data: BytesLike, predecessor: BytesLike, salt: BytesLike, delay: BigNumberish]; result: void };
+  scheduleBatch: { args: [targets: AddressLike[], values: BigNumberish[], payloads: BytesLike[], predecessor: BytesLike, salt: BytesLike, delay: BigNumberish]; result: void };
+  updateDelay: { args: [newDelay: BigNumberish]; result: void };
+  updateGovernor: { args: [newGovernor: AddressLike]; result: void };
+  updateTreasuryMultisig: { args: [newMultisig: AddressLike]; result: void };
+}
+
+const BASETimelockWriteSignatures: Record<keyof BASETimelockWriteFunctions, string> = {
+  cancel: 'cancel(bytes32)',
+  emergencyWithdrawETH: 'emergencyWithdrawETH(address,uint256)',
+  execute: 'execute(address,uint256,bytes,bytes32,bytes32)',
+  executeBatch: 'executeBatch(address[],uint256[],bytes[],bytes32,bytes32)',
+  grantRole: 'grantRole(bytes32,address)',
+  onERC1155BatchReceived: 'onERC1155BatchReceived(address,address,uint256[],uint256[],bytes)',
+  onERC1155Received: 'onERC1155Received(address,address,uint256,uint256,bytes)',
+  onERC721Received: 'onERC721Received(address,address,uint256,bytes)',
+  renounceRole: 'renounceRole(bytes32,address)',
+  revokeRole: 'revokeRole(bytes32,address)',
+  schedule: 'schedule(address,uint256,bytes,bytes32,bytes32,uint256)',
+  scheduleBatch: 'scheduleBatch(address[],uint256[],bytes[],bytes32,bytes32,uint256)',
+  updateDelay: 'updateDelay(uint256)',
+  updateGovernor: 'updateGovernor(address)',
+  updateTreasuryMultisig: 'updateTreasuryMultisig(address)',
+};
+
+export class BASETimelockContract extends TypedContract<BASETimelockEvents, BASETimelockError, BASETimelockWriteFunctions> {
+  static readonly abi = BASETimelockAbi;
+
+  constructor(address: string, runner?: ContractRunner | null) {
+    super(address, BASETimelockAbi, BASETimelockWriteSignatures, runner);
+  }
+
+  connect(runner: ContractRunner | null): BASETimelockContract {
+    return new BASETimelockContract(this.address, runner);
+  }
+
+  cancel(id: BytesLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('cancel(bytes32)', [id], overrides);
+  }
+
+  CANCELLER_ROLE(): Promise<string> {
+    return this.read('CANCELLER_ROLE()', []);
+  }
+
+  DEFAULT_ADMIN_ROLE(): Promise<string> {
+    return this.read('DEFAULT_ADMIN_ROLE()', []);
+  }
+
+  emergencyWithdrawETH(recipient: AddressLike, amount: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('emergencyWithdrawETH(address,uint256)', [recipient, amount], overrides);
+  }
+
+  execute(target: AddressLike, value: BigNumberish, payload: BytesLike, predecessor: BytesLike, salt: BytesLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('execute(address,uint256,bytes,bytes32,bytes32)', [target, value, payload, predecessor, salt], overrides);
+  }
+
+  executeBatch(targets: AddressLike[], values: BigNumberish[], payloads: BytesLike[], predecessor: BytesLike, salt: BytesLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('executeBatch(address[],uint256[],bytes[],bytes32,bytes32)', [targets, values, payloads, predecessor, salt], overrides);
+  }
+
+  EXECUTOR_ROLE(): Promise<string> {
+    return this.read('EXECUTOR_ROLE()', []);
+  }
+
+  getCurrentTimestamp(): Promise<bigint> {
+    return this.read('getCurrentTimestamp()', []);
+  }
+
+  getMinDelay(): Promise<bigint> {
+    return this.read('getMinDelay()', []);
+  }
+
+  getOperationState(id: BytesLike): Promise<bigint> {
+    return this.read('getOperationState(bytes32)', [id]);
+  }
+
+  getRoleAdmin(role: BytesLike): Promise<string> {
+    return this.read('getRoleAdmin(bytes32)', [role]);
+  }
+
+  getTimestamp(id: BytesLike): Promise<bigint> {
+    return this.read('getTimestamp(bytes32)', [id]);
+  }
+
+  getTreasuryBalance(): Promise<bigint> {
+    return this.read('getTreasuryBalance()', []);
+  }
+
+  governorAddress(): Promise<string> {
+    return this.read('governorAddress()', []);
+  }
+
+  grantRole(role: BytesLike, account: AddressLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('grantRole(bytes32,address)', [role, account], overrides);
+  }
+
+  hashOperation(target: AddressLike, value: BigNumberish, data: BytesLike, predecessor: BytesLike, salt: BytesLike): Promise<string> {
+    return this.read('hashOperation(address,uint256,bytes,bytes32,bytes32)', [target, value, data, predecessor, salt]);
+  }
+
+  hashOperationBatch(targets: AddressLike[], values: BigNumberish[], payloads: BytesLike[], predecessor: BytesLike, salt: BytesLike): Promise<string> {
+    return this.read('hashOperationBatch(address[],uint256[],bytes[],bytes32,bytes32)', [targets, values, payloads, predecessor, salt]);
+  }
+
+  hasRole(role: BytesLike, account: AddressLike): Promise<boolean> {
+    return this.read('hasRole(bytes32,address)', [role, account]);
+  }
+
+  isOperation(id: BytesLike): Promise<boolean> {
+    return this.read('isOperation(bytes32)', [id]);
+  }
+
+  isOperationDone(id: BytesLike): Promise<boolean> {
+    return this.read('isOperationDone(bytes32)', [id]);
+  }
+
+  isOperationPending(id: BytesLike): Promise<boolean> {
+    return this.read('isOperationPending(bytes32)', [id]);
+  }
+
+  isOperationReady(id: BytesLike): Promise<boolean> {
+    return this.read('isOperationReady(bytes32)', [id]);
+  }
+
+  MIN_DELAY(): Promise<bigint> {
+    return this.read('MIN_DELAY()', []);
+  }
+
+  onERC1155BatchReceived(arg0: AddressLike, arg1: AddressLike, arg2: BigNumberish[], arg3: BigNumberish[], arg4: BytesLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('onERC1155BatchReceived(address,address,uint256[],uint256[],bytes)', [arg0, arg1, arg2, arg3, arg4], overrides);
+  }
+
+  onERC1155Received(arg0: AddressLike, arg1: AddressLike, arg2: BigNumberish, arg3: BigNumberish, arg4: BytesLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('onERC1155Received(address,address,uint256,uint256,bytes)', [arg0, arg1, arg2, arg3, arg4], overrides);
+  }
+
+  onERC721Received(arg0: AddressLike, arg1: AddressLike, arg2: BigNumberish, arg3: BytesLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('onERC721Received(address,address,uint256,bytes)', [arg0, arg1, arg2, arg3], overrides);
+  }
+
+  PROPOSER_ROLE(): Promise<string> {
+    return this.read('PROPOSER_ROLE()', []);
+  }
+
+  renounceRole(role: BytesLike, callerConfirmation: AddressLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('renounceRole(bytes32,address)', [role, callerConfirmation], overrides);
+  }
+
+  revokeRole(role: BytesLike, account: AddressLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('revokeRole(bytes32,address)', [role, account], overrides);
+  }
+
+  schedule(target: AddressLike, value: BigNumberish, data: BytesLike, predecessor: BytesLike, salt: BytesLike, delay: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('schedule(address,uint256,bytes,bytes32,bytes32,uint256)', [target, value, data, predecessor, salt, delay], overrides);
+  }
+
+  scheduleBatch(targets: AddressLike[], values: BigNumberish[], payloads: BytesLike[], predecessor: BytesLike, salt: BytesLike, delay: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('scheduleBatch(address[],uint256[],bytes[],bytes32,bytes32,uint256)', [targets, values, payloads, predecessor, salt, delay], overrides);
+  }
+
+  supportsInterface(interfaceId: BytesLike): Promise<boolean> {
+    return this.read('supportsInterface(bytes4)', [interfaceId]);
+  }
+
+  treasuryMultisig(): Promise<string> {
+    return this.read('treasuryMultisig()', []);
+  }
+
+  updateDelay(newDelay: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('updateDelay(uint256)', [newDelay], overrides);
+  }
+
+  updateGovernor(newGovernor: AddressLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('updateGovernor(address)', [newGovernor], overrides);
+  }
+
+  updateTreasuryMultisig(newMultisig: AddressLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('updateTreasuryMultisig(address)', [newMultisig], overrides);
+  }
+}
+
+export default BASETimelockContract;
@@ -0,0 +1,294 @@
+/* Autogenerated by sdk/scripts/generate-bindings.mjs from the Foundry build. Do not edit. */
+
+/**
+ * @fileoverview Typed bindings for BaseEmergencyMultiSig
+ */
+
+import type {
+  AddressLike,
+  BigNumberish,
+  BytesLike,
+  ContractRunner,
+  ContractTransactionResponse,
+  Overrides,
+} from 'ethers';
+import { BuiltinError, TypedContract } from './common';
+
+export const BaseEmergencyMultiSigAbi = [
+  {"inputs":[{"internalType":"address[]","name":"_signers","type":"address[]"},{"internalType":"uint256","name":"_threshold","type":"uint256"},{"internalType":"address","name":"_pauseTarget","type":"address"}],"stateMutability":"nonpayable","type":"constructor"},
+  {"inputs":[],"name":"CannotRemoveLastSigner","type":"error"},
+  {"inputs":[],"name":"DuplicateSigner","type":"error"},
+  {"inputs":[],"name":"EmergencyModeActive","type":"error"},
+  {"inputs":[],"name":"ExecutionDelayNotMet","type":"error"},
+  {"inputs":[],"name":"InvalidOperationType","type":"error"},
+  {"inputs":[],"name":"InvalidSigner","type":"error"},
+  {"inputs":[],"name":"InvalidThreshold","type":"error"},
+  {"inputs":[],"name":"NotExecutor","type":"error"},
+  {"inputs":[],"name":"NotSigner","type":"error"},
+  {"inputs":[{"internalType":"address","name":"owner","type":"address"}],"name":"OwnableInvalidOwner","type":"error"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"}],"name":"OwnableUnauthorizedAccount","type":"error"},
+  {"inputs":[],"name":"ProposalAlreadyApproved","type":"error"},
+  {"inputs":[],"name":"ProposalExpired","type":"error"},
+  {"inputs":[],"name":"ProposalNotApproved","type":"error"},
+  {"inputs":[],"name":"ProposalNotFound","type":"error"},
+  {"inputs":[],"name":"ProposalNotPending","type":"error"},
+  {"inputs":[],"name":"ThresholdNotMet","type":"error"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"previousOwner","type":"address"},{"indexed":true,"internalType":"address","name":"newOwner","type":"address"}],"name":"OwnershipTransferred","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"proposalId","type":"uint256"},{"indexed":true,"internalType":"address","name":"signer","type":"address"},{"indexed":false,"internalType":"uint256","name":"approvalsCount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"threshold","type":"uint256"}],"name":"ProposalApproved","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"proposalId","type":"uint256"},{"indexed":true,"internalType":"address","name":"canceller","type":"address"},{"indexed":false,"internalType":"string","name":"reason","type":"string"}],"name":"ProposalCancelled","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"proposalId","type":"uint256"},{"indexed":true,"internalType":"address","name":"proposer","type":"address"},{"indexed":false,"internalType":"enum BaseEmergencyMultiSig.OperationType","name":"operationType","type":"uint8"},{"indexed":false,"internalType":"string","name":"description","type":"string"},{"indexed":false,"internalType":"uint256","name":"createdAt","type":"uint256"}],"name":"ProposalCreated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"proposalId","type":"uint256"},{"indexed":true,"internalType":"address","name":"executor","type":"address"},{"indexed":false,"internalType":"enum BaseEmergencyMultiSig.OperationType","name":"operationType","type":"uint8"},{"indexed":false,"internalType":"uint256","name":"executedAt","type":"uint256"}],"name":"ProposalExecuted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"newSigner","type":"address"},{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"}],"name":"SignerAdded","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"removedSigner","type":"address"},{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"}],"name":"SignerRemoved","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"oldThreshold","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"newThreshold","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"}],"name":"ThresholdUpdated","type":"event"},
+  {"inputs":[{"internalType":"uint256","name":"_proposalId","type":"uint256"}],"name":"approveProposal","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"_proposalId","type":"uint256"},{"internalType":"string","name":"_reason","type":"string"}],"name":"cancelProposal","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"enum BaseEmergencyMultiSig.OperationType","name":"_operationType","type":"uint8"},{"internalType":"string","name":"_description","type":"string"},{"internalType":"string","name":"_targetContract","type":"string"},{"internalType":"bytes","name":"_callData","type":"bytes"}],"name":"createProposal","outputs":[{"internalType":"uint256","name":"proposalId","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"emergencyMode","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"emergencyModeTimeout","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"emergencyPause","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"_proposalId","type":"uint256"}],"name":"executeProposal","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"executionDelay","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"_proposalId","type":"uint256"}],"name":"getApprovers","outputs":[{"internalType":"address[]","name":"","type":"address[]"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"_proposalId","type":"uint256"}],"name":"getProposal","outputs":[{"internalType":"uint256","name":"id","type":"uint256"},{"internalType":"address","name":"proposer","type":"address"},{"internalType":"enum BaseEmergencyMultiSig.OperationType","name":"operationType","type":"uint8"},{"internalType":"string","name":"description","type":"string"},{"internalType":"uint256","name":"approvalsCount","type":"uint256"},{"internalType":"uint256","name":"threshold","type":"uint256"},{"internalType":"enum BaseEmergencyMultiSig.ProposalStatus","name":"status","type":"uint8"},{"internalType":"uint256","name":"createdAt","type":"uint256"},{"internalType":"uint256","name":"expiresAt","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getSignerCount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getSigners","outputs":[{"internalType":"address[]","name":"","type":"address[]"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"}],"name":"isSigner","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"owner","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"pauseTarget","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"proposalCounter","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"proposalExpiration","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"proposals","outputs":[{"internalType":"uint256","name":"id","type":"uint256"},{"internalType":"address","name":"proposer","type":"address"},{"internalType":"enum BaseEmergencyMultiSig.OperationType","name":"operationType","type":"uint8"},{"internalType":"string","name":"description","type":"string"},{"internalType":"string","name":"targetContract","type":"string"},{"internalType":"bytes","name":"callData","type":"bytes"},{"internalType":"uint256","name":"threshold","type":"uint256"},{"internalType":"uint256","name":"approvalsCount","type":"uint256"},{"internalType":"uint256","name":"createdAt","type":"uint256"},{"internalType":"uint256","name":"expiresAt","type":"uint256"},{"internalType":"enum BaseEmergencyMultiSig.ProposalStatus","name":"status","type":"uint8"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"renounceOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"_delayTime","type":"uint256"}],"name":"setExecutionDelay","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"_newTarget","type":"address"}],"name":"setPauseTarget","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"_expirationTime","type":"uint256"}],"name":"setProposalExpiration","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"}],"name":"signerIndex","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"signerThreshold","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"signers","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"newOwner","type":"address"}],"name":"transferOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+] as const;
+
+export interface BaseEmergencyMultiSigOwnershipTransferredEvent {
+  previousOwner: string;
+  newOwner: string;
+}
+
+export interface BaseEmergencyMultiSigProposalApprovedEvent {
+  proposalId: bigint;
+  signer: string;
+  approvalsCount: bigint;
+  threshold: bigint;
+}
+
+export interface BaseEmergencyMultiSigProposalCancelledEvent {
+  proposalId: bigint;
+  canceller: string;
+  reason: string;
+}
+
+export interface BaseEmergencyMultiSigProposalCreatedEvent {
+  proposalId: bigint;
+  proposer: string;
+  operationType: bigint;
+  description: string;
+  createdAt: bigint;
+}
+
+export interface BaseEmergencyMultiSigProposalExecutedEvent {
+  proposalId: bigint;
+  executor: string;
+  operationType: bigint;
+  executedAt: bigint;
+}
+
+export interface BaseEmergencyMultiSigSignerAddedEvent {
+  newSigner: string;
+  timestamp: bigint;
+}
+
+export interface BaseEmergencyMultiSigSignerRemovedEvent {
+  removedSigner: string;
+  timestamp: bigint;
+}
+
+export interface BaseEmergencyMultiSigThresholdUpdatedEvent {
+  oldThreshold: bigint;
+  newThreshold: bigint;
+  timestamp: bigint;
+}
+
+export interface BaseEmergencyMultiSigEvents {
+  OwnershipTransferred: BaseEmergencyMultiSigOwnershipTransferredEvent;
+  ProposalApproved: BaseEmergencyMultiSigProposalApprovedEvent;
+  ProposalCancelled: BaseEmergencyMultiSigProposalCancelledEvent;
+  ProposalCreated: BaseEmergencyMultiSigProposalCreatedEvent;
+  ProposalExecuted: BaseEmergencyMultiSigProposalExecutedEvent;
+  SignerAdded: BaseEmergencyMultiSigSignerAddedEvent;
+  SignerRemoved: BaseEmergencyMultiSigSignerRemovedEvent;
+  ThresholdUpdated: BaseEmergencyMultiSigThresholdUpdatedEvent;
+}
+
+export type BaseEmergencyMultiSigError =
+  | { name: 'CannotRemoveLastSigner'; args: {}}
+  | { name: 'DuplicateSigner'; args: {}}
+  | { name: 'EmergencyModeActive'; args: {}}
+  | { name: 'ExecutionDelayNotMet'; args: {}}
+  | { name: 'InvalidOperationType'; args: {}}
+  | { name: 'InvalidSigner'; args: {}}
+  | { name: 'InvalidThreshold'; args: {}}
+  | { name: 'NotExecutor'; args: {}}
+  | { name: 'NotSigner'; args: {}}
+  | { name: 'OwnableInvalidOwner'; args: { owner: string; } }
+  | { name: 'OwnableUnauthorizedAccount'; args: { account: string; } }
+  | { name: 'ProposalAlreadyApproved'; args: {}}
+  | { name: 'ProposalExpired'; args: {}}
+  | { name: 'ProposalNotApproved'; args: {}}
+  | { name: 'ProposalNotFound'; args: {}}
+  | { name: 'ProposalNotPending'; args: {}}
+  | { name: 'ThresholdNotMet'; args: {}}
+  | BuiltinError;
+
+export interface BaseEmergencyMultiSigWriteFunctions {
+  approveProposal: { args: [_proposalId: BigNumberish]; result: void };
+  cancelProposal: { args: [_proposalId: BigNumberish, _reason: string]; result: void };
+  createProposal: { args: [_operationType: BigNumberish, _description: string, _targetContract: string, _callData: BytesLike]; result: bigint };
+  emergencyPause: { args: []; result: void };
+  executeProposal: { args: [_proposalId: BigNumberish]; result: void };
+  renounceOwnership: { args: []; result: void };
+  setExecutionDelay: { args: [_delayTime: BigNumberish]; result: void };
+  setPauseTarget: { args: [_newTarget: AddressLike]; result: void };
+  setProposalExpiration: { args: [_expirationTime: BigNumberish]; result: void };
+  transferOwnership: { args: [newOwner: AddressLike]; result: void };
+}
+
+const BaseEmergencyMultiSigWriteSignatures: Record<keyof BaseEmergencyMultiSigWriteFunctions, string> = {
+  approveProposal: 'approveProposal(uint256)',
+  cancelProposal: 'cancelProposal(uint256,string)',
+  createProposal: 'createProposal(uint8,string,string,bytes)',
+  emergencyPause: 'emergencyPause()',
+  executeProposal: 'executeProposal(uint256)',
+  renounceOwnership: 'renounceOwnership()',
+  setExecutionDelay: 'setExecutionDelay(uint256)',
+  setPauseTarget: 'setPauseTarget(address)',
+  setProposalExpiration: 'setProposalExpiration(uint256)',
+  transferOwnership: 'transferOwnership(address)',
+};
+
+export class BaseEmergencyMultiSigContract extends TypedContract<BaseEmergencyMultiSigEvents, BaseEmergencyMultiSigError, BaseEmergencyMultiSigWriteFunctions> {
+  static readonly abi = BaseEmergencyMultiSigAbi;
+
+  constructor(address: string, runner?: ContractRunner | null) {
+    super(address, BaseEmergencyMultiSigAbi, BaseEmergencyMultiSigWriteSignatures, runner);
+  }
+
+  connect(runner: ContractRunner | null): BaseEmergencyMultiSigContract {
+    return new BaseEmergencyMultiSigContract(this.address, runner);
+  }
+
+  approveProposal(_proposalId: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('approveProposal(uint256)', [_proposalId], overrides);
+  }
+
+  cancelProposal(_proposalId: BigNumberish, _reason: string, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('cancelProposal(uint256,string)', [_proposalId, _reason], overrides);
+  }
+
+  createProposal(_operationType: BigNumberish, _description: string, _targetContract: string, _callData: BytesLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('createProposal(uint8,string,string,bytes)', [_operationType, _description, _targetContract, _callData], overrides);
+  }
+
+  emergencyMode(): Promise<boolean> {
+    return this.read('emergencyMode()', []);
+  }
+
+  emergencyModeTimeout(): Promise<bigint> {
+    return this.read('emergencyModeTimeout()', []);
+  }
+
+  emergencyPause(overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('emergencyPause()', [], overrides);
+  }
+
+  executeProposal(_proposalId: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('executeProposal(uint256)', [_proposalId], overrides);
+  }
+
+  executionDelay(): Promise<bigint> {
+    return this.read('executionDelay()', []);
+  }
+
+  getApprovers(_proposalId: BigNumberish): Promise<string[]> {
+    return this.read('getApprovers(uint256)', [_proposalId]);
+  }
+
+  getProposal(_proposalId: BigNumberish): Promise<[id: bigint, proposer: string, operationType: bigint, description: string, approvalsCount: bigint, threshold: bigint, status: bigint, createdAt: bigint, expiresAt: bigint] & { id: bigint; proposer: string; operationType: bigint; description: string; approvalsCount: bigint; threshold: bigint; status: bigint; createdAt: bigint; expiresAt: bigint; }> {
+    return this.read('getProposal(uint256)', [_proposalId]);
+  }
+
+  getSignerCount(): Promise<bigint> {
+    return this.read('getSignerCount()', []);
+  }
+
+  getSigners(): Promise<string[]> {
+    return this.read('getSigners()', []);
+  }
+
+  isSigner(arg0: AddressLike): Promise<boolean> {
+    return this.read('isSigner(address)', [arg0]);
+  }
+
+  owner(): Promise<string> {
+    return this.read('owner()', []);
+  }
+
+  pauseTarget(): Promise<string> {
+    return this.read('pauseTarget()', []);
+  }
+
+  proposalCounter(): Promise<bigint> {
+    return this.read('proposalCounter()', []);
+  }
+
+  proposalExpiration(): Promise<bigint> {
+    return this.read('proposalExpiration()', []);
+  }
+
+  proposals(arg0: BigNumberish): Promise<[id: bigint, proposer: string, operationType: bigint, description: string, targetContract: string, callData: string, threshold: bigint, approvalsCount: bigint, createdAt: bigint, expiresAt: bigint, status: bigint] & { id: bigint; proposer: string; operationType: bigint; description: string; targetContract: string; callData: string; threshold: bigint; approvalsCount: bigint; createdAt: bigint; expiresAt: bigint; status: bigint; }> {
+    return this.read('proposals(uint256)', [arg0]);
+  }
+
+  renounceOwnership(overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('renounceOwnership()', [], overrides);
+  }
+
+  setExecutionDelay(_delayTime: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('setExecutionDelay(uint256)', [_delayTime], overrides);
+  }
+
+  setPauseTarget(_newTarget: AddressLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('setPauseTarget(address)', [_newTarget], overrides);
+  }
+
+  setProposalExpiration(_expirationTime: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('setProposalExpiration(uint256)', [_expirationTime], overrides);
+  }
+
+  signerIndex(arg0: AddressLike): Promise<bigint> {
+    return this.read('signerIndex(address)', [arg0]);
+  }
+
+  signers(arg0: BigNumberish): Promise<string> {
+    return this.read('signers(uint256)', [arg0]);
+  }
+
+  signerThreshold(): Promise<bigint> {
+    return this.read('signerThreshold()', []);
+  }
+
+  transferOwnership(newOwner: AddressLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('transferOwnership(address)', [newOwner], overrides);
+  }
+}
+
+export default BaseEmergencyMultiSigContract;
@@ -0,0 +1,374 @@
+/* Autogenerated by sdk/scripts/generate-bindings.mjs from the Foundry build. Do not edit. */
+
+/**
+ * @fileoverview Typed bindings for EnhancedCCIPBridge
+ */
+
+import type {
+  AddressLike,
+  BigNumberish,
+  BytesLike,
+  ContractRunner,
+  ContractTransactionResponse,
+  Overrides,
+} from 'ethers';
+import { BuiltinError, TypedContract } from './common';
+
+export const EnhancedCCIPBridgeAbi = [
+  {"inputs":[{"internalType":"address","name":"_router","type":"address"},{"internalType":"address","name":"_linkToken","type":"address"},{"internalType":"address","name":"_rebaseToken","type":"address"}],"stateMutability":"nonpayable","type":"constructor"},
+  {"inputs":[],"name":"BatchAlreadyExecuted","type":"error"},
+  {"inputs":[],"name":"BatchAmountMismatch","type":"error"},
+  {"inputs":[{"internalType":"uint256","name":"amount","type":"uint256"},{"internalType":"uint256","name":"min","type":"uint256"},{"internalType":"uint256","name":"max","type":"uint256"}],"name":"BridgeAmountOutOfBounds","type":"error"},
+  {"inputs":[{"internalType":"uint64","name":"chainSelector","type":"uint64"}],"name":"ChainNotConfigured","type":"error"},
+  {"inputs":[],"name":"ComposableRouteNotSet","type":"error"},
+  {"inputs":[],"name":"EmptyBatchTransfer","type":"error"},
+  {"inputs":[],"name":"EnforcedPause","type":"error"},
+  {"inputs":[],"name":"ExpectedPause","type":"error"},
+  {"inputs":[],"name":"InsufficientLinkBalance","type":"error"},
+  {"inputs":[],"name":"InvalidBatchId","type":"error"},
+  {"inputs":[],"name":"InvalidReceiverAddress","type":"error"},
+  {"inputs":[{"internalType":"address","name":"router","type":"address"}],"name":"InvalidRouter","type":"error"},
+  {"inputs":[{"internalType":"uint64","name":"chainSelector","type":"uint64"}],"name":"InvalidSourceChain","type":"error"},
+  {"inputs":[{"internalType":"address","name":"owner","type":"address"}],"name":"OwnableInvalidOwner","type":"error"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"}],"name":"OwnableUnauthorizedAccount","type":"error"},
+  {"inputs":[{"internalType":"uint256","name":"requested","type":"uint256"},{"internalType":"uint256","name":"available","type":"uint256"}],"name":"RateLimitExceeded","type":"error"},
+  {"inputs":[],"name":"ReentrancyGuardReentrantCall","type":"error"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"batchId","type":"uint256"},{"indexed":true,"internalType":"uint64","name":"destinationChain","type":"uint64"},{"indexed":false,"internalType":"uint256","name":"recipientCount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"totalAmount","type":"uint256"}],"name":"BatchCreated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"batchId","type":"uint256"},{"indexed":true,"internalType":"bytes32","name":"messageId","type":"bytes32"},{"indexed":true,"internalType":"uint64","name":"destinationChain","type":"uint64"}],"name":"BatchExecuted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint64","name":"chainSelector","type":"uint64"},{"indexed":true,"internalType":"address","name":"receiver","type":"address"},{"indexed":false,"internalType":"uint256","name":"minAmount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"maxAmount","type":"uint256"}],"name":"ChainConfigured","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"routeId","type":"bytes32"},{"indexed":true,"internalType":"uint64","name":"targetChain","type":"uint64"},{"indexed":true,"internalType":"address","name":"targetContract","type":"address"}],"name":"ComposableRouteSet","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"messageId","type":"bytes32"},{"indexed":true,"internalType":"uint64","name":"destinationChain","type":"uint64"},{"indexed":true,"internalType":"address","name":"recipient","type":"address"},{"indexed":false,"internalType":"uint256","name":"amount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"fees","type":"uint256"}],"name":"CrossChainTransfer","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"messageId","type":"bytes32"},{"indexed":true,"internalType":"uint64","name":"sourceChainSelector","type":"uint64"},{"indexed":true,"internalType":"address","name":"sender","type":"address"},{"indexed":false,"internalType":"uint256","name":"amount","type":"uint256"}],"name":"MessageReceived","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"previousOwner","type":"address"},{"indexed":true,"internalType":"address","name":"newOwner","type":"address"}],"name":"OwnershipTransferred","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"account","type":"address"}],"name":"Paused","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint64","name":"sourceChain","type":"uint64"},{"indexed":false,"internalType":"uint256","name":"tokensConsumed","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"tokensRemaining","type":"uint256"}],"name":"RateLimitApplied","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint64","name":"sourceChain","type":"uint64"},{"indexed":false,"internalType":"uint256","name":"tokensPerSecond","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"maxBurstSize","type":"uint256"}],"name":"RateLimitConfigured","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"account","type":"address"}],"name":"Unpaused","type":"event"},
+  {"inputs":[],"name":"batchCounter","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"batchTransfers","outputs":[{"internalType":"uint256","name":"id","type":"uint256"},{"internalType":"uint64","name":"destinationChain","type":"uint64"},{"internalType":"uint256","name":"totalAmount","type":"uint256"},{"internalType":"uint256","name":"timestamp","type":"uint256"},{"internalType":"bool","name":"executed","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint64","name":"_destinationChain","type":"uint64"},{"internalType":"address","name":"_recipient","type":"address"},{"internalType":"uint256","name":"_amount","type":"uint256"}],"name":"bridgeTokens","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"components":[{"internalType":"bytes32","name":"messageId","type":"bytes32"},{"internalType":"uint64","name":"sourceChainSelector","type":"uint64"},{"internalType":"bytes","name":"sender","type":"bytes"},{"internalType":"bytes","name":"data","type":"bytes"},{"components":[{"internalType":"address","name":"token","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"}],"internalType":"struct Client.EVMTokenAmount[]","name":"destTokenAmounts","type":"tuple[]"}],"internalType":"struct Client.Any2EVMMessage","name":"message","type":"tuple"}],"name":"ccipReceive","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint64","name":"","type":"uint64"},{"internalType":"uint256","name":"","type":"uint256"}],"name":"chainBatches","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint64","name":"","type":"uint64"}],"name":"chainBridgedTotal","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint64","name":"","type":"uint64"}],"name":"chainConfigs","outputs":[{"internalType":"bool","name":"enabled","type":"bool"},{"internalType":"address","name":"receiver","type":"address"},{"internalType":"uint256","name":"minBridgeAmount","type":"uint256"},{"internalType":"uint256","name":"maxBridgeAmount","type":"uint256"},{"internalType":"uint256","name":"batchWindow","type":"uint256"},{"internalType":"bytes32","name":"routerAddress","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint64","name":"","type":"uint64"}],"name":"chainRateLimitLastUpdate","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint64","name":"","type":"uint64"}],"name":"chainRateLimitTokens","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"name":"composableRoutes","outputs":[{"internalType":"uint64","name":"targetChain","type":"uint64"},{"internalType":"address","name":"targetContract","type":"address"},{"internalType":"bytes","name":"callData","type":"bytes"},{"internalType":"bool","name":"autoExecute","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint64","name":"_chainSelector","type":"uint64"},{"internalType":"address","name":"_receiver","type":"address"},{"internalType":"uint256","name":"_minAmount","type":"uint256"},{"internalType":"uint256","name":"_maxAmount","type":"uint256"},{"internalType":"uint256","name":"_batchWindow","type":"uint256"}],"name":"configureChain","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint64","name":"_destinationChain","type":"uint64"},{"internalType":"address[]","name":"_recipients","type":"address[]"},{"internalType":"uint256[]","name":"_amounts","type":"uint256[]"}],"name":"createBatchTransfer","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint64","name":"_chainSelector","type":"uint64"}],"name":"disableChain","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"_batchId","type":"uint256"}],"name":"executeBatch","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"_routeId","type":"bytes32"},{"internalType":"uint256","name":"_amount","type":"uint256"}],"name":"executeComposableCall","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"_batchId","type":"uint256"}],"name":"getBatchDetails","outputs":[{"internalType":"uint256","name":"id","type":"uint256"},{"internalType":"uint64","name":"destinationChain","type":"uint64"},{"internalType":"uint256","name":"totalAmount","type":"uint256"},{"internalType":"uint256","name":"recipientCount","type":"uint256"},{"internalType":"uint256","name":"timestamp","type":"uint256"},{"internalType":"bool","name":"executed","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"_batchId","type":"uint256"}],"name":"getBatchTransfers","outputs":[{"internalType":"address[]","name":"recipients","type":"address[]"},{"internalType":"uint256[]","name":"amounts","type":"uint256[]"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint64","name":"_chainSelector","type":"uint64"}],"name":"getChainBatches","outputs":[{"internalType":"uint256[]","name":"","type":"uint256[]"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint64","name":"_chainSelector","type":"uint64"}],"name":"getChainConfig","outputs":[{"internalType":"bool","name":"enabled","type":"bool"},{"internalType":"address","name":"receiver","type":"address"},{"internalType":"uint256","name":"minAmount","type":"uint256"},{"internalType":"uint256","name":"maxAmount","type":"uint256"},{"internalType":"uint256","name":"batchWindow","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint64","name":"_sourceChain","type":"uint64"}],"name":"getRateLimitStatus","outputs":[{"internalType":"uint256","name":"tokensPerSecond","type":"uint256"},{"internalType":"uint256","name":"maxBurstSize","type":"uint256"},{"internalType":"uint256","name":"tokensAvailable","type":"uint256"},{"internalType":"uint256","name":"lastUpdate","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getRouter","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getSupportedChainsCount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"owner","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"pauseBridging","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"paused","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint64","name":"","type":"uint64"}],"name":"rateLimits","outputs":[{"internalType":"uint256","name":"tokensPerSecond","type":"uint256"},{"internalType":"uint256","name":"maxBurstSize","type":"uint256"},{"internalType":"uint256","name":"lastRefillTime","type":"uint256"},{"internalType":"uint256","name":"tokensAvailable","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"rebaseToken","outputs":[{"internalType":"contract RebaseToken","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"renounceOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"_routeId","type":"bytes32"},{"internalType":"uint64","name":"_targetChain","type":"uint64"},{"internalType":"address","name":"_targetContract","type":"address"},{"internalType":"bytes","name":"_callData","type":"bytes"},{"internalType":"bool","name":"_autoExecute","type":"bool"}],"name":"setComposableRoute","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint64","name":"_sourceChain","type":"uint64"},{"internalType":"uint256","name":"_tokensPerSecond","type":"uint256"},{"internalType":"uint256","name":"_maxBurstSize","type":"uint256"}],"name":"setRateLimit","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes4","name":"interfaceId","type":"bytes4"}],"name":"supportsInterface","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"pure","type":"function"},
+  {"inputs":[{"internalType":"address","name":"newOwner","type":"address"}],"name":"transferOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"unpauseBridging","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"},{"internalType":"uint64","name":"","type":"uint64"}],"name":"userBridgedAmount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"_amount","type":"uint256"}],"name":"withdrawLink","outputs":[],"stateMutability":"nonpayable","type":"function"},
+] as const;
+
+export type EnhancedCCIPBridgeEVMTokenAmountStruct = { token: AddressLike; amount: BigNumberish; };
+
+export type EnhancedCCIPBridgeAny2EVMMessageStruct = { messageId: BytesLike; sourceChainSelector: BigNumberish; sender: BytesLike; data: BytesLike; destTokenAmounts: EnhancedCCIPBridgeEVMTokenAmountStruct[]; };
+
+export interface EnhancedCCIPBridgeBatchCreatedEvent {
+  batchId: bigint;
+  destinationChain: bigint;
+  recipientCount: bigint;
+  totalAmount: bigint;
+}
+
+export interface EnhancedCCIPBridgeBatchExecutedEvent {
+  batchId: bigint;
+  messageId: string;
+  destinationChain: bigint;
+}
+
+export interface EnhancedCCIPBridgeChainConfiguredEvent {
+  chainSelector: bigint;
+  receiver: string;
+  minAmount: bigint;
+  maxAmount: bigint;
+}
+
+export interface EnhancedCCIPBridgeComposableRouteSetEvent {
+  routeId: string;
+  targetChain: bigint;
+  targetContract: string;
+}
+
+export interface EnhancedCCIPBridgeCrossChainTransferEvent {
+  messageId: string;
+  destinationChain: bigint;
+  recipient: string;
+  amount: bigint;
+  fees: bigint;
+}
+
+export interface EnhancedCCIPBridgeMessageReceivedEvent {
+  messageId: string;
+  sourceChainSelector: bigint;
+  sender: string;
+  amount: bigint;
+}
+
+export interface EnhancedCCIPBridgeOwnershipTransferredEvent {
+  previousOwner: string;
+  newOwner: string;
+}
+
+export interface EnhancedCCIPBridgePausedEvent {
+  account: string;
+}
+
+export interface EnhancedCCIPBridgeRateLimitAppliedEvent {
+  sourceChain: bigint;
+  tokensConsumed: bigint;
+  tokensRemaining: bigint;
+}
+
+export interface EnhancedCCIPBridgeRateLimitConfiguredEvent {
+  sourceChain: bigint;
+  tokensPerSecond: bigint;
+  maxBurstSize: bigint;
+}
+
+export interface EnhancedCCIPBridgeUnpausedEvent {
+  account: string;
+}
+
+export interface EnhancedCCIPBridgeEvents {
+  BatchCreated: EnhancedCCIPBridgeBatchCreatedEvent;
+  BatchExecuted: EnhancedCCIPBridgeBatchExecutedEvent;
+  ChainConfigured: EnhancedCCIPBridgeChainConfiguredEvent;
+  ComposableRouteSet: EnhancedCCIPBridgeComposableRouteSetEvent;
+  CrossChainTransfer: EnhancedCCIPBridgeCrossChainTransferEvent;
+  MessageReceived: EnhancedCCIPBridgeMessageReceivedEvent;
+  OwnershipTransferred: EnhancedCCIPBridgeOwnershipTransferredEvent;
+  Paused: EnhancedCCIPBridgePausedEvent;
+  RateLimitApplied: EnhancedCCIPBridgeRateLimitAppliedEvent;
+  RateLimitConfigured: EnhancedCCIPBridgeRateLimitConfiguredEvent;
+  Unpaused: EnhancedCCIPBridgeUnpausedEvent;
+}
+
+export type EnhancedCCIPBridgeError =
+  | { name: 'BatchAlreadyExecuted'; args: {}}
+  | { name: 'BatchAmountMismatch'; args: {}}
+  | { name: 'BridgeAmountOutOfBounds'; args: { amount: bigint; min: bigint; max: bigint; } }
+  | { name: 'ChainNotConfigured'; args: { chainSelector: bigint; } }
+  | { name: 'ComposableRouteNotSet'; args: {}}
+  | { name: 'EmptyBatchTransfer'; args: {}}
+  | { name: 'EnforcedPause'; args: {}}
+  | { name: 'ExpectedPause'; args: {}}
+  | { name: 'InsufficientLinkBalance'; args: {}}
+  | { name: 'InvalidBatchId'; args: {}}
+  | { name: 'InvalidReceiverAddress'; args: {}}
+  | { name: 'InvalidRouter'; args: { router: string; } }
+  | { name: 'InvalidSourceChain'; args: { chainSelector: bigint; } }
+  | { name: 'OwnableInvalidOwner'; args: { owner: string; } }
+  | { name: 'OwnableUnauthorizedAccount'; args: { account: string; } }
+  | { name: 'RateLimitExceeded'; args: { requested: bigint; available: bigint; } }
+  | { name: 'ReentrancyGuardReentrantCall'; args: {}}
+  | BuiltinError;
+
+export interface EnhancedCCIPBridgeWriteFunctions {
+  bridgeTokens: { args: [_destinationChain: BigNumberish, _recipient: AddressLike, _amount: BigNumberish]; result: string };
+  ccipReceive: { args: [message: EnhancedCCIPBridgeAny2EVMMessageStruct]; result: void };
+  configureChain: { args: [_chainSelector: BigNumberish, _receiver: AddressLike, _minAmount: BigNumberish, _maxAmount: BigNumberish, _batchWindow: BigNumberish]; result: void };
+  createBatchTransfer: { args: [_destinationChain: BigNumberish, _recipients: AddressLike[], _amounts: BigNumberish[]]; result: bigint };
+  disableChain: { args: [_chainSelector: BigNumberish]; result: void };
+  executeBatch: { args: [_batchId: BigNumberish]; result: string };
+  executeComposableCall: { args: [_routeId: BytesLike, _amount: BigNumberish]; result: string };
+  pauseBridging: { args: []; result: void };
+  renounceOwnership: { args: []; result: void };
+  setComposableRoute: { args: [_routeId: BytesLike, _targetChain: BigNumberish, _targetContract: AddressLike, _callData: BytesLike, _autoExecute: boolean]; result: void };
+  setRateLimit: { args: [_sourceChain: BigNumberish, _tokensPerSecond: BigNumberish, _maxBurstSize: BigNumberish]; result: void };
+  transferOwnership: { args: [newOwner: AddressLike]; result: void };
+  unpauseBridging: { args: []; result: void };
+  withdrawLink: { args: [_amount: BigNumberish]; result: void };
+}
+
+const EnhancedCCIPBridgeWriteSignatures: Record<keyof EnhancedCCIPBridgeWriteFunctions, string> = {
+  bridgeTokens: 'bridgeTokens(uint64,address,uint256)',
+  ccipReceive: 'ccipReceive((bytes32,uint64,bytes,bytes,(address,uint256)[]))',
+  configureChain: 'configureChain(uint64,address,uint256,uint256,uint256)',
+  createBatchTransfer: 'createBatchTransfer(uint64,address[],uint256[])',
+  disableChain: 'disableChain(uint64)',
+  executeBatch: 'executeBatch(uint256)',
+  executeComposableCall: 'executeComposableCall(bytes32,uint256)',
+  pauseBridging: 'pauseBridging()',
+  renounceOwnership: 'renounceOwnership()',
+  setComposableRoute: 'setComposableRoute(bytes32,uint64,address,bytes,bool)',
+  setRateLimit: 'setRateLimit(uint64,uint256,uint256)',
+  transferOwnership: 'transferOwnership(address)',
+  unpauseBridging: 'unpauseBridging()',
+  withdrawLink: 'withdrawLink(uint256)',
+};
+
+export class EnhancedCCIPBridgeContract extends TypedContract<EnhancedCCIPBridgeEvents, EnhancedCCIPBridgeError, EnhancedCCIPBridgeWriteFunctions> {
+  static readonly abi = EnhancedCCIPBridgeAbi;
+
+  constructor(address: string, runner?: ContractRunner | null) {
+    super(address, EnhancedCCIPBridgeAbi, EnhancedCCIPBridgeWriteSignatures, runner);
+  }
+
+  connect(runner: ContractRunner | null): EnhancedCCIPBridgeContract {
+    return new EnhancedCCIPBridgeContract(this.address, runner);
+  }
+
+  batchCounter(): Promise<bigint> {
+    return this.read('batchCounter()', []);
+  }
+
+  batchTransfers(arg0: BigNumberish): Promise<[id: bigint, destinationChain: bigint, totalAmount: bigint, timestamp: bigint, executed: boolean] & { id: bigint; destinationChain: bigint; totalAmount: bigint; timestamp: bigint; executed: boolean; }> {
+    return this.read('batchTransfers(uint256)', [arg0]);
+  }
+
+  bridgeTokens(_destinationChain: BigNumberish, _recipient: AddressLike, _amount: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('bridgeTokens(uint64,address,uint256)', [_destinationChain, _recipient, _amount], overrides);
+  }
+
+  ccipReceive(message: EnhancedCCIPBridgeAny2EVMMessageStruct, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('ccipReceive((bytes32,uint64,bytes,bytes,(address,uint256)[]))', [message], overrides);
+  }
+
+  chainBatches(arg0: BigNumberish, arg1: BigNumberish): Promise<bigint> {
+    return this.read('chainBatches(uint64,uint256)', [arg0, arg1]);
+  }
+
+  chainBridgedTotal(arg0: BigNumberish): Promise<bigint> {
+    return this.read('chainBridgedTotal(uint64)', [arg0]);
+  }
+
+  chainConfigs(arg0: BigNumberish): Promise<[enabled: boolean, receiver: string, minBridgeAmount: bigint, maxBridgeAmount: bigint, batchWindow: bigint, routerAddress: string] & { enabled: boolean; receiver: string; minBridgeAmount: bigint; maxBridgeAmount: bigint; batchWindow: bigint; routerAddress: string; }> {
+    return this.read('chainConfigs(uint64)', [arg0]);
+  }
+
+  chainRateLimitLastUpdate(arg0: BigNumberish): Promise<bigint> {
+    return this.read('chainRateLimitLastUpdate(uint64)', [arg0]);
+  }
+
+  chainRateLimitTokens(arg0: BigNumberish): Promise<bigint> {
+    return this.read('chainRateLimitTokens(uint64)', [arg0]);
+  }
+
+  composableRoutes(arg0: BytesLike): Promise<[targetChain: bigint, targetContract: string, callData: string, autoExecute: boolean] & { targetChain: bigint; targetContract: string; callData: string; autoExecute: boolean; }> {
+    return this.read('composableRoutes(bytes32)', [arg0]);
+  }
+
+  configureChain(_chainSelector: BigNumberish, _receiver: AddressLike, _minAmount: BigNumberish, _maxAmount: BigNumberish, _batchWindow: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('configureChain(uint64,address,uint256,uint256,uint256)', [_chainSelector, _receiver, _minAmount, _maxAmount, _batchWindow], overrides);
+  }
+
+  createBatchTransfer(_destinationChain: BigNumberish, _recipients: AddressLike[], _amounts: BigNumberish[], overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('createBatchTransfer(uint64,address[],uint256[])', [_destinationChain, _recipients, _amounts], overrides);
+  }
+
+  disableChain(_chainSelector: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('disableChain(uint64)', [_chainSelector], overrides);
+  }
+
+  executeBatch(_batchId: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('executeBatch(uint256)', [_batchId], overrides);
+  }
+
+  executeComposableCall(_routeId: BytesLike, _amount: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('executeComposableCall(bytes32,uint256)', [_routeId, _amount], overrides);
+  }
+
+  getBatchDetails(_batchId: BigNumberish): Promise<[id: bigint, destinationChain: bigint, totalAmount: bigint, recipientCount: bigint, timestamp: bigint, executed: boolean] & { id: bigint; destinationChain: bigint; totalAmount: bigint; recipientCount: bigint; timestamp: bigint; executed: boolean; }> {
+    return this.read('getBatchDetails(uint256)', [_batchId]);
+  }
+
+  getBatchTransfers(_batchId: BigNumberish): Promise<[recipients: string[], amounts: bigint[]] & { recipients: string[]; amounts: bigint[]; }> {
+    return this.read('getBatchTransfers(uint256)', [_batchId]);
+  }
+
+  getChainBatches(_chainSelector: BigNumberish): Promise<bigint[]> {
+    return this.read('getChainBatches(uint64)', [_chainSelector]);
+  }
+
+  getChainConfig(_chainSelector: BigNumberish): Promise<[enabled: boolean, receiver: string, minAmount: bigint, maxAmount: bigint, batchWindow: bigint] & { enabled: boolean; receiver: string; minAmount: bigint; maxAmount: bigint; batchWindow: bigint; }> {
+    return this.read('getChainConfig(uint64)', [_chainSelector]);
+  }
+
+  getRateLimitStatus(_sourceChain: BigNumberish): Promise<[tokensPerSecond: bigint, maxBurstSize: bigint, tokensAvailable: bigint, lastUpdate: bigint] & { tokensPerSecond: bigint; maxBurstSize: bigint; tokensAvailable: bigint; lastUpdate: bigint; }> {
+    return this.read('getRateLimitStatus(uint64)', [_sourceChain]);
+  }
+
+  getRouter(): Promise<string> {
+    return this.read('getRouter()', []);
+  }
+
+  getSupportedChainsCount(): Promise<bigint> {
+    return this.read('getSupportedChainsCount()', []);
+  }
+
+  owner(): Promise<string> {
+    return this.read('owner()', []);
+  }
+
+  pauseBridging(overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('pauseBridging()', [], overrides);
+  }
+
+  paused(): Promise<boolean> {
+    return this.read('paused()', []);
+  }
+
+  rateLimits(arg0: BigNumberish): Promise<[tokensPerSecond: bigint, maxBurstSize: bigint, lastRefillTime: bigint, tokensAvailable: bigint] & { tokensPerSecond: bigint; maxBurstSize: bigint; lastRefillTime: bigint; tokensAvailable: bigint; }> {
+    return this.read('rateLimits(uint64)', [arg0]);
+  }
+
+  rebaseToken(): Promise<string> {
+    return this.read('rebaseToken()', []);
+  }
+
+  renounceOwnership(overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('renounceOwnership()', [], overrides);
+  }
+
+  setComposableRoute(_routeId: BytesLike, _targetChain: BigNumberish, _targetContract: AddressLike, _callData: BytesLike, _autoExecute: boolean, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('setComposableRoute(bytes32,uint64,address,bytes,bool)', [_routeId, _targetChain, _targetContract, _callData, _autoExecute], overrides);
+  }
+
+  setRateLimit(_sourceChain: BigNumberish, _tokensPerSecond: BigNumberish, _maxBurstSize: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('setRateLimit(uint64,uint256,uint256)', [_sourceChain, _tokensPerSecond, _maxBurstSize], overrides);
+  }
+
+  supportsInterface(interfaceId: BytesLike): Promise<boolean> {
+    return this.read('supportsInterface(bytes4)', [interfaceId]);
+  }
+
+  transferOwnership(newOwner: AddressLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('transferOwnership(address)', [newOwner], overrides);
+  }
+
+  unpauseBridging(overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('unpauseBridging()', [], overrides);
+  }
+
+  userBridgedAmount(arg0: AddressLike, arg1: BigNumberish): Promise<bigint> {
+    return this.read('userBridgedAmount(address,uint64)', [arg0, arg1]);
+  }
+
+  withdrawLink(_amount: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('withdrawLink(uint256)', [_amount], overrides);
+  }
+}
+
+export default EnhancedCCIPBridgeContract;
@@ -0,0 +1,164 @@
+/* Autogenerated by sdk/scripts/generate-bindings.mjs from the Foundry build. Do not edit. */
+
+/**
+ * @fileoverview Typed bindings for HealthChecker
+ */
+
+import type {
+  AddressLike,
+  BigNumberish,
+  BytesLike,
+  ContractRunner,
+  ContractTransactionResponse,
+  Overrides,
+} from 'ethers';
+import { BuiltinError, TypedContract } from './common';
+
+export const HealthCheckerAbi = [
+  {"inputs":[{"internalType":"address","name":"_token","type":"address"},{"internalType":"address","name":"_vault","type":"address"},{"internalType":"address","name":"_bridge","type":"address"},{"internalType":"address","name":"_governor","type":"address"},{"internalType":"address","name":"_timelock","type":"address"},{"internalType":"address","name":"_votingEscrow","type":"address"}],"stateMutability":"nonpayable","type":"constructor"},
+  {"inputs":[],"name":"MAX_HEALTHY_UTILIZATION","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"MAX_REBASE_INTERVAL","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"MIN_BRIDGE_ACTIVITY","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"MIN_QUORUM_PERCENTAGE","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"bridge","outputs":[{"internalType":"contract BaseBridgeMessenger","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getAlerts","outputs":[{"internalType":"string[]","name":"alerts","type":"string[]"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getBridgeHealth","outputs":[{"components":[{"internalType":"bool","name":"isOperational","type":"bool"},{"internalType":"bool","name":"isPaused","type":"bool"},{"internalType":"uint256","name":"pendingMessages","type":"uint256"},{"internalType":"uint256","name":"failedMessages","type":"uint256"},{"internalType":"uint256","name":"lastMessageTime","type":"uint256"},{"internalType":"uint256","name":"timeSinceMessage","type":"uint256"},{"internalType":"bool","name":"messageFlowHealthy","type":"bool"},{"internalType":"uint256","name":"totalBridged","type":"uint256"}],"internalType":"struct HealthChecker.BridgeHealth","name":"health","type":"tuple"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getGovernanceHealth","outputs":[{"components":[{"internalType":"bool","name":"isOperational","type":"bool"},{"internalType":"uint256","name":"activeProposals","type":"uint256"},{"internalType":"uint256","name":"queuedProposals","type":"uint256"},{"internalType":"uint256","name":"totalProposals","type":"uint256"},{"internalType":"uint256","name":"votingPower","type":"uint256"},{"internalType":"uint256","name":"participationRate","type":"uint256"},{"internalType":"bool","name":"quorumHealthy","type":"bool"}],"internalType":"struct HealthChecker.GovernanceHealth","name":"health","type":"tuple"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getQuickMetrics","outputs":[{"internalType":"uint256","name":"operational","type":"uint256"},{"internalType":"uint256","name":"paused","type":"uint256"},{"internalType":"uint256","name":"utilizationBps","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getSystemHealth","outputs":[{"components":[{"internalType":"bool","name":"allSystemsOperational","type":"bool"},{"components":[{"internalType":"bool","name":"isOperational","type":"bool"},{"internalType":"uint256","name":"totalSupply","type":"uint256"},{"internalType":"uint256","name":"rebaseIndex","type":"uint256"},{"internalType":"uint256","name":"lastRebaseTime","type":"uint256"},{"internalType":"uint256","name":"timeSinceRebase","type":"uint256"},{"internalType":"bool","name":"rebaseHealthy","type":"bool"},{"internalType":"uint256","name":"holderCount","type":"uint256"}],"internalType":"struct HealthChecker.TokenHealth","name":"token","type":"tuple"},{"components":[{"internalType":"bool","name":"isOperational","type":"bool"},{"internalType":"bool","name":"isPaused","type":"bool"},{"internalType":"uint256","name":"totalAssets","type":"uint256"},{"internalType":"uint256","name":"totalShares","type":"uint256"},{"internalType":"uint256","name":"utilizationRate","type":"uint256"},{"internalType":"uint256","name":"sharePrice","type":"uint256"},{"internalType":"bool","name":"utilizationHealthy","type":"bool"},{"internalType":"bool","name":"sharePriceHealthy","type":"bool"},{"internalType":"uint256","name":"userCount","type":"uint256"}],"internalType":"struct HealthChecker.VaultHealth","name":"vault","type":"tuple"},{"components":[{"internalType":"bool","name":"isOperational","type":"bool"},{"internalType":"bool","name":"isPaused","type":"bool"},{"internalType":"uint256","name":"pendingMessages","type":"uint256"},{"internalType":"uint256","name":"failedMessages","type":"uint256"},{"internalType":"uint256","name":"lastMessageTime","type":"uint256"},{"internalType":"uint256","name":"timeSinceMessage","type":"uint256"},{"internalType":"bool","name":"messageFlowHealthy","type":"bool"},{"internalType":"uint256","name":"totalBridged","type":"uint256"}],"internalType":"struct HealthChecker.BridgeHealth","name":"bridge","type":"tuple"},{"components":[{"internalType":"bool","name":"isOperational","type":"bool"},{"internalType":"uint256","name":"activeProposals","type":"uint256"},{"internalType":"uint256","name":"queuedProposals","type":"uint256"},{"internalType":"uint256","name":"totalProposals","type":"uint256"},{"internalType":"uint256","name":"votingPower","type":"uint256"},{"internalType":"uint256","name":"participationRate","type":"uint256"},{"internalType":"bool","name":"quorumHealthy","type":"bool"}],"internalType":"struct HealthChecker.GovernanceHealth","name":"governance","type":"tuple"},{"components":[{"internalType":"bool","name":"isOperational","type":"bool"},{"internalType":"uint256","name":"queuedOperations","type":"uint256"},{"internalType":"uint256","name":"readyOperations","type":"uint256"},{"internalType":"uint256","name":"minDelay","type":"uint256"},{"internalType":"bool","name":"delayHealthy","type":"bool"}],"internalType":"struct HealthChecker.TimelockHealth","name":"timelock","type":"tuple"},{"components":[{"internalType":"bool","name":"isOperational","type":"bool"},{"internalType":"uint256","name":"totalLocked","type":"uint256"},{"internalType":"uint256","name":"averageLockTime","type":"uint256"},{"internalType":"uint256","name":"activeLockers","type":"uint256"},{"internalType":"bool","name":"lockingHealthy","type":"bool"}],"internalType":"struct HealthChecker.VotingEscrowHealth","name":"votingEscrow","type":"tuple"},{"internalType":"uint256","name":"timestamp","type":"uint256"},{"internalType":"uint256","name":"blockNumber","type":"uint256"}],"internalType":"struct HealthChecker.SystemHealth","name":"health","type":"tuple"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getTimelockHealth","outputs":[{"components":[{"internalType":"bool","name":"isOperational","type":"bool"},{"internalType":"uint256","name":"queuedOperations","type":"uint256"},{"internalType":"uint256","name":"readyOperations","type":"uint256"},{"internalType":"uint256","name":"minDelay","type":"uint256"},{"internalType":"bool","name":"delayHealthy","type":"bool"}],"internalType":"struct HealthChecker.TimelockHealth","name":"health","type":"tuple"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getTokenHealth","outputs":[{"components":[{"internalType":"bool","name":"isOperational","type":"bool"},{"internalType":"uint256","name":"totalSupply","type":"uint256"},{"internalType":"uint256","name":"rebaseIndex","type":"uint256"},{"internalType":"uint256","name":"lastRebaseTime","type":"uint256"},{"internalType":"uint256","name":"timeSinceRebase","type":"uint256"},{"internalType":"bool","name":"rebaseHealthy","type":"bool"},{"internalType":"uint256","name":"holderCount","type":"uint256"}],"internalType":"struct HealthChecker.TokenHealth","name":"health","type":"tuple"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getVaultHealth","outputs":[{"components":[{"internalType":"bool","name":"isOperational","type":"bool"},{"internalType":"bool","name":"isPaused","type":"bool"},{"internalType":"uint256","name":"totalAssets","type":"uint256"},{"internalType":"uint256","name":"totalShares","type":"uint256"},{"internalType":"uint256","name":"utilizationRate","type":"uint256"},{"internalType":"uint256","name":"sharePrice","type":"uint256"},{"internalType":"bool","name":"utilizationHealthy","type":"bool"},{"internalType":"bool","name":"sharePriceHealthy","type":"bool"},{"internalType":"uint256","name":"userCount","type":"uint256"}],"internalType":"struct HealthChecker.VaultHealth","name":"health","type":"tuple"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getVotingEscrowHealth","outputs":[{"components":[{"internalType":"bool","name":"isOperational","type":"bool"},{"internalType":"uint256","name":"totalLocked","type":"uint256"},{"internalType":"uint256","name":"averageLockTime","type":"uint256"},{"internalType":"uint256","name":"activeLockers","type":"uint256"},{"internalType":"bool","name":"lockingHealthy","type":"bool"}],"internalType":"struct HealthChecker.VotingEscrowHealth","name":"health","type":"tuple"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"governor","outputs":[{"internalType":"contract BaseroGovernor","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"isHealthy","outputs":[{"internalType":"bool","name":"healthy","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"timelock","outputs":[{"internalType":"contract BaseroTimelock","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"token","outputs":[{"internalType":"contract RebaseToken","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"vault","outputs":[{"internalType":"contract AdvancedStrategyVault","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"votingEscrow","outputs":[{"internalType":"contract VotingEscrow","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+] as const;
+
+export type HealthCheckerBridgeHealthStructOutput = [isOperational: boolean, isPaused: boolean, pendingMessages: bigint, failedMessages: bigint, lastMessageTime: bigint, timeSinceMessage: bigint, messageFlowHealthy: boolean, totalBridged: bigint] & { isOperational: boolean; isPaused: boolean; pendingMessages: bigint; failedMessages: bigint; lastMessageTime: bigint; timeSinceMessage: bigint; messageFlowHealthy: boolean; totalBridged: bigint; };
+
+export type HealthCheckerGovernanceHealthStructOutput = [isOperational: boolean, activeProposals: bigint, queuedProposals: bigint, totalProposals: bigint, votingPower: bigint, participationRate: bigint, quorumHealthy: boolean] & { isOperational: boolean; activeProposals: bigint; queuedProposals: bigint; totalProposals: bigint; votingPower: bigint; participationRate: bigint; quorumHealthy: boolean; };
+
+export type HealthCheckerTokenHealthStructOutput = [isOperational: boolean, totalSupply: bigint, rebaseIndex: bigint, lastRebaseTime: bigint, timeSinceRebase: bigint, rebaseHealthy: boolean, holderCount: bigint] & { isOperational: boolean; totalSupply: bigint; rebaseIndex: bigint; lastRebaseTime: bigint; timeSinceRebase: bigint; rebaseHealthy: boolean; holderCount: bigint; };
+
+export type HealthCheckerVaultHealthStructOutput = [isOperational: boolean, isPaused: boolean, totalAssets: bigint, totalShares: bigint, utilizationRate: bigint, sharePrice: bigint, utilizationHealthy: boolean, sharePriceHealthy: boolean, userCount: bigint] & { isOperational: boolean; isPaused: boolean; totalAssets: bigint; totalShares: bigint; utilizationRate: bigint; sharePrice: bigint; utilizationHealthy: boolean; sharePriceHealthy: boolean; userCount: bigint; };
+
+export type HealthCheckerTimelockHealthStructOutput = [isOperational: boolean, queuedOperations: bigint, readyOperations: bigint, minDelay: bigint, delayHealthy: boolean] & { isOperational: boolean; queuedOperations: bigint; readyOperations: bigint; minDelay: bigint; delayHealthy: boolean; };
+
+export type HealthCheckerVotingEscrowHealthStructOutput = [isOperational: boolean, totalLocked: bigint, averageLockTime: bigint, activeLockers: bigint, lockingHealthy: boolean] & { isOperational: boolean; totalLocked: bigint; averageLockTime: bigint; activeLockers: bigint; lockingHealthy: boolean; };
+
+export type HealthCheckerSystemHealthStructOutput = [allSystemsOperational: boolean, token: HealthCheckerTokenHealthStructOutput, vault: HealthCheckerVaultHealthStructOutput, bridge: HealthCheckerBridgeHealthStructOutput, governance: HealthCheckerGovernanceHealthStructOutput, timelock: HealthCheckerTimelockHealthStructOutput, votingEscrow: HealthCheckerVotingEscrowHealthStructOutput, timestamp: bigint, blockNumber: bigint] & { allSystemsOperational: boolean; token: HealthCheckerTokenHealthStructOutput; vault: HealthCheckerVaultHealthStructOutput; bridge: HealthCheckerBridgeHealthStructOutput; governance: HealthCheckerGovernanceHealthStructOutput; timelock: HealthCheckerTimelockHealthStructOutput; votingEscrow: HealthCheckerVotingEscrowHealthStructOutput; timestamp: bigint; blockNumber: bigint; };
+
+// HealthChecker declares no events
+
+export interface HealthCheckerEvents {
+
+}
+
+export type HealthCheckerError =
+  BuiltinError;
+
+export interface HealthCheckerWriteFunctions {
+
+}
+
+const HealthCheckerWriteSignatures: Record<keyof HealthCheckerWriteFunctions, string> = {
+
+};
+
+export class HealthCheckerContract extends TypedContract<HealthCheckerEvents, HealthCheckerError, HealthCheckerWriteFunctions> {
+  static readonly abi = HealthCheckerAbi;
+
+  constructor(address: string, runner?: ContractRunner | null) {
+    super(address, HealthCheckerAbi, HealthCheckerWriteSignatures, runner);
+  }
+
+  connect(runner: ContractRunner | null): HealthCheckerContract {
+    return new HealthCheckerContract(this.address, runner);
+  }
+
+  bridge(): Promise<string> {
+    return this.read('bridge()', []);
+  }
+
+  getAlerts(): Promise<string[]> {
+    return this.read('getAlerts()', []);
+  }
+
+  getBridgeHealth(): Promise<HealthCheckerBridgeHealthStructOutput> {
+    return this.read('getBridgeHealth()', []);
+  }
+
+  getGovernanceHealth(): Promise<HealthCheckerGovernanceHealthStructOutput> {
+    return this.read('getGovernanceHealth()', []);
+  }
+
+  getQuickMetrics(): Promise<[operational: bigint, paused: bigint, utilizationBps: bigint] & { operational: bigint; paused: bigint; utilizationBps: bigint; }> {
+    return this.read('getQuickMetrics()', []);
+  }
+
+  getSystemHealth(): Promise<HealthCheckerSystemHealthStructOutput> {
+    return this.read('getSystemHealth()', []);
+  }
+
+  getTimelockHealth(): Promise<HealthCheckerTimelockHealthStructOutput> {
+    return this.read('getTimelockHealth()', []);
+  }
+
+  getTokenHealth(): Promise<HealthCheckerTokenHealthStructOutput> {
+    return this.read('getTokenHealth()', []);
+  }
+
+  getVaultHealth(): Promise<HealthCheckerVaultHealthStructOutput> {
+    return this.read('getVaultHealth()', []);
+  }
+
+  getVotingEscrowHealth(): Promise<HealthCheckerVotingEscrowHealthStructOutput> {
+    return this.read('getVotingEscrowHealth()', []);
+  }
+
+  governor(): Promise<string> {
+    return this.read('governor()', []);
+  }
+
+  isHealthy(): Promise<boolean> {
+    return this.read('isHealthy()', []);
+  }
+
+  MAX_HEALTHY_UTILIZATION(): Promise<bigint> {
+    return this.read('MAX_HEALTHY_UTILIZATION()', []);
+  }
+
+  MAX_REBASE_INTERVAL(): Promise<bigint> {
+    return this.read('MAX_REBASE_INTERVAL()', []);
+  }
+
+  MIN_BRIDGE_ACTIVITY(): Promise<bigint> {
+    return this.read('MIN_BRIDGE_ACTIVITY()', []);
+  }
+
+  MIN_QUORUM_PERCENTAGE(): Promise<bigint> {
+    return this.read('MIN_QUORUM_PERCENTAGE()', []);
+  }
+
+  timelock(): Promise<string> {
+    return this.read('timelock()', []);
+  }
+
+  token(): Promise<string> {
+    return this.read('token()', []);
+  }
+
+  vault(): Promise<string> {
+    return this.read('vault()', []);
+  }
+
+  votingEscrow(): Promise<string> {
+    return this.read('votingEscrow()', []);
+  }
+}
+
+export default HealthCheckerContract;
@@ -0,0 +1,331 @@
+/* Autogenerated by sdk/scripts/generate-bindings.mjs from the Foundry build. Do not edit. */
+
+/**
+ * @fileoverview Typed bindings for PauseRecovery
+ */
+
+import type {
+  AddressLike,
+  BigNumberish,
+  BytesLike,
+  ContractRunner,
+  ContractTransactionResponse,
+  Overrides,
+} from 'ethers';
+import { BuiltinError, TypedContract } from './common';
+
+export const PauseRecoveryAbi = [
+  {"inputs":[{"internalType":"address","name":"_multiSigAddress","type":"address"},{"internalType":"address","name":"_vaultAddress","type":"address"},{"internalType":"address","name":"_bridgeAddress","type":"address"},{"internalType":"address","name":"_governorAddress","type":"address"}],"stateMutability":"nonpayable","type":"constructor"},
+  {"inputs":[],"name":"AlreadyPaused","type":"error"},
+  {"inputs":[],"name":"ExcessiveWithdrawalAmount","type":"error"},
+  {"inputs":[],"name":"InvalidPauseLevel","type":"error"},
+  {"inputs":[],"name":"InvalidRecoveryStage","type":"error"},
+  {"inputs":[],"name":"InvalidSnapshotId","type":"error"},
+  {"inputs":[],"name":"NotMultiSig","type":"error"},
+  {"inputs":[],"name":"NotPaused","type":"error"},
+  {"inputs":[{"internalType":"address","name":"owner","type":"address"}],"name":"OwnableInvalidOwner","type":"error"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"}],"name":"OwnableUnauthorizedAccount","type":"error"},
+  {"inputs":[],"name":"PauseCooldownActive","type":"error"},
+  {"inputs":[],"name":"RecoveryNotFound","type":"error"},
+  {"inputs":[],"name":"RecoveryTimeout","type":"error"},
+  {"inputs":[],"name":"ReentrancyGuardReentrantCall","type":"error"},
+  {"inputs":[],"name":"WithdrawalNotApproved","type":"error"},
+  {"inputs":[],"name":"WithdrawalRequestNotFound","type":"error"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"user","type":"address"},{"indexed":true,"internalType":"address","name":"token","type":"address"},{"indexed":false,"internalType":"uint256","name":"amount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"}],"name":"EmergencyWithdrawal","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"previousOwner","type":"address"},{"indexed":true,"internalType":"address","name":"newOwner","type":"address"}],"name":"OwnershipTransferred","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"enum PauseRecovery.PauseLevel","name":"pauseLevel","type":"uint8"},{"indexed":false,"internalType":"string","name":"reason","type":"string"},{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"},{"indexed":true,"internalType":"address","name":"initiator","type":"address"}],"name":"ProtocolPaused","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"enum PauseRecovery.PauseLevel","name":"pauseLevel","type":"uint8"},{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"},{"indexed":true,"internalType":"address","name":"initiator","type":"address"}],"name":"ProtocolUnpaused","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"recoveryId","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"duration","type":"uint256"},{"indexed":false,"internalType":"string","name":"outcome","type":"string"},{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"}],"name":"RecoveryCompleted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"recoveryId","type":"uint256"},{"indexed":false,"internalType":"enum PauseRecovery.RecoveryStage","name":"stage","type":"uint8"},{"indexed":false,"internalType":"string","name":"description","type":"string"},{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"}],"name":"RecoveryInitiated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"recoveryId","type":"uint256"},{"indexed":false,"internalType":"enum PauseRecovery.RecoveryStage","name":"oldStage","type":"uint8"},{"indexed":false,"internalType":"enum PauseRecovery.RecoveryStage","name":"newStage","type":"uint8"},{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"}],"name":"RecoveryStageUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"snapshotId","type":"uint256"},{"indexed":false,"internalType":"string","name":"description","type":"string"},{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"}],"name":"StateSnapshotTaken","type":"event"},
+  {"inputs":[{"internalType":"uint256","name":"_recoveryId","type":"uint256"},{"internalType":"enum PauseRecovery.RecoveryStage","name":"_nextStage","type":"uint8"},{"internalType":"bytes","name":"_data","type":"bytes"}],"name":"advanceRecoveryStage","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"_requestId","type":"uint256"}],"name":"approveEmergencyWithdrawal","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"autoRecoveryEnabled","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"bridgeAddress","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"_recoveryId","type":"uint256"},{"internalType":"string","name":"_outcome","type":"string"}],"name":"completeRecovery","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"_requestId","type":"uint256"}],"name":"executeEmergencyWithdrawal","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"getPauseState","outputs":[{"components":[{"internalType":"enum PauseRecovery.PauseLevel","name":"level","type":"uint8"},{"internalType":"bool","name":"isActive","type":"bool"},{"internalType":"uint256","name":"initiatedAt","type":"uint256"},{"internalType":"address","name":"initiatedBy","type":"address"},{"internalType":"string","name":"reason","type":"string"},{"internalType":"bool","name":"vaultPaused","type":"bool"},{"internalType":"bool","name":"bridgePaused","type":"bool"},{"internalType":"bool","name":"governancePaused","type":"bool"}],"internalType":"struct PauseRecovery.PauseState","name":"","type":"tuple"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"_recoveryId","type":"uint256"}],"name":"getRecoveryInfo","outputs":[{"internalType":"uint256","name":"id","type":"uint256"},{"internalType":"enum PauseRecovery.RecoveryStage","name":"stage","type":"uint8"},{"internalType":"string","name":"description","type":"string"},{"internalType":"uint256","name":"initiatedAt","type":"uint256"},{"internalType":"uint256","name":"targetCompletionTime","type":"uint256"},{"internalType":"bool","name":"isCompleted","type":"bool"},{"internalType":"string","name":"outcome","type":"string"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"_snapshotId","type":"uint256"}],"name":"getSnapshot","outputs":[{"components":[{"internalType":"uint256","name":"id","type":"uint256"},{"internalType":"uint256","name":"timestamp","type":"uint256"},{"internalType":"address","name":"snapshotTaker","type":"address"},{"internalType":"string","name":"description","type":"string"},{"internalType":"uint256","name":"totalSupply","type":"uint256"},{"internalType":"uint256","name":"totalVaultShares","type":"uint256"},{"internalType":"uint256","name":"totalLockedVotes","type":"uint256"},{"internalType":"uint256","name":"bridgeQueuedMessages","type":"uint256"},{"internalType":"enum PauseRecovery.PauseLevel","name":"pauseLevel","type":"uint8"},{"internalType":"bool","name":"vaultPaused","type":"bool"},{"internalType":"bool","name":"bridgePaused","type":"bool"},{"internalType":"bool","name":"governancePaused","type":"bool"}],"internalType":"struct PauseRecovery.StateSnapshot","name":"","type":"tuple"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"governorAddress","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"string","name":"_component","type":"string"}],"name":"isPaused","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"maxEmergencyWithdrawalPercent","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"multiSigAddress","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"owner","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"pauseCooldown","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"enum PauseRecovery.PauseLevel","name":"_level","type":"uint8"},{"internalType":"string","name":"_reason","type":"string"}],"name":"pauseProtocol","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"pauseState","outputs":[{"internalType":"enum PauseRecovery.PauseLevel","name":"level","type":"uint8"},{"internalType":"bool","name":"isActive","type":"bool"},{"internalType":"uint256","name":"initiatedAt","type":"uint256"},{"internalType":"address","name":"initiatedBy","type":"address"},{"internalType":"string","name":"reason","type":"string"},{"internalType":"bool","name":"vaultPaused","type":"bool"},{"internalType":"bool","name":"bridgePaused","type":"bool"},{"internalType":"bool","name":"governancePaused","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"recoveries","outputs":[{"internalType":"uint256","name":"id","type":"uint256"},{"internalType":"enum PauseRecovery.RecoveryStage","name":"stage","type":"uint8"},{"internalType":"string","name":"description","type":"string"},{"internalType":"uint256","name":"initiatedAt","type":"uint256"},{"internalType":"address","name":"initiator","type":"address"},{"internalType":"uint256","name":"estimatedDuration","type":"uint256"},{"internalType":"uint256","name":"targetCompletionTime","type":"uint256"},{"internalType":"bool","name":"isCompleted","type":"bool"},{"internalType":"uint256","name":"completedAt","type":"uint256"},{"internalType":"string","name":"outcome","type":"string"},{"internalType":"bytes","name":"recoveryData","type":"bytes"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"recoveryCounter","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"recoveryTimeout","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"renounceOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"_user","type":"address"},{"internalType":"address","name":"_token","type":"address"},{"internalType":"uint256","name":"_amount","type":"uint256"}],"name":"requestEmergencyWithdrawal","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"_percent","type":"uint256"}],"name":"setMaxEmergencyWithdrawalPercent","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"_cooldown","type":"uint256"}],"name":"setPauseCooldown","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"_timeout","type":"uint256"}],"name":"setRecoveryTimeout","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"snapshotCounter","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"snapshots","outputs":[{"internalType":"uint256","name":"id","type":"uint256"},{"internalType":"uint256","name":"timestamp","type":"uint256"},{"internalType":"address","name":"snapshotTaker","type":"address"},{"internalType":"string","name":"description","type":"string"},{"internalType":"uint256","name":"totalSupply","type":"uint256"},{"internalType":"uint256","name":"totalVaultShares","type":"uint256"},{"internalType":"uint256","name":"totalLockedVotes","type":"uint256"},{"internalType":"uint256","name":"bridgeQueuedMessages","type":"uint256"},{"internalType":"enum PauseRecovery.PauseLevel","name":"pauseLevel","type":"uint8"},{"internalType":"bool","name":"vaultPaused","type":"bool"},{"internalType":"bool","name":"bridgePaused","type":"bool"},{"internalType":"bool","name":"governancePaused","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"newOwner","type":"address"}],"name":"transferOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"enum PauseRecovery.PauseLevel","name":"_level","type":"uint8"}],"name":"unpauseProtocol","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"vaultAddress","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"withdrawalCounter","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"withdrawalRequests","outputs":[{"internalType":"uint256","name":"id","type":"uint256"},{"internalType":"address","name":"user","type":"address"},{"internalType":"address","name":"token","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"},{"internalType":"uint256","name":"requestedAt","type":"uint256"},{"internalType":"bool","name":"approved","type":"bool"},{"internalType":"bool","name":"withdrawn","type":"bool"}],"stateMutability":"view","type":"function"},
+] as const;
+
+export type PauseRecoveryPauseStateStructOutput = [level: bigint, isActive: boolean, initiatedAt: bigint, initiatedBy: string, reason: string, vaultPaused: boolean, bridgePaused: boolean, governancePaused: boolean] & { level: bigint; isActive: boolean; initiatedAt: bigint; initiatedBy: string; reason: string; vaultPaused: boolean; bridgePaused: boolean; governancePaused: boolean; };
+
+export type PauseRecoveryStateSnapshotStructOutput = [id: bigint, timestamp: bigint, snapshotTaker: string, description: string, totalSupply: bigint, totalVaultShares: bigint, totalLockedVotes: bigint, bridgeQueuedMessages: bigint, pauseLevel: bigint, vaultPaused: boolean, bridgePaused: boolean, governancePaused: boolean] & { id: bigint; timestamp: bigint; snapshotTaker: string; description: string; totalSupply: bigint; totalVaultShares: bigint; totalLockedVotes: bigint; bridgeQueuedMessages: bigint; pauseLevel: bigint; vaultPaused: boolean; bridgePaused: boolean; governancePaused: boolean; };
+
+export interface PauseRecoveryEmergencyWithdrawalEvent {
+  user: string;
+  token: string;
+  amount: bigint;
+  timestamp: bigint;
+}
+
+export interface PauseRecoveryOwnershipTransferredEvent {
+  previousOwner: string;
+  newOwner: string;
+}
+
+export interface PauseRecoveryProtocolPausedEvent {
+  pauseLevel: bigint;
+  reason: string;
+  timestamp: bigint;
+  initiator: string;
+}
+
+export interface PauseRecoveryProtocolUnpausedEvent {
+  pauseLevel: bigint;
+  timestamp: bigint;
+  initiator: string;
+}
+
+export interface PauseRecoveryRecoveryCompletedEvent {
+  recoveryId: bigint;
+  duration: bigint;
+  outcome: string;
+  timestamp: bigint;
+}
+
+export interface PauseRecoveryRecoveryInitiatedEvent {
+  recoveryId: bigint;
+  stage: bigint;
+  description: string;
+  timestamp: bigint;
+}
+
+export interface PauseRecoveryRecoveryStageUpdatedEvent {
+  recoveryId: bigint;
+  oldStage: bigint;
+  newStage: bigint;
+  timestamp: bigint;
+}
+
+export interface PauseRecoveryStateSnapshotTakenEvent {
+  snapshotId: bigint;
+  description: string;
+  timestamp: bigint;
+}
+
+export interface PauseRecoveryEvents {
+  EmergencyWithdrawal: PauseRecoveryEmergencyWithdrawalEvent;
+  OwnershipTransferred: PauseRecoveryOwnershipTransferredEvent;
+  ProtocolPaused: PauseRecoveryProtocolPausedEvent;
+  ProtocolUnpaused: PauseRecoveryProtocolUnpausedEvent;
+  RecoveryCompleted: PauseRecoveryRecoveryCompletedEvent;
+  RecoveryInitiated: PauseRecoveryRecoveryInitiatedEvent;
+  RecoveryStageUpdated: PauseRecoveryRecoveryStageUpdatedEvent;
+  StateSnapshotTaken: PauseRecoveryStateSnapshotTakenEvent;
+}
+
+export type PauseRecoveryError =
+  | { name: 'AlreadyPaused'; args: {}}
+  | { name: 'ExcessiveWithdrawalAmount'; args: {}}
+  | { name: 'InvalidPauseLevel'; args: {}}
+  | { name: 'InvalidRecoveryStage'; args: {}}
+  | { name: 'InvalidSnapshotId'; args: {}}
+  | { name: 'NotMultiSig'; args: {}}
+  | { name: 'NotPaused'; args: {}}
+  | { name: 'OwnableInvalidOwner'; args: { owner: string; } }
+  | { name: 'OwnableUnauthorizedAccount'; args: { account: string; } }
+  | { name: 'PauseCooldownActive'; args: {}}
+  | { name: 'RecoveryNotFound'; args: {}}
+  | { name: 'RecoveryTimeout'; args: {}}
+  | { name: 'ReentrancyGuardReentrantCall'; args: {}}
+  | { name: 'WithdrawalNotApproved'; args: {}}
+  | { name: 'WithdrawalRequestNotFound'; args: {}}
+  | BuiltinError;
+
+export interface PauseRecoveryWriteFunctions {
+  advanceRecoveryStage: { args: [_recoveryId: BigNumberish, _nextStage: BigNumberish, _data: BytesLike]; result: void };
+  approveEmergencyWithdrawal: { args: [_requestId: BigNumberish]; result: void };
+  completeRecovery: { args: [_recoveryId: BigNumberish, _outcome: string]; result: void };
+  executeEmergencyWithdrawal: { args: [_requestId: BigNumberish]; result: void };
+  pauseProtocol: { args: [_level: BigNumberish, _reason: string]; result: void };
+  renounceOwnership: { args: []; result: void };
+  requestEmergencyWithdrawal: { args: [_user: AddressLike, _token: AddressLike, _amount: BigNumberish]; result: bigint };
+  setMaxEmergencyWithdrawalPercent: { args: [_percent: BigNumberish]; result: void };
+  setPauseCooldown: { args: [_cooldown: BigNumberish]; result: void };
+  setRecoveryTimeout: { args: [_timeout: BigNumberish]; result: void };
+  transferOwnership: { args: [newOwner: AddressLike]; result: void };
+  unpauseProtocol: { args: [_level: BigNumberish]; result: void };
+}
+
+const PauseRecoveryWriteSignatures: Record<keyof PauseRecoveryWriteFunctions, string> = {
+  advanceRecoveryStage: 'advanceRecoveryStage(uint256,uint8,bytes)',
+  approveEmergencyWithdrawal: 'approveEmergencyWithdrawal(uint256)',
+  completeRecovery: 'completeRecovery(uint256,string)',
+  executeEmergencyWithdrawal: 'executeEmergencyWithdrawal(uint256)',
+  pauseProtocol: 'pauseProtocol(uint8,string)',
+  renounceOwnership: 'renounceOwnership()',
+  requestEmergencyWithdrawal: 'requestEmergencyWithdrawal(address,address,uint256)',
+  setMaxEmergencyWithdrawalPercent: 'setMaxEmergencyWithdrawalPercent(uint256)',
+  setPauseCooldown: 'setPauseCooldown(uint256)',
+  setRecoveryTimeout: 'setRecoveryTimeout(uint256)',
+  transferOwnership: 'transferOwnership(address)',
+  unpauseProtocol: 'unpauseProtocol(uint8)',
+};
+
+export class PauseRecoveryContract extends TypedContract<PauseRecoveryEvents, PauseRecoveryError, PauseRecoveryWriteFunctions> {
+  static readonly abi = PauseRecoveryAbi;
+
+  constructor(address: string, runner?: ContractRunner | null) {
+    super(address, PauseRecoveryAbi, PauseRecoveryWriteSignatures, runner);
+  }
+
+  connect(runner: ContractRunner | null): PauseRecoveryContract {
+    return new PauseRecoveryContract(this.address, runner);
+  }
+
+  advanceRecoveryStage(_recoveryId: BigNumberish, _nextStage: BigNumberish, _data: BytesLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('advanceRecoveryStage(uint256,uint8,bytes)', [_recoveryId, _nextStage, _data], overrides);
+  }
+
+  approveEmergencyWithdrawal(_requestId: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('approveEmergencyWithdrawal(uint256)', [_requestId], overrides);
+  }
+
+  autoRecoveryEnabled(): Promise<boolean> {
+    return this.read('autoRecoveryEnabled()', []);
+  }
+
+  bridgeAddress(): Promise<string> {
+    return this.read('bridgeAddress()', []);
+  }
+
+  completeRecovery(_recoveryId: BigNumberish, _outcome: string, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('completeRecovery(uint256,string)', [_recoveryId, _outcome], overrides);
+  }
+
+  executeEmergencyWithdrawal(_requestId: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('executeEmergencyWithdrawal(uint256)', [_requestId], overrides);
+  }
+
+  getPauseState(): Promise<PauseRecoveryPauseStateStructOutput> {
+    return this.read('getPauseState()', []);
+  }
+
+  getRecoveryInfo(_recoveryId: BigNumberish): Promise<[id: bigint, stage: bigint, description: string, initiatedAt: bigint, targetCompletionTime: bigint, isCompleted: boolean, outcome: string] & { id: bigint; stage: bigint; description: string; initiatedAt: bigint; targetCompletionTime: bigint; isCompleted: boolean; outcome: string; }> {
+    return this.read('getRecoveryInfo(uint256)', [_recoveryId]);
+  }
+
+  getSnapshot(_snapshotId: BigNumberish): Promise<PauseRecoveryStateSnapshotStructOutput> {
+    return this.read('getSnapshot(uint256)', [_snapshotId]);
+  }
+
+  governorAddress(): Promise<string> {
+    return this.read('governorAddress()', []);
+  }
+
+  isPaused(_component: string): Promise<boolean> {
+    return this.read('isPaused(string)', [_component]);
+  }
+
+  maxEmergencyWithdrawalPercent(): Promise<bigint> {
+    return this.read('maxEmergencyWithdrawalPercent()', []);
+  }
+
+  multiSigAddress(): Promise<string> {
+    return this.read('multiSigAddress()', []);
+  }
+
+  owner(): Promise<string> {
+    return this.read('owner()', []);
+  }
+
+  pauseCooldown(): Promise<bigint> {
+    return this.read('pauseCooldown()', []);
+  }
+
+  pauseProtocol(_level: BigNumberish, _reason: string, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('pauseProtocol(uint8,string)', [_level, _reason], overrides);
+  }
+
+  pauseState(): Promise<[level: bigint, isActive: boolean, initiatedAt: bigint, initiatedBy: string, reason: string, vaultPaused: boolean, bridgePaused: boolean, governancePaused: boolean] & { level: bigint; isActive: boolean; initiatedAt: bigint; initiatedBy: string; reason: string; vaultPaused: boolean; bridgePaused: boolean; governancePaused: boolean; }> {
+    return this.read('pauseState()', []);
+  }
+
+  recoveries(arg0: BigNumberish): Promise<[id: bigint, stage: bigint, description: string, initiatedAt: bigint, initiator: string, estimatedDuration: bigint, targetCompletionTime: bigint, isCompleted: boolean, completedAt: bigint, outcome: string, recoveryData: string] & { id: bigint; stage: bigint; description: string; initiatedAt: bigint; initiator: string; estimatedDuration: bigint; targetCompletionTime: bigint; isCompleted: boolean; completedAt: bigint; outcome: string; recoveryData: string; }> {
+    return this.read('recoveries(uint256)', [arg0]);
+  }
+
+  recoveryCounter(): Promise<bigint> {
+    return this.read('recoveryCounter()', []);
+  }
+
+  recoveryTimeout(): Promise<bigint> {
+    return this.read('recoveryTimeout()', []);
+  }
+
+  renounceOwnership(overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('renounceOwnership()', [], overrides);
+  }
+
+  requestEmergencyWithdrawal(_user: AddressLike, _token: AddressLike, _amount: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('requestEmergencyWithdrawal(address,address,uint256)', [_user, _token, _amount], overrides);
+  }
+
+  setMaxEmergencyWithdrawalPercent(_percent: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('setMaxEmergencyWithdrawalPercent(uint256)', [_percent], overrides);
+  }
+
+  setPauseCooldown(_cooldown: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('setPauseCooldown(uint256)', [_cooldown], overrides);
+  }
+
+  setRecoveryTimeout(_timeout: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('setRecoveryTimeout(uint256)', [_timeout], overrides);
+  }
+
+  snapshotCounter(): Promise<bigint> {
+    return this.read('snapshotCounter()', []);
+  }
+
+  snapshots(arg0: BigNumberish): Promise<[id: bigint, timestamp: bigint, snapshotTaker: string, description: string, totalSupply: bigint, totalVaultShares: bigint, totalLockedVotes: bigint, bridgeQueuedMessages: bigint, pauseLevel: bigint, vaultPaused: boolean, bridgePaused: boolean, governancePaused: boolean] & { id: bigint; timestamp: bigint; snapshotTaker: string; description: string; totalSupply: bigint; totalVaultShares: bigint; totalLockedVotes: bigint; bridgeQueuedMessages: bigint; pauseLevel: bigint; vaultPaused: boolean; bridgePaused: boolean; governancePaused: boolean; }> {
+    return this.read('snapshots(uint256)', [arg0]);
+  }
+
+  transferOwnership(newOwner: AddressLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('transferOwnership(address)', [newOwner], overrides);
+  }
+
+  unpauseProtocol(_level: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('unpauseProtocol(uint8)', [_level], overrides);
+  }
+
+  vaultAddress(): Promise<string> {
+    return this.read('vaultAddress()', []);
+  }
+
+  withdrawalCounter(): Promise<bigint> {
+    return this.read('withdrawalCounter()', []);
+  }
+
+  withdrawalRequests(arg0: BigNumberish): Promise<[id: bigint, user: string, token: string, amount: bigint, requestedAt: bigint, approved: boolean, withdrawn: boolean] & { id: bigint; user: string; token: string; amount: bigint; requestedAt: bigint; approved: boolean; withdrawn: boolean; }> {
+    return this.read('withdrawalRequests(uint256)', [arg0]);
+  }
+}
+
+export default PauseRecoveryContract;
@@ -0,0 +1,222 @@
+/* Autogenerated by sdk/scripts/generate-bindings.mjs from the Foundry build. Do not edit. */
+
+/**
+ * @fileoverview Typed bindings for RebaseToken
+ */
+
+import type {
+  AddressLike,
+  BigNumberish,
+  BytesLike,
+  ContractRunner,
+  ContractTransactionResponse,
+  Overrides,
+} from 'ethers';
+import { BuiltinError, TypedContract } from './common';
+
+export const RebaseTokenAbi = [
+  {"inputs":[{"internalType":"string","name":"name_","type":"string"},{"internalType":"string","name":"symbol_","type":"string"}],"stateMutability":"nonpayable","type":"constructor"},
+  {"inputs":[{"internalType":"address","name":"spender","type":"address"},{"internalType":"uint256","name":"allowance","type":"uint256"},{"internalType":"uint256","name":"needed","type":"uint256"}],"name":"ERC20InsufficientAllowance","type":"error"},
+  {"inputs":[{"internalType":"address","name":"sender","type":"address"},{"internalType":"uint256","name":"balance","type":"uint256"},{"internalType":"uint256","name":"needed","type":"uint256"}],"name":"ERC20InsufficientBalance","type":"error"},
+  {"inputs":[{"internalType":"address","name":"approver","type":"address"}],"name":"ERC20InvalidApprover","type":"error"},
+  {"inputs":[{"internalType":"address","name":"receiver","type":"address"}],"name":"ERC20InvalidReceiver","type":"error"},
+  {"inputs":[{"internalType":"address","name":"sender","type":"address"}],"name":"ERC20InvalidSender","type":"error"},
+  {"inputs":[{"internalType":"address","name":"spender","type":"address"}],"name":"ERC20InvalidSpender","type":"error"},
+  {"inputs":[{"internalType":"address","name":"owner","type":"address"}],"name":"OwnableInvalidOwner","type":"error"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"}],"name":"OwnableUnauthorizedAccount","type":"error"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"owner","type":"address"},{"indexed":true,"internalType":"address","name":"spender","type":"address"},{"indexed":false,"internalType":"uint256","name":"value","type":"uint256"}],"name":"Approval","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"user","type":"address"},{"indexed":false,"internalType":"uint256","name":"interestRate","type":"uint256"}],"name":"InterestRateSet","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"previousOwner","type":"address"},{"indexed":true,"internalType":"address","name":"newOwner","type":"address"}],"name":"OwnershipTransferred","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"from","type":"address"},{"indexed":true,"internalType":"address","name":"to","type":"address"},{"indexed":false,"internalType":"uint256","name":"sharesAmount","type":"uint256"}],"name":"SharesTransferred","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"from","type":"address"},{"indexed":true,"internalType":"address","name":"to","type":"address"},{"indexed":false,"internalType":"uint256","name":"value","type":"uint256"}],"name":"Transfer","type":"event"},
+  {"inputs":[{"internalType":"uint256","name":"additionalSupply","type":"uint256"}],"name":"accrueInterest","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"owner","type":"address"},{"internalType":"address","name":"spender","type":"address"}],"name":"allowance","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"spender","type":"address"},{"internalType":"uint256","name":"value","type":"uint256"}],"name":"approve","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"}],"name":"balanceOf","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"from","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"burn","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"decimals","outputs":[{"internalType":"uint8","name":"","type":"uint8"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"}],"name":"getInterestRate","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"tokenAmount","type":"uint256"}],"name":"getSharesByTokenAmount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"sharesAmount","type":"uint256"}],"name":"getTokenAmountByShares","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getTotalShares","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"},{"internalType":"uint256","name":"interestRate","type":"uint256"}],"name":"mint","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"name","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"owner","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"renounceOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"},{"internalType":"uint256","name":"newRate","type":"uint256"}],"name":"setUserInterestRate","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"}],"name":"sharesOf","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"symbol","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"totalSupply","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"transfer","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"from","type":"address"},{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"transferFrom","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"newOwner","type":"address"}],"name":"transferOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+] as const;
+
+export interface RebaseTokenApprovalEvent {
+  owner: string;
+  spender: string;
+  value: bigint;
+}
+
+export interface RebaseTokenInterestRateSetEvent {
+  user: string;
+  interestRate: bigint;
+}
+
+export interface RebaseTokenOwnershipTransferredEvent {
+  previousOwner: string;
+  newOwner: string;
+}
+
+export interface RebaseTokenSharesTransferredEvent {
+  from: string;
+  to: string;
+  sharesAmount: bigint;
+}
+
+export interface RebaseTokenTransferEvent {
+  from: string;
+  to: string;
+  value: bigint;
+}
+
+export interface RebaseTokenEvents {
+  Approval: RebaseTokenApprovalEvent;
+  InterestRateSet: RebaseTokenInterestRateSetEvent;
+  OwnershipTransferred: RebaseTokenOwnershipTransferredEvent;
+  SharesTransferred: RebaseTokenSharesTransferredEvent;
+  Transfer: RebaseTokenTransferEvent;
+}
+
+export type RebaseTokenError =
+  | { name: 'ERC20InsufficientAllowance'; args: { spender: string; allowance: bigint; needed: bigint; } }
+  | { name: 'ERC20InsufficientBalance'; args: { sender: string; balance: bigint; needed: bigint; } }
+  | { name: 'ERC20InvalidApprover'; args: { approver: string; } }
+  | { name: 'ERC20InvalidReceiver'; args: { receiver: string; } }
+  | { name: 'ERC20InvalidSender'; args: { sender: string; } }
+  | { name: 'ERC20InvalidSpender'; args: { spender: string; } }
+  | { name: 'OwnableInvalidOwner'; args: { owner: string; } }
+  | { name: 'OwnableUnauthorizedAccount'; args: { account: string; } }
+  | BuiltinError;
+
+export interface RebaseTokenWriteFunctions {
+  accrueInterest: { args: [additionalSupply: BigNumberish]; result: void };
+  approve: { args: [spender: AddressLike, value: BigNumberish]; result: boolean };
+  burn: { args: [from: AddressLike, amount: BigNumberish]; result: void };
+  mint: { args: [to: AddressLike, amount: BigNumberish, interestRate: BigNumberish]; result: void };
+  renounceOwnership: { args: []; result: void };
+  setUserInterestRate: { args: [user: AddressLike, newRate: BigNumberish]; result: void };
+  transfer: { args: [to: AddressLike, amount: BigNumberish]; result: boolean };
+  transferFrom: { args: [from: AddressLike, to: AddressLike, amount: BigNumberish]; result: boolean };
+  transferOwnership: { args: [newOwner: AddressLike]; result: void };
+}
+
+const RebaseTokenWriteSignatures: Record<keyof RebaseTokenWriteFunctions, string> = {
+  accrueInterest: 'accrueInterest(uint256)',
+  approve: 'approve(address,uint256)',
+  burn: 'burn(address,uint256)',
+  mint: 'mint(address,uint256,uint256)',
+  renounceOwnership: 'renounceOwnership()',
+  setUserInterestRate: 'setUserInterestRate(address,uint256)',
+  transfer: 'transfer(address,uint256)',
+  transferFrom: 'transferFrom(address,address,uint256)',
+  transferOwnership: 'transferOwnership(address)',
+};
+
+export class RebaseTokenContract extends TypedContract<RebaseTokenEvents, RebaseTokenError, RebaseTokenWriteFunctions> {
+  static readonly abi = RebaseTokenAbi;
+
+  constructor(address: string, runner?: ContractRunner | null) {
+    super(address, RebaseTokenAbi, RebaseTokenWriteSignatures, runner);
+  }
+
+  connect(runner: ContractRunner | null): RebaseTokenContract {
+    return new RebaseTokenContract(this.address, runner);
+  }
+
+  accrueInterest(additionalSupply: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('accrueInterest(uint256)', [additionalSupply], overrides);
+  }
+
+  allowance(owner: AddressLike, spender: AddressLike): Promise<bigint> {
+    return this.read('allowance(address,address)', [owner, spender]);
+  }
+
+  approve(spender: AddressLike, value: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('approve(address,uint256)', [spender, value], overrides);
+  }
+
+  balanceOf(account: AddressLike): Promise<bigint> {
+    return this.read('balanceOf(address)', [account]);
+  }
+
+  burn(from: AddressLike, amount: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('burn(address,uint256)', [from, amount], overrides);
+  }
+
+  decimals(): Promise<bigint> {
+    return this.read('decimals()', []);
+  }
+
+  getInterestRate(account: AddressLike): Promise<bigint> {
+    return this.read('getInterestRate(address)', [account]);
+  }
+
+  getSharesByTokenAmount(tokenAmount: BigNumberish): Promise<bigint> {
+    return this.read('getSharesByTokenAmount(uint256)', [tokenAmount]);
+  }
+
+  getTokenAmountByShares(sharesAmount: BigNumberish): Promise<bigint> {
+    return this.read('getTokenAmountByShares(uint256)', [sharesAmount]);
+  }
+
+  getTotalShares(): Promise<bigint> {
+    return this.read('getTotalShares()', []);
+  }
+
+  mint(to: AddressLike, amount: BigNumberish, interestRate: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('mint(address,uint256,uint256)', [to, amount, interestRate], overrides);
+  }
+
+  name(): Promise<string> {
+    return this.read('name()', []);
+  }
+
+  owner(): Promise<string> {
+    return this.read('owner()', []);
+  }
+
+  renounceOwnership(overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('renounceOwnership()', [], overrides);
+  }
+
+  setUserInterestRate(user: AddressLike, newRate: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('setUserInterestRate(address,uint256)', [user, newRate], overrides);
+  }
+
+  sharesOf(account: AddressLike): Promise<bigint> {
+    return this.read('sharesOf(address)', [account]);
+  }
+
+  symbol(): Promise<string> {
+    return this.read('symbol()', []);
+  }
+
+  totalSupply(): Promise<bigint> {
+    return this.read('totalSupply()', []);
+  }
+
+  transfer(to: AddressLike, amount: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('transfer(address,uint256)', [to, amount], overrides);
+  }
+
+  transferFrom(from: AddressLike, to: AddressLike, amount: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('transferFrom(address,address,uint256)', [from, to, amount], overrides);
+  }
+
+  transferOwnership(newOwner: AddressLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('transferOwnership(address)', [newOwner], overrides);
+  }
+}
+
+export default RebaseTokenContract;
@@ -0,0 +1,481 @@
+/* Autogenerated by sdk/scripts/generate-bindings.mjs from the Foundry build. Do not edit. */
+
+/**
+ * @fileoverview Typed bindings for RebaseTokenVault
+ */
+
+import type {
+  AddressLike,
+  BigNumberish,
+  BytesLike,
+  ContractRunner,
+  ContractTransactionResponse,
+  Overrides,
+} from 'ethers';
+import { BuiltinError, TypedContract } from './common';
+
+export const RebaseTokenVaultAbi = [
+  {"inputs":[{"internalType":"address","name":"rebaseToken","type":"address"}],"stateMutability":"nonpayable","type":"constructor"},
+  {"inputs":[],"name":"AmountZero","type":"error"},
+  {"inputs":[{"internalType":"uint256","name":"requested","type":"uint256"},{"internalType":"uint256","name":"maxPerAddress","type":"uint256"}],"name":"DepositCapExceeded","type":"error"},
+  {"inputs":[],"name":"DepositsArePaused","type":"error"},
+  {"inputs":[],"name":"EnforcedPause","type":"error"},
+  {"inputs":[],"name":"ExpectedPause","type":"error"},
+  {"inputs":[],"name":"InsufficientBalance","type":"error"},
+  {"inputs":[],"name":"InsufficientDeposit","type":"error"},
+  {"inputs":[],"name":"InvalidAccrualPeriod","type":"error"},
+  {"inputs":[],"name":"InvalidGovernanceAddress","type":"error"},
+  {"inputs":[],"name":"InvalidProtocolFee","type":"error"},
+  {"inputs":[{"internalType":"uint256","name":"provided","type":"uint256"},{"internalType":"uint256","name":"minimum","type":"uint256"}],"name":"MinDepositNotMet","type":"error"},
+  {"inputs":[],"name":"NoTokensToRedeem","type":"error"},
+  {"inputs":[],"name":"NotAllowlisted","type":"error"},
+  {"inputs":[],"name":"OnlyGovernance","type":"error"},
+  {"inputs":[{"internalType":"address","name":"owner","type":"address"}],"name":"OwnableInvalidOwner","type":"error"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"}],"name":"OwnableUnauthorizedAccount","type":"error"},
+  {"inputs":[],"name":"RedeemsArePaused","type":"error"},
+  {"inputs":[],"name":"ReentrancyGuardReentrantCall","type":"error"},
+  {"inputs":[{"internalType":"uint256","name":"expected","type":"uint256"},{"internalType":"uint256","name":"minOut","type":"uint256"}],"name":"SlippageTooHigh","type":"error"},
+  {"inputs":[],"name":"TokenNotSweepable","type":"error"},
+  {"inputs":[],"name":"TransferFailed","type":"error"},
+  {"inputs":[{"internalType":"uint256","name":"requested","type":"uint256"},{"internalType":"uint256","name":"maxTotal","type":"uint256"}],"name":"TvlCapExceeded","type":"error"},
+  {"inputs":[],"name":"ZeroAddressNotAllowed","type":"error"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"accrualPeriod","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"maxDailyAccrualBps","type":"uint256"}],"name":"AccrualConfigUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"bool","name":"enabled","type":"bool"}],"name":"AllowlistStatusChanged","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"account","type":"address"},{"indexed":false,"internalType":"bool","name":"allowed","type":"bool"}],"name":"AllowlistUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"user","type":"address"},{"indexed":false,"internalType":"uint256","name":"ethAmount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"tokensReceived","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"interestRate","type":"uint256"}],"name":"Deposit","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"maxDepositPerAddress","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"maxTotalDeposits","type":"uint256"}],"name":"DepositCapsUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"account","type":"address"}],"name":"DepositsPaused","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"account","type":"address"}],"name":"DepositsUnpaused","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"to","type":"address"},{"indexed":false,"internalType":"uint256","name":"amount","type":"uint256"}],"name":"EmergencyEthWithdrawn","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"recipient","type":"address"},{"indexed":false,"internalType":"uint256","name":"protocolFeeBps","type":"uint256"}],"name":"FeeConfigUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"string","name":"parameterName","type":"string"},{"indexed":false,"internalType":"uint256","name":"newValue","type":"uint256"},{"indexed":true,"internalType":"address","name":"updatedBy","type":"address"}],"name":"GovernanceParameterUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"oldTimelock","type":"address"},{"indexed":true,"internalType":"address","name":"newTimelock","type":"address"}],"name":"GovernanceTimelockUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"supplyBefore","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"interestAccrued","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"protocolFee","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"supplyAfter","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"periods","type":"uint256"}],"name":"InterestAccrualDetailed","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"interestAmount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"}],"name":"InterestAccrued","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"oldRate","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"newRate","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"totalDeposited","type":"uint256"}],"name":"InterestRateDecreased","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"minDeposit","type":"uint256"}],"name":"MinDepositUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"previousOwner","type":"address"},{"indexed":true,"internalType":"address","name":"newOwner","type":"address"}],"name":"OwnershipTransferred","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"account","type":"address"}],"name":"Paused","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"user","type":"address"},{"indexed":false,"internalType":"uint256","name":"tokenAmount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"ethReceived","type":"uint256"}],"name":"Redeem","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"account","type":"address"}],"name":"RedeemsPaused","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"account","type":"address"}],"name":"RedeemsUnpaused","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"token","type":"address"},{"indexed":true,"internalType":"address","name":"to","type":"address"},{"indexed":false,"internalType":"uint256","name":"amount","type":"uint256"}],"name":"SweepExecuted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"account","type":"address"}],"name":"Unpaused","type":"event"},
+  {"inputs":[],"name":"accrueInterest","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes","name":"","type":"bytes"}],"name":"checkUpkeep","outputs":[{"internalType":"bool","name":"upkeepNeeded","type":"bool"},{"internalType":"bytes","name":"performData","type":"bytes"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"deposit","outputs":[],"stateMutability":"payable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"emergencyWithdrawETH","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"},{"internalType":"uint256","name":"horizonDays","type":"uint256"}],"name":"estimateInterest","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getAccrualPeriod","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getCurrentInterestRate","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getGovernanceTimelock","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getTimeUntilNextAccrual","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getTotalEthDeposited","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"}],"name":"getUserEthDeposited","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"}],"name":"getUserInfo","outputs":[{"internalType":"uint256","name":"shares","type":"uint256"},{"internalType":"uint256","name":"balance","type":"uint256"},{"internalType":"uint256","name":"rate","type":"uint256"},{"internalType":"uint256","name":"lastAccrual","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"}],"name":"getUserInterestRate","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"governanceTimelock","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"i_rebaseToken","outputs":[{"internalType":"contract RebaseToken","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"owner","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"pauseAll","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"pauseDeposits","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"pauseRedeems","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"paused","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes","name":"","type":"bytes"}],"name":"performUpkeep","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"ethAmount","type":"uint256"}],"name":"previewDeposit","outputs":[{"internalType":"uint256","name":"tokens","type":"uint256"},{"internalType":"uint256","name":"rate","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"tokenAmount","type":"uint256"}],"name":"previewRedeem","outputs":[{"internalType":"uint256","name":"ethAmount","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"tokenAmount","type":"uint256"}],"name":"redeem","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"tokenAmount","type":"uint256"},{"internalType":"uint256","name":"minEthOut","type":"uint256"}],"name":"redeemWithMinOut","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"renounceOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"accrualPeriod","type":"uint256"},{"internalType":"uint256","name":"maxDailyAccrualBps","type":"uint256"}],"name":"setAccrualConfig","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"},{"internalType":"bool","name":"allowed","type":"bool"}],"name":"setAllowlist","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bool","name":"enabled","type":"bool"}],"name":"setAllowlistStatus","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"maxPerAddress","type":"uint256"},{"internalType":"uint256","name":"maxTotal","type":"uint256"}],"name":"setDepositCaps","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"recipient","type":"address"},{"internalType":"uint256","name":"protocolFeeBps","type":"uint256"}],"name":"setFeeConfig","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"newTimelock","type":"address"}],"name":"setGovernanceTimelock","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"minDeposit","type":"uint256"}],"name":"setMinDeposit","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"token","type":"address"},{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"sweepERC20","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"newOwner","type":"address"}],"name":"transferOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"unpauseAll","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"unpauseDeposits","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"unpauseRedeems","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"stateMutability":"payable","type":"receive"},
+] as const;
+
+export interface RebaseTokenVaultAccrualConfigUpdatedEvent {
+  accrualPeriod: bigint;
+  maxDailyAccrualBps: bigint;
+}
+
+export interface RebaseTokenVaultAllowlistStatusChangedEvent {
+  enabled: boolean;
+}
+
+export interface RebaseTokenVaultAllowlistUpdatedEvent {
+  account: string;
+  allowed: boolean;
+}
+
+export interface RebaseTokenVaultDepositEvent {
+  user: string;
+  ethAmount: bigint;
+  tokensReceived: bigint;
+  interestRate: bigint;
+}
+
+export interface RebaseTokenVaultDepositCapsUpdatedEvent {
+  maxDepositPerAddress: bigint;
+  maxTotalDeposits: bigint;
+}
+
+export interface RebaseTokenVaultDepositsPausedEvent {
+  account: string;
+}
+
+export interface RebaseTokenVaultDepositsUnpausedEvent {
+  account: string;
+}
+
+export interface RebaseTokenVaultEmergencyEthWithdrawnEvent {
+  to: string;
+  amount: bigint;
+}
+
+export interface RebaseTokenVaultFeeConfigUpdatedEvent {
+  recipient: string;
+  protocolFeeBps: bigint;
+}
+
+export interface RebaseTokenVaultGovernanceParameterUpdatedEvent {
+  parameterName: string;
+  newValue: bigint;
+  updatedBy: string;
+}
+
+export interface RebaseTokenVaultGovernanceTimelockUpdatedEvent {
+  oldTimelock: string;
+  newTimelock: string;
+}
+
+export interface RebaseTokenVaultInterestAccrualDetailedEvent {
+  supplyBefore: bigint;
+  interestAccrued: bigint;
+  protocolFee: bigint;
+  supplyAfter: bigint;
+  periods: bigint;
+}
+
+export interface RebaseTokenVaultInterestAccruedEvent {
+  interestAmount: bigint;
+  timestamp: bigint;
+}
+
+export interface RebaseTokenVaultInterestRateDecreasedEvent {
+  oldRate: bigint;
+  newRate: bigint;
+  totalDeposited: bigint;
+}
+
+export interface RebaseTokenVaultMinDepositUpdatedEvent {
+  minDeposit: bigint;
+}
+
+export interface RebaseTokenVaultOwnershipTransferredEvent {
+  previousOwner: string;
+  newOwner: string;
+}
+
+export interface RebaseTokenVaultPausedEvent {
+  account: string;
+}
+
+export interface RebaseTokenVaultRedeemEvent {
+  user: string;
+  tokenAmount: bigint;
+  ethReceived: bigint;
+}
+
+export interface RebaseTokenVaultRedeemsPausedEvent {
+  account: string;
+}
+
+export interface RebaseTokenVaultRedeemsUnpausedEvent {
+  account: string;
+}
+
+export interface RebaseTokenVaultSweepExecutedEvent {
+  token: string;
+  to: string;
+  amount: bigint;
+}
+
+export interface RebaseTokenVaultUnpausedEvent {
+  account: string;
+}
+
+export interface RebaseTokenVaultEvents {
+  AccrualConfigUpdated: RebaseTokenVaultAccrualConfigUpdatedEvent;
+  AllowlistStatusChanged: RebaseTokenVaultAllowlistStatusChangedEvent;
+  AllowlistUpdated: RebaseTokenVaultAllowlistUpdatedEvent;
+  Deposit: RebaseTokenVaultDepositEvent;
+  DepositCapsUpdated: RebaseTokenVaultDepositCapsUpdatedEvent;
+  DepositsPaused: RebaseTokenVaultDepositsPausedEvent;
+  DepositsUnpaused: RebaseTokenVaultDepositsUnpausedEvent;
+  EmergencyEthWithdrawn: RebaseTokenVaultEmergencyEthWithdrawnEvent;
+  FeeConfigUpdated: RebaseTokenVaultFeeConfigUpdatedEvent;
+  GovernanceParameterUpdated: RebaseTokenVaultGovernanceParameterUpdatedEvent;
+  GovernanceTimelockUpdated: RebaseTokenVaultGovernanceTimelockUpdatedEvent;
+  InterestAccrualDetailed: RebaseTokenVaultInterestAccrualDetailedEvent;
+  InterestAccrued: RebaseTokenVaultInterestAccruedEvent;
+  InterestRateDecreased: RebaseTokenVaultInterestRateDecreasedEvent;
+  MinDepositUpdated: RebaseTokenVaultMinDepositUpdatedEvent;
+  OwnershipTransferred: RebaseTokenVaultOwnershipTransferredEvent;
+  Paused: RebaseTokenVaultPausedEvent;
+  Redeem: RebaseTokenVaultRedeemEvent;
+  RedeemsPaused: RebaseTokenVaultRedeemsPausedEvent;
+  RedeemsUnpaused: RebaseTokenVaultRedeemsUnpausedEvent;
+  SweepExecuted: RebaseTokenVaultSweepExecutedEvent;
+  Unpaused: RebaseTokenVaultUnpausedEvent;
+}
+
+export type RebaseTokenVaultError =
+  | { name: 'AmountZero'; args: {}}
+  | { name: 'DepositCapExceeded'; args: { requested: bigint; maxPerAddress: bigint; } }
+  | { name: 'DepositsArePaused'; args: {}}
+  | { name: 'EnforcedPause'; args: {}}
+  | { name: 'ExpectedPause'; args: {}}
+  | { name: 'InsufficientBalance'; args: {}}
+  | { name: 'InsufficientDeposit'; args: {}}
+  | { name: 'InvalidAccrualPeriod'; args: {}}
+  | { name: 'InvalidGovernanceAddress'; args: {}}
+  | { name: 'InvalidProtocolFee'; args: {}}
+  | { name: 'MinDepositNotMet'; args: { provided: bigint; minimum: bigint; } }
+  | { name: 'NotAllowlisted'; args: {}}
+  | { name: 'NoTokensToRedeem'; args: {}}
+  | { name: 'OnlyGovernance'; args: {}}
+  | { name: 'OwnableInvalidOwner'; args: { owner: string; } }
+  | { name: 'OwnableUnauthorizedAccount'; args: { account: string; } }
+  | { name: 'RedeemsArePaused'; args: {}}
+  | { name: 'ReentrancyGuardReentrantCall'; args: {}}
+  | { name: 'SlippageTooHigh'; args: { expected: bigint; minOut: bigint; } }
+  | { name: 'TokenNotSweepable'; args: {}}
+  | { name: 'TransferFailed'; args: {}}
+  | { name: 'TvlCapExceeded'; args: { requested: bigint; maxTotal: bigint; } }
+  | { name: 'ZeroAddressNotAllowed'; args: {}}
+  | BuiltinError;
+
+export interface RebaseTokenVaultWriteFunctions {
+  accrueInterest: { args: []; result: void };
+  deposit: { args: []; result: void };
+  emergencyWithdrawETH: { args: [to: AddressLike, amount: BigNumberish]; result: void };
+  pauseAll: { args: []; result: void };
+  pauseDeposits: { args: []; result: void };
+  pauseRedeems: { args: []; result: void };
+  performUpkeep: { args: [arg0: BytesLike]; result: void };
+  redeem: { args: [tokenAmount: BigNumberish]; result: void };
+  redeemWithMinOut: { args: [tokenAmount: BigNumberish, minEthOut: BigNumberish]; result: void };
+  renounceOwnership: { args: []; result: void };
+  setAccrualConfig: { args: [accrualPeriod: BigNumberish, maxDailyAccrualBps: BigNumberish]; result: void };
+  setAllowlist: { args: [account: AddressLike, allowed: boolean]; result: void };
+  setAllowlistStatus: { args: [enabled: boolean]; result: void };
+  setDepositCaps: { args: [maxPerAddress: BigNumberish, maxTotal: BigNumberish]; result: void };
+  setFeeConfig: { args: [recipient: AddressLike, protocolFeeBps: BigNumberish]; result: void };
+  setGovernanceTimelock: { args: [newTimelock: AddressLike]; result: void };
+  setMinDeposit: { args: [minDeposit: BigNumberish]; result: void };
+  sweepERC20: { args: [token: AddressLike, to: AddressLike, amount: BigNumberish]; result: void };
+  transferOwnership: { args: [newOwner: AddressLike]; result: void };
+  unpauseAll: { args: []; result: void };
+  unpauseDeposits: { args: []; result: void };
+  unpauseRedeems: { args: []; result: void };
+}
+
+const RebaseTokenVaultWriteSignatures: Record<keyof RebaseTokenVaultWriteFunctions, string> = {
+  accrueInterest: 'accrueInterest()',
+  deposit: 'deposit()',
+  emergencyWithdrawETH: 'emergencyWithdrawETH(address,uint256)',
+  pauseAll: 'pauseAll()',
+  pauseDeposits: 'pauseDeposits()',
+  pauseRedeems: 'pauseRedeems()',
+  performUpkeep: 'performUpkeep(bytes)',
+  redeem: 'redeem(uint256)',
+  redeemWithMinOut: 'redeemWithMinOut(uint256,uint256)',
+  renounceOwnership: 'renounceOwnership()',
+  setAccrualConfig: 'setAccrualConfig(uint256,uint256)',
+  setAllowlist: 'setAllowlist(address,bool)',
+  setAllowlistStatus: 'setAllowlistStatus(bool)',
+  setDepositCaps: 'setDepositCaps(uint256,uint256)',
+  setFeeConfig: 'setFeeConfig(address,uint256)',
+  setGovernanceTimelock: 'setGovernanceTimelock(address)',
+  setMinDeposit: 'setMinDeposit(uint256)',
+  sweepERC20: 'sweepERC20(address,address,uint256)',
+  transferOwnership: 'transferOwnership(address)',
+  unpauseAll: 'unpauseAll()',
+  unpauseDeposits: 'unpauseDeposits()',
+  unpauseRedeems: 'unpauseRedeems()',
+};
+
+export class RebaseTokenVaultContract extends TypedContract<RebaseTokenVaultEvents, RebaseTokenVaultError, RebaseTokenVaultWriteFunctions> {
+  static readonly abi = RebaseTokenVaultAbi;
+
+  constructor(address: string, runner?: ContractRunner | null) {
+    super(address, RebaseTokenVaultAbi, RebaseTokenVaultWriteSignatures, runner);
+  }
+
+  connect(runner: ContractRunner | null): RebaseTokenVaultContract {
+    return new RebaseTokenVaultContract(this.address, runner);
+  }
+
+  accrueInterest(overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('accrueInterest()', [], overrides);
+  }
+
+  checkUpkeep(arg0: BytesLike): Promise<[upkeepNeeded: boolean, performData: string] & { upkeepNeeded: boolean; performData: string; }> {
+    return this.read('checkUpkeep(bytes)', [arg0]);
+  }
+
+  deposit(overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('deposit()', [], overrides);
+  }
+
+  emergencyWithdrawETH(to: AddressLike, amount: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('emergencyWithdrawETH(address,uint256)', [to, amount], overrides);
+  }
+
+  estimateInterest(user: AddressLike, horizonDays: BigNumberish): Promise<bigint> {
+    return this.read('estimateInterest(address,uint256)', [user, horizonDays]);
+  }
+
+  getAccrualPeriod(): Promise<bigint> {
+    return this.read('getAccrualPeriod()', []);
+  }
+
+  getCurrentInterestRate(): Promise<bigint> {
+    return this.read('getCurrentInterestRate()', []);
+  }
+
+  getGovernanceTimelock(): Promise<string> {
+    return this.read('getGovernanceTimelock()', []);
+  }
+
+  getTimeUntilNextAccrual(): Promise<bigint> {
+    return this.read('getTimeUntilNextAccrual()', []);
+  }
+
+  getTotalEthDeposited(): Promise<bigint> {
+    return this.read('getTotalEthDeposited()', []);
+  }
+
+  getUserEthDeposited(user: AddressLike): Promise<bigint> {
+    return this.read('getUserEthDeposited(address)', [user]);
+  }
+
+  getUserInfo(user: AddressLike): Promise<[shares: bigint, balance: bigint, rate: bigint, lastAccrual: bigint] & { shares: bigint; balance: bigint; rate: bigint; lastAccrual: bigint; }> {
+    return this.read('getUserInfo(address)', [user]);
+  }
+
+  getUserInterestRate(user: AddressLike): Promise<bigint> {
+    return this.read('getUserInterestRate(address)', [user]);
+  }
+
+  governanceTimelock(): Promise<string> {
+    return this.read('governanceTimelock()', []);
+  }
+
+  i_rebaseToken(): Promise<string> {
+    return this.read('i_rebaseToken()', []);
+  }
+
+  owner(): Promise<string> {
+    return this.read('owner()', []);
+  }
+
+  pauseAll(overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('pauseAll()', [], overrides);
+  }
+
+  paused(): Promise<boolean> {
+    return this.read('paused()', []);
+  }
+
+  pauseDeposits(overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('pauseDeposits()', [], overrides);
+  }
+
+  pauseRedeems(overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('pauseRedeems()', [], overrides);
+  }
+
+  performUpkeep(arg0: BytesLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('performUpkeep(bytes)', [arg0], overrides);
+  }
+
+  previewDeposit(ethAmount: BigNumberish): Promise<[tokens: bigint, rate: bigint] & { tokens: bigint; rate: bigint; }> {
+    return this.read('previewDeposit(uint256)', [ethAmount]);
+  }
+
+  previewRedeem(tokenAmount: BigNumberish): Promise<bigint> {
+    return this.read('previewRedeem(uint256)', [tokenAmount]);
+  }
+
+  redeem(tokenAmount: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('redeem(uint256)', [tokenAmount], overrides);
+  }
+
+  redeemWithMinOut(tokenAmount: BigNumberish, minEthOut: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('redeemWithMinOut(uint256,uint256)', [tokenAmount, minEthOut], overrides);
+  }
+
+  renounceOwnership(overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('renounceOwnership()', [], overrides);
+  }
+
+  setAccrualConfig(accrualPeriod: BigNumberish, maxDailyAccrualBps: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('setAccrualConfig(uint256,uint256)', [accrualPeriod, maxDailyAccrualBps], overrides);
+  }
+
+  setAllowlist(account: AddressLike, allowed: boolean, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('setAllowlist(address,bool)', [account, allowed], overrides);
+  }
+
+  setAllowlistStatus(enabled: boolean, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('setAllowlistStatus(bool)', [enabled], overrides);
+  }
+
+  setDepositCaps(maxPerAddress: BigNumberish, maxTotal: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('setDepositCaps(uint256,uint256)', [maxPerAddress, maxTotal], overrides);
+  }
+
+  setFeeConfig(recipient: AddressLike, protocolFeeBps: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('setFeeConfig(address,uint256)', [recipient, protocolFeeBps], overrides);
+  }
+
+  setGovernanceTimelock(newTimelock: AddressLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('setGovernanceTimelock(address)', [newTimelock], overrides);
+  }
+
+  setMinDeposit(minDeposit: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('setMinDeposit(uint256)', [minDeposit], overrides);
+  }
+
+  sweepERC20(token: AddressLike, to: AddressLike, amount: BigNumberish, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('sweepERC20(address,address,uint256)', [token, to, amount], overrides);
+  }
+
+  transferOwnership(newOwner: AddressLike, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('transferOwnership(address)', [newOwner], overrides);
+  }
+
+  unpauseAll(overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('unpauseAll()', [], overrides);
+  }
+
+  unpauseDeposits(overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('unpauseDeposits()', [], overrides);
+  }
+
+  unpauseRedeems(overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.send('unpauseRedeems()', [], overrides);
+  }
+}
+
+export default RebaseTokenVaultContract;
@@ -0,0 +1,230 @@
+/* Autogenerated by sdk/scripts/generate-bindings.mjs from the Foundry build. Do not edit. */
+/**
+ * @fileoverview Runtime shared by the generated contract bindings
+ */
+
+import {
+  AbiCoder,
+  Contract,
+  ContractRunner,
+  ContractTransaction,
+  ContractTransactionResponse,
+  EventLog,
+  Indexed,
+  Interface,
+  InterfaceAbi,
+  Log,
+  Overrides,
+  ParamType,
+  Result,
+  dataSlice,
+} from 'ethers';
+
+/**
+ * Solidity's built-in revert payloads, decodable from any contract
+ */
+export type BuiltinError =
+  | { name: 'Error'; args: { message: string } }
+  | { name: 'Panic'; args: { code: bigint } };
+
+export interface TypedEvent<TName extends string, TArgs> {
+  name: TName;
+  args: TArgs;
+  log: Log;
+}
+
+export type ParsedEvent<TEvents> = {
+  [K in keyof TEvents & string]: TypedEvent<K, TEvents[K]>;
+}[keyof TEvents & string];
+
+export interface WriteFunction {
+  args: unknown[];
+  result: unknown;
+}
+
+const ERROR_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+/**
+ * Convert decoded values to a plain object keyed by parameter name
+ */
+export function toNamedArgs(inputs: ReadonlyArray<ParamType>, values: Result): any {
+  const args: Record<string, unknown> = {};
+  inputs.forEach((input, i) => {
+    const value = values[i];
+    args[input.name || `arg${i}`] = value instanceof Indexed ? value.hash : value;
+  });
+  return args;
+}
+
+/**
+ * Base class for generated bindings
+ *
+ * Subclasses add one typed method per ABI function; this class supplies the
+ * event, error and transaction plumbing common to all of them.
+ */
+export abstract class TypedContract<
+  TEvents extends object,
+  TError extends { name: string; args: object },
+  TWrites extends { [K in keyof TWrites]: WriteFunction }
+> {
+  readonly address: string;
+  readonly contract: Contract;
+  readonly interface: Interface;
+  private readonly writeSignatures: Record<string, string>;
+
+  protected constructor(
+    address: string,
+    abi: InterfaceAbi,
+    writeSignatures: Record<keyof TWrites, string>,
+    runner?: ContractRunner | null
+  ) {
+    this.address = address;
+    this.writeSignatures = writeSignatures as Record<string, string>;
+    this.contract = new Contract(address, abi, runner ?? null);
+    this.interface = this.contract.interface;
+  }
+
+  get runner(): ContractRunner | null {
+    return this.contract.runner;
+  }
+
+  get target(): string {
+    return this.address;
+  }
+
+  getAddress(): Promise<string> {
+    return this.contract.getAddress();
+  }
+
+  /**
+   * Decode a log emitted by this contract, or null if it is not one of its events
+   */
+  parseLog(log: Log): ParsedEvent<TEvents> | null {
+    if (log.address.toLowerCase() !== this.address.toLowerCase()) return null;
+
+    try {
+      const parsed = this.interface.parseLog(log);
+      if (!parsed) return null;
+      return {
+        name: parsed.name,
+        args: toNamedArgs(parsed.fragment.inputs, parsed.args),
+        log,
+      } as ParsedEvent<TEvents>;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * First event with the given name in a receipt
+   */
+  findEvent<K extends keyof TEvents & string>(
+    receipt: { logs: ReadonlyArray<Log> } | null | undefined,
+    name: K
+  ): TypedEvent<K, TEvents[K]> | null {
+    return this.findEvents(receipt, name)[0] ?? null;
+  }
+
+  /**
+   * All events with the given name in a receipt, in log order
+   */
+  findEvents<K extends keyof TEvents & string>(
+    receipt: { logs: ReadonlyArray<Log> } | null | undefined,
+    name: K
+  ): TypedEvent<K, TEvents[K]>[] {
+    const events: TypedEvent<K, TEvents[K]>[] = [];
+    for (const log of receipt?.logs || []) {
+      const parsed = this.parseLog(log);
+      if (parsed && parsed.name === name) events.push(parsed as TypedEvent<K, TEvents[K]>);
+    }
+    return events;
+  }
+
+  /**
+   * Query historical events by name
+   */
+  async queryEvents<K extends keyof TEvents & string>(
+    name: K,
+    fromBlock?: number | string,
+    toBlock?: number | string
+  ): Promise<TypedEvent<K, TEvents[K]>[]> {
+    const logs = await this.contract.queryFilter(name, fromBlock, toBlock);
+    return logs
+      .filter((log): log is EventLog => log instanceof EventLog)
+      .map((log) => ({
+        name,
+        args: toNamedArgs(log.fragment.inputs, log.args),
+        log,
+      }));
+  }
+
+  /**
+   * Decode revert data into one of this contract's custom errors
+   */
+  decodeError(data: string | null | undefined): TError | null {
+    if (!data || data.length < 10) return null;
+
+    const selector = dataSlice(data, 0, 4);
+    const payload = dataSlice(data, 4);
+
+    try {
+      if (selector === ERROR_SELECTOR) {
+        const [message] = AbiCoder.defaultAbiCoder().decode(['string'], payload);
+        return { name: 'Error', args: { message } } as unknown as TError;
+      }
+      if (selector === PANIC_SELECTOR) {
+        const [code] = AbiCoder.defaultAbiCoder().decode(['uint256'], payload);
+        return { name: 'Panic', args: { code } } as unknown as TError;
+      }
+
+      const fragment = this.interface.getError(selector);
+      if (!fragment) return null;
+      const values = this.interface.decodeErrorResult(fragment, data);
+      return { name: fragment.name, args: toNamedArgs(fragment.inputs, values) } as TError;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Build an unsigned transaction for a state-changing function
+   */
+  populateTransaction<K extends keyof TWrites & string>(
+    name: K,
+    args: TWrites[K]['args'],
+    overrides: Overrides = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.getFunction(this.writeSignatures[name]).populateTransaction(...args, overrides);
+  }
+
+  /**
+   * Estimate gas for a state-changing function
+   */
+  estimateGas<K extends keyof TWrites & string>(
+    name: K,
+    args: TWrites[K]['args'],
+    overrides: Overrides = {}
+  ): Promise<bigint> {
+    return this.contract.getFunction(this.writeSignatures[name]).estimateGas(...args, overrides);
+  }
+
+  /**
+   * Execute a state-changing function as an eth_call and return its result
+   */
+  staticCall<K extends keyof TWrites & string>(
+    name: K,
+    args: TWrites[K]['args'],
+    overrides: Overrides = {}
+  ): Promise<TWrites[K]['result']> {
+    return this.contract.getFunction(this.writeSignatures[name]).staticCall(...args, overrides);
+  }
+
+  protected read(signature: string, args: unknown[]): Promise<any> {
+    return this.contract.getFunction(signature).staticCall(...args);
+  }
+
+  protected send(signature: string, args: unknown[], overrides: Overrides): Promise<ContractTransactionResponse> {
+    return this.contract.getFunction(signature).send(...args, overrides);
+  }
+}
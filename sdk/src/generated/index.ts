@@ -0,0 +1,12 @@
+/* Autogenerated by sdk/scripts/generate-bindings.mjs from the Foundry build. Do not edit. */
+
+export * from './common';
+export * from './RebaseToken';
+export * from './RebaseTokenVault';
+export * from './EnhancedCCIPBridge';
+export * from './BASEGovernor';
+export * from './BASETimelock';
+export * from './BaseEmergencyMultiSig';
+export * from './PauseRecovery';
+export * from './AdvancedInterestStrategy';
+export * from './HealthChecker';
@@ -0,0 +1,180 @@
+import { BigInt, store } from '@graphprotocol/graph-ts'
+import {
+  LockCreated,
+  LockExtended,
+  LockUnlocked,
+  PerformanceFeeConfigUpdated,
+  TierAdded,
+  TierRemoved,
+  UtilizationRatesUpdated,
+} from '../generated/AdvancedInterestStrategy/AdvancedInterestStrategy'
+import { InterestTier, Lock, UserLock } from '../generated/schema'
+import {
+  getOrCreateUser,
+  getStrategyConfig,
+  recordTransaction,
+  SECONDS_PER_DAY,
+} from './utils'
+
+/**
+ * Tiers mirror the contract's array: addTier() appends, removeTier()
+ * moves the last tier into the removed slot and pops. User tiers are
+ * re-resolved on the user's next deposit.
+ */
+export function handleTierAdded(event: TierAdded): void {
+  recordTransaction(event)
+
+  let index = event.params.tierIndex.toI32()
+  let tier = new InterestTier(index.toString())
+  tier.tierIndex = index
+  tier.minDeposit = event.params.minDeposit
+  tier.bonusRate = event.params.bonusRate.toI32()
+  tier.save()
+
+  let config = getStrategyConfig()
+  config.tierCount = index + 1
+  config.lastUpdated = event.block.timestamp
+  config.save()
+}
+
+export function handleTierRemoved(event: TierRemoved): void {
+  recordTransaction(event)
+
+  let config = getStrategyConfig()
+  let index = event.params.tierIndex.toI32()
+  let last = config.tierCount - 1
+
+  if (index != last) {
+    let moved = InterestTier.load(last.toString())
+    let tier = InterestTier.load(index.toString())
+    if (moved != null && tier != null) {
+      tier.minDeposit = moved.minDeposit
+      tier.bonusRate = moved.bonusRate
+      tier.save()
+    }
+  }
+  store.remove('InterestTier', last.toString())
+
+  config.tierCount = last
+  config.lastUpdated = event.block.timestamp
+  config.save()
+}
+
+/**
+ * lockDeposit() replaces any existing lock; each call starts a new Lock record
+ */
+export function handleLockCreated(event: LockCreated): void {
+  recordTransaction(event)
+
+  let user = getOrCreateUser(event.params.user, event)
+  let unlockTime = event.block.timestamp.plus(event.params.duration)
+
+  let userLock = UserLock.load(user.id)
+  if (userLock == null) {
+    userLock = new UserLock(user.id)
+    userLock.user = user.id
+    userLock.lockCount = 0
+  }
+  userLock.amount = event.params.amount
+  userLock.unlockTime = unlockTime
+  userLock.period = lockPeriod(event.params.duration)
+  userLock.bonusMultiplier = event.params.unlockBonus.toI32()
+  userLock.isActive = true
+  userLock.lockCount = userLock.lockCount + 1
+  userLock.lockedAt = event.block.timestamp
+  userLock.lockedAtBlock = event.block.number
+  userLock.unlockedAt = null
+  userLock.save()
+
+  let lock = new Lock(lockId(user.id, userLock.lockCount))
+  lock.user = user.id
+  lock.amount = event.params.amount
+  lock.unlockTime = unlockTime
+  lock.bonusRate = event.params.unlockBonus.toI32()
+  lock.isWithdrawn = false
+  lock.createdAt = event.block.timestamp
+  lock.createdAtBlock = event.block.number
+  lock.lastModifiedAt = event.block.timestamp
+  lock.transactionHash = event.transaction.hash
+  lock.save()
+
+  user.lockInfo = userLock.id
+  user.lastActivityTimestamp = event.block.timestamp
+  user.save()
+}
+
+export function handleLockExtended(event: LockExtended): void {
+  recordTransaction(event)
+
+  let id = event.params.user.toHexString()
+  let userLock = UserLock.load(id)
+  if (userLock == null) return
+
+  userLock.unlockTime = event.params.newEndTime
+  userLock.period = lockPeriod(event.params.newEndTime.minus(event.block.timestamp))
+  userLock.save()
+
+  let lock = Lock.load(lockId(id, userLock.lockCount))
+  if (lock != null) {
+    lock.unlockTime = event.params.newEndTime
+    lock.lastModifiedAt = event.block.timestamp
+    lock.save()
+  }
+}
+
+export function handleLockUnlocked(event: LockUnlocked): void {
+  recordTransaction(event)
+
+  let id = event.params.user.toHexString()
+  let userLock = UserLock.load(id)
+  if (userLock == null) return
+
+  userLock.isActive = false
+  userLock.unlockedAt = event.block.timestamp
+  userLock.save()
+
+  let lock = Lock.load(lockId(id, userLock.lockCount))
+  if (lock != null) {
+    lock.isWithdrawn = true
+    lock.withdrawnAt = event.block.timestamp
+    lock.lastModifiedAt = event.block.timestamp
+    lock.save()
+  }
+}
+
+export function handleUtilizationRatesUpdated(event: UtilizationRatesUpdated): void {
+  recordTransaction(event)
+
+  let config = getStrategyConfig()
+  config.kink = event.params.kink.toI32()
+  config.rateAtZero = event.params.rateAtZero.toI32()
+  config.rateAtKink = event.params.rateAtKink.toI32()
+  config.rateAtMax = event.params.rateAtMax.toI32()
+  config.lastUpdated = event.block.timestamp
+  config.save()
+}
+
+export function handlePerformanceFeeConfigUpdated(event: PerformanceFeeConfigUpdated): void {
+  recordTransaction(event)
+
+  let config = getStrategyConfig()
+  config.targetReturn = event.params.targetReturn.toI32()
+  config.performanceFee = event.params.performanceFee.toI32()
+  config.lastUpdated = event.block.timestamp
+  config.save()
+}
+
+function lockId(user: string, index: i32): string {
+  return user + '-' + index.toString()
+}
+
+/**
+ * Bucket a lock duration into the schema's LockPeriod
+ */
+function lockPeriod(duration: BigInt): string {
+  let days = duration.div(BigInt.fromI32(SECONDS_PER_DAY)).toI32()
+  if (days >= 365) return 'ThreeSixtyFiveDays'
+  if (days >= 90) return 'NinetyDays'
+  if (days >= 30) return 'ThirtyDays'
+  return 'None'
+}
@@ -0,0 +1,269 @@
+import { Address, BigInt, Bytes, ethereum } from '@graphprotocol/graph-ts'
+import {
+  BatchCreated,
+  BatchExecuted,
+  ChainConfigured,
+  CrossChainTransfer,
+  EnhancedCCIPBridge,
+  MessageReceived,
+  RateLimitConfigured,
+} from '../generated/EnhancedCCIPBridge/EnhancedCCIPBridge'
+import { BatchTransfer, BridgeTransfer, ChainStats, ChainUser, User } from '../generated/schema'
+import {
+  getDailySnapshot,
+  getGlobalStats,
+  getOrCreateUser,
+  LOCAL_CHAIN_SELECTOR,
+  ONE,
+  recordTransaction,
+  ZERO,
+  ZERO_ADDRESS,
+} from './utils'
+
+// keccak256("Transfer(address,address,uint256)")
+const TRANSFER_TOPIC = Bytes.fromHexString(
+  '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef'
+)
+
+/**
+ * Single transfer sent from this chain
+ *
+ * The event does not carry the sender; bridgeTokens() attributes volume
+ * to msg.sender, which is the transaction sender for direct calls.
+ */
+export function handleCrossChainTransfer(event: CrossChainTransfer): void {
+  recordTransaction(event)
+
+  let sender = getOrCreateUser(event.transaction.from, event)
+  sender.totalBridged = sender.totalBridged.plus(event.params.amount)
+  sender.lastActivityTimestamp = event.block.timestamp
+  sender.save()
+
+  let transfer = new BridgeTransfer(event.params.messageId.toHexString())
+  transfer.messageId = event.params.messageId
+  transfer.sender = sender.id
+  transfer.recipient = event.params.recipient
+  transfer.amount = event.params.amount
+  transfer.sourceChain = LOCAL_CHAIN_SELECTOR
+  transfer.destinationChain = event.params.destinationChain
+  transfer.status = 'Sent'
+  transfer.sentAt = event.block.timestamp
+  transfer.sentAtBlock = event.block.number
+  transfer.transactionHash = event.transaction.hash
+  transfer.save()
+
+  let chain = getChainStats(event.params.destinationChain)
+  chain.totalBridgedOut = chain.totalBridgedOut.plus(event.params.amount)
+  chain.transferCount = chain.transferCount.plus(ONE)
+  chain.lastActivity = event.block.timestamp
+  trackChainUser(chain, sender)
+  chain.save()
+
+  let stats = getGlobalStats()
+  stats.totalBridgeVolume = stats.totalBridgeVolume.plus(event.params.amount)
+  stats.totalBridgeTransfers = stats.totalBridgeTransfers.plus(ONE)
+  stats.save()
+
+  let snapshot = getDailySnapshot(event)
+  snapshot.bridgeVolume = snapshot.bridgeVolume.plus(event.params.amount)
+  snapshot.bridgeCount = snapshot.bridgeCount + 1
+  snapshot.save()
+}
+
+/**
+ * Message delivered to this chain
+ *
+ * The recipient is not in the event; it is taken from the RebaseToken mint
+ * that _ccipReceive() emits just before it (requires `receipt: true`).
+ * `sender` is the source-chain sender from the CCIP message.
+ */
+export function handleMessageReceived(event: MessageReceived): void {
+  recordTransaction(event)
+
+  let sender = getOrCreateUser(event.params.sender, event)
+  let recipient = mintRecipient(event)
+
+  let id = event.params.messageId.toHexString()
+  let transfer = BridgeTransfer.load(id)
+  if (transfer == null) {
+    transfer = new BridgeTransfer(id)
+    transfer.messageId = event.params.messageId
+    transfer.sender = sender.id
+    transfer.recipient = recipient
+    transfer.amount = event.params.amount
+    transfer.sourceChain = event.params.sourceChainSelector
+    transfer.destinationChain = LOCAL_CHAIN_SELECTOR
+    // The send happened on another chain; first seen here
+    transfer.sentAt = event.block.timestamp
+    transfer.sentAtBlock = event.block.number
+    transfer.transactionHash = event.transaction.hash
+  }
+  transfer.status = 'Received'
+  transfer.completedAt = event.block.timestamp
+  transfer.completedAtBlock = event.block.number
+  transfer.save()
+
+  if (!recipient.equals(ZERO_ADDRESS)) {
+    let user = getOrCreateUser(recipient, event)
+    user.totalReceived = user.totalReceived.plus(event.params.amount)
+    user.lastActivityTimestamp = event.block.timestamp
+    user.save()
+  }
+
+  let chain = getChainStats(event.params.sourceChainSelector)
+  chain.totalBridgedIn = chain.totalBridgedIn.plus(event.params.amount)
+  chain.lastActivity = event.block.timestamp
+  chain.save()
+}
+
+/**
+ * Batches are created by anyone and executed by the owner as one CCIP message
+ */
+export function handleBatchCreated(event: BatchCreated): void {
+  recordTransaction(event)
+
+  let creator = getOrCreateUser(event.transaction.from, event)
+
+  let batch = new BatchTransfer(event.params.batchId.toString())
+  batch.batchId = event.params.batchId
+  batch.creator = creator.id
+  batch.destinationChain = event.params.destinationChain
+  batch.totalAmount = event.params.totalAmount
+  batch.recipientCount = event.params.recipientCount.toI32()
+
+  let details = EnhancedCCIPBridge.bind(event.address).try_getBatchTransfers(event.params.batchId)
+  if (details.reverted) {
+    batch.recipients = new Array<Bytes>()
+    batch.amounts = new Array<BigInt>()
+  } else {
+    batch.recipients = changetype<Bytes[]>(details.value.value0)
+    batch.amounts = details.value.value1
+  }
+
+  batch.isExecuted = false
+  batch.createdAt = event.block.timestamp
+  batch.createdAtBlock = event.block.number
+  batch.transactionHash = event.transaction.hash
+  batch.save()
+
+  let chain = getChainStats(event.params.destinationChain)
+  chain.totalBatches = chain.totalBatches.plus(ONE)
+  chain.lastActivity = event.block.timestamp
+  chain.save()
+}
+
+export function handleBatchExecuted(event: BatchExecuted): void {
+  recordTransaction(event)
+
+  let batch = BatchTransfer.load(event.params.batchId.toString())
+  if (batch == null) return
+
+  batch.isExecuted = true
+  batch.messageId = event.params.messageId
+  batch.executedAt = event.block.timestamp
+  batch.save()
+
+  let chain = getChainStats(event.params.destinationChain)
+  chain.totalBridgedOut = chain.totalBridgedOut.plus(batch.totalAmount)
+  chain.lastActivity = event.block.timestamp
+  chain.save()
+
+  let stats = getGlobalStats()
+  stats.totalBridgeVolume = stats.totalBridgeVolume.plus(batch.totalAmount)
+  stats.save()
+
+  let snapshot = getDailySnapshot(event)
+  snapshot.bridgeVolume = snapshot.bridgeVolume.plus(batch.totalAmount)
+  snapshot.save()
+}
+
+/**
+ * configureChain() enables a chain; disableChain() emits a zero receiver
+ */
+export function handleChainConfigured(event: ChainConfigured): void {
+  recordTransaction(event)
+
+  let chain = getChainStats(event.params.chainSelector)
+  let wasEnabled = chain.isEnabled
+  let enabled = !event.params.receiver.equals(ZERO_ADDRESS)
+
+  chain.receiverAddress = event.params.receiver
+  chain.minAmount = event.params.minAmount
+  chain.maxAmount = event.params.maxAmount
+  chain.isEnabled = enabled
+  chain.save()
+
+  if (wasEnabled != enabled) {
+    let stats = getGlobalStats()
+    stats.activeChainsCount = stats.activeChainsCount + (enabled ? 1 : -1)
+    stats.save()
+  }
+}
+
+export function handleRateLimitConfigured(event: RateLimitConfigured): void {
+  recordTransaction(event)
+
+  let chain = getChainStats(event.params.sourceChain)
+  chain.tokensPerSecond = event.params.tokensPerSecond
+  chain.maxBurstSize = event.params.maxBurstSize
+  chain.save()
+}
+
+function getChainStats(selector: BigInt): ChainStats {
+  let existing = ChainStats.load(selector.toString())
+  if (existing != null) return existing as ChainStats
+
+  let chain = new ChainStats(selector.toString())
+  chain.chainSelector = selector
+  chain.minAmount = ZERO
+  chain.maxAmount = ZERO
+  chain.isEnabled = false
+  chain.tokensPerSecond = ZERO
+  chain.maxBurstSize = ZERO
+  chain.totalBridgedOut = ZERO
+  chain.totalBridgedIn = ZERO
+  chain.totalBatches = ZERO
+  chain.transferCount = ZERO
+  chain.uniqueUsers = ZERO
+  chain.lastActivity = ZERO
+  return chain
+}
+
+/**
+ * Count a sender once per destination chain
+ */
+function trackChainUser(chain: ChainStats, user: User): void {
+  let id = chain.id + '-' + user.id
+  if (ChainUser.load(id) != null) return
+
+  let chainUser = new ChainUser(id)
+  chainUser.chain = chain.id
+  chainUser.user = user.id
+  chainUser.save()
+
+  chain.uniqueUsers = chain.uniqueUsers.plus(ONE)
+}
+
+/**
+ * Recipient of the last RebaseToken mint before this log in the same transaction
+ */
+function mintRecipient(event: ethereum.Event): Address {
+  let receipt = event.receipt
+  if (receipt == null) return ZERO_ADDRESS
+
+  let recipient = ZERO_ADDRESS
+  let logs = receipt.logs
+  for (let i = 0; i < logs.length; i++) {
+    let log = logs[i]
+    if (log.logIndex.ge(event.logIndex)) break
+    if (log.topics.length != 3 || !log.topics[0].equals(TRANSFER_TOPIC)) continue
+    if (!topicAddress(log.topics[1]).equals(ZERO_ADDRESS)) continue
+    recipient = topicAddress(log.topics[2])
+  }
+
+  return recipient
+}
+
+function topicAddress(topic: Bytes): Address {
+  return Address.fromBytes(Bytes.fromUint8Array(topic.subarray(12, 32)))
+}
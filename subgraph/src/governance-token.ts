@@ -0,0 +1,64 @@
+import {
+  DelegateChanged,
+  DelegateVotesChanged,
+} from '../generated/BASEGovernanceToken/BASEGovernanceToken'
+import { Checkpoint, Delegation } from '../generated/schema'
+import {
+  eventId,
+  getGlobalStats,
+  getOrCreateUser,
+  recordTransaction,
+  ZERO_ADDRESS,
+} from './utils'
+
+export function handleDelegateChanged(event: DelegateChanged): void {
+  recordTransaction(event)
+
+  let delegator = getOrCreateUser(event.params.delegator, event)
+  let toDelegate = getOrCreateUser(event.params.toDelegate, event)
+
+  let delegation = new Delegation(eventId(event))
+  delegation.delegator = delegator.id
+  if (!event.params.fromDelegate.equals(ZERO_ADDRESS)) {
+    delegation.fromDelegate = getOrCreateUser(event.params.fromDelegate, event).id
+  }
+  delegation.toDelegate = toDelegate.id
+  delegation.timestamp = event.block.timestamp
+  delegation.blockNumber = event.block.number
+  delegation.transactionHash = event.transaction.hash
+  delegation.save()
+
+  // Reload: the delegate may be the delegator itself
+  delegator = getOrCreateUser(event.params.delegator, event)
+  if (event.params.toDelegate.equals(ZERO_ADDRESS)) {
+    delegator.delegatedTo = null
+  } else {
+    delegator.delegatedTo = toDelegate.id
+  }
+  delegator.lastActivityTimestamp = event.block.timestamp
+  delegator.save()
+}
+
+/**
+ * ERC20Votes reports the delegate's new total; votingPower mirrors it
+ */
+export function handleDelegateVotesChanged(event: DelegateVotesChanged): void {
+  recordTransaction(event)
+
+  let delegate = getOrCreateUser(event.params.delegate, event)
+  delegate.votingPower = event.params.newVotes
+  delegate.save()
+
+  let checkpoint = new Checkpoint(delegate.id + '-' + event.block.number.toString())
+  checkpoint.user = delegate.id
+  checkpoint.votes = event.params.newVotes
+  checkpoint.blockNumber = event.block.number
+  checkpoint.timestamp = event.block.timestamp
+  checkpoint.save()
+
+  let stats = getGlobalStats()
+  stats.totalVotingPower = stats.totalVotingPower
+    .plus(event.params.newVotes)
+    .minus(event.params.previousVotes)
+  stats.save()
+}
@@ -0,0 +1,193 @@
+import { Address, BigInt, Bytes, ethereum } from '@graphprotocol/graph-ts'
+import {
+  ProposalCanceled,
+  ProposalCreated,
+  ProposalCreatedWithMetadata,
+  ProposalExecuted,
+  ProposalQueued,
+  VoteCast,
+  VoteCastWithParams,
+} from '../generated/BASEGovernor/BASEGovernor'
+import { Proposal, User, Vote } from '../generated/schema'
+import {
+  getGlobalStats,
+  getOrCreateUser,
+  ONE,
+  recordTransaction,
+  setProposalOpen,
+  ZERO,
+} from './utils'
+
+// GovernorCountingSimple vote types
+const AGAINST = 0
+const FOR = 1
+const ABSTAIN = 2
+
+/**
+ * Proposal state follows lifecycle events only
+ *
+ * Pending -> Queued -> Executed, or Canceled. Active, Defeated, Succeeded
+ * and Expired depend on the current block and are left to the client to
+ * derive from startBlock/endBlock and the vote totals.
+ *
+ * GlobalStats.activeProposals counts proposals still in their voting window
+ * or queued; ones whose vote ends unqueued drop out on the next indexed
+ * transaction (see refreshActiveProposals).
+ */
+export function handleProposalCreated(event: ProposalCreated): void {
+  recordTransaction(event)
+
+  let proposer = getOrCreateUser(event.params.proposer, event)
+  proposer.lastActivityTimestamp = event.block.timestamp
+  proposer.save()
+
+  let proposal = new Proposal(event.params.proposalId.toString())
+  proposal.proposalId = event.params.proposalId
+  proposal.proposer = proposer.id
+  proposal.targets = changetype<Bytes[]>(event.params.targets)
+  proposal.values = event.params.values
+  proposal.signatures = event.params.signatures
+  proposal.calldatas = event.params.calldatas
+  proposal.description = event.params.description
+  proposal.startBlock = event.params.voteStart
+  proposal.endBlock = event.params.voteEnd
+  proposal.state = 'Pending'
+  proposal.forVotes = ZERO
+  proposal.againstVotes = ZERO
+  proposal.abstainVotes = ZERO
+  proposal.createdAt = event.block.timestamp
+  proposal.createdAtBlock = event.block.number
+  proposal.transactionHash = event.transaction.hash
+  proposal.save()
+
+  let stats = getGlobalStats()
+  stats.totalProposals = stats.totalProposals.plus(ONE)
+  setProposalOpen(stats, proposal.id, true)
+  stats.save()
+}
+
+/**
+ * Emitted by proposeWithMetadata() right after ProposalCreated
+ */
+export function handleProposalCreatedWithMetadata(event: ProposalCreatedWithMetadata): void {
+  let proposal = Proposal.load(event.params.proposalId.toString())
+  if (proposal == null) return
+
+  proposal.title = event.params.title
+  proposal.proposalType = event.params.proposalType
+  proposal.save()
+}
+
+export function handleVoteCast(event: VoteCast): void {
+  recordVote(
+    event,
+    event.params.voter,
+    event.params.proposalId,
+    event.params.support,
+    event.params.weight,
+    event.params.reason
+  )
+}
+
+export function handleVoteCastWithParams(event: VoteCastWithParams): void {
+  recordVote(
+    event,
+    event.params.voter,
+    event.params.proposalId,
+    event.params.support,
+    event.params.weight,
+    event.params.reason
+  )
+}
+
+function recordVote(
+  event: ethereum.Event,
+  voterAddress: Address,
+  proposalId: BigInt,
+  support: i32,
+  weight: BigInt,
+  reason: string
+): void {
+  recordTransaction(event)
+
+  let proposal = Proposal.load(proposalId.toString())
+  if (proposal == null) return
+
+  let voter: User = getOrCreateUser(voterAddress, event)
+  voter.lastActivityTimestamp = event.block.timestamp
+  voter.save()
+
+  let vote = new Vote(proposal.id + '-' + voter.id)
+  vote.proposal = proposal.id
+  vote.voter = voter.id
+  vote.support = support == FOR
+  vote.supportType = support
+  vote.votes = weight
+  vote.reason = reason
+  vote.timestamp = event.block.timestamp
+  vote.blockNumber = event.block.number
+  vote.transactionHash = event.transaction.hash
+  vote.save()
+
+  if (support == FOR) {
+    proposal.forVotes = proposal.forVotes.plus(weight)
+  } else if (support == AGAINST) {
+    proposal.againstVotes = proposal.againstVotes.plus(weight)
+  } else if (support == ABSTAIN) {
+    proposal.abstainVotes = proposal.abstainVotes.plus(weight)
+  }
+  proposal.save()
+
+  let stats = getGlobalStats()
+  stats.totalVotes = stats.totalVotes.plus(ONE)
+  stats.save()
+}
+
+export function handleProposalQueued(event: ProposalQueued): void {
+  recordTransaction(event)
+
+  let proposal = Proposal.load(event.params.proposalId.toString())
+  if (proposal == null) return
+
+  proposal.state = 'Queued'
+  proposal.eta = event.params.etaSeconds
+  proposal.queuedAt = event.block.timestamp
+  proposal.save()
+
+  // Queued after its vote ended, so it may have been dropped from the open set
+  let stats = getGlobalStats()
+  setProposalOpen(stats, proposal.id, true)
+  stats.save()
+}
+
+export function handleProposalExecuted(event: ProposalExecuted): void {
+  recordTransaction(event)
+
+  let proposal = Proposal.load(event.params.proposalId.toString())
+  if (proposal == null) return
+
+  proposal.state = 'Executed'
+  proposal.executedAt = event.block.timestamp
+  proposal.save()
+
+  closeProposal(proposal.id)
+}
+
+export function handleProposalCanceled(event: ProposalCanceled): void {
+  recordTransaction(event)
+
+  let proposal = Proposal.load(event.params.proposalId.toString())
+  if (proposal == null) return
+
+  proposal.state = 'Canceled'
+  proposal.canceledAt = event.block.timestamp
+  proposal.save()
+
+  closeProposal(proposal.id)
+}
+
+function closeProposal(id: string): void {
+  let stats = getGlobalStats()
+  setProposalOpen(stats, id, false)
+  stats.save()
+}
@@ -0,0 +1,109 @@
+import { Address } from '@graphprotocol/graph-ts'
+import {
+  InterestRateSet,
+  RebaseToken,
+  Transfer as TransferEvent,
+} from '../generated/RebaseToken/RebaseToken'
+import { InterestRateChange, Transfer, User, VaultStats } from '../generated/schema'
+import {
+  eventId,
+  getGlobalStats,
+  getOrCreateUser,
+  getVaultStats,
+  ONE,
+  recordTransaction,
+  ZERO,
+  ZERO_ADDRESS,
+} from './utils'
+
+/**
+ * Transfer covers mints (from zero), burns (to zero) and share transfers
+ *
+ * Balances rebase without events, so both sides are re-read from the token
+ * rather than adjusted by `value`. A user counts as active in VaultStats
+ * while they hold shares.
+ */
+export function handleTransfer(event: TransferEvent): void {
+  recordTransaction(event)
+
+  let from = getOrCreateUser(event.params.from, event)
+  let to = getOrCreateUser(event.params.to, event)
+
+  let transfer = new Transfer(eventId(event))
+  transfer.from = from.id
+  transfer.to = to.id
+  transfer.value = event.params.value
+  transfer.timestamp = event.block.timestamp
+  transfer.blockNumber = event.block.number
+  transfer.transactionHash = event.transaction.hash
+  transfer.save()
+
+  let token = RebaseToken.bind(event.address)
+  let vault = getVaultStats()
+
+  if (!event.params.from.equals(ZERO_ADDRESS)) {
+    refreshHolder(token, vault, from, event.params.from)
+    from.lastActivityTimestamp = event.block.timestamp
+  }
+  if (!event.params.to.equals(ZERO_ADDRESS) && !event.params.to.equals(event.params.from)) {
+    refreshHolder(token, vault, to, event.params.to)
+    to.lastActivityTimestamp = event.block.timestamp
+  }
+
+  from.save()
+  if (!event.params.to.equals(event.params.from)) to.save()
+
+  let stats = getGlobalStats()
+  let totalSupply = token.try_totalSupply()
+  let totalShares = token.try_getTotalShares()
+  if (!totalSupply.reverted) {
+    vault.currentSupply = totalSupply.value
+    stats.totalSupply = totalSupply.value
+  }
+  if (!totalShares.reverted) {
+    vault.totalShares = totalShares.value
+    stats.totalShares = totalShares.value
+  }
+  stats.save()
+
+  vault.lastUpdateTimestamp = event.block.timestamp
+  vault.lastUpdateBlock = event.block.number
+  vault.save()
+}
+
+/**
+ * Re-read a holder's balance and shares and move VaultStats.activeUsers on a zero crossing
+ */
+function refreshHolder(token: RebaseToken, vault: VaultStats, user: User, address: Address): void {
+  let wasActive = user.tokenShares.gt(ZERO)
+
+  let balance = token.try_balanceOf(address)
+  let shares = token.try_sharesOf(address)
+  if (!balance.reverted) user.tokenBalance = balance.value
+  if (!shares.reverted) user.tokenShares = shares.value
+
+  let isActive = user.tokenShares.gt(ZERO)
+  if (wasActive == isActive) return
+
+  vault.activeUsers = isActive ? vault.activeUsers.plus(ONE) : vault.activeUsers.minus(ONE)
+}
+
+export function handleInterestRateSet(event: InterestRateSet): void {
+  recordTransaction(event)
+
+  let user = getOrCreateUser(event.params.user, event)
+  let newRate = event.params.interestRate.toI32()
+
+  let change = new InterestRateChange(eventId(event))
+  change.user = user.id
+  change.oldRate = user.interestRate
+  change.newRate = newRate
+  change.timestamp = event.block.timestamp
+  change.blockNumber = event.block.number
+  change.transactionHash = event.transaction.hash
+  change.save()
+
+  user.interestRate = newRate
+  user.lastActivityTimestamp = event.block.timestamp
+  user.save()
+}
@@ -0,0 +1,341 @@
+import { Address, BigDecimal, BigInt, ethereum } from '@graphprotocol/graph-ts'
+import {
+  DailyDepositor,
+  DailySnapshot,
+  GlobalStats,
+  InterestStrategyConfig,
+  InterestTier,
+  Proposal,
+  Transaction,
+  User,
+  UserTier,
+  VaultStats,
+} from '../generated/schema'
+
+export const GLOBAL_ID = 'global'
+export const ZERO_ADDRESS = Address.zero()
+export const ZERO = BigInt.zero()
+export const ONE = BigInt.fromI32(1)
+export const SECONDS_PER_DAY = 86400
+
+// CCIP chain selector of the indexed network (base-mainnet); update with `network`
+export const LOCAL_CHAIN_SELECTOR = BigInt.fromString('15971525489660198786')
+
+// RebaseTokenVault rate schedule: 10% start, -1% per 10 ETH, 2% floor
+export const VAULT_START_RATE = 1000
+export const VAULT_MIN_RATE = 200
+
+export const MAX_UINT256 = BigInt.fromString(
+  '115792089237316195423570985084937907853269984665640564039457584007913129639935'
+)
+
+// Ranked tier names; rank = number of qualifying strategy tiers - 1
+export const DEPOSIT_TIERS: string[] = ['Bronze', 'Silver', 'Gold', 'Platinum', 'Diamond']
+
+/**
+ * Entity id for an event: tx hash + log index
+ */
+export function eventId(event: ethereum.Event): string {
+  return event.transaction.hash.toHexString() + '-' + event.logIndex.toString()
+}
+
+export function max(a: BigInt, b: BigInt): BigInt {
+  return a.gt(b) ? a : b
+}
+
+/**
+ * Load a user, creating it (and counting it in GlobalStats) on first sight
+ *
+ * The zero address is created so mints and burns can reference it, but is
+ * never counted as a user.
+ */
+export function getOrCreateUser(address: Address, event: ethereum.Event): User {
+  let id = address.toHexString()
+  let existing = User.load(id)
+  if (existing != null) return existing as User
+
+  let user = new User(id)
+  user.totalDeposited = ZERO
+  user.totalWithdrawn = ZERO
+  user.currentVaultBalance = ZERO
+  user.currentShares = ZERO
+  user.tokenBalance = ZERO
+  user.tokenShares = ZERO
+  user.interestRate = 0
+  user.votingPower = ZERO
+  user.totalBridged = ZERO
+  user.totalReceived = ZERO
+  user.tier = DEPOSIT_TIERS[0]
+  user.tierBonus = 0
+  user.firstSeenTimestamp = event.block.timestamp
+  user.firstSeenBlock = event.block.number
+  user.lastActivityTimestamp = event.block.timestamp
+  user.transactionCount = ZERO
+  user.save()
+
+  if (!address.equals(ZERO_ADDRESS)) {
+    let stats = getGlobalStats()
+    stats.totalUsers = stats.totalUsers.plus(ONE)
+    stats.save()
+  }
+
+  return user
+}
+
+/**
+ * Record the event's transaction once and count it for its sender
+ *
+ * Call before loading any User or GlobalStats the handler will save, so the
+ * handler's copies include the updated counters.
+ */
+export function recordTransaction(event: ethereum.Event): void {
+  let id = event.transaction.hash.toHexString()
+  if (Transaction.load(id) != null) return
+
+  let tx = new Transaction(id)
+  tx.hash = event.transaction.hash
+  tx.from = event.transaction.from
+  tx.to = event.transaction.to
+  tx.value = event.transaction.value
+  let receipt = event.receipt
+  tx.gasUsed = receipt != null ? receipt.gasUsed : ZERO
+  tx.gasPrice = event.transaction.gasPrice
+  tx.blockNumber = event.block.number
+  tx.timestamp = event.block.timestamp
+  tx.save()
+
+  let sender = getOrCreateUser(event.transaction.from, event)
+  sender.transactionCount = sender.transactionCount.plus(ONE)
+  sender.lastActivityTimestamp = event.block.timestamp
+  sender.save()
+
+  let stats = getGlobalStats()
+  stats.totalTransactions = stats.totalTransactions.plus(ONE)
+  stats.lastUpdateTimestamp = event.block.timestamp
+  stats.lastUpdateBlock = event.block.number
+  refreshActiveProposals(stats, event.block.number)
+  stats.save()
+}
+
+/**
+ * Drop open proposals whose vote ended without them being queued
+ *
+ * No event marks a proposal Defeated (or Succeeded but never queued), so
+ * every transaction rechecks the open ones against their endBlock. The
+ * caller saves `stats`.
+ */
+export function refreshActiveProposals(stats: GlobalStats, blockNumber: BigInt): void {
+  let open = stats.openProposalIds
+  let remaining = new Array<string>()
+
+  for (let i = 0; i < open.length; i++) {
+    let proposal = Proposal.load(open[i])
+    if (proposal == null) continue
+    if (proposal.state == 'Queued' || (proposal.state == 'Pending' && proposal.endBlock.ge(blockNumber))) {
+      remaining.push(open[i])
+    }
+  }
+
+  stats.openProposalIds = remaining
+  stats.activeProposals = BigInt.fromI32(remaining.length)
+}
+
+/**
+ * Add or remove a proposal from the open set and recount
+ */
+export function setProposalOpen(stats: GlobalStats, id: string, open: boolean): void {
+  let ids = stats.openProposalIds
+  let index = ids.indexOf(id)
+
+  if (open && index == -1) ids.push(id)
+  if (!open && index != -1) ids.splice(index, 1)
+
+  stats.openProposalIds = ids
+  stats.activeProposals = BigInt.fromI32(ids.length)
+}
+
+export function getGlobalStats(): GlobalStats {
+  let existing = GlobalStats.load(GLOBAL_ID)
+  if (existing != null) return existing as GlobalStats
+
+  let stats = new GlobalStats(GLOBAL_ID)
+  stats.totalValueLocked = ZERO
+  stats.totalUsers = ZERO
+  stats.totalTransactions = ZERO
+  stats.totalSupply = ZERO
+  stats.totalShares = ZERO
+  stats.totalRebases = ZERO
+  stats.totalProposals = ZERO
+  stats.activeProposals = ZERO
+  stats.openProposalIds = new Array<string>()
+  stats.totalVotingPower = ZERO
+  stats.totalVotes = ZERO
+  stats.totalBridgeVolume = ZERO
+  stats.totalBridgeTransfers = ZERO
+  stats.activeChainsCount = 0
+  stats.lastUpdateTimestamp = ZERO
+  stats.lastUpdateBlock = ZERO
+  return stats
+}
+
+export function getVaultStats(): VaultStats {
+  let existing = VaultStats.load(GLOBAL_ID)
+  if (existing != null) return existing as VaultStats
+
+  let stats = new VaultStats(GLOBAL_ID)
+  stats.totalDeposited = ZERO
+  stats.totalWithdrawn = ZERO
+  stats.totalShares = ZERO
+  stats.totalUsers = ZERO
+  stats.activeUsers = ZERO
+  stats.currentBalance = ZERO
+  stats.currentSupply = ZERO
+  stats.totalInterestAccrued = ZERO
+  stats.lastInterestAccrual = ZERO
+  stats.minDeposit = ZERO
+  stats.maxDeposit = MAX_UINT256
+  stats.minInterestRate = VAULT_MIN_RATE
+  stats.maxInterestRate = VAULT_START_RATE
+  stats.baseInterestRate = VAULT_START_RATE
+  stats.isPaused = false
+  stats.lastUpdateTimestamp = ZERO
+  stats.lastUpdateBlock = ZERO
+  return stats
+}
+
+export function getStrategyConfig(): InterestStrategyConfig {
+  let existing = InterestStrategyConfig.load(GLOBAL_ID)
+  if (existing != null) return existing as InterestStrategyConfig
+
+  let config = new InterestStrategyConfig(GLOBAL_ID)
+  config.tierCount = 0
+  config.kink = 0
+  config.rateAtZero = 0
+  config.rateAtKink = 0
+  config.rateAtMax = 0
+  config.targetReturn = 0
+  config.performanceFee = 0
+  config.lastUpdated = ZERO
+  return config
+}
+
+/**
+ * Resolve a user's deposit tier from the mirrored strategy tiers
+ *
+ * Matches AdvancedInterestStrategy.getTierBonus(): tiers are walked in
+ * array order and the walk stops at the first minimum the user's cumulative
+ * deposits miss, so tiers left out of order by a removal rank as on-chain.
+ * Updates UserTier when the ranked tier changes; the caller saves the user.
+ */
+export function updateUserTier(user: User, event: ethereum.Event): void {
+  let config = getStrategyConfig()
+  let qualifying = 0
+  let bonus = 0
+
+  for (let i = 0; i < config.tierCount; i++) {
+    let tier = InterestTier.load(i.toString())
+    if (tier == null) continue
+    if (user.totalDeposited.lt(tier.minDeposit)) break
+    qualifying++
+    bonus = tier.bonusRate
+  }
+
+  let rank = qualifying > 0 ? qualifying - 1 : 0
+  if (rank >= DEPOSIT_TIERS.length) rank = DEPOSIT_TIERS.length - 1
+  let name = DEPOSIT_TIERS[rank]
+
+  let userTier = UserTier.load(user.id)
+  if (userTier == null) {
+    userTier = new UserTier(user.id)
+    userTier.user = user.id
+  } else if (userTier.tier == name && userTier.bonus == bonus) {
+    return
+  } else if (userTier.tier != name) {
+    userTier.previousTier = userTier.tier
+  }
+  userTier.tier = name
+  userTier.bonus = bonus
+  userTier.changedAt = event.block.timestamp
+  userTier.changedAtBlock = event.block.number
+  userTier.save()
+
+  user.tier = name
+  user.tierBonus = bonus
+}
+
+/**
+ * UTC calendar date (YYYY-MM-DD) of a timestamp
+ */
+export function dayId(timestamp: BigInt): string {
+  // Days-to-civil conversion from Howard Hinnant's date algorithms
+  let z = timestamp.toI32() / SECONDS_PER_DAY + 719468
+  let era = z / 146097
+  let doe = z - era * 146097
+  let yoe = (doe - doe / 1460 + doe / 36524 - doe / 146096) / 365
+  let doy = doe - (365 * yoe + yoe / 4 - yoe / 100)
+  let mp = (5 * doy + 2) / 153
+  let day = doy - (153 * mp + 2) / 5 + 1
+  let month = mp < 10 ? mp + 3 : mp - 9
+  let year = yoe + era * 400 + (month <= 2 ? 1 : 0)
+
+  return year.toString() + '-' + pad2(month) + '-' + pad2(day)
+}
+
+function pad2(value: i32): string {
+  return value < 10 ? '0' + value.toString() : value.toString()
+}
+
+/**
+ * Load the event's daily snapshot with point-in-time fields refreshed from GlobalStats
+ */
+export function getDailySnapshot(event: ethereum.Event): DailySnapshot {
+  let id = dayId(event.block.timestamp)
+  let snapshot = DailySnapshot.load(id)
+
+  if (snapshot == null) {
+    snapshot = new DailySnapshot(id)
+    snapshot.date = (event.block.timestamp.toI32() / SECONDS_PER_DAY) * SECONDS_PER_DAY
+    snapshot.totalDeposited = ZERO
+    snapshot.totalWithdrawn = ZERO
+    snapshot.netDeposits = ZERO
+    snapshot.uniqueDepositors = 0
+    snapshot.rebaseCount = 0
+    snapshot.totalRebaseAmount = ZERO
+    snapshot.bridgeVolume = ZERO
+    snapshot.bridgeCount = 0
+  }
+
+  let stats = getGlobalStats()
+  snapshot.tvl = stats.totalValueLocked
+  snapshot.totalSupply = stats.totalSupply
+  snapshot.activeProposals = stats.activeProposals.toI32()
+  snapshot.totalVotingPower = stats.totalVotingPower
+  return snapshot
+}
+
+/**
+ * Count a depositor once per day
+ */
+export function recordDailyDepositor(snapshot: DailySnapshot, user: User): void {
+  let id = snapshot.id + '-' + user.id
+  if (DailyDepositor.load(id) != null) return
+
+  let depositor = new DailyDepositor(id)
+  depositor.snapshot = snapshot.id
+  depositor.user = user.id
+  depositor.save()
+
+  snapshot.uniqueDepositors = snapshot.uniqueDepositors + 1
+}
+
+/**
+ * Percentage change between two amounts
+ */
+export function percentChange(before: BigInt, after: BigInt): BigDecimal {
+  if (before.isZero()) return BigDecimal.zero()
+  return after
+    .minus(before)
+    .toBigDecimal()
+    .times(BigDecimal.fromString('100'))
+    .div(before.toBigDecimal())
+}
@@ -0,0 +1,205 @@
+import { ethereum } from '@graphprotocol/graph-ts'
+import {
+  Deposit as DepositEvent,
+  DepositCapsUpdated,
+  InterestAccrualDetailed,
+  InterestAccrued,
+  InterestRateDecreased,
+  MinDepositUpdated,
+  Paused,
+  Redeem,
+  Unpaused,
+} from '../generated/RebaseTokenVault/RebaseTokenVault'
+import { Deposit, Rebase, Withdrawal } from '../generated/schema'
+import {
+  eventId,
+  getDailySnapshot,
+  getGlobalStats,
+  getOrCreateUser,
+  getVaultStats,
+  max,
+  ONE,
+  percentChange,
+  recordDailyDepositor,
+  recordTransaction,
+  updateUserTier,
+  ZERO,
+} from './utils'
+
+/**
+ * Vault deposits are ETH in, RebaseTokens out (1:1 at deposit time)
+ *
+ * `shares` on Deposit/Withdrawal and User.currentShares count RebaseTokens
+ * minted and burned by the vault; User.tokenShares holds the token's own
+ * share balance.
+ */
+export function handleDeposit(event: DepositEvent): void {
+  recordTransaction(event)
+
+  let user = getOrCreateUser(event.params.user, event)
+  let firstDeposit = user.totalDeposited.isZero()
+
+  user.totalDeposited = user.totalDeposited.plus(event.params.ethAmount)
+  user.currentVaultBalance = user.currentVaultBalance.plus(event.params.ethAmount)
+  user.currentShares = user.currentShares.plus(event.params.tokensReceived)
+  user.lastActivityTimestamp = event.block.timestamp
+  updateUserTier(user, event)
+  user.save()
+
+  let deposit = new Deposit(eventId(event))
+  deposit.user = user.id
+  deposit.amount = event.params.ethAmount
+  deposit.shares = event.params.tokensReceived
+  deposit.interestRate = event.params.interestRate.toI32()
+  deposit.timestamp = event.block.timestamp
+  deposit.blockNumber = event.block.number
+  deposit.transactionHash = event.transaction.hash
+  deposit.save()
+
+  let vault = getVaultStats()
+  vault.totalDeposited = vault.totalDeposited.plus(event.params.ethAmount)
+  vault.currentBalance = vault.currentBalance.plus(event.params.ethAmount)
+  if (firstDeposit) vault.totalUsers = vault.totalUsers.plus(ONE)
+  vault.lastUpdateTimestamp = event.block.timestamp
+  vault.lastUpdateBlock = event.block.number
+  vault.save()
+
+  let stats = getGlobalStats()
+  stats.totalValueLocked = vault.currentBalance
+  stats.save()
+
+  let snapshot = getDailySnapshot(event)
+  snapshot.totalDeposited = snapshot.totalDeposited.plus(event.params.ethAmount)
+  snapshot.netDeposits = snapshot.netDeposits.plus(event.params.ethAmount)
+  recordDailyDepositor(snapshot, user)
+  snapshot.save()
+}
+
+export function handleRedeem(event: Redeem): void {
+  recordTransaction(event)
+
+  let user = getOrCreateUser(event.params.user, event)
+  user.totalWithdrawn = user.totalWithdrawn.plus(event.params.ethReceived)
+  user.currentVaultBalance = max(user.currentVaultBalance.minus(event.params.ethReceived), ZERO)
+  user.currentShares = max(user.currentShares.minus(event.params.tokenAmount), ZERO)
+  user.lastActivityTimestamp = event.block.timestamp
+  user.save()
+
+  let withdrawal = new Withdrawal(eventId(event))
+  withdrawal.user = user.id
+  withdrawal.amount = event.params.ethReceived
+  withdrawal.shares = event.params.tokenAmount
+  withdrawal.timestamp = event.block.timestamp
+  withdrawal.blockNumber = event.block.number
+  withdrawal.transactionHash = event.transaction.hash
+  withdrawal.save()
+
+  let vault = getVaultStats()
+  vault.totalWithdrawn = vault.totalWithdrawn.plus(event.params.ethReceived)
+  vault.currentBalance = vault.currentBalance.minus(event.params.ethReceived)
+  vault.lastUpdateTimestamp = event.block.timestamp
+  vault.lastUpdateBlock = event.block.number
+  vault.save()
+
+  let stats = getGlobalStats()
+  stats.totalValueLocked = vault.currentBalance
+  stats.save()
+
+  let snapshot = getDailySnapshot(event)
+  snapshot.totalWithdrawn = snapshot.totalWithdrawn.plus(event.params.ethReceived)
+  snapshot.netDeposits = snapshot.netDeposits.minus(event.params.ethReceived)
+  snapshot.save()
+}
+
+export function handleInterestAccrued(event: InterestAccrued): void {
+  recordTransaction(event)
+
+  let vault = getVaultStats()
+  vault.totalInterestAccrued = vault.totalInterestAccrued.plus(event.params.interestAmount)
+  vault.lastInterestAccrual = event.params.timestamp
+  vault.lastUpdateTimestamp = event.block.timestamp
+  vault.lastUpdateBlock = event.block.number
+  vault.save()
+}
+
+/**
+ * Each accrual is one rebase epoch; epochs are numbered from zero
+ */
+export function handleInterestAccrualDetailed(event: InterestAccrualDetailed): void {
+  recordTransaction(event)
+
+  let stats = getGlobalStats()
+  let epoch = stats.totalRebases
+
+  let rebase = new Rebase(epoch.toString())
+  rebase.epoch = epoch
+  rebase.previousSupply = event.params.supplyBefore
+  rebase.newSupply = event.params.supplyAfter
+  rebase.delta = event.params.supplyAfter.minus(event.params.supplyBefore)
+  rebase.percentChange = percentChange(event.params.supplyBefore, event.params.supplyAfter)
+  rebase.timestamp = event.block.timestamp
+  rebase.blockNumber = event.block.number
+  rebase.transactionHash = event.transaction.hash
+  rebase.save()
+
+  stats.totalRebases = epoch.plus(ONE)
+  stats.totalSupply = event.params.supplyAfter
+  stats.save()
+
+  let vault = getVaultStats()
+  vault.currentSupply = event.params.supplyAfter
+  vault.save()
+
+  let snapshot = getDailySnapshot(event)
+  snapshot.rebaseCount = snapshot.rebaseCount + 1
+  snapshot.totalRebaseAmount = snapshot.totalRebaseAmount.plus(event.params.interestAccrued)
+  snapshot.save()
+}
+
+export function handleInterestRateDecreased(event: InterestRateDecreased): void {
+  recordTransaction(event)
+
+  let vault = getVaultStats()
+  vault.baseInterestRate = event.params.newRate.toI32()
+  vault.lastUpdateTimestamp = event.block.timestamp
+  vault.lastUpdateBlock = event.block.number
+  vault.save()
+}
+
+export function handleMinDepositUpdated(event: MinDepositUpdated): void {
+  recordTransaction(event)
+
+  let vault = getVaultStats()
+  vault.minDeposit = event.params.minDeposit
+  vault.lastUpdateTimestamp = event.block.timestamp
+  vault.lastUpdateBlock = event.block.number
+  vault.save()
+}
+
+export function handleDepositCapsUpdated(event: DepositCapsUpdated): void {
+  recordTransaction(event)
+
+  let vault = getVaultStats()
+  vault.maxDeposit = event.params.maxDepositPerAddress
+  vault.lastUpdateTimestamp = event.block.timestamp
+  vault.lastUpdateBlock = event.block.number
+  vault.save()
+}
+
+export function handlePaused(event: Paused): void {
+  setPaused(event, true)
+}
+
+export function handleUnpaused(event: Unpaused): void {
+  setPaused(event, false)
+}
+
+function setPaused(event: ethereum.Event, paused: boolean): void {
+  recordTransaction(event)
+
+  let vault = getVaultStats()
+  vault.isPaused = paused
+  vault.lastUpdateTimestamp = event.block.timestamp
+  vault.lastUpdateBlock = event.block.number
+  vault.save()
+}
@@ -0,0 +1,77 @@
+import { BigInt } from '@graphprotocol/graph-ts'
+import { afterEach, assert, clearStore, describe, test } from 'matchstick-as/assembly/index'
+import {
+  LockCreated,
+  LockUnlocked,
+  TierAdded,
+  TierRemoved,
+} from '../generated/AdvancedInterestStrategy/AdvancedInterestStrategy'
+import {
+  handleLockCreated,
+  handleLockUnlocked,
+  handleTierAdded,
+  handleTierRemoved,
+} from '../src/advanced-strategy'
+import { addressParam, ALICE, BOB, ether, mockEvent, uintParam } from './helpers'
+
+const DAY = 86400
+
+function createTierAdded(index: i32, minDeposit: BigInt, bonusRate: i32, tx: i32): TierAdded {
+  let event = changetype<TierAdded>(mockEvent(BOB, tx))
+  event.parameters.push(uintParam('tierIndex', BigInt.fromI32(index)))
+  event.parameters.push(uintParam('minDeposit', minDeposit))
+  event.parameters.push(uintParam('bonusRate', BigInt.fromI32(bonusRate)))
+  return event
+}
+
+function createLock(days: i32, tx: i32): LockCreated {
+  let event = changetype<LockCreated>(mockEvent(BOB, tx))
+  event.parameters.push(addressParam('user', ALICE))
+  event.parameters.push(uintParam('amount', ether(10)))
+  event.parameters.push(uintParam('duration', BigInt.fromI32(days * DAY)))
+  event.parameters.push(uintParam('unlockBonus', BigInt.fromI32(200)))
+  return event
+}
+
+describe('AdvancedInterestStrategy', () => {
+  afterEach(() => {
+    clearStore()
+  })
+
+  test('tier removal swaps the last tier into the removed slot', () => {
+    handleTierAdded(createTierAdded(0, ether(1), 50, 1))
+    handleTierAdded(createTierAdded(1, ether(10), 100, 2))
+    handleTierAdded(createTierAdded(2, ether(100), 300, 3))
+
+    let event = changetype<TierRemoved>(mockEvent(BOB, 4))
+    event.parameters.push(uintParam('tierIndex', BigInt.zero()))
+    handleTierRemoved(event)
+
+    assert.fieldEquals('InterestStrategyConfig', 'global', 'tierCount', '2')
+    assert.fieldEquals('InterestTier', '0', 'minDeposit', ether(100).toString())
+    assert.fieldEquals('InterestTier', '0', 'bonusRate', '300')
+    assert.notInStore('InterestTier', '2')
+  })
+
+  test('locks are tracked per user with history', () => {
+    handleLockCreated(createLock(90, 1))
+
+    let alice = ALICE.toHexString()
+    assert.fieldEquals('UserLock', alice, 'period', 'NinetyDays')
+    assert.fieldEquals('UserLock', alice, 'isActive', 'true')
+    assert.fieldEquals('User', alice, 'lockInfo', alice)
+
+    let unlock = changetype<LockUnlocked>(mockEvent(BOB, 2))
+    unlock.parameters.push(addressParam('user', ALICE))
+    unlock.parameters.push(uintParam('amount', ether(10)))
+    handleLockUnlocked(unlock)
+
+    assert.fieldEquals('UserLock', alice, 'isActive', 'false')
+    assert.fieldEquals('Lock', alice + '-1', 'isWithdrawn', 'true')
+
+    handleLockCreated(createLock(400, 3))
+    assert.fieldEquals('UserLock', alice, 'period', 'ThreeSixtyFiveDays')
+    assert.fieldEquals('UserLock', alice, 'lockCount', '2')
+    assert.entityCount('Lock', 2)
+  })
+})
@@ -0,0 +1,126 @@
+import { Address, BigInt, Bytes, ethereum } from '@graphprotocol/graph-ts'
+import { afterEach, assert, clearStore, describe, test } from 'matchstick-as/assembly/index'
+import {
+  ChainConfigured,
+  CrossChainTransfer,
+  MessageReceived,
+} from '../generated/EnhancedCCIPBridge/EnhancedCCIPBridge'
+import {
+  handleChainConfigured,
+  handleCrossChainTransfer,
+  handleMessageReceived,
+} from '../src/bridge'
+import {
+  addressParam,
+  addressTopic,
+  ALICE,
+  BOB,
+  bytes32Param,
+  ether,
+  mockEvent,
+  uintParam,
+  ZERO_ADDRESS,
+} from './helpers'
+
+const ARBITRUM = BigInt.fromString('4949039107694359620')
+const REMOTE_BRIDGE = Address.fromString('0x000000000000000000000000000000000000b41d')
+const TRANSFER_TOPIC = Bytes.fromHexString(
+  '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef'
+)
+
+function messageId(n: i32): Bytes {
+  return Bytes.fromHexString('0x' + n.toString().padStart(64, '0'))
+}
+
+function createSend(sender: Address, amount: BigInt, tx: i32): CrossChainTransfer {
+  let event = changetype<CrossChainTransfer>(mockEvent(sender, tx))
+  event.parameters.push(bytes32Param('messageId', messageId(tx)))
+  event.parameters.push(uintParam('destinationChain', ARBITRUM))
+  event.parameters.push(addressParam('recipient', sender))
+  event.parameters.push(uintParam('amount', amount))
+  event.parameters.push(uintParam('fees', ether(1)))
+  return event
+}
+
+function createChainConfigured(receiver: Address, tx: i32): ChainConfigured {
+  let event = changetype<ChainConfigured>(mockEvent(BOB, tx))
+  event.parameters.push(uintParam('chainSelector', ARBITRUM))
+  event.parameters.push(addressParam('receiver', receiver))
+  event.parameters.push(uintParam('minAmount', ether(1)))
+  event.parameters.push(uintParam('maxAmount', ether(1000)))
+  return event
+}
+
+describe('EnhancedCCIPBridge', () => {
+  afterEach(() => {
+    clearStore()
+  })
+
+  test('sends update sender and per-chain totals', () => {
+    handleCrossChainTransfer(createSend(ALICE, ether(5), 1))
+    handleCrossChainTransfer(createSend(ALICE, ether(3), 2))
+    handleCrossChainTransfer(createSend(BOB, ether(2), 3))
+
+    let chain = ARBITRUM.toString()
+    assert.fieldEquals('User', ALICE.toHexString(), 'totalBridged', ether(8).toString())
+    assert.fieldEquals('ChainStats', chain, 'totalBridgedOut', ether(10).toString())
+    assert.fieldEquals('ChainStats', chain, 'transferCount', '3')
+    assert.fieldEquals('ChainStats', chain, 'uniqueUsers', '2')
+    assert.fieldEquals('GlobalStats', 'global', 'totalBridgeTransfers', '3')
+    assert.fieldEquals('BridgeTransfer', messageId(1).toHexString(), 'status', 'Sent')
+  })
+
+  test('received messages credit the minted recipient', () => {
+    let event = changetype<MessageReceived>(mockEvent(BOB, 1))
+    event.logIndex = BigInt.fromI32(1)
+    event.parameters.push(bytes32Param('messageId', messageId(7)))
+    event.parameters.push(uintParam('sourceChainSelector', ARBITRUM))
+    event.parameters.push(addressParam('sender', REMOTE_BRIDGE))
+    event.parameters.push(uintParam('amount', ether(4)))
+
+    let mint = new ethereum.Log(
+      Address.fromString('0x00000000000000000000000000000000000070c3'),
+      [TRANSFER_TOPIC, addressTopic(ZERO_ADDRESS), addressTopic(ALICE)],
+      Bytes.empty(),
+      Bytes.empty(),
+      Bytes.empty(),
+      event.transaction.hash,
+      BigInt.zero(),
+      BigInt.zero(),
+      BigInt.zero(),
+      '',
+      null
+    )
+    event.receipt = new ethereum.TransactionReceipt(
+      event.transaction.hash,
+      BigInt.zero(),
+      Bytes.empty(),
+      BigInt.zero(),
+      BigInt.zero(),
+      BigInt.fromI32(150000),
+      ZERO_ADDRESS,
+      [mint],
+      BigInt.fromI32(1),
+      Bytes.empty(),
+      Bytes.empty()
+    )
+    handleMessageReceived(event)
+
+    let id = messageId(7).toHexString()
+    assert.fieldEquals('BridgeTransfer', id, 'status', 'Received')
+    assert.fieldEquals('BridgeTransfer', id, 'recipient', ALICE.toHexString())
+    assert.fieldEquals('User', ALICE.toHexString(), 'totalReceived', ether(4).toString())
+    assert.fieldEquals('ChainStats', ARBITRUM.toString(), 'totalBridgedIn', ether(4).toString())
+    assert.fieldEquals('Transaction', event.transaction.hash.toHexString(), 'gasUsed', '150000')
+  })
+
+  test('activeChainsCount follows configure and disable', () => {
+    handleChainConfigured(createChainConfigured(BOB, 1))
+    handleChainConfigured(createChainConfigured(BOB, 2))
+    assert.fieldEquals('GlobalStats', 'global', 'activeChainsCount', '1')
+
+    handleChainConfigured(createChainConfigured(ZERO_ADDRESS, 3))
+    assert.fieldEquals('ChainStats', ARBITRUM.toString(), 'isEnabled', 'false')
+    assert.fieldEquals('GlobalStats', 'global', 'activeChainsCount', '0')
+  })
+})
@@ -0,0 +1,151 @@
+import { Address, BigInt, Bytes, ethereum } from '@graphprotocol/graph-ts'
+import { afterEach, assert, clearStore, describe, test } from 'matchstick-as/assembly/index'
+import {
+  DelegateChanged,
+  DelegateVotesChanged,
+} from '../generated/BASEGovernanceToken/BASEGovernanceToken'
+import {
+  ProposalCreated,
+  ProposalExecuted,
+  ProposalQueued,
+  VoteCast,
+} from '../generated/BASEGovernor/BASEGovernor'
+import { handleDelegateChanged, handleDelegateVotesChanged } from '../src/governance-token'
+import {
+  handleProposalCreated,
+  handleProposalExecuted,
+  handleProposalQueued,
+  handleVoteCast,
+} from '../src/governor'
+import {
+  addressParam,
+  ALICE,
+  BOB,
+  ether,
+  mockEvent,
+  smallUintParam,
+  stringParam,
+  uintParam,
+  ZERO_ADDRESS,
+} from './helpers'
+
+const PROPOSAL_ID = BigInt.fromI32(42)
+
+function createVotesChanged(delegate: Address, previous: BigInt, next: BigInt, tx: i32): DelegateVotesChanged {
+  let event = changetype<DelegateVotesChanged>(mockEvent(delegate, tx))
+  event.parameters.push(addressParam('delegate', delegate))
+  event.parameters.push(uintParam('previousVotes', previous))
+  event.parameters.push(uintParam('newVotes', next))
+  return event
+}
+
+function createProposal(tx: i32): ProposalCreated {
+  let event = changetype<ProposalCreated>(mockEvent(ALICE, tx))
+  event.parameters.push(uintParam('proposalId', PROPOSAL_ID))
+  event.parameters.push(addressParam('proposer', ALICE))
+  event.parameters.push(
+    new ethereum.EventParam('targets', ethereum.Value.fromAddressArray([BOB]))
+  )
+  event.parameters.push(
+    new ethereum.EventParam('values', ethereum.Value.fromUnsignedBigIntArray([BigInt.zero()]))
+  )
+  event.parameters.push(new ethereum.EventParam('signatures', ethereum.Value.fromStringArray([''])))
+  event.parameters.push(
+    new ethereum.EventParam('calldatas', ethereum.Value.fromBytesArray([Bytes.fromHexString('0x1234')]))
+  )
+  event.parameters.push(uintParam('voteStart', BigInt.fromI32(100)))
+  event.parameters.push(uintParam('voteEnd', BigInt.fromI32(200)))
+  event.parameters.push(stringParam('description', 'Raise the minimum deposit'))
+  return event
+}
+
+function createVote(voter: Address, support: i32, weight: BigInt, tx: i32): VoteCast {
+  let event = changetype<VoteCast>(mockEvent(voter, tx))
+  event.parameters.push(addressParam('voter', voter))
+  event.parameters.push(uintParam('proposalId', PROPOSAL_ID))
+  event.parameters.push(smallUintParam('support', support))
+  event.parameters.push(uintParam('weight', weight))
+  event.parameters.push(stringParam('reason', ''))
+  return event
+}
+
+describe('Governance', () => {
+  afterEach(() => {
+    clearStore()
+  })
+
+  test('votingPower mirrors DelegateVotesChanged', () => {
+    handleDelegateVotesChanged(createVotesChanged(ALICE, BigInt.zero(), ether(100), 1))
+    handleDelegateVotesChanged(createVotesChanged(BOB, BigInt.zero(), ether(50), 2))
+    handleDelegateVotesChanged(createVotesChanged(ALICE, ether(100), ether(70), 3))
+
+    assert.fieldEquals('User', ALICE.toHexString(), 'votingPower', ether(70).toString())
+    assert.fieldEquals('GlobalStats', 'global', 'totalVotingPower', ether(120).toString())
+    assert.entityCount('Checkpoint', 3)
+  })
+
+  test('delegation sets delegatedTo', () => {
+    let event = changetype<DelegateChanged>(mockEvent(ALICE, 1))
+    event.parameters.push(addressParam('delegator', ALICE))
+    event.parameters.push(addressParam('fromDelegate', ZERO_ADDRESS))
+    event.parameters.push(addressParam('toDelegate', BOB))
+    handleDelegateChanged(event)
+
+    assert.fieldEquals('User', ALICE.toHexString(), 'delegatedTo', BOB.toHexString())
+    assert.entityCount('Delegation', 1)
+  })
+
+  test('votes are tallied by support type', () => {
+    handleProposalCreated(createProposal(1))
+    handleVoteCast(createVote(ALICE, 1, ether(10), 2))
+    handleVoteCast(createVote(BOB, 0, ether(4), 3))
+    handleVoteCast(createVote(Address.fromString('0x0000000000000000000000000000000000000c0c'), 2, ether(1), 4))
+
+    let id = PROPOSAL_ID.toString()
+    assert.fieldEquals('Proposal', id, 'state', 'Pending')
+    assert.fieldEquals('Proposal', id, 'forVotes', ether(10).toString())
+    assert.fieldEquals('Proposal', id, 'againstVotes', ether(4).toString())
+    assert.fieldEquals('Proposal', id, 'abstainVotes', ether(1).toString())
+    assert.fieldEquals('Vote', id + '-' + BOB.toHexString(), 'support', 'false')
+    assert.fieldEquals('GlobalStats', 'global', 'totalVotes', '3')
+  })
+
+  test('execution closes the proposal', () => {
+    handleProposalCreated(createProposal(1))
+    assert.fieldEquals('GlobalStats', 'global', 'activeProposals', '1')
+
+    let event = changetype<ProposalExecuted>(mockEvent(BOB, 2))
+    event.parameters.push(uintParam('proposalId', PROPOSAL_ID))
+    handleProposalExecuted(event)
+
+    assert.fieldEquals('Proposal', PROPOSAL_ID.toString(), 'state', 'Executed')
+    assert.fieldEquals('GlobalStats', 'global', 'activeProposals', '0')
+    assert.fieldEquals('GlobalStats', 'global', 'totalProposals', '1')
+  })
+
+  test('proposals whose vote ends unqueued stop counting as active', () => {
+    handleProposalCreated(createProposal(1))
+    assert.fieldEquals('GlobalStats', 'global', 'activeProposals', '1')
+
+    // Any transaction after voteEnd (block 200) rechecks the open proposals
+    let later = createVotesChanged(BOB, BigInt.zero(), ether(1), 2)
+    later.block.number = BigInt.fromI32(201)
+    handleDelegateVotesChanged(later)
+    assert.fieldEquals('GlobalStats', 'global', 'activeProposals', '0')
+    assert.fieldEquals('GlobalStats', 'global', 'openProposalIds', '[]')
+
+    // A succeeded proposal queued late is open again
+    let queued = changetype<ProposalQueued>(mockEvent(BOB, 3))
+    queued.block.number = BigInt.fromI32(210)
+    queued.parameters.push(uintParam('proposalId', PROPOSAL_ID))
+    queued.parameters.push(uintParam('etaSeconds', BigInt.fromI32(1000)))
+    handleProposalQueued(queued)
+    assert.fieldEquals('GlobalStats', 'global', 'activeProposals', '1')
+
+    let executed = changetype<ProposalExecuted>(mockEvent(BOB, 4))
+    executed.block.number = BigInt.fromI32(300)
+    executed.parameters.push(uintParam('proposalId', PROPOSAL_ID))
+    handleProposalExecuted(executed)
+    assert.fieldEquals('GlobalStats', 'global', 'activeProposals', '0')
+  })
+})
@@ -0,0 +1,48 @@
+import { Address, BigInt, Bytes, ethereum } from '@graphprotocol/graph-ts'
+import { newMockEvent } from 'matchstick-as/assembly/index'
+
+export const ALICE = Address.fromString('0x00000000000000000000000000000000000a11ce')
+export const BOB = Address.fromString('0x0000000000000000000000000000000000000b0b')
+export const ZERO_ADDRESS = Address.zero()
+
+export function ether(amount: i32): BigInt {
+  return BigInt.fromString('1000000000000000000').times(BigInt.fromI32(amount))
+}
+
+/**
+ * Mock event in its own transaction (`tx`) sent by `from`
+ */
+export function mockEvent(from: Address, tx: i32): ethereum.Event {
+  let event = newMockEvent()
+  event.transaction.from = from
+  event.transaction.hash = Bytes.fromI32(tx)
+  event.parameters = new Array()
+  return event
+}
+
+export function addressParam(name: string, value: Address): ethereum.EventParam {
+  return new ethereum.EventParam(name, ethereum.Value.fromAddress(value))
+}
+
+export function uintParam(name: string, value: BigInt): ethereum.EventParam {
+  return new ethereum.EventParam(name, ethereum.Value.fromUnsignedBigInt(value))
+}
+
+export function smallUintParam(name: string, value: i32): ethereum.EventParam {
+  return new ethereum.EventParam(name, ethereum.Value.fromI32(value))
+}
+
+export function bytes32Param(name: string, value: Bytes): ethereum.EventParam {
+  return new ethereum.EventParam(name, ethereum.Value.fromFixedBytes(value))
+}
+
+export function stringParam(name: string, value: string): ethereum.EventParam {
+  return new ethereum.EventParam(name, ethereum.Value.fromString(value))
+}
+
+/**
+ * 32-byte topic holding a left-padded address
+ */
+export function addressTopic(value: Address): Bytes {
+  return Bytes.fromHexString('0x000000000000000000000000' + value.toHexString().slice(2))
+}
@@ -0,0 +1,97 @@
+import { Address, BigInt, ethereum } from '@graphprotocol/graph-ts'
+import {
+  afterEach,
+  assert,
+  beforeEach,
+  clearStore,
+  createMockedFunction,
+  describe,
+  test,
+} from 'matchstick-as/assembly/index'
+import { InterestRateSet, Transfer } from '../generated/RebaseToken/RebaseToken'
+import { handleInterestRateSet, handleTransfer } from '../src/rebase-token'
+import { addressParam, ALICE, BOB, ether, mockEvent, uintParam, ZERO_ADDRESS } from './helpers'
+
+const TOKEN = Address.fromString('0x00000000000000000000000000000000000070c3')
+
+function mockHolder(holder: Address, balance: BigInt, shares: BigInt): void {
+  createMockedFunction(TOKEN, 'balanceOf', 'balanceOf(address):(uint256)')
+    .withArgs([ethereum.Value.fromAddress(holder)])
+    .returns([ethereum.Value.fromUnsignedBigInt(balance)])
+  createMockedFunction(TOKEN, 'sharesOf', 'sharesOf(address):(uint256)')
+    .withArgs([ethereum.Value.fromAddress(holder)])
+    .returns([ethereum.Value.fromUnsignedBigInt(shares)])
+}
+
+function mockSupply(supply: BigInt, shares: BigInt): void {
+  createMockedFunction(TOKEN, 'totalSupply', 'totalSupply():(uint256)').returns([
+    ethereum.Value.fromUnsignedBigInt(supply),
+  ])
+  createMockedFunction(TOKEN, 'getTotalShares', 'getTotalShares():(uint256)').returns([
+    ethereum.Value.fromUnsignedBigInt(shares),
+  ])
+}
+
+function createTransfer(from: Address, to: Address, value: BigInt, tx: i32): Transfer {
+  let event = changetype<Transfer>(mockEvent(from.equals(ZERO_ADDRESS) ? to : from, tx))
+  event.address = TOKEN
+  event.parameters.push(addressParam('from', from))
+  event.parameters.push(addressParam('to', to))
+  event.parameters.push(uintParam('value', value))
+  return event
+}
+
+describe('RebaseToken', () => {
+  beforeEach(() => {
+    mockSupply(ether(10), ether(5))
+  })
+
+  afterEach(() => {
+    clearStore()
+  })
+
+  test('mint activates the holder without counting the zero address as a user', () => {
+    mockHolder(ALICE, ether(10), ether(5))
+    handleTransfer(createTransfer(ZERO_ADDRESS, ALICE, ether(10), 1))
+
+    let alice = ALICE.toHexString()
+    assert.fieldEquals('User', alice, 'tokenBalance', ether(10).toString())
+    assert.fieldEquals('User', alice, 'tokenShares', ether(5).toString())
+    assert.fieldEquals('VaultStats', 'global', 'activeUsers', '1')
+    assert.fieldEquals('VaultStats', 'global', 'currentSupply', ether(10).toString())
+    assert.fieldEquals('GlobalStats', 'global', 'totalUsers', '1')
+    assert.fieldEquals('GlobalStats', 'global', 'totalShares', ether(5).toString())
+  })
+
+  test('activeUsers moves only when a holder crosses zero shares', () => {
+    mockHolder(ALICE, ether(10), ether(5))
+    handleTransfer(createTransfer(ZERO_ADDRESS, ALICE, ether(10), 1))
+
+    mockHolder(ALICE, ether(4), ether(2))
+    mockHolder(BOB, ether(6), ether(3))
+    handleTransfer(createTransfer(ALICE, BOB, ether(6), 2))
+    assert.fieldEquals('VaultStats', 'global', 'activeUsers', '2')
+
+    mockHolder(ALICE, BigInt.zero(), BigInt.zero())
+    mockHolder(BOB, ether(10), ether(5))
+    handleTransfer(createTransfer(ALICE, BOB, ether(4), 3))
+    assert.fieldEquals('VaultStats', 'global', 'activeUsers', '1')
+    assert.fieldEquals('User', ALICE.toHexString(), 'transactionCount', '3')
+    assert.entityCount('Transfer', 3)
+  })
+
+  test('interest rate changes keep the previous rate', () => {
+    let first = changetype<InterestRateSet>(mockEvent(ALICE, 1))
+    first.parameters.push(addressParam('user', ALICE))
+    first.parameters.push(uintParam('interestRate', BigInt.fromI32(1000)))
+    handleInterestRateSet(first)
+
+    let second = changetype<InterestRateSet>(mockEvent(ALICE, 2))
+    second.parameters.push(addressParam('user', ALICE))
+    second.parameters.push(uintParam('interestRate', BigInt.fromI32(900)))
+    handleInterestRateSet(second)
+
+    assert.fieldEquals('User', ALICE.toHexString(), 'interestRate', '900')
+    assert.entityCount('InterestRateChange', 2)
+  })
+})
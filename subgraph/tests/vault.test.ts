@@ -0,0 +1,132 @@
+import { BigInt } from '@graphprotocol/graph-ts'
+import { afterEach, assert, describe, test, clearStore } from 'matchstick-as/assembly/index'
+import {
+  Deposit,
+  InterestAccrualDetailed,
+  Redeem,
+} from '../generated/RebaseTokenVault/RebaseTokenVault'
+import { TierAdded, TierRemoved } from '../generated/AdvancedInterestStrategy/AdvancedInterestStrategy'
+import {
+  handleDeposit,
+  handleInterestAccrualDetailed,
+  handleRedeem,
+} from '../src/vault'
+import { handleTierAdded, handleTierRemoved } from '../src/advanced-strategy'
+import { addressParam, ALICE, BOB, ether, mockEvent, uintParam } from './helpers'
+
+function createDeposit(user: i32, amount: BigInt, tx: i32): Deposit {
+  let address = user == 0 ? ALICE : BOB
+  let event = changetype<Deposit>(mockEvent(address, tx))
+  event.parameters.push(addressParam('user', address))
+  event.parameters.push(uintParam('ethAmount', amount))
+  event.parameters.push(uintParam('tokensReceived', amount))
+  event.parameters.push(uintParam('interestRate', BigInt.fromI32(1000)))
+  return event
+}
+
+function createRedeem(tokenAmount: BigInt, ethReceived: BigInt, tx: i32): Redeem {
+  let event = changetype<Redeem>(mockEvent(ALICE, tx))
+  event.parameters.push(addressParam('user', ALICE))
+  event.parameters.push(uintParam('tokenAmount', tokenAmount))
+  event.parameters.push(uintParam('ethReceived', ethReceived))
+  return event
+}
+
+function createTierAdded(index: i32, minDeposit: BigInt, bonusRate: i32, tx: i32): TierAdded {
+  let event = changetype<TierAdded>(mockEvent(BOB, tx))
+  event.parameters.push(uintParam('tierIndex', BigInt.fromI32(index)))
+  event.parameters.push(uintParam('minDeposit', minDeposit))
+  event.parameters.push(uintParam('bonusRate', BigInt.fromI32(bonusRate)))
+  return event
+}
+
+describe('RebaseTokenVault', () => {
+  afterEach(() => {
+    clearStore()
+  })
+
+  test('deposit updates user and vault totals', () => {
+    handleDeposit(createDeposit(0, ether(2), 1))
+
+    let alice = ALICE.toHexString()
+    assert.fieldEquals('User', alice, 'totalDeposited', ether(2).toString())
+    assert.fieldEquals('User', alice, 'currentVaultBalance', ether(2).toString())
+    assert.fieldEquals('User', alice, 'currentShares', ether(2).toString())
+    assert.fieldEquals('User', alice, 'transactionCount', '1')
+    assert.fieldEquals('VaultStats', 'global', 'totalDeposited', ether(2).toString())
+    assert.fieldEquals('VaultStats', 'global', 'totalUsers', '1')
+    assert.fieldEquals('GlobalStats', 'global', 'totalValueLocked', ether(2).toString())
+    assert.fieldEquals('DailySnapshot', '1970-01-01', 'uniqueDepositors', '1')
+    assert.entityCount('Deposit', 1)
+  })
+
+  test('repeat depositors are counted once', () => {
+    handleDeposit(createDeposit(0, ether(1), 1))
+    handleDeposit(createDeposit(0, ether(1), 2))
+    handleDeposit(createDeposit(1, ether(3), 3))
+
+    assert.fieldEquals('User', ALICE.toHexString(), 'transactionCount', '2')
+    assert.fieldEquals('VaultStats', 'global', 'totalUsers', '2')
+    assert.fieldEquals('VaultStats', 'global', 'totalDeposited', ether(5).toString())
+    assert.fieldEquals('DailySnapshot', '1970-01-01', 'uniqueDepositors', '2')
+    assert.fieldEquals('GlobalStats', 'global', 'totalTransactions', '3')
+  })
+
+  test('redeem past the deposited amount floors the position at zero', () => {
+    handleDeposit(createDeposit(0, ether(2), 1))
+    handleRedeem(createRedeem(ether(2), ether(3), 2))
+
+    let alice = ALICE.toHexString()
+    assert.fieldEquals('User', alice, 'totalWithdrawn', ether(3).toString())
+    assert.fieldEquals('User', alice, 'currentVaultBalance', '0')
+    assert.fieldEquals('User', alice, 'currentShares', '0')
+    assert.fieldEquals('VaultStats', 'global', 'totalWithdrawn', ether(3).toString())
+    assert.fieldEquals('DailySnapshot', '1970-01-01', 'netDeposits', ether(-1).toString())
+  })
+
+  test('deposit tier follows the strategy tiers met by cumulative deposits', () => {
+    handleTierAdded(createTierAdded(0, ether(1), 50, 1))
+    handleTierAdded(createTierAdded(1, ether(10), 100, 2))
+
+    handleDeposit(createDeposit(0, ether(5), 3))
+    let alice = ALICE.toHexString()
+    assert.fieldEquals('User', alice, 'tier', 'Bronze')
+    assert.fieldEquals('User', alice, 'tierBonus', '50')
+
+    handleDeposit(createDeposit(0, ether(5), 4))
+    assert.fieldEquals('User', alice, 'tier', 'Silver')
+    assert.fieldEquals('User', alice, 'tierBonus', '100')
+    assert.fieldEquals('UserTier', alice, 'previousTier', 'Bronze')
+  })
+
+  test('deposit tier stops at the first unmet tier after a removal reorders them', () => {
+    handleTierAdded(createTierAdded(0, ether(1), 50, 1))
+    handleTierAdded(createTierAdded(1, ether(10), 100, 2))
+    handleTierAdded(createTierAdded(2, ether(100), 300, 3))
+
+    // Tiers become [100 ETH, 10 ETH]; getTierBonus stops at the first
+    let removed = changetype<TierRemoved>(mockEvent(BOB, 4))
+    removed.parameters.push(uintParam('tierIndex', BigInt.zero()))
+    handleTierRemoved(removed)
+
+    handleDeposit(createDeposit(0, ether(20), 5))
+    let alice = ALICE.toHexString()
+    assert.fieldEquals('User', alice, 'tier', 'Bronze')
+    assert.fieldEquals('User', alice, 'tierBonus', '0')
+  })
+
+  test('each detailed accrual is a rebase epoch', () => {
+    let event = changetype<InterestAccrualDetailed>(mockEvent(BOB, 1))
+    event.parameters.push(uintParam('supplyBefore', ether(100)))
+    event.parameters.push(uintParam('interestAccrued', ether(1)))
+    event.parameters.push(uintParam('protocolFee', BigInt.zero()))
+    event.parameters.push(uintParam('supplyAfter', ether(101)))
+    event.parameters.push(uintParam('periods', BigInt.fromI32(1)))
+    handleInterestAccrualDetailed(event)
+
+    assert.fieldEquals('Rebase', '0', 'delta', ether(1).toString())
+    assert.fieldEquals('Rebase', '0', 'percentChange', '1')
+    assert.fieldEquals('GlobalStats', 'global', 'totalRebases', '1')
+    assert.fieldEquals('VaultStats', 'global', 'currentSupply', ether(101).toString())
+  })
+})
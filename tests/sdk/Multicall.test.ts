@@ -0,0 +1,69 @@
+import { ethers, Provider, TransactionRequest } from 'ethers';
+import { BaseroSDK, NetworkConfig } from '../../sdk/src/BaseroSDK';
+
+const USER = '0x00000000000000000000000000000000000000aa';
+const MULTICALL3 = '0x00000000000000000000000000000000000000ca';
+
+const config: NetworkConfig = {
+  chainId: 31337,
+  rpcUrl: 'http://127.0.0.1:8545',
+  tokenAddress: '0x0000000000000000000000000000000000000001',
+  vaultAddress: '0x0000000000000000000000000000000000000002',
+  bridgeAddress: '0x0000000000000000000000000000000000000003',
+  governorAddress: '0x0000000000000000000000000000000000000004',
+  timelockAddress: '0x0000000000000000000000000000000000000005',
+  votingEscrowAddress: '0x0000000000000000000000000000000000000006',
+  multicall3Address: MULTICALL3,
+};
+
+const aggregator = new ethers.Interface([
+  'function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)',
+]);
+const word = (value: bigint) => ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [value]);
+
+/**
+ * Node stand-in that answers every read with 1 ether and records what reached it
+ */
+function fakeProvider() {
+  const calls: TransactionRequest[] = [];
+  const provider = {
+    async call(tx: TransactionRequest): Promise<string> {
+      calls.push(tx);
+      if (tx.to !== MULTICALL3) return word(ethers.WeiPerEther);
+
+      const [batch] = aggregator.decodeFunctionData('aggregate3', tx.data!);
+      return aggregator.encodeFunctionResult('aggregate3', [batch.map(() => [true, word(ethers.WeiPerEther)])]);
+    },
+  };
+  return { provider: provider as unknown as Provider, calls };
+}
+
+describe('BaseroSDK read batching', () => {
+  it('batches getBalance into one aggregate when a signer is configured', async () => {
+    const { provider, calls } = fakeProvider();
+    const signer = new ethers.Wallet(ethers.Wallet.createRandom().privateKey, provider);
+    const sdk = new BaseroSDK(provider, config, signer);
+
+    const balance = await sdk.getBalance(USER);
+
+    expect(balance.token.formatted).toBe('1.0');
+    expect(balance.vault.formatted).toBe('1.0');
+    expect(balance.votingEscrow.formatted).toBe('1.0');
+    expect(calls).toHaveLength(1);
+    expect(calls[0].to).toBe(MULTICALL3);
+    expect(calls[0].from).toBeUndefined();
+    expect(sdk.getMulticall().getStats()).toMatchObject({ calls: 3, batches: 1, direct: 0 });
+  });
+
+  it('batches VaultHelper.getMetrics when a signer is configured', async () => {
+    const { provider, calls } = fakeProvider();
+    const signer = new ethers.Wallet(ethers.Wallet.createRandom().privateKey, provider);
+    const sdk = new BaseroSDK(provider, config, signer);
+
+    const metrics = await sdk.getVault().getMetrics();
+
+    expect(metrics.totalEthDeposited.raw).toBe(ethers.WeiPerEther);
+    expect(calls).toHaveLength(1);
+    expect(sdk.getMulticall().getStats()).toMatchObject({ calls: 5, batches: 1 });
+  });
+});
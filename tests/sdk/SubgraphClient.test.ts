@@ -0,0 +1,357 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { ethers, Provider } from 'ethers';
+import { SubgraphClient } from '../../sdk/src/SubgraphClient';
+import { RebaseTokenVaultAbi } from '../../sdk/src/generated';
+
+interface GraphQLRequest {
+  query: string;
+  variables: Record<string, any>;
+  headers: IncomingMessage['headers'];
+}
+
+type Handler = (request: GraphQLRequest) => { status?: number; body: unknown };
+
+/**
+ * Local GraphQL endpoint answering with whatever the current test's handler returns
+ */
+class MockGraphQLServer {
+  requests: GraphQLRequest[] = [];
+  handler: Handler = () => ({ body: { data: {} } });
+  private server: Server = createServer((req, res) => this.handle(req, res));
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/subgraphs/name/basero`;
+  }
+
+  start(): Promise<void> {
+    return new Promise(resolve => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      const { query, variables } = JSON.parse(raw);
+      const request = { query, variables, headers: req.headers };
+      this.requests.push(request);
+
+      const { status = 200, body } = this.handler(request);
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(typeof body === 'string' ? body : JSON.stringify(body));
+    });
+  }
+}
+
+const USER = '0x00000000000000000000000000000000000000aa';
+const VAULT = '0x0000000000000000000000000000000000000bbb';
+
+function rawDeposit(id: string, blockNumber: number) {
+  return {
+    id,
+    user: { id: USER },
+    amount: '1000000000000000000',
+    shares: '990000000000000000',
+    interestRate: 500,
+    timestamp: String(1_700_000_000 + blockNumber),
+    blockNumber: String(blockNumber),
+    transactionHash: `0x${id.padStart(64, '0')}`,
+  };
+}
+
+/**
+ * Answer `deposits` page queries the way graph-node would: newest first, filtered by the cursor fields
+ */
+function depositsResolver(deposits: ReturnType<typeof rawDeposit>[]): Handler {
+  return ({ variables }) => {
+    const where = variables.where ?? {};
+    const items = deposits
+      .filter(d => where.blockNumber_lte === undefined || Number(d.blockNumber) <= Number(where.blockNumber_lte))
+      .filter(d => !(where.id_not_in ?? []).includes(d.id))
+      .sort((a, b) => Number(b.blockNumber) - Number(a.blockNumber))
+      .slice(0, variables.first);
+    return { body: { data: { items } } };
+  };
+}
+
+describe('SubgraphClient', () => {
+  const server = new MockGraphQLServer();
+  let client: SubgraphClient;
+
+  beforeAll(() => server.start());
+  afterAll(() => server.stop());
+
+  beforeEach(() => {
+    server.requests = [];
+    client = new SubgraphClient({ url: server.url, headers: { Authorization: 'Bearer test' } });
+  });
+
+  describe('query', () => {
+    it('posts the document and variables and returns data', async () => {
+      server.handler = () => ({ body: { data: { _meta: { block: { number: 42 } } } } });
+
+      const data = await client.query('query Meta($x: Int) { _meta { block { number } } }', { x: 1 });
+
+      expect(data).toEqual({ _meta: { block: { number: 42 } } });
+      expect(client.source).toBe('subgraph');
+      expect(server.requests).toHaveLength(1);
+      expect(server.requests[0].query).toContain('_meta');
+      expect(server.requests[0].variables).toEqual({ x: 1 });
+      expect(server.requests[0].headers.authorization).toBe('Bearer test');
+      expect(server.requests[0].headers['content-type']).toBe('application/json');
+    });
+
+    it('rejects with the messages of a GraphQL errors body', async () => {
+      server.handler = () => ({
+        body: { errors: [{ message: 'Type `Query` has no field `nope`' }, { message: 'second' }] },
+      });
+
+      await expect(client.query('{ nope }')).rejects.toThrow(
+        'Subgraph query failed: Type `Query` has no field `nope`; second'
+      );
+    });
+
+    it('rejects on HTTP failures', async () => {
+      server.handler = () => ({ status: 502, body: 'bad gateway' });
+
+      await expect(client.query('{ _meta { hasIndexingErrors } }')).rejects.toThrow('Subgraph request failed: 502');
+    });
+
+    it('rejects when the response has no data', async () => {
+      server.handler = () => ({ body: {} });
+
+      await expect(client.query('{ _meta { hasIndexingErrors } }')).rejects.toThrow('Subgraph returned no data');
+    });
+  });
+
+  describe('typed entity queries', () => {
+    it('maps a user portfolio to bigints', async () => {
+      server.handler = ({ variables }) => ({
+        body: {
+          data: {
+            user: {
+              id: variables.id,
+              totalDeposited: '3000000000000000000',
+              totalWithdrawn: '1000000000000000000',
+              currentVaultBalance: '2000000000000000000',
+              currentShares: '1900000000000000000',
+              tokenBalance: '2100000000000000000',
+              tokenShares: '1900000000000000000',
+              interestRate: 500,
+              votingPower: '5',
+              delegatedTo: { id: USER },
+              totalBridged: '0',
+              totalReceived: '0',
+              tier: 'Silver',
+              tierBonus: 50,
+              firstSeenTimestamp: '1700000000',
+              firstSeenBlock: '10',
+              lastActivityTimestamp: '1700000100',
+              transactionCount: '4',
+            },
+          },
+        },
+      });
+
+      const portfolio = await client.getUserPortfolio(ethers.getAddress(USER));
+
+      expect(server.requests[0].variables).toEqual({ id: USER });
+      expect(portfolio).toMatchObject({
+        id: USER,
+        totalDeposited: 3_000_000_000_000_000_000n,
+        currentShares: 1_900_000_000_000_000_000n,
+        delegatedTo: USER,
+        tier: 'Silver',
+        transactionCount: 4n,
+      });
+    });
+
+    it('returns null for an unknown user', async () => {
+      server.handler = () => ({ body: { data: { user: null } } });
+
+      await expect(client.getUserPortfolio(USER)).resolves.toBeNull();
+    });
+
+    it('maps a proposal and its votes', async () => {
+      server.handler = () => ({
+        body: {
+          data: {
+            proposal: {
+              id: '7',
+              proposalId: '7',
+              proposer: { id: USER },
+              targets: [VAULT],
+              values: ['0'],
+              signatures: [''],
+              calldatas: ['0x'],
+              description: '# Raise cap',
+              title: 'Raise cap',
+              proposalType: 1,
+              startBlock: '100',
+              endBlock: '200',
+              state: 'Active',
+              forVotes: '10',
+              againstVotes: '2',
+              abstainVotes: '0',
+              eta: null,
+              queuedAt: null,
+              executedAt: null,
+              canceledAt: null,
+              createdAt: '1700000000',
+              createdAtBlock: '99',
+              transactionHash: '0x01',
+              votes: [
+                {
+                  id: `7-${USER}`,
+                  proposal: { proposalId: '7' },
+                  voter: { id: USER },
+                  support: true,
+                  supportType: 1,
+                  votes: '10',
+                  reason: '',
+                  timestamp: '1700000050',
+                  blockNumber: '150',
+                  transactionHash: '0x02',
+                },
+              ],
+            },
+          },
+        },
+      });
+
+      const proposal = await client.getProposal(7n, 5);
+
+      expect(server.requests[0].variables).toEqual({ id: '7' });
+      expect(server.requests[0].query).toContain('votes(first: 5');
+      expect(proposal).toMatchObject({ proposalId: 7n, state: 'Active', forVotes: 10n, eta: null, values: [0n] });
+      expect(proposal!.votes).toEqual([expect.objectContaining({ proposalId: 7n, voter: USER, votes: 10n })]);
+    });
+
+    it('passes entity filters through to the where clause', async () => {
+      server.handler = () => ({ body: { data: { items: [] } } });
+
+      await client.getBridgeTransfers({ sender: ethers.getAddress(USER), status: 'Sent', first: 10 });
+
+      expect(server.requests[0].query).toContain('bridgeTransfers(');
+      expect(server.requests[0].variables).toEqual({ first: 11, where: { sender: USER, status: 'Sent' } });
+    });
+  });
+
+  describe('pagination', () => {
+    // Three deposits share block 9, so cursors must carry ids across pages
+    const deposits = [
+      rawDeposit('a', 10),
+      rawDeposit('b', 9),
+      rawDeposit('c', 9),
+      rawDeposit('d', 9),
+      rawDeposit('e', 8),
+    ];
+
+    beforeEach(() => {
+      server.handler = depositsResolver(deposits);
+    });
+
+    it('follows cursors across pages and stops at the end', async () => {
+      const first = await client.getDeposits(USER, { first: 2 });
+      expect(first.items.map(d => d.id)).toEqual(['a', 'b']);
+      expect(first.hasMore).toBe(true);
+      expect(server.requests[0].variables).toEqual({ first: 3, where: { user: USER } });
+
+      const second = await client.getDeposits(USER, { first: 2, after: first.cursor! });
+      expect(second.items.map(d => d.id)).toEqual(['c', 'd']);
+      expect(second.hasMore).toBe(true);
+      expect(server.requests[1].variables.where).toEqual({ user: USER, blockNumber_lte: '9', id_not_in: ['b'] });
+
+      const third = await client.getDeposits(USER, { first: 2, after: second.cursor! });
+      expect(third.items.map(d => d.id)).toEqual(['e']);
+      expect(third.hasMore).toBe(false);
+      expect(third.cursor).toBeNull();
+      expect(server.requests[2].variables.where).toEqual({
+        user: USER,
+        blockNumber_lte: '9',
+        id_not_in: ['b', 'c', 'd'],
+      });
+    });
+
+    it('iterates every item with one request per page', async () => {
+      const ids: string[] = [];
+      for await (const deposit of client.iterate(options => client.getDeposits(undefined, options), 2)) {
+        ids.push(deposit.id);
+      }
+
+      expect(ids).toEqual(['a', 'b', 'c', 'd', 'e']);
+      expect(server.requests).toHaveLength(3);
+    });
+
+    it('rejects a malformed cursor', async () => {
+      await expect(client.getDeposits(USER, { after: 'not-a-cursor' })).rejects.toThrow('Invalid cursor');
+      expect(server.requests).toHaveLength(0);
+    });
+  });
+
+  describe('log fallback', () => {
+    const vault = new ethers.Interface(RebaseTokenVaultAbi);
+
+    function depositLog(blockNumber: number, index: number, ethAmount: bigint) {
+      const { topics, data } = vault.encodeEventLog('Deposit', [USER, ethAmount, ethAmount, 500n]);
+      return {
+        address: VAULT,
+        topics,
+        data,
+        blockNumber,
+        blockHash: ethers.id(`block-${blockNumber}`),
+        transactionHash: ethers.id(`tx-${blockNumber}-${index}`),
+        transactionIndex: 0,
+        index,
+        removed: false,
+      };
+    }
+
+    const logs = [depositLog(3, 0, 1n), depositLog(5, 0, 2n), depositLog(5, 1, 3n)];
+
+    const provider = {
+      getBlockNumber: async () => 6,
+      getBlock: async (number: number) => ({ number, hash: ethers.id(`block-${number}`), timestamp: 1_000 + number }),
+      getLogs: async (filter: { fromBlock: number; toBlock: number }) =>
+        logs.filter(log => log.blockNumber >= filter.fromBlock && log.blockNumber <= filter.toBlock),
+      getTransaction: async () => null,
+    } as unknown as Provider;
+
+    beforeEach(() => {
+      client = new SubgraphClient({ provider, network: { vaultAddress: VAULT } });
+    });
+
+    it('answers entity queries from logs without contacting a subgraph', async () => {
+      const page = await client.getDeposits(USER);
+
+      expect(client.source).toBe('logs');
+      expect(page.items.map(d => d.amount)).toEqual([3n, 2n, 1n]);
+      expect(page.items[0]).toMatchObject({ user: USER, blockNumber: 5n, timestamp: 1_005n, interestRate: 500 });
+      expect(server.requests).toHaveLength(0);
+    });
+
+    it('paginates logs with the same cursors', async () => {
+      const first = await client.getDeposits(undefined, { first: 1 });
+      const second = await client.getDeposits(undefined, { first: 1, after: first.cursor! });
+      const third = await client.getDeposits(undefined, { first: 1, after: second.cursor! });
+
+      expect([...first.items, ...second.items, ...third.items].map(d => d.amount)).toEqual([3n, 2n, 1n]);
+      expect(third.cursor).toBeNull();
+    });
+
+    it('rebuilds portfolios from logs', async () => {
+      const portfolio = await client.getUserPortfolio(USER);
+
+      expect(portfolio).toMatchObject({ totalDeposited: 6n, firstSeenBlock: 3n, transactionCount: 3n });
+      await expect(client.getUserPortfolio(VAULT)).resolves.toBeNull();
+    });
+
+    it('refuses raw queries', async () => {
+      await expect(client.query('{ deposits { id } }')).rejects.toThrow('Subgraph URL not configured');
+    });
+  });
+});